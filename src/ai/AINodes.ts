@@ -0,0 +1,764 @@
+import * as THREE from 'three';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Projectile } from '../components/Projectile';
+import { AIBehavior, AITriggerUsage } from '../components/AI';
+import { TRIGGER_DEFINITIONS, TriggerCategory, TriggerType } from '../triggers/TriggerDefinitions';
+import { NavigationSystem } from '../systems/NavigationSystem';
+import { GrasshopperSystem } from '../systems/GrasshopperSystem';
+import { SwordActionSystem } from '../systems/SwordActionSystem';
+import { EnvironmentSystem } from '../systems/EnvironmentSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+import { Action, AIContext, Condition, NodeStatus } from './BehaviorTree';
+import { NavLinkType, NavPathOptions } from './NavMesh';
+
+/**
+ * ビヘイビアツリーで使う条件・行動ノードの生成ユーティリティ
+ *
+ * AIの入力は自身の向き（Input.lookDirection.x）を基準に解釈される
+ * moveDirection.y が前後、moveDirection.x が左右
+ * 目的地への移動はナビメッシュの経路に沿い、周囲のキャラクターを避ける
+ * 左手（Cスロット）のシールド・グラスホッパーは必要なときに持ち替えて使う
+ * 見失ったターゲットは最後に確認した位置を目指し、再び見えるまで攻撃しない
+ */
+export class AINodes {
+  // ===== 条件 =====
+
+  /**
+   * ターゲットを捕捉しているか
+   */
+  static hasTarget(): Condition {
+    return new Condition('hasTarget', context => AINodes.getTargetPosition(context) !== null);
+  }
+
+  /**
+   * ターゲットが指定距離以内にいるか
+   */
+  static targetWithin(distance: number | ((context: AIContext) => number)): Condition {
+    return new Condition('targetWithin', context => {
+      const limit = typeof distance === 'number' ? distance : distance(context);
+      return AINodes.getTargetDistance(context) <= limit;
+    });
+  }
+
+  /**
+   * 現在のトリガーの射程内にターゲットがいるか
+   */
+  static targetInWeaponRange(): Condition {
+    return new Condition('targetInWeaponRange', context => {
+      const currentTrigger = context.trigger?.currentTrigger;
+      if (!currentTrigger) return false;
+      const range = Math.min(TRIGGER_DEFINITIONS[currentTrigger].range, context.ai.config.attackRange);
+      // 近接武器は踏み込みの分だけ余裕を持たせる
+      return AINodes.getTargetDistance(context) <= Math.max(range, 3);
+    });
+  }
+
+  /**
+   * トリオン残量が撤退の閾値を下回っているか
+   */
+  static lowTrion(): Condition {
+    return new Condition('lowTrion', context =>
+      context.ai.shouldRetreat(context.character.getTrionPercentage())
+    );
+  }
+
+  /**
+   * シールドを展開しているか
+   */
+  static shieldUp(): Condition {
+    return new Condition('shieldUp', context => context.shield?.active ?? false);
+  }
+
+  /**
+   * 右手に指定カテゴリのトリガーを構えているか
+   */
+  static holding(categories: TriggerCategory[]): Condition {
+    return new Condition('holding', context => {
+      const currentTrigger = context.trigger?.currentTrigger;
+      return !!currentTrigger && categories.includes(TRIGGER_DEFINITIONS[currentTrigger].category);
+    });
+  }
+
+  /**
+   * 指定秒数以内に攻撃したか
+   */
+  static attackedWithin(seconds: number): Condition {
+    return new Condition('attackedWithin', context => context.ai.timeSinceAttack <= seconds);
+  }
+
+  /**
+   * 自分に向かってくる敵の弾があるか
+   */
+  static projectileInbound(): Condition {
+    return new Condition('projectileInbound', context => AINodes.findInboundProjectile(context) !== null);
+  }
+
+  /**
+   * 部隊から撤退の指示が出ているか
+   */
+  static retreatOrdered(): Condition {
+    return new Condition('retreatOrdered', context => !!context.squad?.retreatOrdered && !!context.squad.rallyPoint);
+  }
+
+  // ===== 行動 =====
+
+  /**
+   * 指定カテゴリのトリガーを優先順に選び、必要なら武器を生成する
+   * 切り替え中はRUNNING、該当するトリガーがなければ失敗
+   */
+  static equip(categories: TriggerCategory[]): Action {
+    return new Action(`equip(${categories.join('/')})`, null, context => {
+      const trigger = context.trigger;
+      if (!trigger || trigger.rightHandLost) return NodeStatus.FAILURE;
+
+      const slot = AINodes.findSlot(context, categories);
+      if (slot === null) return NodeStatus.FAILURE;
+
+      if (trigger.currentTrigger !== trigger.getTriggerAtSlot(slot)) {
+        context.input.triggerSlot = slot;
+        return NodeStatus.RUNNING;
+      }
+
+      if (AINodes.needsWeapon(TRIGGER_DEFINITIONS[trigger.currentTrigger!].category) && !trigger.weaponGenerated) {
+        context.input.generateWeapon = true;
+        return NodeStatus.RUNNING;
+      }
+
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  /**
+   * 構えているトリガーでターゲットを攻撃
+   * 命中精度に応じて照準がぶれる
+   */
+  static attack(): Action {
+    return new Action('attack', AIBehavior.ATTACK, context => {
+      const trigger = context.trigger;
+      const targetPosition = AINodes.getTargetPosition(context);
+      if (!trigger?.currentTrigger || !targetPosition || !context.ai.canAttack() || !AINodes.canSeeTarget(context)) {
+        return NodeStatus.FAILURE;
+      }
+
+      const state = trigger.states.get(trigger.currentTrigger);
+      const definition = TRIGGER_DEFINITIONS[trigger.currentTrigger];
+      if (!state || (state.cooldownRemaining > 0 && definition.category !== TriggerCategory.SNIPER)) {
+        return NodeStatus.FAILURE;
+      }
+      if (AINodes.needsWeapon(definition.category) && !trigger.weaponGenerated) {
+        return NodeStatus.FAILURE;
+      }
+
+      const hitChance = context.ai.calculateHitChance(AINodes.getTargetDistance(context));
+      AINodes.faceTowards(context, targetPosition, (1 - hitChance) * 0.2);
+
+      context.input.mainRightAction = true;
+      if (definition.category === TriggerCategory.GUNNER) {
+        context.input.isMainActionHeld = true;
+      }
+      context.ai.performAttack();
+
+      const icon = definition.category === TriggerCategory.ATTACKER ? '⚔️' : '🏹';
+      console.log(`${icon} AI ${context.entity.id} [${context.ai.config.tactics}]: ${trigger.currentTrigger}で攻撃`);
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  /**
+   * 旋空弧月：中距離のターゲットへ刀身を伸ばして斬る
+   * 伸ばし始めてから伸びきるまで待って振るため、その間はRUNNING
+   */
+  static senkuStrike(): Action {
+    let windupStart: number | null = null;
+
+    return new Action('senkuStrike', AIBehavior.ATTACK, context => {
+      const config = GAME_CONFIG.AI_TRIGGERS;
+      const trigger = context.trigger;
+      const targetPosition = AINodes.getTargetPosition(context);
+      const swordActionSystem = context.world.getSystem(SwordActionSystem);
+      const distance = AINodes.getTargetDistance(context);
+      if (!trigger || !targetPosition || !swordActionSystem || !AINodes.canSeeTarget(context) ||
+          trigger.currentTrigger !== TriggerType.KOGETSU || !trigger.weaponGenerated ||
+          !AINodes.hasMainTrigger(context, TriggerType.SENKU) ||
+          distance < config.SENKU_MIN_DISTANCE || distance > config.SENKU_MAX_DISTANCE) {
+        windupStart = null;
+        return NodeStatus.FAILURE;
+      }
+
+      AINodes.faceTowards(context, targetPosition);
+
+      // 刀身を伸ばし始める（伸長は0.2秒で終わる）
+      if (windupStart === null || context.time - windupStart > 0.2) {
+        const state = trigger.states.get(TriggerType.KOGETSU);
+        if (!context.ai.canAttack() || (state?.cooldownRemaining ?? 0) > 0) return NodeStatus.FAILURE;
+
+        swordActionSystem.activateBladeExtensionExternal(context.entity, context.character, true);
+        windupStart = context.time;
+        return NodeStatus.RUNNING;
+      }
+
+      // 伸びきる頃に振る
+      if (context.time - windupStart < config.SENKU_WINDUP) return NodeStatus.RUNNING;
+
+      windupStart = null;
+      context.input.mainRightAction = true;
+      context.ai.performAttack();
+      console.log(`🌀 AI ${context.entity.id} [${context.ai.config.tactics}]: 旋空弧月 (距離: ${distance.toFixed(1)})`);
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  /**
+   * 飛んでくる弾の方へ左手のシールドを張る（左手に構えていなければ持ち替える）
+   * 押した次のフレームで離すと展開される
+   */
+  static raiseShield(): Action {
+    return new Action('raiseShield', AIBehavior.DEFEND, context => {
+      const trigger = context.trigger;
+      const threat = AINodes.findInboundProjectile(context);
+      if (!trigger || trigger.leftHandLost || !context.shield || !threat) return NodeStatus.FAILURE;
+
+      if (trigger.leftCurrentTrigger !== TriggerType.SHIELD) {
+        const slot = AINodes.findCSlot(context, TriggerType.SHIELD);
+        if (slot === null) return NodeStatus.FAILURE;
+        context.input.leftTriggerSlot = slot;
+        return NodeStatus.RUNNING;
+      }
+
+      AINodes.faceTowards(context, threat.getComponent(Transform)!.position);
+      context.input.mainLeftAction = true;
+      console.log(`🛡️ AI ${context.entity.id}: 被弾に備えてシールド`);
+      return NodeStatus.RUNNING;
+    });
+  }
+
+  /**
+   * グラスホッパーで弾の進路から横へ跳んで避ける
+   */
+  static dodge(): Action {
+    return new Action('dodge', null, context => {
+      const threat = AINodes.findInboundProjectile(context);
+      if (!threat) return NodeStatus.FAILURE;
+
+      const velocity = threat.getComponent(Projectile)!.velocity.clone().setY(0);
+      if (velocity.lengthSq() < 0.0001) return NodeStatus.FAILURE;
+
+      // 弾の進路に対して自分がいる側へ跳ぶ
+      const side = new THREE.Vector3(-velocity.z, 0, velocity.x);
+      const offset = context.transform.position.clone().sub(threat.getComponent(Transform)!.position);
+      if (offset.dot(side) < 0) side.negate();
+
+      const status = AINodes.blink(context, side);
+      if (status === NodeStatus.SUCCESS) {
+        console.log(`🦗 AI ${context.entity.id}: グラスホッパーで回避`);
+      }
+      return status;
+    });
+  }
+
+  /**
+   * グラスホッパーで一気に間合いを詰める
+   * 跳んだ先が壁の中にならないよう、同じ高さの面でまっすぐ行けるときだけ使う
+   */
+  static blinkIn(): Action {
+    return new Action('blinkIn', AIBehavior.CHASE, context => {
+      const config = GAME_CONFIG.AI_TRIGGERS;
+      const targetPosition = AINodes.getTargetFootPosition(context);
+      const distance = AINodes.getTargetDistance(context);
+      if (!targetPosition || !AINodes.canSeeTarget(context) ||
+          distance < config.BLINK_MIN_DISTANCE || distance > config.BLINK_MAX_DISTANCE) {
+        return NodeStatus.FAILURE;
+      }
+
+      const position = context.transform.position;
+      const navMesh = context.world.getSystem(NavigationSystem)?.getNavMesh();
+      if (navMesh && !navMesh.hasDirectPath(position, targetPosition)) return NodeStatus.FAILURE;
+
+      return AINodes.blink(context, targetPosition.clone().sub(position));
+    });
+  }
+
+  /**
+   * 経路に沿ってターゲットに接近する
+   */
+  static approach(): Action {
+    return new Action('approach', AIBehavior.CHASE, context => {
+      const targetPosition = AINodes.getTargetPosition(context);
+      if (!targetPosition) return NodeStatus.FAILURE;
+
+      if (!AINodes.moveTo(context, targetPosition)) return NodeStatus.FAILURE;
+      context.input.dash = AINodes.getTargetDistance(context) > 15;
+
+      // 間合いに入ったら斬りかかれるよう相手を向く
+      if (AINodes.getTargetDistance(context) < 5) {
+        AINodes.faceTowards(context, targetPosition);
+      }
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  /**
+   * 戦術ごとの理想距離を保ちながら横に動く
+   */
+  static engage(): Action {
+    return new Action('engage', AIBehavior.ATTACK, context => {
+      const targetPosition = AINodes.getTargetPosition(context);
+      if (!targetPosition) return NodeStatus.FAILURE;
+
+      const offset = AINodes.getTargetDistance(context) - context.ai.getIdealCombatDistance();
+      const forward = offset > 2 ? 0.8 : offset < -2 ? -0.8 : 0;
+
+      AINodes.faceTowards(context, targetPosition);
+      const toTarget = targetPosition.clone().sub(context.transform.position).setY(0).normalize();
+      const right = new THREE.Vector3(-toTarget.z, 0, toTarget.x);
+      AINodes.steer(context, toTarget.multiplyScalar(forward).addScaledVector(right, AINodes.weave(context, 0.8)));
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  /**
+   * その場に留まってターゲットを狙い続ける
+   */
+  static holdPosition(): Action {
+    return new Action('holdPosition', AIBehavior.DEFEND, context => {
+      const targetPosition = AINodes.getTargetPosition(context);
+      if (!targetPosition) return NodeStatus.FAILURE;
+
+      AINodes.faceTowards(context, targetPosition);
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  /**
+   * ターゲットから離れた地点へ全力で離脱する
+   */
+  static retreat(): Action {
+    return new Action('retreat', AIBehavior.RETREAT, context => {
+      const targetPosition = AINodes.getTargetPosition(context);
+      if (!targetPosition) return NodeStatus.FAILURE;
+
+      const position = context.transform.position;
+      const away = position.clone().sub(targetPosition).setY(0).normalize();
+      const limit = (context.world.getSystem(EnvironmentSystem)?.getHalfExtent() ?? GAME_CONFIG.MOVEMENT.ARENA_BOUNDS) - 1;
+      const destination = position.clone().addScaledVector(away, 10);
+      destination.x = THREE.MathUtils.clamp(destination.x, -limit, limit);
+      destination.z = THREE.MathUtils.clamp(destination.z, -limit, limit);
+
+      // 追い詰められて離れられない場合は失敗（他の行動に任せる）
+      if (destination.distanceTo(position) < 2 || !AINodes.moveTo(context, destination)) {
+        return NodeStatus.FAILURE;
+      }
+      context.input.dash = true;
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  /**
+   * パトロールポイントを巡回する
+   */
+  static patrol(): Action {
+    return new Action('patrol', AIBehavior.PATROL, context => {
+      const ai = context.ai;
+      if (ai.patrolPoints.length === 0) return NodeStatus.FAILURE;
+
+      const position = context.transform.position;
+      let point = ai.patrolPoints[ai.currentPatrolIndex];
+      if (Math.hypot(point.x - position.x, point.z - position.z) < 2) {
+        ai.getNextPatrolPoint();
+        point = ai.patrolPoints[ai.currentPatrolIndex];
+      }
+
+      // 届かない巡回地点は飛ばす
+      if (!AINodes.moveTo(context, point, 0.5)) {
+        ai.getNextPatrolPoint();
+      }
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  /**
+   * 聞こえた物音（爆発など）の方へ様子を見に行く
+   */
+  static investigateNoise(): Action {
+    return new Action('investigateNoise', AIBehavior.CHASE, context => {
+      const noise = context.perception?.noise;
+      if (!noise) return NodeStatus.FAILURE;
+      return AINodes.moveTo(context, noise.position) ? NodeStatus.SUCCESS : NodeStatus.FAILURE;
+    });
+  }
+
+  /**
+   * 部隊の集合地点へ退き、着いたら追ってくる敵に備える
+   */
+  static regroup(): Action {
+    return new Action('regroup', AIBehavior.RETREAT, context => {
+      const rallyPoint = context.squad?.rallyPoint;
+      if (!rallyPoint) return NodeStatus.FAILURE;
+
+      const position = context.transform.position;
+      if (Math.hypot(rallyPoint.x - position.x, rallyPoint.z - position.z) < 2) {
+        const targetPosition = AINodes.getTargetPosition(context);
+        if (targetPosition) AINodes.faceTowards(context, targetPosition);
+        return NodeStatus.SUCCESS;
+      }
+
+      if (!AINodes.moveTo(context, rallyPoint)) return NodeStatus.FAILURE;
+      context.input.dash = true;
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  /**
+   * 前衛の斜め後ろ（ターゲットの反対側）の援護位置につく
+   * 位置についている、または前衛がいなければ失敗（射撃など他の行動に任せる）
+   */
+  static cover(): Action {
+    return new Action('cover', AIBehavior.CHASE, context => {
+      const config = GAME_CONFIG.SQUAD;
+      const leaderId = context.squad?.pushLeaderId;
+      const targetPosition = AINodes.getTargetPosition(context);
+      if (leaderId === null || leaderId === undefined || leaderId === context.entity.id || !targetPosition) {
+        return NodeStatus.FAILURE;
+      }
+
+      const leader = context.world.getEntityById(leaderId)?.getComponent(Transform);
+      if (!leader) return NodeStatus.FAILURE;
+
+      const back = leader.position.clone().sub(targetPosition).setY(0);
+      if (back.lengthSq() < 0.0001) return NodeStatus.FAILURE;
+      back.normalize();
+      const side = new THREE.Vector3(-back.z, 0, back.x).multiplyScalar(
+        context.entity.id % 2 === 0 ? config.COVER_SPREAD : -config.COVER_SPREAD
+      );
+      const coverPoint = leader.position.clone().addScaledVector(back, config.COVER_DISTANCE).add(side);
+
+      const position = context.transform.position;
+      if (Math.hypot(coverPoint.x - position.x, coverPoint.z - position.z) < config.COVER_TOLERANCE) {
+        return NodeStatus.FAILURE;
+      }
+      return AINodes.moveTo(context, coverPoint) ? NodeStatus.RUNNING : NodeStatus.FAILURE;
+    });
+  }
+
+  /**
+   * 部隊が見つけた高所へ向かい、着いたら敵の方を見張る
+   * 高所がない、または着いた状態でターゲットがいれば失敗（狙撃に任せる）
+   */
+  static takeOverwatch(): Action {
+    return new Action('takeOverwatch', null, context => {
+      const overwatchPoint = context.squad?.overwatchPoint;
+      if (!overwatchPoint) return NodeStatus.FAILURE;
+
+      const position = context.transform.position;
+      const arrived = Math.hypot(overwatchPoint.x - position.x, overwatchPoint.z - position.z) < 1 &&
+        position.y >= overwatchPoint.y - GAME_CONFIG.NAVIGATION.STEP_HEIGHT;
+      if (!arrived) {
+        if (!AINodes.moveTo(context, overwatchPoint)) return NodeStatus.FAILURE;
+        context.ai.changeBehavior(AIBehavior.CHASE);
+        return NodeStatus.RUNNING;
+      }
+
+      if (context.target) return NodeStatus.FAILURE;
+
+      const enemyCentroid = context.squad?.getEnemyCentroid();
+      if (enemyCentroid) AINodes.faceTowards(context, enemyCentroid.setY(enemyCentroid.y + 1.2));
+      context.ai.changeBehavior(AIBehavior.DEFEND);
+      return NodeStatus.SUCCESS;
+    });
+  }
+
+  // ===== 補助 =====
+
+  /**
+   * ターゲットの胴体の位置
+   */
+  static getTargetPosition(context: AIContext): THREE.Vector3 | null {
+    const position = AINodes.getTargetFootPosition(context);
+    return position ? position.setY(position.y + 1.2) : null;
+  }
+
+  /**
+   * ターゲットまでの距離（ターゲットがいなければInfinity）
+   */
+  static getTargetDistance(context: AIContext): number {
+    const position = AINodes.getTargetFootPosition(context);
+    return position ? context.transform.position.distanceTo(position) : Infinity;
+  }
+
+  /**
+   * ターゲットの足元の位置
+   * 知覚を持つAIは、見えていなければ最後に確認した位置を使う
+   */
+  private static getTargetFootPosition(context: AIContext): THREE.Vector3 | null {
+    const transform = context.target?.getComponent(Transform);
+    if (!context.target || !transform) return null;
+    if (!context.perception) return transform.position.clone();
+
+    const memory = context.perception.getMemory(context.target.id);
+    if (!memory) return null;
+    return memory.visible ? transform.position.clone() : memory.position.clone();
+  }
+
+  /**
+   * ターゲットが見えているか（知覚を持たないAIは常に見えている）
+   */
+  private static canSeeTarget(context: AIContext): boolean {
+    if (!context.target) return false;
+    return context.perception ? context.perception.canSee(context.target.id) : true;
+  }
+
+  /**
+   * 指定位置の方を向く（視線の向きがそのまま移動の基準になる）
+   * aimErrorは照準のぶれ（ラジアン）
+   */
+  private static faceTowards(context: AIContext, point: THREE.Vector3, aimError: number = 0): void {
+    const eye = context.transform.position.clone().setY(context.transform.position.y + 1.5);
+    const direction = point.clone().sub(eye);
+    const horizontal = Math.hypot(direction.x, direction.z);
+    if (horizontal < 0.001 && Math.abs(direction.y) < 0.001) return;
+
+    // メッシュとカメラの正面は-Z
+    const random = context.world.getRandom('ai');
+    const yaw = Math.atan2(-direction.x, -direction.z) + (random.next() - 0.5) * aimError;
+    const pitch = Math.atan2(direction.y, horizontal) + (random.next() - 0.5) * aimError;
+    context.input.lookDirection.set(yaw, pitch);
+  }
+
+  /**
+   * ナビメッシュの経路に沿って目的地へ向かう（ナビメッシュが未構築なら直進）
+   * 経由点の方を向き、登りでは経路の種類に応じてジャンプかグラスホッパーを使う
+   * 目的地に到達できなければfalse
+   */
+  private static moveTo(context: AIContext, destination: THREE.Vector3, speed: number = 1): boolean {
+    const config = GAME_CONFIG.NAVIGATION;
+    const ai = context.ai;
+    const position = context.transform.position;
+    const navMesh = context.world.getSystem(NavigationSystem)?.getNavMesh();
+
+    let next = destination;
+    let link = NavLinkType.WALK;
+    if (navMesh) {
+      const goalMoved = !ai.pathGoal || ai.pathGoal.distanceTo(destination) > config.REPATH_DISTANCE;
+      if (goalMoved || ai.repathTimer <= 0 || ai.path.length === 0) {
+        const path = navMesh.findPath(position, destination, AINodes.getPathOptions(context));
+        if (!path) {
+          ai.clearPath();
+          return false;
+        }
+        ai.setPath(path, destination, config.REPATH_INTERVAL);
+      }
+
+      // 到達した経由点を外す（登りは上に乗るまで到達とみなさない）
+      while (ai.path.length > 1) {
+        const waypoint = ai.path[0].position;
+        const reached = Math.hypot(waypoint.x - position.x, waypoint.z - position.z) < config.WAYPOINT_RADIUS &&
+          position.y >= waypoint.y - config.STEP_HEIGHT;
+        if (!reached) break;
+        ai.path.shift();
+      }
+      next = ai.path[0].position;
+      link = ai.path[0].link;
+    }
+
+    const direction = next.clone().sub(position).setY(0);
+    AINodes.faceTowards(context, next.clone().setY(position.y + 1.5));
+    AINodes.steer(context, direction.normalize().multiplyScalar(speed));
+
+    // 段差の手前で登る
+    const rise = next.y - position.y;
+    if (rise > config.STEP_HEIGHT && Math.hypot(next.x - position.x, next.z - position.z) < 1.5) {
+      if (link === NavLinkType.HOP) {
+        AINodes.hop(context);
+      } else {
+        context.input.jump = true;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * ワールド座標の移動方向を、周囲のキャラクターを避けつつ自身の向き基準の入力に変換する
+   */
+  private static steer(context: AIContext, worldDirection: THREE.Vector3): void {
+    const speed = Math.min(1, worldDirection.length());
+    const desired = worldDirection.clone().setY(0);
+
+    const navigation = context.world.getSystem(NavigationSystem);
+    if (navigation) {
+      desired.addScaledVector(
+        navigation.getAvoidance(context.entity, context.transform.position),
+        GAME_CONFIG.NAVIGATION.AVOIDANCE_WEIGHT
+      );
+    }
+    if (desired.lengthSq() < 0.0001) return;
+    AINodes.setLocalMove(context, desired.normalize().multiplyScalar(speed));
+  }
+
+  /**
+   * ワールド座標の水平方向を視線（yaw）基準の前方・右方向に分解して入力する
+   */
+  private static setLocalMove(context: AIContext, worldDirection: THREE.Vector3): void {
+    const yaw = context.input.lookDirection.x;
+    const forward = new THREE.Vector3(-Math.sin(yaw), 0, -Math.cos(yaw));
+    const right = new THREE.Vector3(Math.cos(yaw), 0, -Math.sin(yaw));
+    context.input.moveDirection.set(worldDirection.dot(right), worldDirection.dot(forward));
+  }
+
+  /**
+   * グラスホッパーで指定方向（水平）へ跳ぶ（左手に構えていなければ持ち替える）
+   * 跳んだらSUCCESS、持ち替え中はRUNNING、使えなければ失敗
+   */
+  private static blink(context: AIContext, worldDirection: THREE.Vector3): NodeStatus {
+    const trigger = context.trigger;
+    const grasshopperSystem = context.world.getSystem(GrasshopperSystem);
+    if (!trigger || trigger.leftHandLost || !grasshopperSystem?.isBlinkReady(context.entity.id)) {
+      return NodeStatus.FAILURE;
+    }
+
+    if (trigger.leftCurrentTrigger !== TriggerType.GRASSHOPPER) {
+      const slot = AINodes.findCSlot(context, TriggerType.GRASSHOPPER);
+      if (slot === null) return NodeStatus.FAILURE;
+      context.input.leftTriggerSlot = slot;
+      return NodeStatus.RUNNING;
+    }
+
+    const direction = worldDirection.clone().setY(0);
+    if (direction.lengthSq() < 0.0001) return NodeStatus.FAILURE;
+    AINodes.setLocalMove(context, direction.normalize());
+    context.input.mainLeftAction = true;
+    return NodeStatus.SUCCESS;
+  }
+
+  /**
+   * グラスホッパーで真上に跳ぶ（左手に構えていなければ持ち替える）
+   */
+  private static hop(context: AIContext): void {
+    const trigger = context.trigger;
+    if (!trigger) return;
+
+    if (trigger.leftCurrentTrigger === TriggerType.GRASSHOPPER) {
+      context.input.moveDirection.set(0, 0);
+      context.input.mainLeftAction = true;
+      return;
+    }
+
+    const slot = AINodes.findCSlot(context, TriggerType.GRASSHOPPER);
+    if (slot !== null) {
+      context.input.leftTriggerSlot = slot;
+    }
+  }
+
+  /**
+   * このAIが使える移動手段での経路探索条件
+   */
+  private static getPathOptions(context: AIContext): NavPathOptions {
+    const hasGrasshopper = !!context.trigger && !context.trigger.leftHandLost &&
+      AINodes.findCSlot(context, TriggerType.GRASSHOPPER) !== null;
+
+    return {
+      jumpHeight: GAME_CONFIG.NAVIGATION.JUMP_HEIGHT * context.character.mobilityMultiplier,
+      canHop: hasGrasshopper
+    };
+  }
+
+  /**
+   * エンティティごとに位相をずらした左右の揺れ
+   */
+  private static weave(context: AIContext, amplitude: number): number {
+    return Math.sin(context.time * 2 + context.entity.id) * amplitude;
+  }
+
+  /**
+   * 使用前に武器の生成が必要なカテゴリか
+   */
+  private static needsWeapon(category: TriggerCategory): boolean {
+    return category === TriggerCategory.ATTACKER ||
+      category === TriggerCategory.SNIPER ||
+      category === TriggerCategory.GUNNER;
+  }
+
+  /**
+   * 指定カテゴリのトリガーが入っているメインスロット（カテゴリの優先順）
+   * 弾切れのトリガーは除き、同じカテゴリの中ではターゲットに届くものを選ぶ
+   * 構えているものが届くか、どれも届かなければ持ち替えない（何も構えていなければ最も射程の長いもの）
+   */
+  private static findSlot(context: AIContext, categories: TriggerCategory[]): number | null {
+    const trigger = context.trigger;
+    if (!trigger) return null;
+
+    const distance = AINodes.getTargetDistance(context);
+    const reaches = (slot: number) => TRIGGER_DEFINITIONS[trigger.getTriggerAtSlot(slot)!].range >= distance;
+
+    for (const category of categories) {
+      const usable: number[] = [];
+      for (let slot = 1; slot <= 4; slot++) {
+        const triggerType = trigger.getTriggerAtSlot(slot);
+        if (!triggerType || TRIGGER_DEFINITIONS[triggerType].category !== category) continue;
+
+        const ammo = trigger.states.get(triggerType)?.ammo;
+        if (ammo !== undefined && ammo <= 0) continue;
+        usable.push(slot);
+      }
+      if (usable.length === 0) continue;
+
+      const current = usable.find(slot => trigger.getTriggerAtSlot(slot) === trigger.currentTrigger);
+      // 練度が低いと射程を考えず、構えているか最初に見つけたトリガーを使う
+      if (context.ai.config.triggerUsage === AITriggerUsage.BASIC) return current ?? usable[0];
+      if (current !== undefined && reaches(current)) return current;
+      const longest = usable.reduce((best, slot) =>
+        TRIGGER_DEFINITIONS[trigger.getTriggerAtSlot(slot)!].range > TRIGGER_DEFINITIONS[trigger.getTriggerAtSlot(best)!].range ? slot : best
+      );
+      return usable.find(reaches) ?? current ?? longest;
+    }
+    return null;
+  }
+
+  /**
+   * 指定トリガーが入っているCスロット
+   */
+  private static findCSlot(context: AIContext, triggerType: TriggerType): number | null {
+    for (let slot = 1; slot <= 4; slot++) {
+      if (context.trigger?.getTriggerAtCSlot(slot) === triggerType) return slot;
+    }
+    return null;
+  }
+
+  /**
+   * メインスロットに指定トリガーがセットされているか
+   */
+  private static hasMainTrigger(context: AIContext, triggerType: TriggerType): boolean {
+    return [1, 2, 3, 4].some(slot => context.trigger?.getTriggerAtSlot(slot) === triggerType);
+  }
+
+  /**
+   * 自分に当たりそうな敵の弾のうち、最も早く届くもの
+   * 弾の速度から最接近時刻を求め、先読みの時間内に脅威の半径を通るものを対象にする
+   */
+  private static findInboundProjectile(context: AIContext): Entity | null {
+    const config = GAME_CONFIG.AI_TRIGGERS;
+    const chest = context.transform.position.clone().setY(context.transform.position.y + 1.2);
+
+    let nearest: Entity | null = null;
+    let nearestTime = Infinity;
+    for (const entity of context.world.getEntities()) {
+      const projectile = entity.getComponent(Projectile);
+      const transform = entity.getComponent(Transform);
+      if (!entity.active || !projectile || !transform || projectile.team === context.character.team) continue;
+
+      const speedSq = projectile.velocity.lengthSq();
+      if (speedSq < 0.01) continue;
+
+      const offset = chest.clone().sub(transform.position);
+      const time = offset.dot(projectile.velocity) / speedSq;
+      if (time < 0 || time > config.THREAT_LOOKAHEAD || time >= nearestTime) continue;
+
+      const miss = offset.sub(projectile.velocity.clone().multiplyScalar(time)).length();
+      if (miss <= config.THREAT_RADIUS) {
+        nearest = entity;
+        nearestTime = time;
+      }
+    }
+    return nearest;
+  }
+}
@@ -0,0 +1,208 @@
+import { Entity } from '../ecs/Entity';
+import { World } from '../ecs/World';
+import { Transform } from '../components/Transform';
+import { Character } from '../components/Character';
+import { Input } from '../components/Input';
+import { Trigger } from '../components/Trigger';
+import { Shield } from '../components/Shield';
+import { AI, AIBehavior } from '../components/AI';
+import { Perception } from '../components/Perception';
+import { SquadBlackboard } from './SquadBlackboard';
+
+/**
+ * ノードの実行結果
+ */
+export enum NodeStatus {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+  RUNNING = 'running'
+}
+
+/**
+ * ビヘイビアツリーの評価に渡す情報
+ * ノードはここからコンポーネントを参照し、Inputへ書き込んでキャラクターを操作する
+ */
+export interface AIContext {
+  entity: Entity;
+  world: World;
+  ai: AI;
+  transform: Transform;
+  character: Character;
+  input: Input;
+  trigger?: Trigger;
+  shield?: Shield;
+  target: Entity | null;
+  perception?: Perception; // 知覚（なければターゲットの実際の位置を使う）
+  squad?: SquadBlackboard; // 所属部隊の共有情報（部隊に属さなければなし）
+  time: number;       // AIシステム起動からの経過時間（秒）
+  deltaTime: number;
+}
+
+/**
+ * ビヘイビアツリーのノード
+ */
+export abstract class BTNode {
+  public readonly name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  abstract tick(context: AIContext): NodeStatus;
+}
+
+/**
+ * 子ノードを順に実行し、全て成功したら成功（1つでも失敗したらそこで失敗）
+ */
+export class Sequence extends BTNode {
+  private children: BTNode[];
+
+  constructor(name: string, children: BTNode[]) {
+    super(name);
+    this.children = children;
+  }
+
+  tick(context: AIContext): NodeStatus {
+    for (const child of this.children) {
+      const status = child.tick(context);
+      if (status !== NodeStatus.SUCCESS) return status;
+    }
+    return NodeStatus.SUCCESS;
+  }
+}
+
+/**
+ * 子ノードを順に実行し、最初に失敗しなかった結果を返す（全て失敗したら失敗）
+ */
+export class Selector extends BTNode {
+  private children: BTNode[];
+
+  constructor(name: string, children: BTNode[]) {
+    super(name);
+    this.children = children;
+  }
+
+  tick(context: AIContext): NodeStatus {
+    for (const child of this.children) {
+      const status = child.tick(context);
+      if (status !== NodeStatus.FAILURE) return status;
+    }
+    return NodeStatus.FAILURE;
+  }
+}
+
+/**
+ * 子ノードの成功と失敗を反転する
+ */
+export class Inverter extends BTNode {
+  private child: BTNode;
+
+  constructor(name: string, child: BTNode) {
+    super(name);
+    this.child = child;
+  }
+
+  tick(context: AIContext): NodeStatus {
+    const status = this.child.tick(context);
+    if (status === NodeStatus.SUCCESS) return NodeStatus.FAILURE;
+    if (status === NodeStatus.FAILURE) return NodeStatus.SUCCESS;
+    return status;
+  }
+}
+
+/**
+ * 子ノードの結果にかかわらず成功を返す
+ */
+export class AlwaysSucceed extends BTNode {
+  private child: BTNode;
+
+  constructor(name: string, child: BTNode) {
+    super(name);
+    this.child = child;
+  }
+
+  tick(context: AIContext): NodeStatus {
+    this.child.tick(context);
+    return NodeStatus.SUCCESS;
+  }
+}
+
+/**
+ * 子ノードが成功した後、一定時間は子ノードを実行せず失敗を返す
+ */
+export class Cooldown extends BTNode {
+  private seconds: number;
+  private child: BTNode;
+  private readyTime: number = 0;
+
+  constructor(name: string, seconds: number, child: BTNode) {
+    super(name);
+    this.seconds = seconds;
+    this.child = child;
+  }
+
+  tick(context: AIContext): NodeStatus {
+    if (context.time < this.readyTime) return NodeStatus.FAILURE;
+
+    const status = this.child.tick(context);
+    if (status === NodeStatus.SUCCESS) {
+      this.readyTime = context.time + this.seconds;
+    }
+    return status;
+  }
+}
+
+/**
+ * 条件ノード（判定のみで入力は変更しない）
+ */
+export class Condition extends BTNode {
+  private predicate: (context: AIContext) => boolean;
+
+  constructor(name: string, predicate: (context: AIContext) => boolean) {
+    super(name);
+    this.predicate = predicate;
+  }
+
+  tick(context: AIContext): NodeStatus {
+    return this.predicate(context) ? NodeStatus.SUCCESS : NodeStatus.FAILURE;
+  }
+}
+
+/**
+ * 行動ノード
+ * 失敗しなかった場合はAIの現在の行動（AIBehavior）を更新する（nullなら更新しない）
+ */
+export class Action extends BTNode {
+  private behavior: AIBehavior | null;
+  private action: (context: AIContext) => NodeStatus;
+
+  constructor(name: string, behavior: AIBehavior | null, action: (context: AIContext) => NodeStatus) {
+    super(name);
+    this.behavior = behavior;
+    this.action = action;
+  }
+
+  tick(context: AIContext): NodeStatus {
+    const status = this.action(context);
+    if (status !== NodeStatus.FAILURE && this.behavior) {
+      context.ai.changeBehavior(this.behavior);
+    }
+    return status;
+  }
+}
+
+/**
+ * ビヘイビアツリー
+ * 毎フレームルートから評価し直す（実行中のノードを記憶しない）
+ */
+export class BehaviorTree {
+  public readonly root: BTNode;
+
+  constructor(root: BTNode) {
+    this.root = root;
+  }
+
+  tick(context: AIContext): NodeStatus {
+    return this.root.tick(context);
+  }
+}
@@ -0,0 +1,357 @@
+import * as THREE from 'three';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 隣接セル間の移動方法
+ */
+export enum NavLinkType {
+  WALK = 'walk',   // 歩いて移動（段差・飛び降りを含む）
+  JUMP = 'jump',   // ジャンプで登る
+  HOP = 'hop'      // グラスホッパーで登る
+}
+
+/**
+ * ナビメッシュのセル
+ * heightは立つことのできる面の高さ（地面なら0、建物の上なら屋上の高さ）
+ */
+export interface NavCell {
+  index: number;
+  column: number;
+  row: number;
+  height: number;
+}
+
+/**
+ * 経路上の経由点（linkはこの点へ向かう移動方法）
+ */
+export interface NavWaypoint {
+  position: THREE.Vector3;
+  link: NavLinkType;
+}
+
+/**
+ * 経路探索の条件
+ */
+export interface NavPathOptions {
+  jumpHeight: number;  // ジャンプで登れる高さ
+  canHop: boolean;     // グラスホッパーを使えるか
+}
+
+/**
+ * 経路探索の標準の条件（ジャンプのみ）
+ */
+export const DEFAULT_NAV_PATH_OPTIONS: NavPathOptions = {
+  jumpHeight: GAME_CONFIG.NAVIGATION.JUMP_HEIGHT,
+  canHop: false
+};
+
+// 8方向の隣接セル（列, 行）
+const NEIGHBOR_OFFSETS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+/**
+ * ナビゲーションメッシュ
+ * アリーナを一定間隔のセルに分割し、静的な障害物の上面の高さから移動可能な経路を求める
+ */
+export class NavMesh {
+  public readonly cellSize: number;
+  public readonly halfExtent: number;
+  public readonly columns: number;
+  public readonly cells: NavCell[] = [];
+
+  private constructor(halfExtent: number, cellSize: number) {
+    this.halfExtent = halfExtent;
+    this.cellSize = cellSize;
+    this.columns = Math.max(1, Math.round((halfExtent * 2) / cellSize));
+  }
+
+  /**
+   * 静的な障害物からナビメッシュを構築
+   * 障害物はキャラクターの半径だけ広げて扱い、セルの中心を覆う最も高い上面をそのセルの高さとする
+   */
+  static build(
+    obstacles: THREE.Box3[],
+    halfExtent: number = GAME_CONFIG.MOVEMENT.ARENA_BOUNDS,
+    cellSize: number = GAME_CONFIG.NAVIGATION.CELL_SIZE
+  ): NavMesh {
+    const navMesh = new NavMesh(halfExtent, cellSize);
+    const radius = GAME_CONFIG.NAVIGATION.AGENT_RADIUS;
+
+    for (let row = 0; row < navMesh.columns; row++) {
+      for (let column = 0; column < navMesh.columns; column++) {
+        const x = navMesh.toWorld(column);
+        const z = navMesh.toWorld(row);
+
+        let height: number = GAME_CONFIG.MOVEMENT.GROUND_LEVEL;
+        for (const box of obstacles) {
+          if (x >= box.min.x - radius && x <= box.max.x + radius &&
+              z >= box.min.z - radius && z <= box.max.z + radius) {
+            height = Math.max(height, box.max.y);
+          }
+        }
+
+        navMesh.cells.push({ index: row * navMesh.columns + column, column, row, height });
+      }
+    }
+
+    return navMesh;
+  }
+
+  /**
+   * 位置を含むセル（範囲外なら最も近い端のセル）
+   */
+  getCellAt(position: THREE.Vector3): NavCell {
+    const column = this.clampIndex(Math.floor((position.x + this.halfExtent) / this.cellSize));
+    const row = this.clampIndex(Math.floor((position.z + this.halfExtent) / this.cellSize));
+    return this.cells[row * this.columns + column];
+  }
+
+  /**
+   * セルの中心（立つ面の高さ）
+   */
+  getCellCenter(cell: NavCell): THREE.Vector3 {
+    return new THREE.Vector3(this.toWorld(cell.column), cell.height, this.toWorld(cell.row));
+  }
+
+  /**
+   * 位置の足場の高さ
+   */
+  getHeightAt(position: THREE.Vector3): number {
+    return this.getCellAt(position).height;
+  }
+
+  /**
+   * 隣接セルへの移動方法（移動できなければnull）
+   * 下りはどれだけ高くても飛び降りられる
+   */
+  getLinkType(from: NavCell, to: NavCell, options: NavPathOptions = DEFAULT_NAV_PATH_OPTIONS): NavLinkType | null {
+    const rise = to.height - from.height;
+    if (rise <= GAME_CONFIG.NAVIGATION.STEP_HEIGHT) return NavLinkType.WALK;
+    if (rise <= options.jumpHeight) return NavLinkType.JUMP;
+    if (options.canHop && rise <= GAME_CONFIG.NAVIGATION.HOP_HEIGHT) return NavLinkType.HOP;
+    return null;
+  }
+
+  /**
+   * A*で経路を探索
+   * 到達できない場合はnull、開始セルと同じセルなら目的地のみの経路を返す
+   */
+  findPath(
+    start: THREE.Vector3,
+    goal: THREE.Vector3,
+    options: NavPathOptions = DEFAULT_NAV_PATH_OPTIONS
+  ): NavWaypoint[] | null {
+    const startCell = this.getCellAt(start);
+    const goalCell = this.getCellAt(goal);
+    const goalPosition = new THREE.Vector3(goal.x, goalCell.height, goal.z);
+
+    if (startCell === goalCell) {
+      return [{ position: goalPosition, link: NavLinkType.WALK }];
+    }
+
+    const cost = new Map<number, number>([[startCell.index, 0]]);
+    const cameFrom = new Map<number, { cell: NavCell; link: NavLinkType }>();
+    const closed = new Set<number>();
+    const open = new NavCellHeap();
+    open.push(startCell, this.heuristic(startCell, goalCell));
+
+    while (open.size > 0) {
+      const current = open.pop()!;
+      if (current === goalCell) {
+        return this.buildPath(cameFrom, goalCell, goalPosition);
+      }
+      if (closed.has(current.index)) continue;
+      closed.add(current.index);
+
+      for (const [dx, dz] of NEIGHBOR_OFFSETS) {
+        const neighbor = this.getCell(current.column + dx, current.row + dz);
+        if (!neighbor || closed.has(neighbor.index)) continue;
+
+        const link = this.getLinkType(current, neighbor, options);
+        if (!link) continue;
+
+        // 斜め移動は角を削らないよう、両隣を同じ高さで歩ける場合のみ
+        if (dx !== 0 && dz !== 0) {
+          const sideA = this.getCell(current.column + dx, current.row)!;
+          const sideB = this.getCell(current.column, current.row + dz)!;
+          if (link !== NavLinkType.WALK ||
+              this.getLinkType(current, sideA, options) !== NavLinkType.WALK ||
+              this.getLinkType(current, sideB, options) !== NavLinkType.WALK ||
+              Math.abs(sideA.height - current.height) > GAME_CONFIG.NAVIGATION.STEP_HEIGHT ||
+              Math.abs(sideB.height - current.height) > GAME_CONFIG.NAVIGATION.STEP_HEIGHT) {
+            continue;
+          }
+        }
+
+        const stepCost = Math.hypot(dx, dz) * this.cellSize + this.getLinkCost(link);
+        const newCost = cost.get(current.index)! + stepCost;
+        if (newCost >= (cost.get(neighbor.index) ?? Infinity)) continue;
+
+        cost.set(neighbor.index, newCost);
+        cameFrom.set(neighbor.index, { cell: current, link });
+        open.push(neighbor, newCost + this.heuristic(neighbor, goalCell));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 中心から指定半径の円周上に、中心から到達できる巡回地点を並べる
+   */
+  createPatrolRoute(
+    center: THREE.Vector3,
+    radius: number = GAME_CONFIG.NAVIGATION.PATROL_RADIUS,
+    count: number = GAME_CONFIG.NAVIGATION.PATROL_POINTS
+  ): THREE.Vector3[] {
+    const route: THREE.Vector3[] = [];
+    const limit = this.halfExtent - this.cellSize;
+
+    for (let i = 0; i < count; i++) {
+      const angle = (i / count) * Math.PI * 2;
+      // 届かない地点は半径を縮めて探し直す
+      for (let scale = 1; scale > 0.2; scale -= 0.25) {
+        const point = new THREE.Vector3(
+          THREE.MathUtils.clamp(center.x + Math.cos(angle) * radius * scale, -limit, limit),
+          0,
+          THREE.MathUtils.clamp(center.z + Math.sin(angle) * radius * scale, -limit, limit)
+        );
+        if (this.findPath(center, point)) {
+          point.y = this.getHeightAt(point);
+          route.push(point);
+          break;
+        }
+      }
+    }
+
+    return route;
+  }
+
+  /**
+   * 2点間を同じ高さの面の上でまっすぐ歩けるか
+   */
+  hasDirectPath(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const height = this.getHeightAt(from);
+    const distance = Math.hypot(to.x - from.x, to.z - from.z);
+    const steps = Math.ceil(distance / (this.cellSize * 0.5));
+    const point = new THREE.Vector3();
+
+    for (let i = 1; i <= steps; i++) {
+      point.lerpVectors(from, to, i / steps);
+      if (Math.abs(this.getHeightAt(point) - height) > GAME_CONFIG.NAVIGATION.STEP_HEIGHT) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 探索結果から経由点の列を作る（同じ高さで見通せる経由点は間引く）
+   */
+  private buildPath(
+    cameFrom: Map<number, { cell: NavCell; link: NavLinkType }>,
+    goalCell: NavCell,
+    goalPosition: THREE.Vector3
+  ): NavWaypoint[] {
+    const waypoints: NavWaypoint[] = [];
+    let cell = goalCell;
+    while (cameFrom.has(cell.index)) {
+      const step = cameFrom.get(cell.index)!;
+      waypoints.unshift({
+        position: cell === goalCell ? goalPosition.clone() : this.getCellCenter(cell),
+        link: step.link
+      });
+      cell = step.cell;
+    }
+
+    // 歩きの区間は、直前の経由点から見通せる限り先の点へまとめる
+    const smoothed: NavWaypoint[] = [];
+    let anchor = this.getCellCenter(cell);
+    for (let i = 0; i < waypoints.length; i++) {
+      const waypoint = waypoints[i];
+      const next = waypoints[i + 1];
+      const skippable = waypoint.link === NavLinkType.WALK &&
+        next?.link === NavLinkType.WALK &&
+        this.hasDirectPath(anchor, next.position);
+      if (skippable) continue;
+
+      smoothed.push(waypoint);
+      anchor = waypoint.position;
+    }
+
+    return smoothed;
+  }
+
+  private getLinkCost(link: NavLinkType): number {
+    switch (link) {
+      case NavLinkType.JUMP:
+        return GAME_CONFIG.NAVIGATION.JUMP_COST;
+      case NavLinkType.HOP:
+        return GAME_CONFIG.NAVIGATION.HOP_COST;
+      default:
+        return 0;
+    }
+  }
+
+  private heuristic(from: NavCell, to: NavCell): number {
+    return Math.hypot(from.column - to.column, from.row - to.row) * this.cellSize;
+  }
+
+  private getCell(column: number, row: number): NavCell | null {
+    if (column < 0 || row < 0 || column >= this.columns || row >= this.columns) return null;
+    return this.cells[row * this.columns + column];
+  }
+
+  private clampIndex(index: number): number {
+    return Math.min(this.columns - 1, Math.max(0, index));
+  }
+
+  private toWorld(index: number): number {
+    return -this.halfExtent + (index + 0.5) * this.cellSize;
+  }
+}
+
+/**
+ * A*のオープンリスト（推定コストの小さい順に取り出す二分ヒープ）
+ */
+class NavCellHeap {
+  private items: { cell: NavCell; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(cell: NavCell, priority: number): void {
+    this.items.push({ cell, priority });
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].priority <= this.items[index].priority) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): NavCell | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (!top || !last) return undefined;
+    if (this.items.length === 0) return top.cell;
+
+    this.items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+      if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+      if (smallest === index) break;
+      [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+      index = smallest;
+    }
+    return top.cell;
+  }
+}
@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import { CharacterClass } from '../config/OriginalStats';
+
+/**
+ * 部隊内の役割
+ */
+export enum SquadRole {
+  PUSH = 'push',           // 前衛：敵に詰め寄る
+  COVER = 'cover',         // 援護：前衛の後ろから撃つ
+  OVERWATCH = 'overwatch'  // 狙撃：高所を確保して撃つ
+}
+
+/**
+ * クラスごとの部隊内の役割（オールラウンダーは部隊の構成で決まる）
+ */
+export const CLASS_SQUAD_ROLES: Record<CharacterClass, SquadRole | null> = {
+  [CharacterClass.ATTACKER]: SquadRole.PUSH,
+  [CharacterClass.SHOOTER]: SquadRole.COVER,
+  [CharacterClass.GUNNER]: SquadRole.COVER,
+  [CharacterClass.SNIPER]: SquadRole.OVERWATCH,
+  [CharacterClass.ALL_ROUNDER]: null
+};
+
+/**
+ * AI部隊の標準の編成（メンバーの順にクラスを割り当てる）
+ */
+export const SQUAD_FORMATION: CharacterClass[] = [
+  CharacterClass.ATTACKER,
+  CharacterClass.SHOOTER,
+  CharacterClass.SNIPER,
+  CharacterClass.ALL_ROUNDER
+];
+
+/**
+ * 部隊が把握している敵
+ */
+export interface KnownEnemy {
+  entityId: number;
+  position: THREE.Vector3;
+  lastSeen: number;     // 最後に確認した時刻（秒）
+  reportedBy: number;   // 最後に報告したメンバーのID
+}
+
+/**
+ * 部隊の共有情報（ブラックボード）
+ * メンバーが見つけた敵の位置と、部隊から各メンバーへの役割・指示を保持する
+ */
+export class SquadBlackboard {
+  public readonly team: number;
+  public members: number[] = [];
+  public roles: Map<number, SquadRole> = new Map();
+  public knownEnemies: Map<number, KnownEnemy> = new Map();
+  public focusTargetId: number | null = null;   // 集中攻撃の対象
+  public retreatOrdered: boolean = false;       // 撤退指示
+  public rallyPoint: THREE.Vector3 | null = null; // 撤退時の集合地点
+  public overwatchPoint: THREE.Vector3 | null = null; // 狙撃役が確保する高所
+  public pushLeaderId: number | null = null;    // 援護役がつく前衛
+  public nextDecisionTime: number = 0;
+
+  constructor(team: number) {
+    this.team = team;
+  }
+
+  /**
+   * 敵の位置を報告
+   */
+  report(entityId: number, position: THREE.Vector3, time: number, reportedBy: number): void {
+    const known = this.knownEnemies.get(entityId);
+    if (known) {
+      known.position.copy(position);
+      known.lastSeen = time;
+      known.reportedBy = reportedBy;
+      return;
+    }
+    this.knownEnemies.set(entityId, { entityId, position: position.clone(), lastSeen: time, reportedBy });
+  }
+
+  /**
+   * 一定時間確認されていない敵を忘れる
+   */
+  forget(before: number): void {
+    for (const [entityId, known] of this.knownEnemies) {
+      if (known.lastSeen < before) {
+        this.knownEnemies.delete(entityId);
+      }
+    }
+  }
+
+  /**
+   * メンバーの役割
+   */
+  getRole(entityId: number): SquadRole | null {
+    return this.roles.get(entityId) ?? null;
+  }
+
+  /**
+   * 把握している敵の重心（敵がいなければnull）
+   */
+  getEnemyCentroid(): THREE.Vector3 | null {
+    if (this.knownEnemies.size === 0) return null;
+
+    const centroid = new THREE.Vector3();
+    for (const known of this.knownEnemies.values()) {
+      centroid.add(known.position);
+    }
+    return centroid.divideScalar(this.knownEnemies.size);
+  }
+}
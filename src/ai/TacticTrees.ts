@@ -0,0 +1,231 @@
+import { AITactics, AITriggerUsage } from '../components/AI';
+import { TriggerCategory } from '../triggers/TriggerDefinitions';
+import { AlwaysSucceed, BehaviorTree, BTNode, Cooldown, Inverter, Selector, Sequence } from './BehaviorTree';
+import { AINodes } from './AINodes';
+import { SquadRole } from './SquadBlackboard';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 戦術（AITactics）ごとのビヘイビアツリー
+ */
+export class TacticTrees {
+  /**
+   * 戦術に対応するツリーを作成（ノードが状態を持つためエンティティごとに作成する）
+   * 飛んでくる弾への反応を最優先とし、部隊の役割があれば部隊の指示と役割の行動を戦術より優先する
+   * トリガー運用の練度が低いと、防御や旋空・グラスホッパーの枝を持たない
+   */
+  static create(
+    tactics: AITactics,
+    role: SquadRole | null = null,
+    usage: AITriggerUsage = AITriggerUsage.ADVANCED
+  ): BehaviorTree {
+    const branches: BTNode[] = [];
+    if (usage !== AITriggerUsage.BASIC) {
+      branches.push(this.createReflexes(usage));
+    }
+
+    if (role) {
+      branches.push(
+        new Sequence('followRetreatOrder', [AINodes.retreatOrdered(), AINodes.regroup()]),
+        new Sequence('playRole', [new Inverter('notBroken', AINodes.lowTrion()), this.createRoleBranch(role, usage)])
+      );
+    }
+
+    branches.push(this.createForTactics(tactics, usage).root);
+    return new BehaviorTree(new Selector(role ? `${tactics}(${role})` : tactics, branches));
+  }
+
+  /**
+   * 被弾への反応：シールドを張り、張れなければグラスホッパーで避ける
+   */
+  private static createReflexes(usage: AITriggerUsage): BTNode {
+    const defenses = usage === AITriggerUsage.ADVANCED
+      ? [AINodes.raiseShield(), AINodes.dodge()]
+      : [AINodes.raiseShield()];
+    return new Sequence('reactToFire', [
+      AINodes.projectileInbound(),
+      new Inverter('shieldDown', AINodes.shieldUp()),
+      new Selector('shieldOrDodge', defenses)
+    ]);
+  }
+
+  /**
+   * 間合いの外から詰める：旋空で斬るか、グラスホッパーで跳び込むか、走って近づく
+   */
+  private static createCloseIn(usage: AITriggerUsage): BTNode {
+    if (usage !== AITriggerUsage.ADVANCED) return AINodes.approach();
+
+    const config = GAME_CONFIG.AI_TRIGGERS;
+    return new Selector('closeDistance', [
+      new Cooldown('senkuCooldown', config.SENKU_INTERVAL, AINodes.senkuStrike()),
+      new Cooldown('blinkCooldown', config.BLINK_INTERVAL, AINodes.blinkIn()),
+      AINodes.approach()
+    ]);
+  }
+
+  /**
+   * 敵がいないとき：物音がすれば様子を見に行き、なければ巡回する
+   */
+  private static createIdle(): BTNode {
+    return new Selector('idle', [AINodes.investigateNoise(), AINodes.patrol()]);
+  }
+
+  /**
+   * 部隊の役割ごとの行動
+   * 前衛は射程に入るまで詰め、援護は前衛の後ろにつき、狙撃は撃てないうちは高所を確保する
+   */
+  private static createRoleBranch(role: SquadRole, usage: AITriggerUsage): BTNode {
+    switch (role) {
+      case SquadRole.PUSH:
+        return new Sequence('push', [
+          AINodes.hasTarget(),
+          new Inverter('outOfRange', AINodes.targetInWeaponRange()),
+          this.createCloseIn(usage)
+        ]);
+      case SquadRole.COVER:
+        return new Sequence('cover', [AINodes.hasTarget(), AINodes.cover()]);
+      case SquadRole.OVERWATCH:
+        return new Sequence('overwatch', [
+          new Inverter('noShot', AINodes.targetInWeaponRange()),
+          AINodes.takeOverwatch()
+        ]);
+    }
+  }
+
+  private static createForTactics(tactics: AITactics, usage: AITriggerUsage): BehaviorTree {
+    switch (tactics) {
+      case AITactics.AGGRESSIVE:
+        return this.createAggressive(usage);
+      case AITactics.SNIPER:
+        return this.createSniper();
+      case AITactics.DEFENSIVE:
+        return this.createDefensive();
+      case AITactics.GUERRILLA:
+        return this.createGuerrilla();
+      case AITactics.BALANCED:
+      default:
+        return this.createBalanced();
+    }
+  }
+
+  /**
+   * 積極型：近接トリガーで間合いを詰め続ける
+   * 撤退は斬り合いの間合いの外にいるときだけ
+   */
+  private static createAggressive(usage: AITriggerUsage): BehaviorTree {
+    return new BehaviorTree(new Selector('aggressive', [
+      new Sequence('retreatWhenBroken', [
+        AINodes.hasTarget(),
+        AINodes.lowTrion(),
+        new Inverter('notInMelee', AINodes.targetWithin(6)),
+        AINodes.retreat()
+      ]),
+      new Sequence('closeIn', [
+        AINodes.hasTarget(),
+        new AlwaysSucceed('prepareBlade', AINodes.equip([TriggerCategory.ATTACKER, TriggerCategory.GUNNER])),
+        new Selector('strikeOrChase', [
+          new Sequence('strike', [AINodes.targetInWeaponRange(), AINodes.attack()]),
+          this.createCloseIn(usage)
+        ])
+      ]),
+      this.createIdle()
+    ]));
+  }
+
+  /**
+   * 狙撃型：遠距離から足を止めて撃ち、近寄られたら離脱する
+   */
+  private static createSniper(): BehaviorTree {
+    return new BehaviorTree(new Selector('sniper', [
+      new Sequence('disengage', [
+        AINodes.hasTarget(),
+        new Selector('threatened', [AINodes.lowTrion(), AINodes.targetWithin(12)]),
+        AINodes.retreat()
+      ]),
+      new Sequence('snipe', [
+        AINodes.hasTarget(),
+        new AlwaysSucceed('prepareRifle', AINodes.equip([TriggerCategory.SNIPER, TriggerCategory.GUNNER])),
+        new Selector('shootOrPosition', [
+          new Sequence('shoot', [
+            AINodes.holding([TriggerCategory.SNIPER, TriggerCategory.GUNNER]),
+            AINodes.targetInWeaponRange(),
+            new Selector('fireOrHold', [AINodes.attack(), AINodes.holdPosition()])
+          ]),
+          AINodes.engage()
+        ])
+      ]),
+      this.createIdle()
+    ]));
+  }
+
+  /**
+   * 防御型：中距離を保って射撃し、シールド展開中は踏みとどまる
+   */
+  private static createDefensive(): BehaviorTree {
+    return new BehaviorTree(new Selector('defensive', [
+      new Sequence('retreatWhenLow', [AINodes.hasTarget(), AINodes.lowTrion(), AINodes.retreat()]),
+      new Sequence('holdLine', [
+        AINodes.hasTarget(),
+        new AlwaysSucceed('prepareGun', AINodes.equip([
+          TriggerCategory.GUNNER,
+          TriggerCategory.SNIPER,
+          TriggerCategory.ATTACKER
+        ])),
+        new Selector('fireOrKeepDistance', [
+          new Sequence('fire', [AINodes.targetInWeaponRange(), AINodes.attack()]),
+          new Sequence('braceBehindShield', [AINodes.shieldUp(), AINodes.holdPosition()]),
+          AINodes.engage()
+        ])
+      ]),
+      this.createIdle()
+    ]));
+  }
+
+  /**
+   * ゲリラ型：攻撃したら一度離れ、間を置いて再び仕掛ける
+   */
+  private static createGuerrilla(): BehaviorTree {
+    return new BehaviorTree(new Selector('guerrilla', [
+      new Sequence('retreatWhenLow', [AINodes.hasTarget(), AINodes.lowTrion(), AINodes.retreat()]),
+      new Sequence('fallBack', [
+        AINodes.hasTarget(),
+        AINodes.attackedWithin(1.5),
+        AINodes.targetWithin(15),
+        AINodes.retreat()
+      ]),
+      new Sequence('hitAndRun', [
+        AINodes.hasTarget(),
+        new AlwaysSucceed('prepareWeapon', AINodes.equip([TriggerCategory.ATTACKER, TriggerCategory.GUNNER])),
+        new Selector('strikeOrApproach', [
+          new Sequence('strike', [AINodes.targetInWeaponRange(), AINodes.attack()]),
+          AINodes.approach()
+        ])
+      ]),
+      this.createIdle()
+    ]));
+  }
+
+  /**
+   * バランス型：距離に応じて近接と射撃を使い分ける
+   */
+  private static createBalanced(): BehaviorTree {
+    return new BehaviorTree(new Selector('balanced', [
+      new Sequence('retreatWhenLow', [AINodes.hasTarget(), AINodes.lowTrion(), AINodes.retreat()]),
+      new Sequence('fight', [
+        AINodes.hasTarget(),
+        new AlwaysSucceed('chooseWeapon', new Selector('byDistance', [
+          new Sequence('closeRange', [
+            AINodes.targetWithin(6),
+            AINodes.equip([TriggerCategory.ATTACKER])
+          ]),
+          AINodes.equip([TriggerCategory.GUNNER, TriggerCategory.SNIPER, TriggerCategory.ATTACKER])
+        ])),
+        new Selector('attackOrManeuver', [
+          new Sequence('attack', [AINodes.targetInWeaponRange(), AINodes.attack()]),
+          AINodes.engage()
+        ])
+      ]),
+      this.createIdle()
+    ]));
+  }
+}
@@ -87,7 +87,7 @@ export class AttackSystem {
         type: 'horizontal',
         range: definition.range * 1.5,
         damage: damage,
-        startTime: Date.now(),
+        startTime: this.world.now(),
         duration: GAME_CONFIG.ATTACK.FAN_SLASH.ANIMATION_DURATION
       });
     }
@@ -100,7 +100,7 @@ export class AttackSystem {
     AttackAnimations.animateFanSlash(slash, slashMesh);
     
     // 指定時間後に削除
-    setTimeout(() => {
+    this.world.schedule(() => {
       this.attackEffects.delete(slash);
       this.activeAttacks.delete(slash);
       this.world.removeEntity(slash);
@@ -159,7 +159,7 @@ export class AttackSystem {
         type: 'vertical',
         range: definition.range,
         damage: damage,
-        startTime: Date.now(),
+        startTime: this.world.now(),
         duration: GAME_CONFIG.ATTACK.VERTICAL_SLASH.ANIMATION_DURATION
       });
     }
@@ -172,7 +172,7 @@ export class AttackSystem {
     AttackAnimations.animateVerticalSlash(slash, slashMesh);
     
     // 指定時間後に削除
-    setTimeout(() => {
+    this.world.schedule(() => {
       this.attackEffects.delete(slash);
       this.activeAttacks.delete(slash);
       this.world.removeEntity(slash);
@@ -220,7 +220,7 @@ export class AttackSystem {
         type: 'horizontal',
         range: definition.range * 1.5,
         damage: damage,
-        startTime: Date.now(),
+        startTime: this.world.now(),
         duration: GAME_CONFIG.ATTACK.FAN_SLASH.ANIMATION_DURATION
       });
     }
@@ -233,7 +233,7 @@ export class AttackSystem {
     AttackAnimations.animateFanSlash(slash, slashMesh);
     
     // 指定時間後に削除
-    setTimeout(() => {
+    this.world.schedule(() => {
       this.attackEffects.delete(slash);
       this.activeAttacks.delete(slash);
       this.world.removeEntity(slash);
@@ -281,7 +281,7 @@ export class AttackSystem {
         type: 'vertical',
         range: definition.range,
         damage: damage,
-        startTime: Date.now(),
+        startTime: this.world.now(),
         duration: GAME_CONFIG.ATTACK.VERTICAL_SLASH.ANIMATION_DURATION
       });
     }
@@ -294,7 +294,7 @@ export class AttackSystem {
     AttackAnimations.animateVerticalSlash(slash, slashMesh);
     
     // 指定時間後に削除
-    setTimeout(() => {
+    this.world.schedule(() => {
       this.attackEffects.delete(slash);
       this.activeAttacks.delete(slash);
       this.world.removeEntity(slash);
@@ -435,7 +435,7 @@ export class AttackSystem {
    * アクティブな攻撃を更新
    */
   updateActiveAttacks(): void {
-    const currentTime = Date.now();
+    const currentTime = this.world.now();
     
     for (const [attackEntity, attackInfo] of this.activeAttacks) {
       // 攻撃が終了しているかチェック
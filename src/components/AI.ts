@@ -1,4 +1,7 @@
 import * as THREE from 'three';
+import { CharacterClass } from '../config/OriginalStats';
+import { NavWaypoint } from '../ai/NavMesh';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * AI行動タイプ
@@ -23,6 +26,15 @@ export enum AITactics {
   GUERRILLA = 'guerrilla'     // ヒットアンドアウェイ
 }
 
+/**
+ * トリガー運用の練度
+ */
+export enum AITriggerUsage {
+  BASIC = 'basic',         // 構えたトリガーで撃つ・斬るだけ（持ち替えや防御はしない）
+  STANDARD = 'standard',   // 射程・弾数に応じた持ち替えとシールドでの防御
+  ADVANCED = 'advanced'    // グラスホッパーでの回避・跳び込み、旋空も使う
+}
+
 /**
  * AIの設定
  */
@@ -33,8 +45,83 @@ export interface AIConfig {
   retreatThreshold: number;    // 撤退するトリオン残量の閾値（％）
   reactionTime: number;        // 反応時間（秒）
   accuracy: number;           // 命中精度（0-1）
+  aimSpread: number;          // 射撃の散布の倍率（大きいほどばらつく）
+  decisionInterval: number;   // 行動を判断し直す間隔（秒、0なら毎フレーム）
+  triggerUsage: AITriggerUsage; // トリガー運用の練度
 }
 
+/**
+ * 戦術ごとのAI設定
+ */
+export const AI_CONFIG_PRESETS: Record<AITactics, AIConfig> = {
+  [AITactics.AGGRESSIVE]: {
+    tactics: AITactics.AGGRESSIVE,
+    detectionRange: 30,
+    attackRange: 3,
+    retreatThreshold: 10,
+    reactionTime: 0.3,
+    accuracy: 0.7,
+    aimSpread: 1.5,
+    decisionInterval: 0,
+    triggerUsage: AITriggerUsage.ADVANCED
+  },
+  [AITactics.DEFENSIVE]: {
+    tactics: AITactics.DEFENSIVE,
+    detectionRange: 25,
+    attackRange: 20,
+    retreatThreshold: 35,
+    reactionTime: 0.5,
+    accuracy: 0.75,
+    aimSpread: 1.5,
+    decisionInterval: 0,
+    triggerUsage: AITriggerUsage.ADVANCED
+  },
+  [AITactics.BALANCED]: {
+    tactics: AITactics.BALANCED,
+    detectionRange: 20,
+    attackRange: 15,
+    retreatThreshold: 20,
+    reactionTime: 0.5,
+    accuracy: 0.7,
+    aimSpread: 1.5,
+    decisionInterval: 0,
+    triggerUsage: AITriggerUsage.ADVANCED
+  },
+  [AITactics.SNIPER]: {
+    tactics: AITactics.SNIPER,
+    detectionRange: 50,
+    attackRange: 50,
+    retreatThreshold: 30,
+    reactionTime: 0.8,
+    accuracy: 0.9,
+    aimSpread: 0.5,
+    decisionInterval: 0,
+    triggerUsage: AITriggerUsage.ADVANCED
+  },
+  [AITactics.GUERRILLA]: {
+    tactics: AITactics.GUERRILLA,
+    detectionRange: 25,
+    attackRange: 10,
+    retreatThreshold: 25,
+    reactionTime: 0.4,
+    accuracy: 0.65,
+    aimSpread: 1.5,
+    decisionInterval: 0,
+    triggerUsage: AITriggerUsage.ADVANCED
+  }
+};
+
+/**
+ * クラスごとの標準の戦術
+ */
+export const CLASS_DEFAULT_TACTICS: Record<CharacterClass, AITactics> = {
+  [CharacterClass.ATTACKER]: AITactics.AGGRESSIVE,
+  [CharacterClass.SHOOTER]: AITactics.GUERRILLA,
+  [CharacterClass.GUNNER]: AITactics.DEFENSIVE,
+  [CharacterClass.SNIPER]: AITactics.SNIPER,
+  [CharacterClass.ALL_ROUNDER]: AITactics.BALANCED
+};
+
 /**
  * AIを制御するコンポーネント
  */
@@ -48,6 +135,11 @@ export class AI {
   public patrolPoints: THREE.Vector3[] = [];
   public currentPatrolIndex: number = 0;
   public stateChangeTimer: number = 0;
+  public timeSinceAttack: number = Infinity; // 最後に攻撃してからの経過時間
+  public path: NavWaypoint[] = [];            // 移動中の経路（先頭が次の経由点）
+  public pathGoal: THREE.Vector3 | null = null; // 経路の目的地
+  public repathTimer: number = 0;             // 次に経路を再計算するまでの時間
+  public decisionTimer: number = 0;           // 次に行動を判断し直すまでの時間
 
   constructor(config: AIConfig) {
     this.config = { ...config };
@@ -55,7 +147,7 @@ export class AI {
   }
 
   /**
-   * パトロールポイントを初期化
+   * パトロールポイントを初期化（ナビメッシュから巡回路が決まるまでの仮の巡回路）
    */
   private initializePatrolPoints(): void {
     const radius = 15;
@@ -69,6 +161,33 @@ export class AI {
     }
   }
 
+  /**
+   * 巡回路を設定
+   */
+  setPatrolPoints(points: THREE.Vector3[]): void {
+    if (points.length === 0) return;
+    this.patrolPoints = points.map(point => point.clone());
+    this.currentPatrolIndex = 0;
+  }
+
+  /**
+   * 経路を設定
+   */
+  setPath(path: NavWaypoint[], goal: THREE.Vector3, repathInterval: number): void {
+    this.path = path;
+    this.pathGoal = goal.clone();
+    this.repathTimer = repathInterval;
+  }
+
+  /**
+   * 経路を破棄
+   */
+  clearPath(): void {
+    this.path = [];
+    this.pathGoal = null;
+    this.repathTimer = 0;
+  }
+
   /**
    * 行動を変更
    */
@@ -111,6 +230,7 @@ export class AI {
    */
   performAttack(): void {
     this.attackCooldown = this.getAttackCooldown();
+    this.timeSinceAttack = 0;
   }
 
   /**
@@ -134,8 +254,11 @@ export class AI {
    */
   updateTimers(deltaTime: number): void {
     this.behaviorTimer += deltaTime;
+    this.timeSinceAttack += deltaTime;
     this.attackCooldown = Math.max(0, this.attackCooldown - deltaTime);
     this.stateChangeTimer = Math.max(0, this.stateChangeTimer - deltaTime);
+    this.repathTimer = Math.max(0, this.repathTimer - deltaTime);
+    this.decisionTimer = Math.max(0, this.decisionTimer - deltaTime);
   }
 
   /**
@@ -170,4 +293,6 @@ export class AI {
     const basePenalty = distance / 50; // 距離によるペナルティ
     return Math.max(0, this.config.accuracy - basePenalty);
   }
-}
\ No newline at end of file
+}
+
+ComponentRegistry.register(AI, 'ai');
\ No newline at end of file
@@ -5,6 +5,7 @@ import {
   CharacterType,
   CharacterClass
 } from '../config/OriginalStats';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * キャラクターの基本情報を管理するコンポーネント
@@ -28,6 +29,8 @@ export class Character {
   public class: CharacterClass;
   public stats: CharacterStats;
   public team: number;  // 0: プレイヤーチーム, 1: 敵チーム
+  public mobilityMultiplier: number = 1.0; // 部位欠損による機動力の倍率
+  public lastAttackerId: number | null = null; // 最後にダメージを与えたエンティティ（撃破者の判定用）
 
   constructor(
     name: string,
@@ -56,6 +59,13 @@ export class Character {
     this.stats.currentTrion = Math.max(0, this.stats.currentTrion - damage);
   }
 
+  /**
+   * トリオン体を破壊する（頭部・供給機関への致命傷）
+   */
+  destroyTrionBody(): void {
+    this.stats.currentTrion = 0;
+  }
+
   /**
    * トリオンを回復
    */
@@ -84,7 +94,7 @@ export class Character {
    * 移動速度を計算
    */
   getMoveSpeed(): number {
-    return 5 + (this.stats.mobility / 100) * 10; // 5-15 units/s
+    return (5 + (this.stats.mobility / 100) * 10) * this.mobilityMultiplier; // 5-15 units/s
   }
 
   /**
@@ -95,6 +105,8 @@ export class Character {
   }
 }
 
+ComponentRegistry.register(Character, 'character');
+
 /**
  * 原作ステータスから実際のゲームステータスを生成
  * 機動力とトリオンのみを変換
@@ -143,5 +155,10 @@ export const CHARACTER_PRESETS: Record<CharacterType, {
     name: 'AIエネミー',
     class: CharacterClass.ALL_ROUNDER,
     stats: createCharacterStats(CharacterType.AI_ENEMY)
+  },
+  [CharacterType.TRION_SOLDIER]: {
+    name: 'トリオン兵',
+    class: CharacterClass.ATTACKER,
+    stats: createCharacterStats(CharacterType.TRION_SOLDIER)
   }
 };
\ No newline at end of file
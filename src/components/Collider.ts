@@ -1,4 +1,6 @@
 import * as THREE from 'three';
+import { NarrowPhase, Shape } from '../physics/NarrowPhase';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 export enum ColliderType {
   BOX = 'box',
@@ -71,25 +73,45 @@ export class Collider {
   }
 
   /**
-   * 衝突判定（簡易版）
+   * 衝突判定の形状を取得（Box: 向きを持つ箱, Sphere: 球, Capsule: positionを足元に直立したカプセル）
+   * 拡大率は球の半径にだけ掛ける（箱とカプセルのsizeは実際の大きさ）
+   */
+  getShape(position: THREE.Vector3, rotation?: THREE.Euler, scale?: THREE.Vector3): Shape {
+    const origin = position.clone().add(this.offset);
+    switch (this.type) {
+      case ColliderType.SPHERE:
+        return NarrowPhase.sphere(origin, this.size.x * (scale ? Math.max(scale.x, scale.y, scale.z) : 1));
+      case ColliderType.CAPSULE:
+        // 半径は高さの半分まで
+        return NarrowPhase.uprightCapsule(origin, Math.min(this.size.x, this.size.y / 2), this.size.y);
+      default:
+        return NarrowPhase.box(origin, this.size, rotation ? new THREE.Quaternion().setFromEuler(rotation) : undefined);
+    }
+  }
+
+  /**
+   * 衝突判定（コライダーの形状どうし）
    */
   intersects(
     thisPosition: THREE.Vector3,
     other: Collider,
-    otherPosition: THREE.Vector3
+    otherPosition: THREE.Vector3,
+    thisRotation?: THREE.Euler,
+    otherRotation?: THREE.Euler
   ): boolean {
     if (!this.canCollideWith(other.layer)) {
       return false;
     }
 
-    // 簡易的にバウンディングスフィアで判定
-    const thisSphere = this.getBoundingSphere(thisPosition);
-    const otherSphere = other.getBoundingSphere(otherPosition);
-    
-    return thisSphere.intersectsSphere(otherSphere);
+    return NarrowPhase.intersect(
+      this.getShape(thisPosition, thisRotation),
+      other.getShape(otherPosition, otherRotation)
+    ) !== null;
   }
 }
 
+ComponentRegistry.register(Collider, 'collider');
+
 /**
  * プリセットコライダー
  */
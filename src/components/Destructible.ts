@@ -0,0 +1,39 @@
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
+
+/**
+ * 壊れる建物の耐久力を管理するコンポーネント
+ */
+export class Destructible {
+  public maxDurability: number;  // 最大耐久力
+  public durability: number;     // 現在の耐久力
+
+  constructor(durability: number) {
+    this.maxDurability = durability;
+    this.durability = durability;
+  }
+
+  /**
+   * ダメージを受ける（耐久力が尽きたらtrue）
+   */
+  takeDamage(amount: number): boolean {
+    if (amount <= 0 || this.isDestroyed()) return this.isDestroyed();
+    this.durability = Math.max(0, this.durability - amount);
+    return this.isDestroyed();
+  }
+
+  /**
+   * 耐久力が尽きているか
+   */
+  isDestroyed(): boolean {
+    return this.durability <= 0;
+  }
+
+  /**
+   * 損傷の度合い（0：無傷、1：崩壊）
+   */
+  getDamageRatio(): number {
+    return this.maxDurability > 0 ? 1 - this.durability / this.maxDurability : 0;
+  }
+}
+
+ComponentRegistry.register(Destructible, 'destructible');
@@ -0,0 +1,280 @@
+import * as THREE from 'three';
+import { Transform } from './Transform';
+import { GAME_CONFIG } from '../config/GameConfig';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
+
+/**
+ * 体の部位
+ */
+export enum BodyPart {
+  HEAD = 'head',
+  TORSO = 'torso',
+  TRION_ORGAN = 'trionOrgan', // 供給機関（胴体内部）
+  RIGHT_ARM = 'rightArm',
+  LEFT_ARM = 'leftArm',
+  RIGHT_LEG = 'rightLeg',
+  LEFT_LEG = 'leftLeg'
+}
+
+/**
+ * 部位ごとの当たり判定
+ * center / halfExtentsはキャラクターのローカル座標
+ */
+export interface HitZone {
+  part: BodyPart;
+  parent: BodyPart | null;    // 階層上の親部位
+  center: THREE.Vector3;
+  halfExtents: THREE.Vector3;
+  meshNames: string[];        // 対応するメッシュ（欠損時に非表示にする）
+  lethal: boolean;            // 破壊されると即座に戦闘不能になるか
+  durability: number;         // 欠損までの耐久値（0は欠損しない）
+  damageTaken: number;
+  severed: boolean;
+}
+
+/**
+ * 傷口（トリオン漏出）
+ */
+export interface Wound {
+  part: BodyPart;
+  leakRate: number; // 毎秒の漏出量
+}
+
+/**
+ * 部位へのヒット結果
+ */
+export interface HitResult {
+  part: BodyPart;
+  lethal: boolean;
+  severed: boolean;
+}
+
+/**
+ * 部位の定義（CharacterMeshBuilderのパーツ名と対応）
+ */
+interface HitZoneDefinition {
+  part: BodyPart;
+  parent: BodyPart | null;
+  meshNames: string[];
+  lethal: boolean;
+  durability: number;
+}
+
+const HIT_ZONE_DEFINITIONS: HitZoneDefinition[] = [
+  { part: BodyPart.TORSO, parent: null, meshNames: ['torso', 'waist'], lethal: false, durability: 0 },
+  { part: BodyPart.HEAD, parent: BodyPart.TORSO, meshNames: ['head'], lethal: true, durability: 0 },
+  { part: BodyPart.RIGHT_ARM, parent: BodyPart.TORSO, meshNames: ['rightArm', 'rightHand'], lethal: false, durability: GAME_CONFIG.BODY.ARM_DURABILITY },
+  { part: BodyPart.LEFT_ARM, parent: BodyPart.TORSO, meshNames: ['leftArm', 'leftHand'], lethal: false, durability: GAME_CONFIG.BODY.ARM_DURABILITY },
+  { part: BodyPart.RIGHT_LEG, parent: BodyPart.TORSO, meshNames: ['rightLeg', 'rightFoot'], lethal: false, durability: GAME_CONFIG.BODY.LEG_DURABILITY },
+  { part: BodyPart.LEFT_LEG, parent: BodyPart.TORSO, meshNames: ['leftLeg', 'leftFoot'], lethal: false, durability: GAME_CONFIG.BODY.LEG_DURABILITY }
+];
+
+/**
+ * 部位別の当たり判定と損傷状態を管理するコンポーネント
+ */
+export class Hitbox {
+  public zones: Map<BodyPart, HitZone> = new Map();
+  public wounds: Wound[] = [];
+  public pendingSevered: BodyPart[] = []; // 欠損したが効果をまだ適用していない部位
+
+  constructor(zones: HitZone[]) {
+    for (const zone of zones) {
+      this.zones.set(zone.part, zone);
+    }
+  }
+
+  /**
+   * キャラクターメッシュのパーツから当たり判定を構築
+   */
+  static fromCharacterMesh(mesh: THREE.Object3D): Hitbox {
+    const zones: HitZone[] = [];
+
+    for (const definition of HIT_ZONE_DEFINITIONS) {
+      const box = new THREE.Box3();
+      for (const name of definition.meshNames) {
+        const part = mesh.getObjectByName(name);
+        if (!(part instanceof THREE.Mesh)) continue;
+
+        part.updateMatrix();
+        part.geometry.computeBoundingBox();
+        box.union(part.geometry.boundingBox!.clone().applyMatrix4(part.matrix));
+      }
+      if (box.isEmpty()) continue;
+
+      zones.push({
+        ...definition,
+        center: box.getCenter(new THREE.Vector3()),
+        halfExtents: box.getSize(new THREE.Vector3()).multiplyScalar(0.5),
+        damageTaken: 0,
+        severed: false
+      });
+    }
+
+    // 供給機関は胴体の内部（胸の位置）
+    const torso = mesh.getObjectByName('torso');
+    if (torso) {
+      const size = GAME_CONFIG.BODY.TRION_ORGAN_SIZE;
+      zones.push({
+        part: BodyPart.TRION_ORGAN,
+        parent: BodyPart.TORSO,
+        center: torso.position.clone().add(new THREE.Vector3(0, GAME_CONFIG.BODY.TRION_ORGAN_OFFSET, 0)),
+        halfExtents: new THREE.Vector3(size, size, size),
+        meshNames: [],
+        lethal: true,
+        durability: 0,
+        damageTaken: 0,
+        severed: false
+      });
+    }
+
+    return new Hitbox(zones);
+  }
+
+  /**
+   * 命中した部位を判定
+   * directionがあれば弾道に沿ったレイで、なければ最も近い部位を返す
+   */
+  resolveHit(transform: Transform, worldPoint: THREE.Vector3, direction: THREE.Vector3 | null): HitZone | null {
+    const localPoint = this.toLocal(transform, worldPoint);
+
+    if (direction && direction.lengthSq() > 0) {
+      const localDirection = direction.clone()
+        .applyAxisAngle(new THREE.Vector3(0, 1, 0), -transform.rotation.y)
+        .normalize();
+      // 接触点より手前から弾道を延長して判定
+      const origin = localPoint.clone().addScaledVector(localDirection, -1.0);
+      return this.raycast(new THREE.Ray(origin, localDirection));
+    }
+
+    return this.findNearestZone(localPoint);
+  }
+
+  /**
+   * ローカル座標のレイで最初に当たる部位を取得
+   */
+  private raycast(ray: THREE.Ray): HitZone | null {
+    let nearest: HitZone | null = null;
+    let nearestDistance = Infinity;
+    const hitPoint = new THREE.Vector3();
+
+    for (const zone of this.getActiveZones()) {
+      if (!ray.intersectBox(this.getZoneBox(zone), hitPoint)) continue;
+
+      const distance = hitPoint.distanceTo(ray.origin);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = zone;
+      }
+    }
+
+    // 胴体を通過したレイが供給機関も貫いていれば供給機関への命中
+    if (nearest?.part === BodyPart.TORSO) {
+      const organ = this.zones.get(BodyPart.TRION_ORGAN);
+      if (organ && ray.intersectsBox(this.getZoneBox(organ))) {
+        return organ;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * ローカル座標の点に最も近い部位を取得
+   */
+  private findNearestZone(localPoint: THREE.Vector3): HitZone | null {
+    let nearest: HitZone | null = null;
+    let nearestDistance = Infinity;
+
+    for (const zone of this.getActiveZones()) {
+      // 供給機関は胴体の内側にあるため、点が内部にある場合のみ対象
+      const distance = this.getZoneBox(zone).distanceToPoint(localPoint);
+      if (zone.part === BodyPart.TRION_ORGAN && distance > 0) continue;
+
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = zone;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * 部位にダメージを与える
+   */
+  applyHit(part: BodyPart, damage: number, allowLethal: boolean = true): HitResult {
+    const zone = this.zones.get(part);
+    const result: HitResult = { part, lethal: false, severed: false };
+    if (!zone || zone.severed) return result;
+
+    zone.damageTaken += damage;
+
+    // 頭部・供給機関への十分な威力の攻撃は致命傷
+    if (zone.lethal && allowLethal && damage >= GAME_CONFIG.BODY.LETHAL_MIN_DAMAGE) {
+      result.lethal = true;
+      return result;
+    }
+
+    // 傷口からのトリオン漏出
+    this.wounds.push({ part, leakRate: damage * GAME_CONFIG.BODY.WOUND_LEAK_PER_DAMAGE });
+
+    // 耐久値を超えたら欠損
+    if (zone.durability > 0 && zone.damageTaken >= zone.durability) {
+      zone.severed = true;
+      this.pendingSevered.push(part);
+      result.severed = true;
+    }
+
+    return result;
+  }
+
+  /**
+   * 部位が欠損しているか
+   */
+  isSevered(part: BodyPart): boolean {
+    return this.zones.get(part)?.severed ?? false;
+  }
+
+  /**
+   * 欠損した脚の数を取得
+   */
+  getSeveredLegCount(): number {
+    return [BodyPart.RIGHT_LEG, BodyPart.LEFT_LEG].filter(part => this.isSevered(part)).length;
+  }
+
+  /**
+   * 傷口からの漏出量の合計（毎秒）
+   */
+  getWoundLeakRate(): number {
+    return this.wounds.reduce((total, wound) => total + wound.leakRate, 0);
+  }
+
+  /**
+   * 欠損していない部位
+   */
+  private getActiveZones(): HitZone[] {
+    return [...this.zones.values()].filter(zone => !zone.severed);
+  }
+
+  /**
+   * 部位のバウンディングボックス（ローカル座標）
+   */
+  private getZoneBox(zone: HitZone): THREE.Box3 {
+    return new THREE.Box3(
+      zone.center.clone().sub(zone.halfExtents),
+      zone.center.clone().add(zone.halfExtents)
+    );
+  }
+
+  /**
+   * ワールド座標をキャラクターのローカル座標に変換
+   */
+  private toLocal(transform: Transform, worldPoint: THREE.Vector3): THREE.Vector3 {
+    return worldPoint.clone()
+      .sub(transform.position)
+      .applyAxisAngle(new THREE.Vector3(0, 1, 0), -transform.rotation.y)
+      .divide(transform.scale);
+  }
+}
+
+ComponentRegistry.register(Hitbox, 'hitbox');
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * 入力状態を管理するコンポーネント
@@ -24,6 +25,15 @@ export class Input {
   public triggerSlot: number = -1;  // 右手: 1-4の数字キー、-1は切り替えなし
   public leftTriggerSlot: number = -1;  // 左手: Shift+1-4キーでC1-C4選択、-1は切り替えなし
   
+  // 合成弾
+  public mergeCompound: boolean = false;    // 中クリックで両手の弾を合成
+  
+  // バイパー弾道作成
+  public placeWaypoint: boolean = false;    // Fキーで経由点を設置
+  public clearWaypoints: boolean = false;   // Gキーで経由点をクリア
+  public trajectoryPresetKey: string | null = null; // プリセット弾道キー（Z/X/C）
+  public rebindTrajectoryPreset: boolean = false;   // Shift+プリセットキーで割り当て変更
+  
   // トリガーメニュー
   public openTriggerMenu: boolean = false;  // Tabキーでトリガーメニューを開く
   
@@ -48,6 +58,11 @@ export class Input {
     this.triggerSlot = -1;
     this.leftTriggerSlot = -1;
     this.openTriggerMenu = false;
+    this.mergeCompound = false;
+    this.placeWaypoint = false;
+    this.clearWaypoints = false;
+    this.trajectoryPresetKey = null;
+    this.rebindTrajectoryPreset = false;
     // 連射状態はリセットしない（長押し継続のため）
   }
   
@@ -73,4 +88,6 @@ export class Input {
       this.moveDirection.clone().normalize() : 
       new THREE.Vector2(0, 0);
   }
-}
\ No newline at end of file
+}
+
+ComponentRegistry.register(Input, 'input');
\ No newline at end of file
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * 3Dメッシュを管理するコンポーネント
@@ -80,4 +81,6 @@ export class MeshComponent {
       });
     }
   }
-}
\ No newline at end of file
+}
+
+ComponentRegistry.register(MeshComponent, 'mesh');
\ No newline at end of file
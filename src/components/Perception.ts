@@ -0,0 +1,155 @@
+import * as THREE from 'three';
+import { GAME_CONFIG } from '../config/GameConfig';
+import { AIConfig } from './AI';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
+
+/**
+ * 敵に気づいた手段
+ */
+export enum PerceptionSource {
+  SIGHT = 'sight',   // 視界に捉えた
+  SOUND = 'sound',   // 銃声・跳躍音を聞いた
+  RADAR = 'radar',   // レーダーに映っている
+  SQUAD = 'squad'    // 部隊の仲間から共有された
+}
+
+/**
+ * 知覚の設定（難易度は命中精度ではなくここで調整する）
+ */
+export interface PerceptionConfig {
+  visionRange: number;     // 視認できる距離
+  visionAngle: number;     // 視野角（度）
+  radarRange: number;      // レーダーの反応を読み取る距離
+  hearingScale: number;    // 音が聞こえる距離の倍率
+  memoryDuration: number;  // 見失った敵を覚えておく時間（秒）
+}
+
+/**
+ * 知覚している敵（最後に確認した位置）
+ */
+export interface PerceivedEnemy {
+  entityId: number;
+  position: THREE.Vector3;    // 最後に確認した位置
+  source: PerceptionSource;   // 最後に確認した手段
+  age: number;                // 最後に確認してからの経過時間（秒）
+  visible: boolean;           // 今見えているか
+}
+
+/**
+ * 発生源のわからない物音（爆発など）
+ */
+export interface HeardNoise {
+  position: THREE.Vector3;
+  age: number;
+}
+
+/**
+ * 視界・聴覚・レーダーで敵を捉え、見失った位置を覚えておくコンポーネント
+ */
+export class Perception {
+  public config: PerceptionConfig;
+  public memories: Map<number, PerceivedEnemy> = new Map();
+  public noise: HeardNoise | null = null;  // 最後に聞いた物音
+
+  constructor(config: Partial<PerceptionConfig> = {}) {
+    const defaults = GAME_CONFIG.PERCEPTION;
+    this.config = {
+      visionRange: 30,
+      visionAngle: defaults.VISION_ANGLE,
+      radarRange: 30,
+      hearingScale: 1,
+      memoryDuration: defaults.MEMORY_DURATION,
+      ...config
+    };
+  }
+
+  /**
+   * AIの設定から作成（探知範囲を視認距離とレーダーを読む距離にする）
+   */
+  static fromAIConfig(config: AIConfig, overrides: Partial<PerceptionConfig> = {}): Perception {
+    return new Perception({ visionRange: config.detectionRange, radarRange: config.detectionRange, ...overrides });
+  }
+
+  /**
+   * 経過時間を進め、古い記憶を忘れる（見えているかどうかは毎フレーム判定し直す）
+   */
+  decay(deltaTime: number): void {
+    for (const [entityId, memory] of this.memories) {
+      memory.age += deltaTime;
+      memory.visible = false;
+      if (memory.age > this.config.memoryDuration) {
+        this.memories.delete(entityId);
+      }
+    }
+
+    if (this.noise) {
+      this.noise.age += deltaTime;
+      if (this.noise.age > this.config.memoryDuration) {
+        this.noise = null;
+      }
+    }
+  }
+
+  /**
+   * 敵を捉えた（視界で捉えた場合は見えている状態になる）
+   */
+  sense(entityId: number, position: THREE.Vector3, source: PerceptionSource): void {
+    const memory = this.memories.get(entityId);
+    const visible = source === PerceptionSource.SIGHT;
+
+    // 今見えている敵の位置を、精度の低い手段で上書きしない
+    if (memory?.visible && !visible) return;
+
+    if (memory) {
+      memory.position.copy(position);
+      memory.source = source;
+      memory.age = 0;
+      memory.visible = visible;
+      return;
+    }
+    this.memories.set(entityId, { entityId, position: position.clone(), source, age: 0, visible });
+  }
+
+  /**
+   * 仲間から共有された情報を受け取る（自分の記憶の方が新しければ無視）
+   */
+  share(entityId: number, position: THREE.Vector3, age: number): void {
+    const memory = this.memories.get(entityId);
+    if (memory && memory.age <= age) return;
+
+    this.memories.set(entityId, {
+      entityId,
+      position: position.clone(),
+      source: PerceptionSource.SQUAD,
+      age,
+      visible: false
+    });
+  }
+
+  /**
+   * 物音を聞いた
+   */
+  hear(position: THREE.Vector3): void {
+    this.noise = { position: position.clone(), age: 0 };
+  }
+
+  /**
+   * 敵を忘れる
+   */
+  forget(entityId: number): void {
+    this.memories.delete(entityId);
+  }
+
+  getMemory(entityId: number): PerceivedEnemy | null {
+    return this.memories.get(entityId) ?? null;
+  }
+
+  /**
+   * 敵が今見えているか
+   */
+  canSee(entityId: number): boolean {
+    return this.memories.get(entityId)?.visible ?? false;
+  }
+}
+
+ComponentRegistry.register(Perception, 'perception');
@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import { TriggerType } from '../triggers/TriggerDefinitions';
+import { GAME_CONFIG } from '../config/GameConfig';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * 弾丸の種類
@@ -8,7 +10,11 @@ export enum ProjectileType {
   BULLET = 'bullet',        // 通常弾
   EXPLOSIVE = 'explosive',  // 爆発弾
   HOMING = 'homing',       // 追尾弾
-  PIERCING = 'piercing'    // 貫通弾
+  PIERCING = 'piercing',   // 貫通弾
+  GIMLET = 'gimlet',       // 合成弾：ギムレット（強化貫通弾）
+  TOMAHAWK = 'tomahawk',   // 合成弾：トマホーク（誘導炸裂弾）
+  SALAMANDER = 'salamander', // 合成弾：サラマンダー（近接信管付き炸裂弾）
+  BOMB = 'bomb'            // トリオン兵（バンダー）の爆撃弾
 }
 
 /**
@@ -28,8 +34,11 @@ export class Projectile {
   public explosionRadius: number = 0;  // 爆発半径
   public homingTarget: number | null = null; // 追尾対象のエンティティID
   public homingStrength: number = 0;   // 追尾の強さ
+  public trajectory: THREE.Curve<THREE.Vector3> | null = null; // 弾道（バイパー用）
+  public trajectoryProgress: number = 0; // 弾道上の移動距離
   public lifeTime: number = 5.0;       // 弾の寿命（秒）
   public age: number = 0;              // 弾の年齢（秒）
+  public hitEntities: Set<number> = new Set(); // 既に命中したエンティティ（貫通時の多重ヒット防止）
 
   constructor(
     type: ProjectileType,
@@ -64,6 +73,19 @@ export class Projectile {
       case ProjectileType.PIERCING:
         this.maxPierce = 3;
         break;
+      case ProjectileType.GIMLET:
+        this.maxPierce = 5;
+        break;
+      case ProjectileType.TOMAHAWK:
+        this.explosionRadius = 4;
+        this.homingStrength = 2.0;
+        break;
+      case ProjectileType.SALAMANDER:
+        this.explosionRadius = 5;
+        break;
+      case ProjectileType.BOMB:
+        this.explosionRadius = GAME_CONFIG.NEIGHBOR.BOMB_RADIUS;
+        break;
     }
   }
 
@@ -86,6 +108,12 @@ export class Projectile {
       this.damage *= 0.8;
       return true; // まだ貫通可能
     }
+    if (this.type === ProjectileType.GIMLET && this.pierceCount < this.maxPierce) {
+      this.pierceCount++;
+      // ギムレットは貫通による減衰が小さい
+      this.damage *= 0.9;
+      return true;
+    }
     return false; // これ以上貫通できない
   }
 
@@ -93,13 +121,27 @@ export class Projectile {
    * 爆発ダメージの計算
    */
   getExplosionDamage(distance: number): number {
-    if (this.type !== ProjectileType.EXPLOSIVE) return this.damage;
+    if (this.explosionRadius <= 0) return this.damage;
     
     // 距離に応じてダメージを減衰
     const falloff = 1 - (distance / this.explosionRadius);
     return this.damage * Math.max(0, falloff);
   }
 
+  /**
+   * 炸裂する合成弾か
+   */
+  isCompoundExplosive(): boolean {
+    return this.type === ProjectileType.TOMAHAWK || this.type === ProjectileType.SALAMANDER;
+  }
+
+  /**
+   * 着弾時に炸裂するか（合成弾・爆撃弾）
+   */
+  detonatesOnImpact(): boolean {
+    return this.isCompoundExplosive() || this.type === ProjectileType.BOMB;
+  }
+
   /**
    * 追尾対象を設定
    */
@@ -107,4 +149,14 @@ export class Projectile {
     this.homingTarget = targetId;
   }
 
-}
\ No newline at end of file
+  /**
+   * 弾道を設定
+   */
+  setTrajectory(trajectory: THREE.Curve<THREE.Vector3> | null): void {
+    this.trajectory = trajectory;
+    this.trajectoryProgress = 0;
+  }
+
+}
+
+ComponentRegistry.register(Projectile, 'projectile');
\ No newline at end of file
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * シールドの状態を管理するコンポーネント
@@ -117,4 +118,6 @@ export class Shield {
     const maxDurability = this.baseDurability / this.size;
     return (this.currentDurability / maxDurability) * 100;
   }
-}
\ No newline at end of file
+}
+
+ComponentRegistry.register(Shield, 'shield');
\ No newline at end of file
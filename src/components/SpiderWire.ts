@@ -0,0 +1,59 @@
+import * as THREE from 'three';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
+
+/**
+ * スパイダーのワイヤーを管理するコンポーネント
+ * 2点間に張られた線分として扱う
+ */
+export class SpiderWire {
+  public start: THREE.Vector3;
+  public end: THREE.Vector3;
+  public owner: number;  // 設置したエンティティのID
+  public team: number;   // 設置したチーム
+
+  constructor(start: THREE.Vector3, end: THREE.Vector3, owner: number, team: number) {
+    this.start = start.clone();
+    this.end = end.clone();
+    this.owner = owner;
+    this.team = team;
+  }
+
+  /**
+   * ワイヤーの長さを取得
+   */
+  getLength(): number {
+    return this.start.distanceTo(this.end);
+  }
+
+  /**
+   * ワイヤーの方向（正規化済み）を取得
+   */
+  getDirection(): THREE.Vector3 {
+    return this.end.clone().sub(this.start).normalize();
+  }
+
+  /**
+   * ワイヤーの中点を取得
+   */
+  getMidpoint(): THREE.Vector3 {
+    return this.start.clone().add(this.end).multiplyScalar(0.5);
+  }
+
+  /**
+   * 指定位置に最も近いワイヤー上の点を取得
+   */
+  closestPointTo(point: THREE.Vector3): THREE.Vector3 {
+    const segment = this.end.clone().sub(this.start);
+    const lengthSq = segment.lengthSq();
+    if (lengthSq === 0) return this.start.clone();
+
+    const t = THREE.MathUtils.clamp(
+      point.clone().sub(this.start).dot(segment) / lengthSq,
+      0,
+      1
+    );
+    return this.start.clone().add(segment.multiplyScalar(t));
+  }
+}
+
+ComponentRegistry.register(SpiderWire, 'spiderWire');
@@ -1,4 +1,5 @@
 import { TriggerType } from '../triggers/TriggerDefinitions';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * 分割可能なシューター弾用コンポーネント（アステロイド、バイパーなど）
@@ -54,14 +55,6 @@ export class SplittingTrigger {
     this.currentSplitLevel = 1;
   }
 
-  /**
-   * トリオン量に基づいてキューブサイズを設定
-   */
-  setTrionBasedSize(trionRatio: number): void {
-    // トリオン量に比例してサイズを決定（0.5倍～1.5倍）
-    this.cubeSize = 0.5 + (trionRatio * 1.0);
-  }
-
   /**
    * 分割可能かどうか
    */
@@ -69,4 +62,6 @@ export class SplittingTrigger {
     // キューブが生成されていて、かつ最大分割レベルに達していない場合のみ分割可能
     return this.isGenerated && this.currentSplitLevel < this.maxSplitLevel;
   }
-}
\ No newline at end of file
+}
+
+ComponentRegistry.register(SplittingTrigger, 'splittingTrigger');
\ No newline at end of file
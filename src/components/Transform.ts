@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * 位置・回転・スケールを管理するコンポーネント
@@ -68,4 +69,6 @@ export class Transform {
     );
     return matrix;
   }
-}
\ No newline at end of file
+}
+
+ComponentRegistry.register(Transform, 'transform');
\ No newline at end of file
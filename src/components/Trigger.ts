@@ -1,4 +1,5 @@
 import { TriggerType, TriggerSet, TRIGGER_DEFINITIONS } from '../triggers/TriggerDefinitions';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * トリガーの状態
@@ -23,6 +24,9 @@ export class Trigger {
   public leftCurrentSlot: number = 2;  // 左手のスロット番号
   public leftCurrentTrigger: TriggerType | null = null;
   public leftWeaponGenerated: boolean = false; // 左手武器が生成されているか
+  public bagwormActive: boolean = false; // バッグワーム（レーダー隠蔽）が起動中か
+  public rightHandLost: boolean = false; // 右腕の欠損（メインスロットが使用不可）
+  public leftHandLost: boolean = false; // 左腕の欠損（サブスロットが使用不可）
 
   constructor(triggerSet: TriggerSet, character?: any) {
     this.triggerSet = { ...triggerSet };
@@ -79,7 +83,7 @@ export class Trigger {
    * スロットを選択
    */
   selectSlot(slot: number): boolean {
-    if (slot < 1 || slot > 4) return false;
+    if (slot < 1 || slot > 4 || this.rightHandLost) return false;
 
     const triggerType = this.getTriggerAtSlot(slot);
     if (!triggerType) return false;
@@ -120,6 +124,10 @@ export class Trigger {
       console.log(`Invalid C-slot number: ${slot}`);
       return false;
     }
+    if (this.leftHandLost) {
+      console.log('Left arm lost: C-slots are unavailable');
+      return false;
+    }
 
     const triggerType = this.getTriggerAtCSlot(slot);
     console.log(`Trigger at C-slot ${slot}:`, triggerType);
@@ -295,6 +303,45 @@ export class Trigger {
     }
   }
 
+  /**
+   * 腕の欠損によりその手のスロット群を使用不可にする
+   */
+  loseHand(isLeftHand: boolean): void {
+    if (isLeftHand) {
+      this.leftHandLost = true;
+      this.dismissLeftWeapon();
+      if (this.leftCurrentTrigger && this.leftCurrentTrigger !== this.currentTrigger) {
+        const state = this.states.get(this.leftCurrentTrigger);
+        if (state) state.active = false;
+      }
+      this.leftCurrentTrigger = null;
+      this.leftCurrentSlot = 0;
+    } else {
+      this.rightHandLost = true;
+      this.dismissWeapon();
+      if (this.currentTrigger && this.currentTrigger !== this.leftCurrentTrigger) {
+        const state = this.states.get(this.currentTrigger);
+        if (state) state.active = false;
+      }
+      this.currentTrigger = null;
+    }
+  }
+
+  /**
+   * 両手を元に戻す（トリオン体の再構築時）
+   */
+  restoreHands(): void {
+    this.rightHandLost = false;
+    this.leftHandLost = false;
+    this.dismissWeapon();
+    this.dismissLeftWeapon();
+    for (const state of this.states.values()) {
+      state.active = false;
+      state.cooldownRemaining = 0;
+    }
+    this.updateCurrentTriggers();
+  }
+
   /**
    * 武器を生成（アタッカー・スナイパー・ガンナートリガー）
    */
@@ -524,4 +571,6 @@ export class Trigger {
     // 最大トリオンに返還
     character.stats.trionCapacity += previousCost;
   }
-}
\ No newline at end of file
+}
+
+ComponentRegistry.register(Trigger, 'trigger');
\ No newline at end of file
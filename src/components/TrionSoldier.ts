@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
+
+/**
+ * トリオン兵の種類
+ */
+export enum TrionSoldierType {
+  BAMSTER = 'bamster', // 捕獲用：大型・鈍重、市民を捕らえてゲートへ持ち帰る
+  MOD = 'mod',         // 戦闘用：高速の近接型
+  BANDO = 'bando',     // 爆撃用：飛行して爆弾を投下
+  RADO = 'rado'        // 偵察用：小型、周囲のボーダー隊員を味方に知らせる
+}
+
+/**
+ * トリオン兵の種類ごとの性能
+ */
+export interface TrionSoldierDefinition {
+  name: string;
+  trionCapacity: number;       // 耐久（トリオン量）
+  mobility: number;            // 機動力（0-100、Character.getMoveSpeedで使用）
+  colliderSize: THREE.Vector3; // 当たり判定の大きさ
+  detectionRange: number;      // ボーダー隊員を探知する距離（0なら戦闘しない）
+  attackDamage: number;
+  attackRange: number;
+  attackCooldown: number;      // 攻撃間隔（秒）
+  flying: boolean;             // 飛行するか（重力を受けない）
+  captureCapacity: number;     // 捕獲できる市民の数
+}
+
+/**
+ * トリオン兵の性能一覧
+ */
+export const TRION_SOLDIER_DEFINITIONS: Record<TrionSoldierType, TrionSoldierDefinition> = {
+  [TrionSoldierType.BAMSTER]: {
+    name: 'バムスター',
+    trionCapacity: 400,
+    mobility: 10,
+    colliderSize: new THREE.Vector3(2.4, 3.6, 2.4),
+    detectionRange: 0,
+    attackDamage: 0,
+    attackRange: 0,
+    attackCooldown: 0,
+    flying: false,
+    captureCapacity: 5
+  },
+  [TrionSoldierType.MOD]: {
+    name: 'モールモッド',
+    trionCapacity: 120,
+    mobility: 90,
+    colliderSize: new THREE.Vector3(1.4, 1.2, 1.4),
+    detectionRange: 30,
+    attackDamage: 20,
+    attackRange: 2.5,
+    attackCooldown: 1.0,
+    flying: false,
+    captureCapacity: 0
+  },
+  [TrionSoldierType.BANDO]: {
+    name: 'バンダー',
+    trionCapacity: 200,
+    mobility: 40,
+    colliderSize: new THREE.Vector3(2.0, 1.0, 2.0),
+    detectionRange: 40,
+    attackDamage: 25,
+    attackRange: 4, // 真下に投下するための水平距離
+    attackCooldown: 3.0,
+    flying: true,
+    captureCapacity: 0
+  },
+  [TrionSoldierType.RADO]: {
+    name: 'ラッド',
+    trionCapacity: 40,
+    mobility: 60,
+    colliderSize: new THREE.Vector3(0.6, 0.5, 0.6),
+    detectionRange: 25,
+    attackDamage: 0,
+    attackRange: 0,
+    attackCooldown: 0,
+    flying: false,
+    captureCapacity: 0
+  }
+};
+
+/**
+ * トリオン兵（ネイバーの尖兵）を表すコンポーネント
+ */
+export class TrionSoldier {
+  public type: TrionSoldierType;
+  public gateIndex: number;            // 出現したゲート（バムスターの帰還先）
+  public attackTimer: number = 0;      // 次の攻撃までの時間
+  public captured: number = 0;         // 捕獲している市民の数
+  public captureTimer: number = 0;     // 次の捕獲までの時間
+  public returning: boolean = false;   // 捕獲を終えてゲートへ帰還中
+  public wanderTarget: THREE.Vector3 | null = null;
+
+  constructor(type: TrionSoldierType, gateIndex: number) {
+    this.type = type;
+    this.gateIndex = gateIndex;
+  }
+
+  /**
+   * 種類ごとの性能
+   */
+  get definition(): TrionSoldierDefinition {
+    return TRION_SOLDIER_DEFINITIONS[this.type];
+  }
+
+  /**
+   * 飛行型か
+   */
+  isFlying(): boolean {
+    return this.definition.flying;
+  }
+
+  /**
+   * 捕獲上限に達したか（ゲートへ帰還する）
+   */
+  isFull(): boolean {
+    return this.definition.captureCapacity > 0 && this.captured >= this.definition.captureCapacity;
+  }
+}
+
+ComponentRegistry.register(TrionSoldier, 'trionSoldier');
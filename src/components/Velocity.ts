@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
 
 /**
  * 速度を管理するコンポーネント
@@ -66,4 +67,6 @@ export class Velocity {
       this.linear.normalize().multiplyScalar(maxSpeed);
     }
   }
-}
\ No newline at end of file
+}
+
+ComponentRegistry.register(Velocity, 'velocity');
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { AIConfig, AITriggerUsage } from '../components/AI';
+import { PerceptionConfig } from '../components/Perception';
+
+/**
+ * AIの難易度
+ */
+export enum AIDifficulty {
+  TRAINEE = 'trainee', // 訓練生
+  B_RANK = 'bRank',    // B級隊員
+  A_RANK = 'aRank',    // A級隊員
+  S_RANK = 'sRank'     // S級隊員
+}
+
+/**
+ * 難易度ごとのAIの調整値（倍率は戦術ごとの標準設定にかける）
+ */
+export interface AIDifficultyProfile {
+  label: string;
+  reactionScale: number;          // 反応時間の倍率
+  aimSpreadScale: number;         // 射撃の散布の倍率
+  decisionInterval: number;       // 行動を判断し直す間隔（秒）
+  triggerUsage: AITriggerUsage;   // トリガー運用の練度
+  retreatScale: number;           // 撤退するトリオン残量の閾値の倍率（0なら撤退しない）
+  perception: Pick<PerceptionConfig, 'visionAngle' | 'hearingScale' | 'memoryDuration'>;
+}
+
+/**
+ * 難易度ごとの設定
+ */
+export const AI_DIFFICULTY_PROFILES: Record<AIDifficulty, AIDifficultyProfile> = {
+  [AIDifficulty.TRAINEE]: {
+    label: '訓練生',
+    reactionScale: 2,
+    aimSpreadScale: 2.5,
+    decisionInterval: 0.4,
+    triggerUsage: AITriggerUsage.BASIC,
+    retreatScale: 0,
+    perception: { visionAngle: 90, hearingScale: 0.5, memoryDuration: 3 }
+  },
+  [AIDifficulty.B_RANK]: {
+    label: 'B級',
+    reactionScale: 1.3,
+    aimSpreadScale: 1.5,
+    decisionInterval: 0.2,
+    triggerUsage: AITriggerUsage.STANDARD,
+    retreatScale: 1,
+    perception: { visionAngle: 110, hearingScale: 0.8, memoryDuration: 6 }
+  },
+  [AIDifficulty.A_RANK]: {
+    label: 'A級',
+    reactionScale: 1,
+    aimSpreadScale: 1,
+    decisionInterval: 0.1,
+    triggerUsage: AITriggerUsage.ADVANCED,
+    retreatScale: 1,
+    perception: { visionAngle: 120, hearingScale: 1, memoryDuration: 8 }
+  },
+  [AIDifficulty.S_RANK]: {
+    label: 'S級',
+    reactionScale: 0.6,
+    aimSpreadScale: 0.5,
+    decisionInterval: 0,
+    triggerUsage: AITriggerUsage.ADVANCED,
+    retreatScale: 1.3,
+    perception: { visionAngle: 150, hearingScale: 1.5, memoryDuration: 12 }
+  }
+};
+
+/**
+ * 標準の難易度
+ */
+export const DEFAULT_AI_DIFFICULTY = AIDifficulty.B_RANK;
+
+/**
+ * 難易度設定のユーティリティ
+ */
+export class AIDifficultyUtils {
+  /**
+   * 戦術ごとの標準設定に難易度を反映する
+   */
+  static applyToConfig(config: AIConfig, difficulty: AIDifficulty): AIConfig {
+    const profile = AI_DIFFICULTY_PROFILES[difficulty];
+    return {
+      ...config,
+      reactionTime: config.reactionTime * profile.reactionScale,
+      aimSpread: config.aimSpread * profile.aimSpreadScale,
+      decisionInterval: profile.decisionInterval,
+      triggerUsage: profile.triggerUsage,
+      retreatThreshold: config.retreatThreshold * profile.retreatScale
+    };
+  }
+
+  /**
+   * 難易度に応じた知覚の設定
+   */
+  static getPerceptionConfig(difficulty: AIDifficulty): Partial<PerceptionConfig> {
+    return { ...AI_DIFFICULTY_PROFILES[difficulty].perception };
+  }
+
+  /**
+   * 保存された値などを有効な難易度に変換する
+   */
+  static parse(value: string | null | undefined): AIDifficulty | null {
+    return Object.values(AIDifficulty).find(difficulty => difficulty === value) ?? null;
+  }
+}
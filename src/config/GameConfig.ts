@@ -2,6 +2,12 @@
  * ゲーム全体の設定値
  */
 export const GAME_CONFIG = {
+  // シミュレーション設定
+  SIMULATION: {
+    TICK_RATE: 60, // 1秒あたりのシミュレーションの刻み数（描画のフレームレートとは独立）
+    MAX_TICKS_PER_FRAME: 5, // 1フレームで進める刻みの上限（処理落ち時に追いつこうとして固まるのを防ぐ）
+  },
+
   // レンダリング設定
   RENDER: {
     BACKGROUND_COLOR: 0x87CEEB,
@@ -22,6 +28,8 @@ export const GAME_CONFIG = {
     MAX_UP_ANGLE: Math.PI * 60 / 180, // 60度（上方向の制限を厳しく）
     MAX_DOWN_ANGLE: Math.PI * 85 / 180, // 85度（下方向の制限）
     FOLLOW_SPEED: 0.15,
+    FREE_CAMERA_SPEED: 12, // リプレイのフリーカメラの移動速度（m/秒）
+    FREE_CAMERA_FAST_MULTIPLIER: 3, // Shiftを押している間の速度の倍率
   },
 
   // 移動設定
@@ -30,7 +38,233 @@ export const GAME_CONFIG = {
     JUMP_FORCE: 10,
     GROUND_LEVEL: 0,
     CHARACTER_HEIGHT: 1,
-    ARENA_BOUNDS: 24,
+    ARENA_BOUNDS: 24, // マップが読み込まれていないときの移動範囲
+  },
+
+  // キャラクターコントローラー設定
+  CONTROLLER: {
+    RADIUS: 0.4, // カプセルのコライダーを持たないキャラクターの半径
+    HEIGHT: 1.8, // カプセルのコライダーを持たないキャラクターの高さ
+    STEP_HEIGHT: 0.5, // 歩いて登れる段差（ナビメッシュのNAVIGATION.STEP_HEIGHTと揃える）
+    MAX_SLOPE: 45, // 立っていられる斜面の角度（度）
+    SKIN_WIDTH: 0.02, // 接地・接触とみなす隙間
+    MAX_SUBSTEP: 0.5, // 1回に動かす距離の上限（半径に対する比、壁のすり抜け防止）
+    MAX_ITERATIONS: 4, // 1回の移動で重なりを押し戻す回数の上限
+    PUSH_RATIO: 0.5, // キャラクター同士の重なりを1フレームで押し戻す割合
+  },
+
+  // 衝突判定設定
+  COLLISION: {
+    BLADE_HEIGHT: 1.0, // 斬撃の刃が通る高さ（攻撃者の足元から）
+    BLADE_REACH: 0.8, // 斬撃の刃の長さ（射程に対する比、エフェクトの半径と同じ）
+  },
+
+  // レーダー設定
+  RADAR: {
+    RANGE: 60, // レーダー探知範囲
+    HUD_SIZE: 140, // HUDレーダーの表示サイズ（px）
+  },
+
+  // スパイダー（ワイヤー）設定
+  SPIDER: {
+    MAX_LENGTH: 20, // ワイヤーの最大長
+    MIN_ANCHOR_HEIGHT: 0.3, // 地面に張る場合の最低高さ
+    WIRE_RADIUS: 0.4, // 接触判定の半径
+    LEG_HEIGHT: 1.0, // 足に引っかかる高さ（足元からの高さ）
+    SLOW_FACTOR: 0.4, // 接触中の速度倍率
+    TRIP_SPEED_RATIO: 1.2, // 通常移動速度に対してこの倍率を超えると転倒
+    TRIP_DURATION: 0.8, // 転倒時間（秒）
+    VISIBILITY_RANGE: 30, // 敵ワイヤーを視認できる距離
+  },
+
+  // バイパー（弾道作成）設定
+  VIPER: {
+    MAX_WAYPOINTS: 5, // 設置できる経由点の最大数
+    PRESET_DISTANCE: 15, // プリセット弾道の目標距離
+    PRESET_KEYS: ['z', 'x', 'c'], // プリセットを割り当てられるキー
+  },
+
+  // 合成弾設定
+  COMPOUND: {
+    CHARGE_TIME: 1.5, // 合成にかかる時間（秒）
+    TRION_MULTIPLIER: 1.5, // 両手のトリオンコスト合計に対する倍率
+    SALAMANDER_FUSE_RADIUS: 1.5, // サラマンダーの近接信管の範囲
+    GIMLET_SHIELD_PENETRATION: 0.5, // シールド貫通後のギムレットのダメージ倍率
+  },
+
+  // 部位・損傷設定
+  BODY: {
+    LETHAL_MIN_DAMAGE: 15, // 頭部・供給機関を破壊するのに必要な最低威力
+    ARM_DURABILITY: 40, // 腕が欠損するまでの累積ダメージ
+    LEG_DURABILITY: 50, // 脚が欠損するまでの累積ダメージ
+    WOUND_LEAK_PER_DAMAGE: 0.05, // 傷口からの漏出量（ダメージ1あたり毎秒）
+    SEVER_LEAK_RATIO: 0.02, // 欠損部位からの漏出量（最大トリオンに対する毎秒の割合）
+    LEG_LOSS_MOBILITY: 0.5, // 脚1本欠損ごとの機動力倍率
+    TRION_ORGAN_SIZE: 0.08, // 供給機関の当たり判定（半径）
+    TRION_ORGAN_OFFSET: 0.1, // 胴体中心から供給機関までの高さ
+  },
+
+  // 緊急脱出設定
+  BAILOUT: {
+    BREAK_DURATION: 0.6, // トリオン体の崩壊演出の時間（秒）
+    LAUNCH_DURATION: 1.5, // 基地までの飛行時間（秒）
+    LAUNCH_HEIGHT: 25, // 飛行軌道の最高点
+    FRAGMENT_COUNT: 24, // 崩壊時に飛び散る破片の数
+    TEAM_BASES: [ // チームごとの基地（脱出先・復帰地点）
+      { x: 0, y: 0, z: 22 },
+      { x: 0, y: 0, z: -22 },
+      { x: 22, y: 0, z: 0 },
+      { x: -22, y: 0, z: 0 },
+    ],
+  },
+
+  // ランク戦設定
+  RANK_WAR: {
+    MIN_SQUADS: 2,
+    MAX_SQUADS: 4,
+    MAX_SQUAD_SIZE: 4,
+    TIME_LIMIT_OPTIONS: [300, 600, 900, 1200], // 制限時間の選択肢（秒）
+    DEFAULT_TIME_LIMIT: 600,
+    POINTS_PER_BAILOUT: 1, // 緊急脱出させるごとの得点
+    SURVIVOR_BONUS: 2, // 試合終了時に生存者がいる部隊へのボーナス
+    SPAWN_DISTANCE: 18, // 中心から各部隊の初期位置までの距離
+    MEMBER_SPACING: 2.5, // 部隊メンバーの間隔
+    SQUAD_COLORS: [ // 部隊ごとの隊服の色
+      { primary: 0x0088ff, secondary: 0x004488 },
+      { primary: 0xff0044, secondary: 0x880022 },
+      { primary: 0x22cc44, secondary: 0x116622 },
+      { primary: 0xffaa00, secondary: 0x885500 },
+    ],
+  },
+
+  // ネイバー遠征（防衛戦）設定
+  NEIGHBOR: {
+    TEAM: 1, // トリオン兵のチーム
+    TOTAL_WAVES: 5,
+    WAVE_INTERVAL: 8, // ウェーブ間の準備時間（秒）
+    SPAWN_INTERVAL: 1.2, // ゲートからトリオン兵が出現する間隔（秒）
+    BASE_WAVE_SIZE: 3, // 第1ウェーブのトリオン兵の数
+    WAVE_SIZE_GROWTH: 2, // ウェーブごとに増える数
+    ALLY_COUNT: 2, // 共闘するAI隊員の数
+    GATE_POSITIONS: [ // ゲートの出現位置
+      { x: 0, z: -20 },
+      { x: 18, z: -14 },
+      { x: -18, z: -14 },
+    ],
+    GATE_OPEN_DURATION: 2.0, // ゲートが開いてから最初のトリオン兵が出るまで（秒）
+    DISTRICT_CENTER: { x: 0, z: 16 }, // 防衛対象の市街地
+    DISTRICT_RADIUS: 7,
+    CIVILIAN_COUNT: 20, // 市街地の市民の数
+    TERRITORY_DAMAGE_RATE: 2, // 市街地に侵入したトリオン兵1体あたりの被害（毎秒%）
+    BOMB_TERRITORY_DAMAGE: 5, // 市街地への爆撃1発あたりの被害（%）
+    BOMB_RADIUS: 4, // 爆撃の爆発半径
+    CAPTURE_TIME: 3, // バムスターが市民1人を捕獲する時間（秒）
+    RADO_SCAN_RANGE: 25, // ラッドが味方に位置を知らせる範囲
+    BANDO_ALTITUDE: 8, // バンダーの飛行高度
+  },
+
+  // ナビゲーション（AIの経路探索）設定
+  NAVIGATION: {
+    CELL_SIZE: 1, // ナビメッシュのセルの大きさ（m）
+    AGENT_RADIUS: 0.5, // 障害物から離れる距離
+    STEP_HEIGHT: 0.5, // 歩いて越えられる段差
+    JUMP_HEIGHT: 2.0, // ジャンプで登れる高さ（ジャンプ力10・重力-20で最高2.5m）
+    HOP_HEIGHT: 5.0, // グラスホッパーで登れる高さ（最短ブリンク距離）
+    JUMP_COST: 2, // ジャンプを含む経路の追加コスト
+    HOP_COST: 4, // グラスホッパーを使う経路の追加コスト
+    REPATH_INTERVAL: 0.5, // 経路を再計算する間隔（秒）
+    REPATH_DISTANCE: 2, // 目的地がこれ以上動いたら再計算
+    WAYPOINT_RADIUS: 0.6, // 経由点に到達したとみなす距離
+    AVOIDANCE_RADIUS: 1.5, // 他のキャラクターを避け始める距離
+    AVOIDANCE_WEIGHT: 1.2, // 回避の強さ
+    PATROL_RADIUS: 15, // 巡回路の半径
+    PATROL_POINTS: 4, // 巡回路の地点数
+  },
+
+  // 部隊AI（連携）設定
+  SQUAD: {
+    DECISION_INTERVAL: 0.5, // 役割・指示を見直す間隔（秒）
+    MEMORY_DURATION: 5, // 見失った敵の位置を覚えておく時間（秒）
+    SELF_DEFENSE_RANGE: 6, // これより近い敵は集中攻撃の指示より優先する
+    FOCUS_SWITCH_RATIO: 0.7, // 集中攻撃の対象を切り替えるスコアの比率
+    COVER_DISTANCE: 6, // 援護役が前衛の後ろにつく距離
+    COVER_SPREAD: 2, // 援護役の左右の間隔
+    COVER_TOLERANCE: 3, // 援護位置に着いたとみなす距離
+    OVERWATCH_SEARCH_RADIUS: 20, // 狙撃役が高所を探す範囲
+    OVERWATCH_MIN_HEIGHT: 2, // 高所とみなす足場の高さ
+    RETREAT_TRION: 30, // 部隊の平均トリオン残量がこれを下回ると撤退（％）
+    OUTNUMBERED_MARGIN: 2, // 敵の数がこれだけ上回ると撤退
+    RALLY_DISTANCE: 12, // 撤退時の集合地点までの距離
+  },
+
+  // AIのトリガー運用設定
+  AI_TRIGGERS: {
+    THREAT_LOOKAHEAD: 0.8, // この秒数以内に届く弾を脅威とみなす
+    THREAT_RADIUS: 1.5, // 弾の予測進路がこれより近く通るなら被弾とみなす
+    BLINK_MIN_DISTANCE: 10, // グラスホッパーで間合いを詰める最短距離
+    BLINK_MAX_DISTANCE: 25, // グラスホッパーで間合いを詰める最長距離
+    BLINK_INTERVAL: 3, // 間合いを詰めるブリンクの間隔（秒）
+    SENKU_MIN_DISTANCE: 4, // 旋空で斬る最短距離（これより近ければ通常の斬撃）
+    SENKU_MAX_DISTANCE: 15, // 旋空で斬る最長距離
+    SENKU_WINDUP: 0.08, // 刀身を伸ばし始めてから振るまでの時間（0.1秒で最大）
+    SENKU_INTERVAL: 2, // 旋空の間隔（秒）
+  },
+
+  // AIの知覚設定
+  PERCEPTION: {
+    VISION_ANGLE: 120, // 視野角（度、左右合わせて）
+    PERIPHERAL_RANGE: 3, // この距離以内なら視野の外でも気配で気づく
+    EYE_HEIGHT: 1.5, // 目の高さ
+    MEMORY_DURATION: 8, // 見失った敵の最後の位置を覚えておく時間（秒）
+    SEARCH_CLEAR_DISTANCE: 2, // 最後に見た位置まで来て見つからなければ忘れる距離
+    GUNSHOT_RANGE: 35, // 銃声が届く距離
+    EXPLOSION_RANGE: 60, // 爆発音が届く距離
+    BLINK_RANGE: 15, // グラスホッパーの跳躍音が届く距離
+  },
+
+  // マップ自動生成設定
+  MAP_GENERATOR: {
+    HALF_EXTENT: 48, // 生成する範囲（中心から各辺までの距離）
+    RING_ROAD_WIDTH: 6, // 外周道路の幅（部隊の初期位置になる）
+    STREET_WIDTH: 6, // 街区の間の道路の幅
+    BLOCK_MIN: 14, // 街区の一辺の最小値
+    BLOCK_MAX: 24, // 街区の一辺の最大値
+    LOT_MIN: 8, // 1棟の敷地の一辺の最小値
+    LOT_SETBACK: 1, // 敷地の境界から建物までの距離
+    FLOOR_HEIGHT: 3.2, // 1階分の高さ
+    MIN_FLOORS: 2,
+    MAX_FLOORS: 12, // 中心部ほど高い建物が建つ
+    RIVER_CHANCE: 0.5, // 川が流れる確率
+    RIVER_WIDTH: 10,
+    RIVER_BANK: 3, // 川の両岸の河川敷の幅
+    BRIDGE_CHANCE: 0.5, // 川を渡る道路に橋が架かる確率（外周道路には必ず架かる）
+    PLAZA_CHANCE: 0.12, // 街区が広場になる確率
+    PARK_CHANCE: 0.1, // 街区が公園になる確率
+    L_SHAPE_CHANCE: 0.2, // L字型の建物になる確率
+    ROOFTOP_CHANCE: 0.4, // 屋上に塔屋が載る確率
+  },
+
+  // 建物の破壊設定
+  DESTRUCTION: {
+    DURABILITY_PER_VOLUME: 0.5, // 体積1m³あたりの耐久力
+    MIN_DURABILITY: 150, // 小さな建物（塔屋など）の耐久力
+    MAX_DURABILITY: 1200, // 大きな建物の耐久力の上限
+    IBIS_CHIP_RATE: 0.5, // アイビスの弾が建物を削る割合（弾のダメージに対する比）
+    DAMAGE_DARKEN: 0.5, // 耐久力が尽きる直前の建物の暗さ（0-1）
+    DEBRIS_HEIGHT: 0.4, // 瓦礫の高さ（歩いて越えられる段差以下）
+    DEBRIS_COLOR: '#6b6660',
+  },
+
+  // リプレイ設定
+  REPLAY: {
+    FORMAT_VERSION: 1, // リプレイファイルの形式（変わったら古いファイルは読み込まない）
+    SPEEDS: [0.25, 0.5, 1, 2, 4], // 再生速度の選択肢
+    SAVE_KEY: 'F8', // 試合中にリプレイを保存するキー
+  },
+
+  // スナップショット設定
+  SNAPSHOT: {
+    FORMAT_VERSION: 1, // スナップショットの形式（コンポーネントのエンコードを変えたら上げる）
   },
 
   // 攻撃設定
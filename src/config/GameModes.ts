@@ -0,0 +1,60 @@
+import { GAME_CONFIG } from './GameConfig';
+import { AIDifficulty } from './AIDifficulty';
+import { BattleMapId } from '../maps/BattleMaps';
+
+/**
+ * ゲームモード
+ */
+export enum GameMode {
+  FREE_BATTLE = 'freeBattle',           // AIとの自由戦闘
+  RANK_WAR = 'rankWar',                 // ランク戦（部隊戦）
+  NEIGHBOR_INVASION = 'neighborInvasion' // ネイバー遠征（トリオン兵の防衛戦）
+}
+
+/**
+ * ランク戦の設定
+ */
+export interface RankWarSettings {
+  squadCount: number;  // 参加部隊数（2-4）
+  squadSize: number;   // 1部隊の人数（1-4）
+  timeLimit: number;   // 制限時間（秒）
+}
+
+/**
+ * 試合開始時に選択されたモードと設定
+ */
+export interface GameModeSettings {
+  mode: GameMode;
+  rankWar: RankWarSettings;
+  difficulty: AIDifficulty; // AIの難易度
+  map: BattleMapId;         // 対戦マップ
+  mapSeed: number;          // 試合のシード（自動生成マップの街並みと試合中の乱数。同じシードなら同じ街並み）
+}
+
+/**
+ * ランク戦の初期設定（三つ巴・4人部隊）
+ */
+export const DEFAULT_RANK_WAR_SETTINGS: RankWarSettings = {
+  squadCount: 3,
+  squadSize: GAME_CONFIG.RANK_WAR.MAX_SQUAD_SIZE,
+  timeLimit: GAME_CONFIG.RANK_WAR.DEFAULT_TIME_LIMIT
+};
+
+/**
+ * ゲームモード設定のユーティリティ
+ */
+export class GameModeUtils {
+  /**
+   * ランク戦の設定を有効な範囲に収める
+   */
+  static normalizeRankWarSettings(settings: Partial<RankWarSettings>): RankWarSettings {
+    const config = GAME_CONFIG.RANK_WAR;
+    const merged = { ...DEFAULT_RANK_WAR_SETTINGS, ...settings };
+
+    return {
+      squadCount: Math.min(config.MAX_SQUADS, Math.max(config.MIN_SQUADS, Math.round(merged.squadCount))),
+      squadSize: Math.min(config.MAX_SQUAD_SIZE, Math.max(1, Math.round(merged.squadSize))),
+      timeLimit: Math.max(30, merged.timeLimit)
+    };
+  }
+}
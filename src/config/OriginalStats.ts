@@ -9,7 +9,8 @@ export enum CharacterType {
   KUGA_YUMA = 'kuga_yuma',
   JIN_YUICHI = 'jin_yuichi',
   MIKUMO_OSAMU = 'mikumo_osamu',
-  AI_ENEMY = 'ai_enemy'
+  AI_ENEMY = 'ai_enemy',
+  TRION_SOLDIER = 'trion_soldier'
 }
 
 export enum CharacterClass {
@@ -43,6 +44,9 @@ export interface OriginalStats {
 export class TrionCalculator {
   // ベース係数（三雲修基準に調整）
   private static readonly BASE_COEFFICIENT = 30;
+
+  // 性能倍率の基準となるトリオン値（標準的なB級隊員）
+  static readonly REFERENCE_TRION = 4;
   
   /**
    * トリオン係数から実際のトリオン量を計算（3乗計算）
@@ -101,6 +105,23 @@ export class TrionCalculator {
     return 'F';
   }
 
+  /**
+   * トリオン値から性能倍率を計算
+   * 基準トリオン値で1.0、exponentが大きいほどトリオン差が性能に強く反映される
+   */
+  static calculateStatMultiplier(trionCoefficient: number, exponent: number): number {
+    const coefficient = Math.max(trionCoefficient, 1);
+    return Math.pow(coefficient / this.REFERENCE_TRION, exponent);
+  }
+
+  /**
+   * トリオン値からキューブサイズの倍率を計算
+   * キューブの体積がトリオン値に比例するため、一辺は3乗根に比例する
+   */
+  static calculateCubeSizeMultiplier(trionCoefficient: number): number {
+    return this.calculateStatMultiplier(trionCoefficient, 1 / 3);
+  }
+
 }
 
 /**
@@ -161,6 +182,12 @@ export const ORIGINAL_CHARACTER_STATS: Record<CharacterType, OriginalStats> = {
     range: 4,         // 射程: 4（標準）
     command: 4,       // 指揮: 4（標準）
     special: 3        // 特殊戦術: 3（やや低い）
+  },
+
+  // トリオン兵（種類ごとの性能はTRION_SOLDIER_DEFINITIONSで上書き）
+  [CharacterType.TRION_SOLDIER]: {
+    mobility: 3,      // 機動力: 3（やや低い）
+    trion: 3          // トリオン: 3（やや低い）
   }
 };
 
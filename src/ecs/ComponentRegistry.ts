@@ -0,0 +1,105 @@
+/**
+ * コンポーネントの型（クラス）
+ */
+export type ComponentType<T = any> = new (...args: any[]) => T;
+
+/**
+ * 登録されたコンポーネントの情報
+ */
+export interface ComponentInfo {
+  id: string;         // 変わらない名前（保存データで使う）
+  index: number;      // エンティティの構成（アーキタイプ）のビットの位置
+  bit: bigint;        // 1 << index
+}
+
+/**
+ * コンポーネントの型に変わらない名前と番号を付ける
+ * クラス名は本番ビルドの圧縮で変わり、別のクラスと同じ名前になることもあるので、キーには使わない
+ * 各コンポーネントは定義したファイルで登録する（登録していない型を使うとエラー）
+ */
+export class ComponentRegistry {
+  private static infos: Map<ComponentType, ComponentInfo> = new Map();
+  private static types: Map<string, ComponentType> = new Map();
+
+  /**
+   * 名前を付けて登録（同じ名前を別の型に付けるとエラー）
+   */
+  static register<T>(type: ComponentType<T>, id: string): ComponentInfo {
+    const existing = this.infos.get(type);
+    if (existing) {
+      if (existing.id !== id) {
+        throw new Error(`Component is already registered as "${existing.id}": ${id}`);
+      }
+      return existing;
+    }
+    if (this.types.has(id)) {
+      throw new Error(`Component id is already used: ${id}`);
+    }
+
+    const index = this.infos.size;
+    const info: ComponentInfo = { id, index, bit: 1n << BigInt(index) };
+    this.infos.set(type, info);
+    this.types.set(id, type);
+    return info;
+  }
+
+  /**
+   * 型の情報を取得（登録していない型はエラー）
+   */
+  static get<T>(type: ComponentType<T>): ComponentInfo {
+    const info = this.infos.get(type);
+    if (!info) {
+      throw new Error(`Component must be registered in ComponentRegistry before use: ${type.name}`);
+    }
+    return info;
+  }
+
+  /**
+   * 型の名前
+   */
+  static getId<T>(type: ComponentType<T>): string {
+    return this.get(type).id;
+  }
+
+  /**
+   * 型のビットの位置
+   */
+  static getIndex<T>(type: ComponentType<T>): number {
+    return this.get(type).index;
+  }
+
+  /**
+   * 名前から型を取得
+   */
+  static getType(id: string): ComponentType | undefined {
+    return this.types.get(id);
+  }
+
+  /**
+   * ビットの位置から名前を取得
+   */
+  static getIdByIndex(index: number): string | undefined {
+    for (const info of this.infos.values()) {
+      if (info.index === index) return info.id;
+    }
+    return undefined;
+  }
+
+  /**
+   * 登録されているか
+   */
+  static isRegistered<T>(type: ComponentType<T>): boolean {
+    return this.infos.has(type);
+  }
+
+  /**
+   * 型の組み合わせを表すビットマスク
+   */
+  static getMask(types: ComponentType[]): bigint {
+    let mask = 0n;
+    for (const type of types) {
+      mask |= this.get(type).bit;
+    }
+    return mask;
+  }
+}
@@ -1,3 +1,5 @@
+import { ComponentRegistry, ComponentType } from './ComponentRegistry';
+
 /**
  * エンティティクラス - ECSパターンのEntity
  * コンポーネントのコンテナとして機能
@@ -5,48 +7,104 @@
 export class Entity {
   private static nextId = 0;
   public readonly id: number;
-  private components: Map<string, any> = new Map();
+  private components: Map<number, any> = new Map(); // ComponentRegistryの番号 -> コンポーネント
+  private mask: bigint = 0n;                         // 持っているコンポーネントの組み合わせ（アーキタイプ）
+  private onMaskChanged: ((entity: Entity, previousMask: bigint) => void) | null = null;
+  private onActiveChanged: ((entity: Entity) => void) | null = null;
   private tags: Set<string> = new Set();
-  public active: boolean = true;
+  private activeState: boolean = true;
 
-  constructor() {
-    this.id = Entity.nextId++;
+  /**
+   * IDは通常Worldが振る（省略時は全ワールド共通の連番）
+   */
+  constructor(id: number = Entity.nextId++) {
+    this.id = id;
   }
 
   /**
    * コンポーネントを追加
    */
-  addComponent<T>(componentType: new (...args: any[]) => T, component: T): this {
-    this.components.set(componentType.name, component);
+  addComponent<T>(componentType: ComponentType<T>, component: T): this {
+    const info = ComponentRegistry.get(componentType);
+    this.components.set(info.index, component);
+    this.setMask(this.mask | info.bit);
     return this;
   }
 
   /**
    * コンポーネントを取得
    */
-  getComponent<T>(componentType: new (...args: any[]) => T): T | undefined {
-    return this.components.get(componentType.name) as T | undefined;
+  getComponent<T>(componentType: ComponentType<T>): T | undefined {
+    return this.components.get(ComponentRegistry.getIndex(componentType)) as T | undefined;
   }
 
   /**
    * コンポーネントを持っているか確認
    */
-  hasComponent<T>(componentType: new (...args: any[]) => T): boolean {
-    return this.components.has(componentType.name);
+  hasComponent<T>(componentType: ComponentType<T>): boolean {
+    return this.components.has(ComponentRegistry.getIndex(componentType));
   }
 
   /**
    * コンポーネントを削除
    */
-  removeComponent<T>(componentType: new (...args: any[]) => T): boolean {
-    return this.components.delete(componentType.name);
+  removeComponent<T>(componentType: ComponentType<T>): boolean {
+    const info = ComponentRegistry.get(componentType);
+    if (!this.components.delete(info.index)) return false;
+    this.setMask(this.mask & ~info.bit);
+    return true;
   }
 
   /**
-   * 全コンポーネントを取得
+   * 全コンポーネントを取得（キーはComponentRegistryの名前）
    */
   getAllComponents(): Map<string, any> {
-    return new Map(this.components);
+    const components = new Map<string, any>();
+    for (const [index, component] of this.components) {
+      components.set(ComponentRegistry.getIdByIndex(index)!, component);
+    }
+    return components;
+  }
+
+  /**
+   * 持っているコンポーネントの組み合わせ（ComponentRegistryのビットマスク）
+   */
+  getMask(): bigint {
+    return this.mask;
+  }
+
+  /**
+   * コンポーネントの組み合わせが変わったときの通知先を設定（Worldが使う）
+   */
+  setMaskListener(listener: ((entity: Entity, previousMask: bigint) => void) | null): void {
+    this.onMaskChanged = listener;
+  }
+
+  private setMask(mask: bigint): void {
+    if (mask === this.mask) return;
+    const previousMask = this.mask;
+    this.mask = mask;
+    this.onMaskChanged?.(this, previousMask);
+  }
+
+  /**
+   * システムの処理対象か（falseの間はSystem.getEntitiesに含まれない）
+   */
+  get active(): boolean {
+    return this.activeState;
+  }
+
+  set active(active: boolean) {
+    if (active === this.activeState) return;
+    this.activeState = active;
+    this.onActiveChanged?.(this);
+  }
+
+  /**
+   * アクティブかどうかが変わったときの通知先を設定（Worldが使う）
+   */
+  setActiveListener(listener: ((entity: Entity) => void) | null): void {
+    this.onActiveChanged = listener;
   }
 
   /**
@@ -64,6 +122,13 @@ export class Entity {
     return this.tags.has(tag);
   }
 
+  /**
+   * 全タグを取得
+   */
+  getTags(): string[] {
+    return Array.from(this.tags);
+  }
+
   /**
    * タグを削除
    */
@@ -76,6 +141,7 @@ export class Entity {
    */
   destroy(): void {
     this.components.clear();
+    this.setMask(0n);
     this.tags.clear();
     this.active = false;
   }
@@ -0,0 +1,82 @@
+import { SeededRandom } from '../utils/SeededRandom';
+
+/**
+ * 乱数の系統
+ * - aim: 射撃の散布
+ * - ai: AIの判断（照準のぶれ・徘徊先など）
+ * - spawn: トリオン兵などの出現位置
+ * - effects: 見た目だけの演出（破片・パーティクル）。ゲームの結果には使わない
+ */
+export type RandomStreamName = 'aim' | 'ai' | 'spawn' | 'effects';
+
+/**
+ * 試合のシードから系統ごとに独立した乱数列を作る（Worldが所有する）
+ * 系統ごとに別の列なので、演出の数が変わっても射撃やAIの乱数はずれない
+ */
+export class RandomStreams {
+  private seed: number;
+  private streams: Map<RandomStreamName, SeededRandom> = new Map();
+
+  constructor(seed: number = 0) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * 系統の乱数列を取得（初めて使うときにシードと系統名から作る）
+   */
+  get(name: RandomStreamName): SeededRandom {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new SeededRandom(RandomStreams.deriveSeed(this.seed, name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * シードを設定し、すべての系統を最初からやり直す
+   */
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.streams.clear();
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * 使い始めた系統の乱数列の状態（スナップショット用）
+   */
+  getStates(): Partial<Record<RandomStreamName, number>> {
+    const states: Partial<Record<RandomStreamName, number>> = {};
+    for (const [name, stream] of this.streams) {
+      states[name] = stream.getState();
+    }
+    return states;
+  }
+
+  /**
+   * 乱数列の状態を戻す（含まれない系統は次に使うときに最初から作る）
+   */
+  setStates(states: Partial<Record<RandomStreamName, number>>): void {
+    this.streams.clear();
+    for (const [name, state] of Object.entries(states) as [RandomStreamName, number][]) {
+      const stream = new SeededRandom(0);
+      stream.setState(state);
+      this.streams.set(name, stream);
+    }
+  }
+
+  /**
+   * 試合のシードと系統名から系統のシードを作る（FNV-1a）
+   */
+  private static deriveSeed(seed: number, name: string): number {
+    let hash = (0x811C9DC5 ^ seed) >>> 0;
+    for (let i = 0; i < name.length; i++) {
+      hash ^= name.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+}
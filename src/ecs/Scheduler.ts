@@ -0,0 +1,82 @@
+/**
+ * 予約された処理
+ */
+interface ScheduledTask {
+  id: number;
+  dueTime: number;         // 実行するシミュレーション時刻（ミリ秒）
+  interval: number | null; // 繰り返す間隔（ミリ秒、nullなら1回だけ）
+  callback: () => void;
+}
+
+/**
+ * シミュレーションの刻みで進むスケジューラー（Worldが所有する）
+ * setTimeoutと違いフレームレートに左右されず、同じ刻みの列なら同じ刻み・同じ順序で実行される
+ */
+export class Scheduler {
+  private tasks: Map<number, ScheduledTask> = new Map();
+  private nextId: number = 1;
+
+  /**
+   * delayミリ秒後に1回だけ実行する
+   */
+  schedule(callback: () => void, delay: number, now: number): number {
+    return this.add(callback, now + Math.max(0, delay), null);
+  }
+
+  /**
+   * intervalミリ秒ごとに繰り返し実行する（cancelするまで続く、1刻みに実行されるのは1回まで）
+   */
+  scheduleRepeating(callback: () => void, interval: number, now: number): number {
+    const safeInterval = Math.max(1, interval);
+    return this.add(callback, now + safeInterval, safeInterval);
+  }
+
+  /**
+   * 予約を取り消す
+   */
+  cancel(id: number): void {
+    this.tasks.delete(id);
+  }
+
+  /**
+   * 時刻nowまでに実行予定の処理を、予定時刻・予約順に実行する
+   * 実行中に予約された処理は次の刻みから対象になる
+   */
+  run(now: number): void {
+    const due = Array.from(this.tasks.values())
+      .filter(task => task.dueTime <= now)
+      .sort((a, b) => a.dueTime - b.dueTime || a.id - b.id);
+
+    for (const task of due) {
+      // 先に実行した処理に取り消された場合は実行しない
+      if (!this.tasks.has(task.id)) continue;
+
+      if (task.interval === null) {
+        this.tasks.delete(task.id);
+      } else {
+        task.dueTime += task.interval;
+      }
+      task.callback();
+    }
+  }
+
+  /**
+   * 予約中の処理の数
+   */
+  getPendingCount(): number {
+    return this.tasks.size;
+  }
+
+  /**
+   * すべての予約を取り消す
+   */
+  clear(): void {
+    this.tasks.clear();
+  }
+
+  private add(callback: () => void, dueTime: number, interval: number | null): number {
+    const id = this.nextId++;
+    this.tasks.set(id, { id, dueTime, interval, callback });
+    return id;
+  }
+}
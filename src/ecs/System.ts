@@ -10,6 +10,11 @@ export abstract class System {
   protected enabled: boolean = true;
   public priority: number = 0;
 
+  /**
+   * 描画ステップで実行するか（falseならシミュレーションの固定刻みで実行）
+   */
+  public readonly runsOnRender: boolean = false;
+
   /**
    * このシステムが処理対象とするコンポーネントの型を返す
    */
@@ -37,19 +42,25 @@ export abstract class System {
     // オーバーライドして使用
   }
 
+  /**
+   * シミュレーションの各刻みの前に呼ばれる（描画の補間用に前の状態を記録する場合にオーバーライド）
+   */
+  beforeTick(): void {
+    // オーバーライドして使用
+  }
+
   /**
    * システムの更新
    */
   abstract update(deltaTime: number): void;
 
   /**
-   * 対象エンティティを取得
+   * 対象エンティティを取得（ワールドのキャッシュしたクエリのうちアクティブなもの）
+   * 返す配列はキャッシュそのものなので変更しないこと
    */
-  protected getEntities(): Entity[] {
+  protected getEntities(): readonly Entity[] {
     if (!this.world) return [];
-    return this.world.getEntities().filter(entity => 
-      entity.active && this.entityMatches(entity)
-    );
+    return this.world.queryActive(...this.requiredComponents());
   }
 
   /**
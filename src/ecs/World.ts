@@ -1,21 +1,61 @@
 import { Entity } from './Entity';
 import { System } from './System';
+import { Scheduler } from './Scheduler';
+import { ComponentRegistry, ComponentType } from './ComponentRegistry';
+import { RandomStreams, RandomStreamName } from './RandomStreams';
+import { SeededRandom } from '../utils/SeededRandom';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * キャッシュしたクエリ（必要なコンポーネントをすべて持つアーキタイプと、そのエンティティ）
+ */
+interface CachedQuery {
+  mask: bigint;
+  archetypes: Set<Entity>[];
+  entities: Entity[] | null;       // nullなら次のクエリで作り直す
+  activeEntities: Entity[] | null; // entitiesのうちアクティブなもの（nullなら次のクエリで作り直す）
+}
 
 /**
  * ワールドクラス - ECSパターンのWorld
  * エンティティとシステムを管理
+ * シミュレーションは固定刻み（update）で進め、描画（render）は刻みの間を補間して毎フレーム行う
  */
 export class World {
   private entities: Map<number, Entity> = new Map();
   private systems: System[] = [];
   private entitiesToRemove: Set<number> = new Set();
+  private nextEntityId: number = 0; // ワールドごとに振るので、同じ設定で作ったワールドはIDが揃う
+  private archetypes: Map<bigint, Set<Entity>> = new Map(); // コンポーネントの組み合わせ -> エンティティ
+  private queries: Map<bigint, CachedQuery> = new Map();
+  private scheduler: Scheduler = new Scheduler();
+  private random: RandomStreams;
+  private fixedDeltaTime: number;
+  private accumulator: number = 0;
+  private interpolationAlpha: number = 1;
+  private tick: number = 0;
+  private time: number = 0; // シミュレーションの経過時間（ミリ秒）
+
+  constructor(tickRate: number = GAME_CONFIG.SIMULATION.TICK_RATE, seed: number = 0) {
+    this.fixedDeltaTime = 1 / tickRate;
+    this.random = new RandomStreams(seed);
+  }
 
   /**
-   * エンティティを作成
+   * エンティティを作成（idはスナップショットの復元で元のIDを使うときだけ指定する）
    */
-  createEntity(): Entity {
-    const entity = new Entity();
+  createEntity(id?: number): Entity {
+    if (id === undefined) {
+      while (this.entities.has(this.nextEntityId)) {
+        this.nextEntityId++;
+      }
+      id = this.nextEntityId++;
+    }
+    const entity = new Entity(id);
     this.entities.set(entity.id, entity);
+    this.getArchetype(entity.getMask()).add(entity);
+    entity.setMaskListener((changed, previousMask) => this.moveArchetype(changed, previousMask));
+    entity.setActiveListener(changed => this.invalidateActiveQueries(changed.getMask()));
     return entity;
   }
 
@@ -40,6 +80,32 @@ export class World {
     return Array.from(this.entities.values());
   }
 
+  /**
+   * 指定したコンポーネントをすべて持つエンティティを取得（ID順、非アクティブなものも含む）
+   * 結果はアーキタイプごとにキャッシュし、該当するエンティティの構成が変わったときだけ作り直す
+   * 返す配列はキャッシュそのものなので変更しないこと
+   */
+  query(...componentTypes: ComponentType[]): readonly Entity[] {
+    const query = this.getQuery(componentTypes);
+    if (!query.entities) {
+      query.entities = query.archetypes.flatMap(archetype => Array.from(archetype));
+      query.entities.sort((a, b) => a.id - b.id);
+    }
+    return query.entities;
+  }
+
+  /**
+   * 指定したコンポーネントをすべて持つアクティブなエンティティを取得（ID順）
+   * queryと同じくキャッシュし、構成かアクティブかどうかが変わったときだけ作り直す
+   */
+  queryActive(...componentTypes: ComponentType[]): readonly Entity[] {
+    const query = this.getQuery(componentTypes);
+    if (!query.activeEntities) {
+      query.activeEntities = this.query(...componentTypes).filter(entity => entity.active);
+    }
+    return query.activeEntities;
+  }
+
   /**
    * タグを持つエンティティを取得
    */
@@ -76,20 +142,61 @@ export class World {
   }
 
   /**
-   * ワールドを更新
+   * フレームの経過時間だけシミュレーションを固定刻みで進めてから描画する（ブラウザのフレームごとに呼ぶ）
+   * 端数の時間は次のフレームに持ち越し、描画は前の刻みとの間を補間する
+   */
+  step(frameDeltaTime: number): void {
+    const maxFrameTime = this.fixedDeltaTime * GAME_CONFIG.SIMULATION.MAX_TICKS_PER_FRAME;
+    this.accumulator += Math.min(Math.max(0, frameDeltaTime), maxFrameTime);
+
+    while (this.accumulator >= this.fixedDeltaTime) {
+      this.update(this.fixedDeltaTime);
+      this.accumulator -= this.fixedDeltaTime;
+    }
+
+    this.interpolationAlpha = this.accumulator / this.fixedDeltaTime;
+    this.render(frameDeltaTime);
+  }
+
+  /**
+   * シミュレーションを1刻み進める（描画ステップのシステムは実行しない）
    */
   update(deltaTime: number): void {
-    // システムを更新
+    // 描画の補間用に刻みの前の状態を記録
     for (const system of this.systems) {
       if (system.isEnabled()) {
+        system.beforeTick();
+      }
+    }
+
+    this.tick++;
+    this.time += deltaTime * 1000;
+
+    // 予約された処理を実行
+    this.scheduler.run(this.time);
+
+    // システムを更新
+    for (const system of this.systems) {
+      if (system.isEnabled() && !system.runsOnRender) {
         system.update(deltaTime);
       }
     }
 
     // 削除予定のエンティティを削除
+    this.flushRemovedEntities();
+  }
+
+  /**
+   * 削除予定のエンティティを今すぐ削除する
+   */
+  flushRemovedEntities(): void {
     for (const id of this.entitiesToRemove) {
       const entity = this.entities.get(id);
       if (entity) {
+        entity.setMaskListener(null);
+        entity.setActiveListener(null);
+        this.archetypes.get(entity.getMask())?.delete(entity);
+        this.invalidateQueries(entity.getMask());
         entity.destroy();
         this.entities.delete(id);
       }
@@ -97,15 +204,211 @@ export class World {
     this.entitiesToRemove.clear();
   }
 
+  /**
+   * コンポーネントの組み合わせに対応するキャッシュしたクエリ（初めてなら作る）
+   */
+  private getQuery(componentTypes: ComponentType[]): CachedQuery {
+    const mask = ComponentRegistry.getMask(componentTypes);
+    let query = this.queries.get(mask);
+    if (!query) {
+      query = { mask, archetypes: [], entities: null, activeEntities: null };
+      for (const [archetypeMask, archetype] of this.archetypes) {
+        if ((archetypeMask & mask) === mask) query.archetypes.push(archetype);
+      }
+      this.queries.set(mask, query);
+    }
+    return query;
+  }
+
+  /**
+   * コンポーネントの組み合わせが変わったエンティティをアーキタイプ間で移す
+   */
+  private moveArchetype(entity: Entity, previousMask: bigint): void {
+    this.archetypes.get(previousMask)?.delete(entity);
+    this.getArchetype(entity.getMask()).add(entity);
+    this.invalidateQueries(previousMask);
+    this.invalidateQueries(entity.getMask());
+  }
+
+  /**
+   * アーキタイプを取得（初めての組み合わせなら作り、該当するクエリに加える）
+   */
+  private getArchetype(mask: bigint): Set<Entity> {
+    let archetype = this.archetypes.get(mask);
+    if (!archetype) {
+      archetype = new Set();
+      this.archetypes.set(mask, archetype);
+      for (const query of this.queries.values()) {
+        if ((mask & query.mask) === query.mask) query.archetypes.push(archetype);
+      }
+    }
+    return archetype;
+  }
+
+  /**
+   * アーキタイプに該当するクエリの結果を作り直させる
+   */
+  private invalidateQueries(archetypeMask: bigint): void {
+    for (const query of this.queries.values()) {
+      if ((archetypeMask & query.mask) === query.mask) {
+        query.entities = null;
+        query.activeEntities = null;
+      }
+    }
+  }
+
+  /**
+   * アーキタイプに該当するクエリのうち、アクティブなエンティティの結果だけを作り直させる
+   */
+  private invalidateActiveQueries(archetypeMask: bigint): void {
+    for (const query of this.queries.values()) {
+      if ((archetypeMask & query.mask) === query.mask) query.activeEntities = null;
+    }
+  }
+
+  /**
+   * 描画ステップのシステム（描画・HUD）を実行する
+   */
+  render(deltaTime: number): void {
+    for (const system of this.systems) {
+      if (system.isEnabled() && system.runsOnRender) {
+        system.update(deltaTime);
+      }
+    }
+  }
+
+  /**
+   * delayミリ秒（シミュレーション時間）後に処理を実行する（ゲームの処理はsetTimeoutではなくこれを使う）
+   */
+  schedule(callback: () => void, delay: number): number {
+    return this.scheduler.schedule(callback, delay, this.time);
+  }
+
+  /**
+   * intervalミリ秒（シミュレーション時間）ごとに処理を実行する
+   */
+  scheduleRepeating(callback: () => void, interval: number): number {
+    return this.scheduler.scheduleRepeating(callback, interval, this.time);
+  }
+
+  /**
+   * 予約した処理を取り消す
+   */
+  cancelScheduled(id: number): void {
+    this.scheduler.cancel(id);
+  }
+
+  /**
+   * シミュレーションの経過時間（ミリ秒、ゲームの処理はDate.now()ではなくこれを使う）
+   */
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * 系統ごとの乱数列（ゲームの処理はMath.random()ではなくこれを使う）
+   * 同じシードで同じ入力なら試合が同じように再現される
+   */
+  getRandom(stream: RandomStreamName): SeededRandom {
+    return this.random.get(stream);
+  }
+
+  /**
+   * 試合のシードを設定し、乱数列を最初からやり直す
+   */
+  setSeed(seed: number): void {
+    this.random.reseed(seed);
+  }
+
+  /**
+   * 試合のシード
+   */
+  getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * 系統ごとの乱数列の状態（スナップショット用）
+   */
+  getRandomStates(): Partial<Record<RandomStreamName, number>> {
+    return this.random.getStates();
+  }
+
+  /**
+   * 乱数列の状態を戻す
+   */
+  setRandomStates(states: Partial<Record<RandomStreamName, number>>): void {
+    this.random.setStates(states);
+  }
+
+  /**
+   * 刻みと経過時間を戻す（スナップショットの復元用、予約された処理はそのまま）
+   */
+  setClock(tick: number, time: number): void {
+    this.tick = tick;
+    this.time = time;
+    this.accumulator = 0;
+    this.interpolationAlpha = 1;
+  }
+
+  /**
+   * 次に作るエンティティのID
+   */
+  getNextEntityId(): number {
+    return this.nextEntityId;
+  }
+
+  /**
+   * 次に作るエンティティのIDを設定（スナップショットの復元用）
+   */
+  setNextEntityId(id: number): void {
+    this.nextEntityId = id;
+  }
+
+  /**
+   * エンティティをID順（作成順）に並べ直す
+   * 復元で途中のIDのエンティティを作り直したとき、システムの処理順を元のワールドと揃える
+   */
+  sortEntitiesById(): void {
+    this.entities = new Map([...this.entities].sort(([a], [b]) => a - b));
+  }
+
+  /**
+   * 進めた刻みの数
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * 1刻みの時間（秒）
+   */
+  getFixedDeltaTime(): number {
+    return this.fixedDeltaTime;
+  }
+
+  /**
+   * 描画の補間係数（0 = 前の刻み、1 = 最新の刻み）
+   */
+  getInterpolationAlpha(): number {
+    return this.interpolationAlpha;
+  }
+
   /**
    * ワールドを破棄
    */
   destroy(): void {
+    this.scheduler.clear();
+
     // 全エンティティを破棄
     for (const entity of this.entities.values()) {
+      entity.setMaskListener(null);
+      entity.setActiveListener(null);
       entity.destroy();
     }
     this.entities.clear();
+    this.archetypes.clear();
+    this.queries.clear();
 
     // 全システムを破棄
     for (const system of this.systems) {
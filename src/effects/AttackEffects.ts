@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { Entity } from '../ecs/Entity';
+import { World } from '../ecs/World';
 import { Transform } from '../components/Transform';
 import { MeshComponent } from '../components/Mesh';
 import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
@@ -15,7 +16,7 @@ export class AttackEffects {
    * 扇形薙ぎエフェクトを作成（段階的表示）
    */
   static createFanSlashEffect(
-    world: any,
+    world: World,
     transform: Transform,
     triggerType: TriggerType,
     range: number,
@@ -79,27 +80,27 @@ export class AttackEffects {
       const originalOpacity = material.opacity;
       
       // 段階的表示（アクティブ状態）
-      setTimeout(() => {
+      world.schedule(() => {
         segment.visible = true;
         material.opacity = originalOpacity; // 濃い表示
         (segment as any).isActive = true; // ダメージ判定フラグ
       }, index * animationDelay);
       
       // アクティブ状態終了→残影状態開始
-      setTimeout(() => {
+      world.schedule(() => {
         material.opacity = originalOpacity * 0.2; // 薄い残影表示（20%）
         (segment as any).isActive = false; // ダメージ判定なし
       }, index * animationDelay + activeDisplayDuration);
       
       // 完全消去
-      setTimeout(() => {
+      world.schedule(() => {
         segment.visible = false;
         (segment as any).isActive = false;
       }, index * animationDelay + trailDisplayDuration);
     });
     
     // アニメーション用のプロパティを追加
-    (slashGroup as any).animationStartTime = Date.now();
+    (slashGroup as any).animationStartTime = world.now();
     (slashGroup as any).animationDuration = config.ANIMATION_DURATION;
     
     // エンティティを作成（プレイヤーの位置そのまま、TriggerSystemで位置調整）
@@ -113,15 +114,15 @@ export class AttackEffects {
     slashEntity.addComponent(MeshComponent, new MeshComponent(slashGroup));
     
     // アニメーション開始時間をエンティティに記録（CollisionSystemでセグメント判定に使用）
-    (slashEntity as any).animationStartTime = Date.now();
+    (slashEntity as any).animationStartTime = world.now();
     
     // 攻撃判定用のColliderを遅延追加（エフェクト表示に合わせる）
     if (attackerEntity && damage !== undefined) {
       const attackerCharacter = attackerEntity.getComponent(Character);
       const attackerTeam = attackerCharacter ? attackerCharacter.team : 0;
       
-      // 攻撃者のチームによって衝突対象を決定
-      const targetLayer = attackerTeam === 0 ? CollisionLayer.ENEMY : CollisionLayer.PLAYER;
+      // 全キャラクターを衝突対象にする（味方の除外はattackerTeamで判定。3部隊以上の対戦に対応）
+      const targetLayer = CollisionLayer.PLAYER | CollisionLayer.ENEMY;
       
       // 攻撃情報をエンティティに保存
       (slashEntity as any).attackInfo = {
@@ -144,19 +145,19 @@ export class AttackEffects {
       
       // 最初のセグメントが表示される少し前にColliderを追加
       const firstSegmentDelay = animationDelay * 0.5; // 最初のセグメント表示の50%の時点
-      setTimeout(() => {
+      world.schedule(() => {
         // 扇形攻撃用のカスタムコリジョン
         slashEntity.addComponent(Collider, new Collider(
           ColliderType.BOX, // BOXタイプを使用（カスタム判定で上書き）
           new THREE.Vector3(range, 1, range), // 基本的な範囲
           CollisionLayer.TRIGGER, // 攻撃エフェクトのレイヤー
-          targetLayer // 衝突対象（敵チーム）
+          targetLayer // 衝突対象（キャラクター）
         ));
         console.log(`⚔️ 扇形攻撃判定開始: ${firstSegmentDelay}ms後, 範囲=${range}, 判定角度=${(actualAttackAngle * 180 / Math.PI).toFixed(1)}度, エフェクト=${segmentCount}個×${(visualSegmentAngle * 180 / Math.PI).toFixed(1)}度`);
       }, firstSegmentDelay);
       
       // アニメーション終了時にColliderを削除
-      setTimeout(() => {
+      world.schedule(() => {
         const collider = slashEntity.getComponent(Collider);
         if (collider) {
           slashEntity.removeComponent(Collider);
@@ -172,7 +173,7 @@ export class AttackEffects {
    * 縦斬りエフェクトを作成（段階的表示）
    */
   static createVerticalSlashEffect(
-    world: any,
+    world: World,
     transform: Transform,
     triggerType: TriggerType,
     range: number,
@@ -236,27 +237,27 @@ export class AttackEffects {
       const originalOpacity = material.opacity;
       
       // 段階的表示（アクティブ状態）
-      setTimeout(() => {
+      world.schedule(() => {
         segment.visible = true;
         material.opacity = originalOpacity; // 濃い表示
         (segment as any).isActive = true; // ダメージ判定フラグ
       }, index * animationDelay);
       
       // アクティブ状態終了→残影状態開始
-      setTimeout(() => {
+      world.schedule(() => {
         material.opacity = originalOpacity * 0.2; // 薄い残影表示（20%）
         (segment as any).isActive = false; // ダメージ判定なし
       }, index * animationDelay + activeDisplayDuration);
       
       // 完全消去
-      setTimeout(() => {
+      world.schedule(() => {
         segment.visible = false;
         (segment as any).isActive = false;
       }, index * animationDelay + trailDisplayDuration);
     });
     
     // アニメーション用のプロパティを追加
-    (slashGroup as any).animationStartTime = Date.now();
+    (slashGroup as any).animationStartTime = world.now();
     (slashGroup as any).animationDuration = config.ANIMATION_DURATION;
     
     // エンティティを作成（プレイヤーの位置そのまま、TriggerSystemで位置調整）
@@ -270,15 +271,15 @@ export class AttackEffects {
     slashEntity.addComponent(MeshComponent, new MeshComponent(slashGroup));
     
     // アニメーション開始時間をエンティティに記録（CollisionSystemでセグメント判定に使用）
-    (slashEntity as any).animationStartTime = Date.now();
+    (slashEntity as any).animationStartTime = world.now();
     
     // 攻撃判定用のColliderを遅延追加（エフェクト表示に合わせる）
     if (attackerEntity && damage !== undefined) {
       const attackerCharacter = attackerEntity.getComponent(Character);
       const attackerTeam = attackerCharacter ? attackerCharacter.team : 0;
       
-      // 攻撃者のチームによって衝突対象を決定
-      const targetLayer = attackerTeam === 0 ? CollisionLayer.ENEMY : CollisionLayer.PLAYER;
+      // 全キャラクターを衝突対象にする（味方の除外はattackerTeamで判定。3部隊以上の対戦に対応）
+      const targetLayer = CollisionLayer.PLAYER | CollisionLayer.ENEMY;
       
       // 攻撃情報をエンティティに保存
       (slashEntity as any).attackInfo = {
@@ -301,19 +302,19 @@ export class AttackEffects {
       
       // 最初のセグメントが表示される少し前にColliderを追加
       const firstSegmentDelay = animationDelay * 0.5; // 最初のセグメント表示の50%の時点
-      setTimeout(() => {
+      world.schedule(() => {
         // 扇形攻撃用のカスタムコリジョン
         slashEntity.addComponent(Collider, new Collider(
           ColliderType.BOX, // BOXタイプを使用（カスタム判定で上書き）
           new THREE.Vector3(range, 1, range), // 基本的な範囲
           CollisionLayer.TRIGGER, // 攻撃エフェクトのレイヤー
-          targetLayer // 衝突対象（敵チーム）
+          targetLayer // 衝突対象（キャラクター）
         ));
         console.log(`⚔️ 縦斬り攻撃判定開始: ${firstSegmentDelay}ms後, 範囲=${range}, 判定角度=${(actualVerticalAttackAngle * 180 / Math.PI).toFixed(1)}度, エフェクト=${segmentCount}個×${(visualVerticalSegmentAngle * 180 / Math.PI).toFixed(1)}度`);
       }, firstSegmentDelay);
       
       // アニメーション終了時にColliderを削除
-      setTimeout(() => {
+      world.schedule(() => {
         const collider = slashEntity.getComponent(Collider);
         if (collider) {
           slashEntity.removeComponent(Collider);
@@ -328,7 +329,7 @@ export class AttackEffects {
   /**
    * ヒットエフェクトを作成
    */
-  static createHitEffect(scene: THREE.Scene, position: THREE.Vector3): void {
+  static createHitEffect(world: World, scene: THREE.Scene, position: THREE.Vector3): void {
     const config = GAME_CONFIG.ATTACK.HIT_EFFECT;
     
     const geometry = new THREE.SphereGeometry(config.SIZE, 8, 8);
@@ -342,7 +343,7 @@ export class AttackEffects {
     scene.add(effect);
     
     // 指定時間後にエフェクトを削除
-    setTimeout(() => {
+    world.schedule(() => {
       scene.remove(effect);
       geometry.dispose();
       material.dispose();
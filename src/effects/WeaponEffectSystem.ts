@@ -44,7 +44,7 @@ export class WeaponEffectSystem {
     scene.add(flash);
 
     // 短時間後に削除
-    setTimeout(() => {
+    this.world.schedule(() => {
       scene.remove(flash);
       flashGeometry.dispose();
       flashMaterial.dispose();
@@ -85,7 +85,7 @@ export class WeaponEffectSystem {
     scene.add(trailLine);
 
     // 軌跡を短時間表示後削除
-    setTimeout(() => {
+    this.world.schedule(() => {
       scene.remove(trailLine);
       trailGeometry.dispose();
       trailMaterial.dispose();
@@ -106,7 +106,7 @@ export class WeaponEffectSystem {
     }
 
     // AttackEffectsクラスを使用してヒットエフェクトを作成
-    AttackEffects.createHitEffect(scene, position);
+    AttackEffects.createHitEffect(this.world, scene, position);
     console.log('WeaponEffectSystem: Hit effect created at', position);
   }
 
@@ -136,7 +136,7 @@ export class WeaponEffectSystem {
     // フリッカー効果
     let opacity = 0.9;
     let increasing = false;
-    const flicker = setInterval(() => {
+    const flicker = this.world.scheduleRepeating(() => {
       if (increasing) {
         opacity += 0.1;
         if (opacity >= 1.0) increasing = false;
@@ -148,8 +148,8 @@ export class WeaponEffectSystem {
     }, 100);
 
     // 3秒後に削除
-    setTimeout(() => {
-      clearInterval(flicker);
+    this.world.schedule(() => {
+      this.world.cancelScheduled(flicker);
       scene.remove(glint);
       glintGeometry.dispose();
       glintMaterial.dispose();
@@ -180,12 +180,12 @@ export class WeaponEffectSystem {
 
     // フェードアウトアニメーション
     let opacity = 0.8;
-    const fadeOut = setInterval(() => {
+    const fadeOut = this.world.scheduleRepeating(() => {
       opacity -= 0.1;
       trailMaterial.opacity = opacity;
       
       if (opacity <= 0) {
-        clearInterval(fadeOut);
+        this.world.cancelScheduled(fadeOut);
         scene.remove(trailLine);
         trailGeometry.dispose();
         trailMaterial.dispose();
@@ -268,7 +268,7 @@ export class WeaponEffectSystem {
     let scale = 0.5;
     let growing = true;
     
-    const pulse = setInterval(() => {
+    const pulse = this.world.scheduleRepeating(() => {
       if (growing) {
         scale += 0.1;
         if (scale >= 1.5) growing = false;
@@ -280,8 +280,8 @@ export class WeaponEffectSystem {
     }, 100);
 
     // 2秒後に削除
-    setTimeout(() => {
-      clearInterval(pulse);
+    this.world.schedule(() => {
+      this.world.cancelScheduled(pulse);
       scene.remove(charge);
       chargeGeometry.dispose();
       chargeMaterial.dispose();
@@ -6,6 +6,7 @@ import {
   MeshComponent, 
   Character, 
   CharacterType, 
+  CharacterClass,
   CHARACTER_PRESETS,
   Velocity,
   Input,
@@ -20,18 +21,42 @@ import { ProjectileSystem } from './systems/ProjectileSystem';
 import { ShootingSystem } from './systems/ShootingSystem';
 import { CollisionSystem } from './systems/CollisionSystem';
 import { AISystem } from './systems/AISystem';
+import { NavigationSystem } from './systems/NavigationSystem';
+import { SquadSystem } from './systems/SquadSystem';
+import { PerceptionSystem } from './systems/PerceptionSystem';
 import { HUDSystem } from './systems/HUDSystem';
 import { ShieldSystem } from './systems/ShieldSystem';
 import { GrasshopperSystem } from './systems/GrasshopperSystem';
 import { AnimationSystem } from './systems/AnimationSystem';
 import { SwordActionSystem } from './systems/SwordActionSystem';
+import { RadarSystem } from './systems/RadarSystem';
+import { SpiderSystem } from './systems/SpiderSystem';
+import { ViperTrajectorySystem } from './systems/ViperTrajectorySystem';
+import { CompoundBulletSystem } from './systems/CompoundBulletSystem';
+import { WoundSystem } from './systems/WoundSystem';
+import { BailoutSystem } from './systems/BailoutSystem';
+import { RankWarSystem } from './systems/RankWarSystem';
+import { NeighborWaveSystem } from './systems/NeighborWaveSystem';
+import { EnvironmentSystem } from './systems/EnvironmentSystem';
 import { Trigger } from './components/Trigger';
-import { AI, AITactics } from './components/AI';
+import { AI, AI_CONFIG_PRESETS, CLASS_DEFAULT_TACTICS } from './components/AI';
+import { Perception } from './components/Perception';
+import { SQUAD_FORMATION } from './ai/SquadBlackboard';
 import { Shield } from './components/Shield';
 import { CrosshairUI } from './components/Crosshair';
 import { CLASS_TRIGGER_SETS, TriggerSet } from './triggers/TriggerDefinitions';
 import { MainMenu } from './ui/MainMenu';
 import { CharacterMeshBuilder } from './utils/CharacterMeshBuilder';
+import { Hitbox } from './components/Hitbox';
+import { GameMode, GameModeSettings, RankWarSettings, DEFAULT_RANK_WAR_SETTINGS } from './config/GameModes';
+import { GAME_CONFIG } from './config/GameConfig';
+import { AIDifficultyUtils, AI_DIFFICULTY_PROFILES, DEFAULT_AI_DIFFICULTY } from './config/AIDifficulty';
+import { BattleMapUtils, DEFAULT_BATTLE_MAP } from './maps/BattleMaps';
+import { MapLoader } from './maps/MapLoader';
+import { ReplaySystem, ReplayMode } from './systems/ReplaySystem';
+import { ReplayCodec } from './replay/ReplayCodec';
+import { ReplayData } from './replay/ReplayData';
+import { ReplayControls } from './ui/ReplayControls';
 
 /**
  * ゲームクラス
@@ -47,6 +72,17 @@ class Game {
   private mainMenu: MainMenu | null = null;
   private gameStarted: boolean = false;
   private selectedTriggerSet: TriggerSet | null = null;
+  private modeSettings: GameModeSettings = {
+    mode: GameMode.FREE_BATTLE,
+    rankWar: { ...DEFAULT_RANK_WAR_SETTINGS },
+    difficulty: DEFAULT_AI_DIFFICULTY,
+    map: DEFAULT_BATTLE_MAP,
+    mapSeed: 0
+  };
+  private replaySystem: ReplaySystem | null = null;
+  private replayControls: ReplayControls | null = null;
+  private replayPaused: boolean = false;
+  private replaySpeed: number = 1;
 
   constructor() {
     this.container = document.getElementById('game-container')!;
@@ -64,11 +100,15 @@ class Game {
 
       // メインメニューを表示
       this.mainMenu = new MainMenu();
-      this.mainMenu.setOnStartGame((character, triggerSet) => {
+      this.mainMenu.setOnStartGame((character, triggerSet, modeSettings) => {
         this.selectedCharacterType = character;
         this.selectedTriggerSet = triggerSet;
+        this.modeSettings = modeSettings;
         this.startGame();
       });
+      this.mainMenu.setOnStartReplay((replay) => {
+        this.startReplay(replay);
+      });
       
       // ESCキーでメインメニューに戻る
       document.addEventListener('keydown', (e) => {
@@ -78,6 +118,15 @@ class Game {
           }
         }
       });
+
+      // 試合中にリプレイを保存
+      document.addEventListener('keydown', (e) => {
+        if (e.key === GAME_CONFIG.REPLAY.SAVE_KEY && this.replaySystem?.getMode() === ReplayMode.RECORD) {
+          e.preventDefault();
+          ReplayCodec.download(this.replaySystem.getReplay());
+          console.log('💾 リプレイを保存しました');
+        }
+      });
     } catch (error) {
       console.error('Failed to initialize game:', error);
       this.loadingScreen.textContent = 'Failed to load game';
@@ -86,28 +135,128 @@ class Game {
 
 
   /**
-   * ゲームを開始
+   * ゲームを開始（試合の入力をリプレイとして記録する）
    */
   private startGame(): void {
     this.gameStarted = true;
+    const replay = ReplayCodec.create(this.modeSettings.mapSeed, GAME_CONFIG.SIMULATION.TICK_RATE, {
+      character: this.selectedCharacterType,
+      triggerSet: this.selectedTriggerSet,
+      modeSettings: this.modeSettings
+    });
+    this.buildWorld(replay, ReplayMode.RECORD);
+
+    // ゲーム開始
+    this.start();
+  }
+
+  /**
+   * リプレイを再生（記録した設定でワールドを作り、記録した入力で再シミュレーションする）
+   */
+  private startReplay(replay: ReplayData): void {
+    this.gameStarted = true;
+    this.selectedCharacterType = replay.setup.character;
+    this.selectedTriggerSet = replay.setup.triggerSet;
+    this.modeSettings = replay.setup.modeSettings;
+    this.buildWorld(replay, ReplayMode.PLAYBACK);
+
+    this.replayControls = new ReplayControls(this.container, replay.tickCount, replay.tickRate);
+    this.replayControls.onTogglePause = () => {
+      // 最後まで再生していたら最初から
+      if (this.replayPaused && this.replaySystem?.isFinished()) {
+        this.seekReplay(0);
+      }
+      this.replayPaused = !this.replayPaused;
+    };
+    this.replayControls.onSpeedChange = (speed) => {
+      this.replaySpeed = speed;
+    };
+    this.replayControls.onSeek = (tick) => {
+      this.seekReplay(tick);
+    };
+    this.replayControls.onToggleFreeCamera = () => {
+      const renderSystem = this.world.getSystem(RenderSystem);
+      renderSystem?.setFreeCamera(!renderSystem.isFreeCameraEnabled());
+    };
+
+    console.log(`🎬 リプレイ再生: ${ReplayCodec.getDuration(replay).toFixed(1)}秒 / シード${replay.seed}`);
+    this.start();
+  }
+
+  /**
+   * リプレイの指定した刻みへ移動
+   * 戻るときは試合の開始時点（キーフレーム）からワールドを作り直して再シミュレーションする
+   * スナップショットに含まれないシステム内部の状態（緊急脱出の進行・崩れた建物・予約した処理など）も作り直すことで記録どおりに再現する
+   */
+  private seekReplay(tick: number): void {
+    if (!this.replaySystem) return;
+    const replay = this.replaySystem.getReplay();
+    const target = Math.min(tick, replay.tickCount);
+
+    if (target < this.world.getTick()) {
+      const renderSystem = this.world.getSystem(RenderSystem);
+      const freeCameraPose = renderSystem?.isFreeCameraEnabled() ? renderSystem.getFreeCameraPose() : null;
+      this.buildWorld(replay, ReplayMode.PLAYBACK);
+      if (freeCameraPose) {
+        this.world.getSystem(RenderSystem)?.setFreeCamera(true, freeCameraPose);
+      }
+    }
+
+    const deltaTime = this.world.getFixedDeltaTime();
+    while (this.world.getTick() < target) {
+      this.world.update(deltaTime);
+    }
+    this.world.render(0);
+  }
+
+  /**
+   * 試合の設定からワールドを作る（リプレイの再生ではキーボードの代わりに記録した入力を使う）
+   */
+  private buildWorld(replay: ReplayData, mode: ReplayMode): void {
+    // 試合のシード（マップの生成と試合中の乱数に使う。同じシードと入力なら試合を再現できる）
+    this.world.destroy();
+    this.world = new World(replay.tickRate, replay.seed);
+
     // システムを追加
-    this.world.addSystem(new InputSystem());
+    const map = BattleMapUtils.create(this.modeSettings.map, this.modeSettings.mapSeed);
+    this.world.addSystem(new EnvironmentSystem(map)); // 対戦マップの建物を配置
+    if (mode === ReplayMode.RECORD) {
+      this.world.addSystem(new InputSystem());
+    }
+    this.replaySystem = new ReplaySystem(replay, mode);
+    this.world.addSystem(this.replaySystem); // 入力の記録・再生（入力の直後）
+    this.world.addSystem(new NavigationSystem()); // ナビメッシュ（AIより先に構築）
+    this.world.addSystem(new PerceptionSystem()); // AIの知覚（視界・聴覚・レーダー）
+    this.world.addSystem(new SquadSystem()); // 部隊AIの指揮（各AIの行動より先に指示を出す）
     this.world.addSystem(new AISystem()); // AI制御システム
+    this.world.addSystem(new RadarSystem()); // レーダー・バッグワーム（AI入力の後に実行）
+    this.world.addSystem(new SpiderSystem()); // スパイダー（ワイヤートラップ）
+    this.world.addSystem(new ViperTrajectorySystem()); // バイパー弾道作成
+    this.world.addSystem(new CompoundBulletSystem()); // 合成弾（通常射撃より先に入力を処理）
     this.world.addSystem(new MovementSystem());
     this.world.addSystem(new AnimationSystem()); // アニメーションシステム
     this.world.addSystem(new CollisionSystem()); // 衝突判定システム
+    this.world.addSystem(new WoundSystem()); // 部位欠損・トリオン漏出
+    this.world.addSystem(new BailoutSystem()); // 緊急脱出
     this.world.addSystem(new ProjectileSystem());
     this.world.addSystem(new ShootingSystem()); // 高精度射撃システム
     this.world.addSystem(new TriggerSystem());
     this.world.addSystem(new SwordActionSystem()); // 剣系特殊アクション
     this.world.addSystem(new ShieldSystem());
     this.world.addSystem(new GrasshopperSystem()); // グラスホッパーシステム
+    if (this.modeSettings.mode === GameMode.RANK_WAR) {
+      this.world.addSystem(new RankWarSystem(this.modeSettings.rankWar)); // ランク戦（緊急脱出の後に追加）
+    } else if (this.modeSettings.mode === GameMode.NEIGHBOR_INVASION) {
+      this.world.addSystem(new NeighborWaveSystem()); // ネイバー遠征（緊急脱出の後に追加）
+    }
     this.world.addSystem(new HUDSystem(this.container));
     const renderSystem = new RenderSystem(this.container);
     this.world.addSystem(renderSystem);
     
     // クロスヘアを作成（デフォルトで非表示）
-    this.crosshair = new CrosshairUI(this.container);
+    if (!this.crosshair) {
+      this.crosshair = new CrosshairUI(this.container);
+    }
     this.crosshair.setVisible(false);
 
     // RenderSystemにクロスヘア制御コールバックを設定
@@ -117,31 +266,122 @@ class Game {
       }
     });
 
-    // プレイヤーキャラクターを作成
-    this.createPlayerCharacter(this.selectedCharacterType);
+    console.log(`🎚️ AI難易度: ${AI_DIFFICULTY_PROFILES[this.modeSettings.difficulty].label} / 🗺️ マップ: ${map.name}`);
+    if (this.modeSettings.mode === GameMode.RANK_WAR) {
+      // ランク戦：プレイヤーの部隊と対戦部隊を配置
+      this.createRankWarSquads(this.modeSettings.rankWar);
+    } else if (this.modeSettings.mode === GameMode.NEIGHBOR_INVASION) {
+      // ネイバー遠征：市街地の前に防衛部隊を配置（トリオン兵はゲートから出現）
+      this.createDefenseSquad();
+    } else if (this.getSpawnPoint(0) && this.getSpawnPoint(1)) {
+      // マップの初期位置にプレイヤーと敵を向かい合わせて配置
+      this.createFreeBattleAtSpawns();
+    } else {
+      // プレイヤーキャラクターを作成
+      this.createPlayerCharacter(this.selectedCharacterType);
+
+      // テスト用のAIエネミーを作成
+      this.createAIEnemy();
+      
+      // 複数の敵を配置（クラスごとに戦術が異なる）
+      this.createAIEnemyAt(new THREE.Vector3(10, 0, -10), 1, Math.PI, CharacterClass.ATTACKER);
+      this.createAIEnemyAt(new THREE.Vector3(-10, 0, -5), 1, Math.PI, CharacterClass.SNIPER);
+    }
+  }
 
-    // テスト用のAIエネミーを作成
-    this.createAIEnemy();
-    
-    // 複数の敵を配置
-    this.createAIEnemyAt(new THREE.Vector3(10, 0, -10));
-    this.createAIEnemyAt(new THREE.Vector3(-10, 0, -5));
+  /**
+   * ランク戦の部隊を配置
+   * 部隊0がプレイヤーの部隊。各部隊は中心を囲むように等間隔で並び、中心を向く
+   * AI隊員は標準の編成（前衛・援護・狙撃）の順にクラスを割り当てる
+   */
+  private createRankWarSquads(settings: RankWarSettings): void {
+    const config = GAME_CONFIG.RANK_WAR;
+
+    for (let team = 0; team < settings.squadCount; team++) {
+      // マップに初期位置がなければ中心を囲むように並べる
+      const angle = (team / settings.squadCount) * Math.PI * 2;
+      const spawn = this.getSpawnPoint(team) ?? {
+        center: new THREE.Vector3(Math.sin(angle), 0, Math.cos(angle)).multiplyScalar(config.SPAWN_DISTANCE),
+        rotationY: angle
+      };
+      const center = spawn.center;
+      const rotationY = spawn.rotationY;
+      const side = new THREE.Vector3(Math.cos(rotationY), 0, -Math.sin(rotationY));
+
+      for (let member = 0; member < settings.squadSize; member++) {
+        const offset = (member - (settings.squadSize - 1) / 2) * config.MEMBER_SPACING;
+        const position = center.clone().addScaledVector(side, offset);
+
+        if (team === 0 && member === 0) {
+          this.createPlayerCharacter(this.selectedCharacterType, position, rotationY);
+        } else {
+          this.createAIEnemyAt(position, team, rotationY, SQUAD_FORMATION[member % SQUAD_FORMATION.length]);
+        }
+      }
+    }
 
-    // ゲーム開始
-    this.start();
+    console.log(`🏆 ランク戦開始: ${settings.squadCount}部隊 × ${settings.squadSize}人, 制限時間${settings.timeLimit}秒`);
+  }
+
+  /**
+   * 自由戦闘の配置（マップの部隊0の位置にプレイヤー、部隊1の位置に敵3人）
+   */
+  private createFreeBattleAtSpawns(): void {
+    const playerSpawn = this.getSpawnPoint(0)!;
+    const enemySpawn = this.getSpawnPoint(1)!;
+    const side = new THREE.Vector3(Math.cos(enemySpawn.rotationY), 0, -Math.sin(enemySpawn.rotationY));
+    const classes = [CHARACTER_PRESETS[CharacterType.AI_ENEMY].class, CharacterClass.ATTACKER, CharacterClass.SNIPER];
+
+    this.createPlayerCharacter(this.selectedCharacterType, playerSpawn.center, playerSpawn.rotationY);
+    classes.forEach((characterClass, index) => {
+      const offset = (index - (classes.length - 1) / 2) * GAME_CONFIG.RANK_WAR.MEMBER_SPACING;
+      const position = enemySpawn.center.clone().addScaledVector(side, offset);
+      this.createAIEnemyAt(position, 1, enemySpawn.rotationY, characterClass);
+    });
+  }
+
+  /**
+   * マップで指定された部隊の初期位置と向き（指定がなければnull）
+   */
+  private getSpawnPoint(team: number): { center: THREE.Vector3; rotationY: number } | null {
+    const spawn = this.world.getSystem(EnvironmentSystem)?.getSpawn(team);
+    if (!spawn) return null;
+    return {
+      center: new THREE.Vector3(spawn.position.x, 0, spawn.position.z),
+      rotationY: MapLoader.getSpawnRotation(spawn)
+    };
+  }
+
+  /**
+   * ネイバー遠征の防衛部隊を配置（プレイヤーと共闘するAI隊員）
+   */
+  private createDefenseSquad(): void {
+    const config = GAME_CONFIG.NEIGHBOR;
+    const front = new THREE.Vector3(config.DISTRICT_CENTER.x, 0, config.DISTRICT_CENTER.z - config.DISTRICT_RADIUS - 2);
+
+    this.createPlayerCharacter(this.selectedCharacterType, front);
+    for (let i = 0; i < config.ALLY_COUNT; i++) {
+      const side = i % 2 === 0 ? 1 : -1;
+      const offset = side * (Math.floor(i / 2) + 1) * GAME_CONFIG.RANK_WAR.MEMBER_SPACING;
+      this.createAIEnemyAt(front.clone().add(new THREE.Vector3(offset, 0, 0)), 0, 0);
+    }
   }
 
   /**
    * プレイヤーキャラクターを作成
    */
-  private createPlayerCharacter(characterType: CharacterType): void {
+  private createPlayerCharacter(
+    characterType: CharacterType,
+    position: THREE.Vector3 = new THREE.Vector3(0, 0, 5),
+    rotationY: number = 0
+  ): void {
     const preset = CHARACTER_PRESETS[characterType];
     const player = this.world.createEntity();
 
     // Transform
     const transform = new Transform(
-      new THREE.Vector3(0, 0, 5),
-      new THREE.Euler(0, 0, 0),
+      position.clone(),
+      new THREE.Euler(0, rotationY, 0),
       new THREE.Vector3(1, 1, 1)
     );
     player.addComponent(Transform, transform);
@@ -169,6 +409,9 @@ class Game {
     // コライダー
     player.addComponent(Collider, COLLIDER_PRESETS.character);
 
+    // 部位別の当たり判定
+    player.addComponent(Hitbox, Hitbox.fromCharacterMesh(characterMesh));
+
     // トリガー（選択されたセットを使用、コスト適用済み）
     const triggerSet = this.selectedTriggerSet || CLASS_TRIGGER_SETS[preset.class];
     const trigger = new Trigger(triggerSet, character);
@@ -216,6 +459,9 @@ class Game {
     // コライダー
     enemy.addComponent(Collider, COLLIDER_PRESETS.enemy);
 
+    // 部位別の当たり判定
+    enemy.addComponent(Hitbox, Hitbox.fromCharacterMesh(enemyMesh));
+
     // トリガー
     const enemyTriggerSet = CLASS_TRIGGER_SETS[preset.class];
     enemy.addComponent(Trigger, new Trigger(enemyTriggerSet));
@@ -226,47 +472,50 @@ class Game {
     // 入力（AIが制御）
     enemy.addComponent(Input, new Input());
 
-    // AI
-    const aiConfig = {
-      tactics: AITactics.BALANCED,
-      detectionRange: 20,
-      attackRange: 15,
-      retreatThreshold: 20,
-      reactionTime: 0.5,
-      accuracy: 0.7
-    };
+    // AI（クラスの標準戦術に難易度を反映）
+    const difficulty = this.modeSettings.difficulty;
+    const aiConfig = AIDifficultyUtils.applyToConfig(AI_CONFIG_PRESETS[CLASS_DEFAULT_TACTICS[preset.class]], difficulty);
     enemy.addComponent(AI, new AI(aiConfig));
+    enemy.addComponent(Perception, Perception.fromAIConfig(aiConfig, AIDifficultyUtils.getPerceptionConfig(difficulty)));
 
     // タグ
     enemy.addTag('enemy');
   }
 
   /**
-   * 指定位置にAIエネミーを作成
+   * 指定位置にAIキャラクターを作成
+   * teamが0ならプレイヤーの味方、それ以外は敵部隊の隊員
+   * characterClassでトリガー構成とAIの戦術が決まる
    */
-  private createAIEnemyAt(position: THREE.Vector3): void {
+  private createAIEnemyAt(
+    position: THREE.Vector3,
+    team: number = 1,
+    rotationY: number = Math.PI,
+    characterClass: CharacterClass = CHARACTER_PRESETS[CharacterType.AI_ENEMY].class
+  ): void {
     const preset = CHARACTER_PRESETS[CharacterType.AI_ENEMY];
     const enemy = this.world.createEntity();
 
     // Transform
     const transform = new Transform(
       position.clone(),
-      new THREE.Euler(0, Math.PI, 0),
+      new THREE.Euler(0, rotationY, 0),
       new THREE.Vector3(1, 1, 1)
     );
     enemy.addComponent(Transform, transform);
 
-    // 敵用人型メッシュ
-    const enemyMesh = CharacterMeshBuilder.createEnemyMesh();
+    // 人型メッシュ（部隊の色）
+    const squadColors = GAME_CONFIG.RANK_WAR.SQUAD_COLORS[team % GAME_CONFIG.RANK_WAR.SQUAD_COLORS.length];
+    const enemyMesh = CharacterMeshBuilder.createEnemyMesh(squadColors.primary, squadColors.secondary);
     enemy.addComponent(MeshComponent, new MeshComponent(enemyMesh));
 
     // キャラクター
     const character = new Character(
       preset.name,
       CharacterType.AI_ENEMY,
-      preset.class,
+      characterClass,
       preset.stats,
-      1 // 敵チーム
+      team
     );
     enemy.addComponent(Character, character);
 
@@ -276,8 +525,11 @@ class Game {
     // コライダー
     enemy.addComponent(Collider, COLLIDER_PRESETS.enemy);
 
+    // 部位別の当たり判定
+    enemy.addComponent(Hitbox, Hitbox.fromCharacterMesh(enemyMesh));
+
     // トリガー
-    const enemyTriggerSet = CLASS_TRIGGER_SETS[preset.class];
+    const enemyTriggerSet = CLASS_TRIGGER_SETS[characterClass];
     enemy.addComponent(Trigger, new Trigger(enemyTriggerSet));
 
     // シールド
@@ -286,19 +538,14 @@ class Game {
     // 入力（AIが制御）
     enemy.addComponent(Input, new Input());
 
-    // AI
-    const aiConfig = {
-      tactics: AITactics.BALANCED,
-      detectionRange: 20,
-      attackRange: 15,
-      retreatThreshold: 20,
-      reactionTime: 0.5,
-      accuracy: 0.7
-    };
+    // AI（クラスの標準戦術に難易度を反映）
+    const difficulty = this.modeSettings.difficulty;
+    const aiConfig = AIDifficultyUtils.applyToConfig(AI_CONFIG_PRESETS[CLASS_DEFAULT_TACTICS[characterClass]], difficulty);
     enemy.addComponent(AI, new AI(aiConfig));
+    enemy.addComponent(Perception, Perception.fromAIConfig(aiConfig, AIDifficultyUtils.getPerceptionConfig(difficulty)));
 
     // タグ
-    enemy.addTag('enemy');
+    enemy.addTag(team === 0 ? 'ally' : 'enemy');
   }
 
   /**
@@ -325,13 +572,34 @@ class Game {
       return;
     }
 
-    // ワールドを更新
-    this.world.update(deltaTime);
+    if (this.replaySystem?.getMode() === ReplayMode.PLAYBACK) {
+      this.updateReplay(deltaTime);
+    } else {
+      // シミュレーションを固定刻みで進めてから描画
+      this.world.step(deltaTime);
+    }
 
     // 次のフレーム
     requestAnimationFrame(this.gameLoop.bind(this));
   }
 
+  /**
+   * リプレイを再生速度に合わせて進める（一時停止中と再生の終了後は描画だけ）
+   */
+  private updateReplay(deltaTime: number): void {
+    if (this.replaySystem!.isFinished()) {
+      this.replayPaused = true;
+    }
+    if (this.replayPaused) {
+      this.world.render(deltaTime);
+    } else {
+      this.world.step(deltaTime * this.replaySpeed);
+    }
+
+    const freeCamera = this.world.getSystem(RenderSystem)?.isFreeCameraEnabled() ?? false;
+    this.replayControls?.update(this.world.getTick(), this.replayPaused, freeCamera);
+  }
+
   /**
    * ゲームを停止
    */
@@ -351,6 +619,9 @@ class Game {
     if (this.mainMenu) {
       this.mainMenu.destroy();
     }
+    if (this.replayControls) {
+      this.replayControls.destroy();
+    }
   }
 }
 
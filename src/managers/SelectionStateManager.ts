@@ -1,5 +1,7 @@
 import { CharacterType } from '../components/Character';
 import { TriggerSet } from '../triggers/TriggerDefinitions';
+import { AIDifficulty, AIDifficultyUtils } from '../config/AIDifficulty';
+import { BattleMapId, BattleMapUtils } from '../maps/BattleMaps';
 
 /**
  * 選択状態のデータ構造
@@ -12,10 +14,13 @@ interface SelectionState {
 
 /**
  * 選択状態の管理クラス
- * キャラクター・トリガー選択の状態を保存・復元する
+ * キャラクター・トリガー選択の状態とAIの難易度を保存・復元する
  */
 export class SelectionStateManager {
   private static readonly STORAGE_KEY = 'worldTrigger3D_selectionState';
+  private static readonly DIFFICULTY_KEY = 'worldTrigger3D_aiDifficulty';
+  private static readonly MAP_KEY = 'worldTrigger3D_battleMap';
+  private static readonly MAP_SEED_KEY = 'worldTrigger3D_mapSeed';
 
   /**
    * 選択状態を保存
@@ -92,6 +97,78 @@ export class SelectionStateManager {
     }
   }
 
+  /**
+   * AIの難易度を保存（キャラクター選択と違い期限なし）
+   */
+  static saveDifficulty(difficulty: AIDifficulty): void {
+    try {
+      localStorage.setItem(this.DIFFICULTY_KEY, difficulty);
+      console.log(`SelectionStateManager: Saved difficulty - ${difficulty}`);
+    } catch (error) {
+      console.warn('SelectionStateManager: Failed to save difficulty:', error);
+    }
+  }
+
+  /**
+   * AIの難易度を読み込み（未保存・不正な値ならnull）
+   */
+  static loadDifficulty(): AIDifficulty | null {
+    try {
+      return AIDifficultyUtils.parse(localStorage.getItem(this.DIFFICULTY_KEY));
+    } catch (error) {
+      console.warn('SelectionStateManager: Failed to load difficulty:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 対戦マップを保存（キャラクター選択と違い期限なし）
+   */
+  static saveMap(map: BattleMapId): void {
+    try {
+      localStorage.setItem(this.MAP_KEY, map);
+      console.log(`SelectionStateManager: Saved map - ${map}`);
+    } catch (error) {
+      console.warn('SelectionStateManager: Failed to save map:', error);
+    }
+  }
+
+  /**
+   * 対戦マップを読み込み（未保存・不正な値ならnull）
+   */
+  static loadMap(): BattleMapId | null {
+    try {
+      return BattleMapUtils.parse(localStorage.getItem(this.MAP_KEY));
+    } catch (error) {
+      console.warn('SelectionStateManager: Failed to load map:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 自動生成マップのシードを保存
+   */
+  static saveMapSeed(seed: number): void {
+    try {
+      localStorage.setItem(this.MAP_SEED_KEY, seed.toString());
+      console.log(`SelectionStateManager: Saved map seed - ${seed}`);
+    } catch (error) {
+      console.warn('SelectionStateManager: Failed to save map seed:', error);
+    }
+  }
+
+  /**
+   * 自動生成マップのシードを読み込み（未保存・不正な値ならnull）
+   */
+  static loadMapSeed(): number | null {
+    try {
+      return BattleMapUtils.parseSeed(localStorage.getItem(this.MAP_SEED_KEY));
+    } catch (error) {
+      console.warn('SelectionStateManager: Failed to load map seed:', error);
+      return null;
+    }
+  }
+
   /**
    * デフォルトのトリガーセットを取得
    */
@@ -0,0 +1,66 @@
+import { MapData } from './MapData';
+import { MapGenerator } from './MapGenerator';
+import trainingMap from './data/training.json';
+import residentialMap from './data/residential.json';
+import riversideMap from './data/riverside.json';
+import industrialMap from './data/industrial.json';
+
+/**
+ * 対戦マップ
+ */
+export enum BattleMapId {
+  TRAINING = 'training',       // 訓練場（平坦なアリーナ）
+  RESIDENTIAL = 'residential', // 市街地A（住宅街）
+  RIVERSIDE = 'riverside',     // 市街地B（河川敷）
+  INDUSTRIAL = 'industrial',   // 工業地帯
+  GENERATED = 'generated'      // 三門市（シードから自動生成）
+}
+
+/**
+ * 用意されたマップのデータ（JSONから読み込む）
+ */
+export const BATTLE_MAPS: Record<Exclude<BattleMapId, BattleMapId.GENERATED>, MapData> = {
+  [BattleMapId.TRAINING]: trainingMap as MapData,
+  [BattleMapId.RESIDENTIAL]: residentialMap as MapData,
+  [BattleMapId.RIVERSIDE]: riversideMap as MapData,
+  [BattleMapId.INDUSTRIAL]: industrialMap as MapData
+};
+
+/**
+ * 標準のマップ
+ */
+export const DEFAULT_BATTLE_MAP = BattleMapId.TRAINING;
+
+/**
+ * 対戦マップのユーティリティ
+ */
+export class BattleMapUtils {
+  /**
+   * マップデータを取得（自動生成マップはシードから生成する）
+   */
+  static create(map: BattleMapId, seed: number): MapData {
+    return map === BattleMapId.GENERATED ? MapGenerator.generate(seed) : BATTLE_MAPS[map];
+  }
+
+  /**
+   * 選択欄に表示するマップ名
+   */
+  static getName(map: BattleMapId): string {
+    return map === BattleMapId.GENERATED ? '三門市（自動生成）' : BATTLE_MAPS[map].name;
+  }
+
+  /**
+   * 保存された値などを有効なマップに変換する
+   */
+  static parse(value: string | null | undefined): BattleMapId | null {
+    return Object.values(BattleMapId).find(map => map === value) ?? null;
+  }
+
+  /**
+   * 入力されたシードを有効な値（0以上の整数）に変換する
+   */
+  static parseSeed(value: string | null | undefined): number | null {
+    const seed = Number(value);
+    return value && Number.isInteger(seed) && seed >= 0 ? seed : null;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * マップデータの形式（JSONで記述する）
+ * 座標はメートル単位で、マップの中心が原点。色は '#rrggbb' 形式の文字列
+ */
+
+/**
+ * 水平面上の座標
+ */
+export interface MapPoint {
+  x: number;
+  z: number;
+}
+
+/**
+ * 3次元の座標・大きさ
+ */
+export interface MapVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * 地表の種類（見た目のみ）
+ */
+export type MapSurface = 'road' | 'grass' | 'plaza' | 'water' | 'concrete';
+
+/**
+ * 地面に敷く区画（道路・川など）
+ */
+export interface MapTerrainPatch {
+  surface: MapSurface;
+  center: MapPoint;
+  size: MapPoint;      // 幅（x）と奥行き（z）
+  color?: string;      // 省略時は地表の種類ごとの色
+}
+
+/**
+ * 地形
+ */
+export interface MapTerrain {
+  size: number;        // 地面の一辺の長さ
+  color: string;
+  grid: boolean;       // グリッドを表示するか
+  patches: MapTerrainPatch[];
+}
+
+/**
+ * 建物の共通項目
+ * elevationを指定すると他の建物の屋上などに載せられる（屋上は平らで立つことができる）
+ */
+interface MapBuildingBase {
+  name?: string;
+  color: string;
+  elevation?: number;  // 底面の高さ（省略時は地面）
+  durability?: number; // 耐久力（省略時は体積から計算、0なら壊れない）
+}
+
+/**
+ * 直方体の建物
+ */
+export interface MapBoxBuilding extends MapBuildingBase {
+  shape: 'box';
+  center: MapPoint;
+  size: MapVector;     // 幅（x）・高さ（y）・奥行き（z）
+}
+
+/**
+ * 角柱の建物（多角形の敷地を真上に押し出す）
+ */
+export interface MapPrismBuilding extends MapBuildingBase {
+  shape: 'prism';
+  footprint: MapPoint[];  // 敷地の頂点（3点以上、順番に結ぶ）
+  height: number;
+}
+
+export type MapBuilding = MapBoxBuilding | MapPrismBuilding;
+
+/**
+ * 部隊の初期位置
+ */
+export interface MapSpawn {
+  team: number;
+  position: MapPoint;
+  facing: number;      // 向き（度、0で-Z方向、90で-X方向）
+}
+
+/**
+ * 照明と空気感
+ */
+export interface MapLighting {
+  background: string;
+  fog: { color: string; near: number; far: number };
+  ambient: { color: string; intensity: number };
+  sun: { color: string; intensity: number; position: MapVector };
+  points?: { color: string; intensity: number; distance: number; position: MapVector }[];
+}
+
+/**
+ * マップ
+ */
+export interface MapData {
+  id: string;
+  name: string;
+  bounds: { halfExtent: number };  // 移動できる範囲（中心から各辺までの距離）
+  terrain: MapTerrain;
+  buildings: MapBuilding[];
+  spawns: MapSpawn[];              // 空なら各モードの標準の配置
+  lighting: MapLighting;
+}
@@ -0,0 +1,365 @@
+import { GAME_CONFIG } from '../config/GameConfig';
+import { SeededRandom } from '../utils/SeededRandom';
+import { MapData, MapBuilding, MapTerrainPatch, MapSpawn, MapPoint } from './MapData';
+
+/**
+ * マップ自動生成の条件
+ */
+export interface MapGeneratorOptions {
+  halfExtent: number;     // 生成する範囲（中心から各辺までの距離）
+  riverChance: number;    // 川が流れる確率
+  plazaChance: number;    // 街区が広場になる確率
+  parkChance: number;     // 街区が公園になる確率
+  maxFloors: number;      // 中心部の建物の最大階数
+}
+
+/**
+ * 標準の生成条件
+ */
+export const DEFAULT_MAP_GENERATOR_OPTIONS: MapGeneratorOptions = {
+  halfExtent: GAME_CONFIG.MAP_GENERATOR.HALF_EXTENT,
+  riverChance: GAME_CONFIG.MAP_GENERATOR.RIVER_CHANCE,
+  plazaChance: GAME_CONFIG.MAP_GENERATOR.PLAZA_CHANCE,
+  parkChance: GAME_CONFIG.MAP_GENERATOR.PARK_CHANCE,
+  maxFloors: GAME_CONFIG.MAP_GENERATOR.MAX_FLOORS
+};
+
+/**
+ * 軸方向の区間
+ */
+interface Span {
+  min: number;
+  max: number;
+}
+
+/**
+ * 川（生成中はZ方向の帯として扱い、最後に向きを決める）
+ */
+interface River {
+  center: number;
+  halfWidth: number;  // 河川敷を含まない水面の半分の幅
+}
+
+const BUILDING_COLORS = ['#cfd3d6', '#d8cfc0', '#c9b79c', '#b9c2c8', '#e2ddd0', '#a0a6aa', '#c4b6a0'];
+
+/**
+ * 三門市風の市街地マップの自動生成
+ * 外周道路で囲まれた範囲を道路で街区に分け、街区ごとに建物・広場・公園を配置する。
+ * 川が流れる場合は街区を川の両岸に分け、川を渡る道路に橋を架ける。
+ * 同じシードと条件からは常に同じマップデータが得られ、MapLoaderでそのまま読み込める
+ */
+export class MapGenerator {
+  /**
+   * シードからマップデータを生成
+   */
+  static generate(seed: number, options: Partial<MapGeneratorOptions> = {}): MapData {
+    const settings = { ...DEFAULT_MAP_GENERATOR_OPTIONS, ...options };
+    const config = GAME_CONFIG.MAP_GENERATOR;
+    const random = new SeededRandom(seed);
+    const halfExtent = settings.halfExtent;
+    const inner = halfExtent - config.RING_ROAD_WIDTH;
+
+    // 川の位置（中心から外れすぎない範囲）
+    const river: River | null = random.chance(settings.riverChance)
+      ? { center: random.range(-inner * 0.3, inner * 0.3), halfWidth: config.RIVER_WIDTH / 2 }
+      : null;
+
+    // 街区の区間（川がある場合は河川敷を避けて両岸に分ける）
+    const columns = this.splitSpan(random, { min: -inner, max: inner });
+    const rows = river
+      ? [
+        ...this.splitSpan(random, { min: -inner, max: river.center - river.halfWidth - config.RIVER_BANK }),
+        ...this.splitSpan(random, { min: river.center + river.halfWidth + config.RIVER_BANK, max: inner })
+      ]
+      : this.splitSpan(random, { min: -inner, max: inner });
+
+    const buildings: MapBuilding[] = [];
+    const patches: MapTerrainPatch[] = [];
+
+    for (const column of columns) {
+      for (const row of rows) {
+        this.fillBlock(random, column, row, halfExtent, settings, buildings, patches);
+      }
+    }
+
+    if (river) {
+      this.addRiver(random, river, columns, halfExtent, buildings, patches);
+    }
+
+    const map: MapData = {
+      id: `generated-${seed}`,
+      name: `三門市（シード${seed}）`,
+      bounds: { halfExtent },
+      terrain: { size: halfExtent * 2 + 40, color: '#55565a', grid: false, patches },
+      buildings,
+      spawns: this.createSpawns(halfExtent - config.RING_ROAD_WIDTH / 2),
+      lighting: {
+        background: '#9fd0ee',
+        fog: { color: '#b9d9ee', near: 30, far: halfExtent * 3 },
+        ambient: { color: '#ffffff', intensity: 0.55 },
+        sun: { color: '#fff4e0', intensity: 0.9, position: { x: 30, y: 50, z: 20 } }
+      }
+    };
+    // 川（と街区の並び）の向きは東西か南北のどちらか
+    return random.chance(0.5) ? this.transpose(map) : map;
+  }
+
+  /**
+   * 区間を道路を挟んだ街区の区間に分ける（端の街区が小さすぎる場合は手前の街区に含める）
+   */
+  private static splitSpan(random: SeededRandom, span: Span): Span[] {
+    const config = GAME_CONFIG.MAP_GENERATOR;
+    const spans: Span[] = [];
+    let cursor = span.min;
+
+    while (span.max - cursor >= config.BLOCK_MIN) {
+      let end = cursor + random.range(config.BLOCK_MIN, config.BLOCK_MAX);
+      if (span.max - end < config.BLOCK_MIN + config.STREET_WIDTH) {
+        end = span.max;
+      }
+      spans.push({ min: cursor, max: end });
+      cursor = end + config.STREET_WIDTH;
+    }
+
+    return spans;
+  }
+
+  /**
+   * 街区に建物・広場・公園を配置する
+   */
+  private static fillBlock(
+    random: SeededRandom,
+    column: Span,
+    row: Span,
+    halfExtent: number,
+    settings: MapGeneratorOptions,
+    buildings: MapBuilding[],
+    patches: MapTerrainPatch[]
+  ): void {
+    const config = GAME_CONFIG.MAP_GENERATOR;
+    const center = this.round({ x: (column.min + column.max) / 2, z: (row.min + row.max) / 2 });
+    const size = this.round({ x: column.max - column.min, z: row.max - row.min });
+
+    // 広場（中央に噴水）
+    if (random.chance(settings.plazaChance)) {
+      patches.push({ surface: 'plaza', center, size });
+      buildings.push({
+        name: '噴水',
+        shape: 'prism',
+        footprint: this.polygon(center, 1.5, 8),
+        height: 0.8,
+        color: '#c8ccd0'
+      });
+      return;
+    }
+
+    // 公園（東屋のみ）
+    if (random.chance(settings.parkChance)) {
+      patches.push({ surface: 'grass', center, size });
+      buildings.push({
+        name: '東屋',
+        shape: 'box',
+        center: this.round({ x: center.x + random.range(-2, 2), z: center.z + random.range(-2, 2) }),
+        size: { x: 3, y: 2.5, z: 3 },
+        color: '#8a6a4a'
+      });
+      return;
+    }
+
+    // 市街地：長い方の辺に沿って敷地を分け、1区画に1棟建てる（中心部ほど高い）
+    patches.push({ surface: 'concrete', center, size });
+    const distance = Math.max(Math.abs(center.x), Math.abs(center.z)) / halfExtent;
+    const maxFloors = Math.max(config.MIN_FLOORS, Math.round(settings.maxFloors * (1 - distance * 0.7)));
+    const alongX = size.x >= size.z;
+    const length = alongX ? size.x : size.z;
+    const lots = Math.max(1, Math.min(3, Math.floor(length / config.LOT_MIN)));
+
+    for (let i = 0; i < lots; i++) {
+      const start = (alongX ? column.min : row.min) + (length / lots) * i;
+      const end = start + length / lots;
+      const lot = alongX
+        ? { column: { min: start, max: end }, row }
+        : { column, row: { min: start, max: end } };
+
+      const floors = random.int(config.MIN_FLOORS, maxFloors);
+      this.addBuilding(random, lot.column, lot.row, floors, buildings);
+    }
+  }
+
+  /**
+   * 敷地に建物を建てる（L字型になることがあり、高い建物には塔屋が載る）
+   */
+  private static addBuilding(
+    random: SeededRandom,
+    column: Span,
+    row: Span,
+    floors: number,
+    buildings: MapBuilding[]
+  ): void {
+    const config = GAME_CONFIG.MAP_GENERATOR;
+    const setback = config.LOT_SETBACK + random.range(0, 1);
+    const minX = column.min + setback;
+    const maxX = column.max - setback;
+    const minZ = row.min + setback;
+    const maxZ = row.max - setback;
+    const width = maxX - minX;
+    const depth = maxZ - minZ;
+    if (width < 3 || depth < 3) return;
+
+    const height = Math.round(floors * config.FLOOR_HEIGHT * 10) / 10;
+    const color = random.pick(BUILDING_COLORS);
+
+    if (width >= config.LOT_MIN && depth >= config.LOT_MIN && random.chance(config.L_SHAPE_CHANCE)) {
+      // L字型（1つの角を切り欠く）
+      const cutX = width * random.range(0.4, 0.6);
+      const cutZ = depth * random.range(0.4, 0.6);
+      buildings.push({
+        name: `L字の建物${buildings.length}`,
+        shape: 'prism',
+        footprint: [
+          { x: minX, z: minZ },
+          { x: maxX, z: minZ },
+          { x: maxX, z: maxZ - cutZ },
+          { x: maxX - cutX, z: maxZ - cutZ },
+          { x: maxX - cutX, z: maxZ },
+          { x: minX, z: maxZ }
+        ].map(point => this.round(point)),
+        height,
+        color
+      });
+      return;
+    }
+
+    const center = this.round({ x: (minX + maxX) / 2, z: (minZ + maxZ) / 2 });
+    buildings.push({
+      name: `ビル${buildings.length}`,
+      shape: 'box',
+      center,
+      size: { x: this.roundValue(width), y: height, z: this.roundValue(depth) },
+      color
+    });
+
+    // 塔屋（屋上の階段室・機械室）
+    if (floors >= 4 && random.chance(config.ROOFTOP_CHANCE)) {
+      const roomSize = Math.min(3, width / 2, depth / 2);
+      buildings.push({
+        name: `塔屋${buildings.length}`,
+        shape: 'box',
+        center: this.round({
+          x: center.x + random.range(-1, 1) * (width - roomSize) / 2,
+          z: center.z + random.range(-1, 1) * (depth - roomSize) / 2
+        }),
+        size: { x: this.roundValue(roomSize), y: 2.5, z: this.roundValue(roomSize) },
+        color: '#aeb3b7',
+        elevation: height
+      });
+    }
+  }
+
+  /**
+   * 川・河川敷と、川を渡る道路の橋を配置する
+   */
+  private static addRiver(
+    random: SeededRandom,
+    river: River,
+    columns: Span[],
+    halfExtent: number,
+    buildings: MapBuilding[],
+    patches: MapTerrainPatch[]
+  ): void {
+    const config = GAME_CONFIG.MAP_GENERATOR;
+    const bankWidth = river.halfWidth * 2 + config.RIVER_BANK * 2;
+    const center = this.round({ x: 0, z: river.center });
+    patches.push({ surface: 'grass', center, size: { x: halfExtent * 2, z: bankWidth } });
+    patches.push({ surface: 'water', center, size: { x: halfExtent * 2, z: river.halfWidth * 2 } });
+
+    // 街区の間の道路と外周道路（外周道路には必ず橋を架ける）
+    const ring = halfExtent - config.RING_ROAD_WIDTH / 2;
+    const streets: { x: number; width: number; required: boolean }[] = [
+      { x: -ring, width: config.RING_ROAD_WIDTH, required: true },
+      { x: ring, width: config.RING_ROAD_WIDTH, required: true }
+    ];
+    for (let i = 0; i < columns.length - 1; i++) {
+      streets.push({ x: (columns[i].max + columns[i + 1].min) / 2, width: config.STREET_WIDTH, required: false });
+    }
+
+    for (const street of streets) {
+      if (!street.required && !random.chance(config.BRIDGE_CHANCE)) continue;
+
+      // 橋桁は川の上に浮かせ、橋脚で支える
+      buildings.push({
+        name: `橋${buildings.length}`,
+        shape: 'box',
+        center: this.round({ x: street.x, z: river.center }),
+        size: { x: street.width, y: 0.5, z: this.roundValue(bankWidth) },
+        color: '#9a9590',
+        elevation: 1
+      });
+      for (const side of [-1, 1]) {
+        buildings.push({
+          name: `橋脚${buildings.length}`,
+          shape: 'box',
+          center: this.round({ x: street.x, z: river.center + side * (river.halfWidth - 1) }),
+          size: { x: 1, y: 1, z: 1 },
+          color: '#7a7570'
+        });
+      }
+    }
+  }
+
+  /**
+   * 外周道路の四隅に部隊の初期位置を置く（対角の部隊が向かい合う）
+   */
+  private static createSpawns(corner: number): MapSpawn[] {
+    const positions: MapPoint[] = [
+      { x: -corner, z: corner },
+      { x: corner, z: -corner },
+      { x: corner, z: corner },
+      { x: -corner, z: -corner }
+    ];
+    return positions.map((position, team) => ({
+      team,
+      position,
+      facing: Math.round(Math.atan2(position.x, position.z) * 180 / Math.PI) // 中心を向く
+    }));
+  }
+
+  /**
+   * X座標とZ座標を入れ替える（川の向きを南北にする）
+   */
+  private static transpose(map: MapData): MapData {
+    const swap = (point: MapPoint): MapPoint => ({ x: point.z, z: point.x });
+
+    return {
+      ...map,
+      terrain: {
+        ...map.terrain,
+        patches: map.terrain.patches.map(patch => ({ ...patch, center: swap(patch.center), size: swap(patch.size) }))
+      },
+      buildings: map.buildings.map(building => building.shape === 'box'
+        ? { ...building, center: swap(building.center), size: { x: building.size.z, y: building.size.y, z: building.size.x } }
+        : { ...building, footprint: building.footprint.map(swap) })
+    };
+  }
+
+  /**
+   * 正多角形の頂点
+   */
+  private static polygon(center: MapPoint, radius: number, sides: number): MapPoint[] {
+    return Array.from({ length: sides }, (_, i) => this.round({
+      x: center.x + radius * Math.cos((i / sides) * Math.PI * 2),
+      z: center.z + radius * Math.sin((i / sides) * Math.PI * 2)
+    }));
+  }
+
+  /**
+   * マップデータを読みやすくするため座標を0.1m単位に丸める
+   */
+  private static round(point: MapPoint): MapPoint {
+    return { x: this.roundValue(point.x), z: this.roundValue(point.z) };
+  }
+
+  private static roundValue(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
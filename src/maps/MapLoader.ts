@@ -0,0 +1,233 @@
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { MeshComponent } from '../components/Mesh';
+import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
+import { Destructible } from '../components/Destructible';
+import { MapData, MapBuilding, MapSurface, MapSpawn } from './MapData';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 地表の種類ごとの標準の色
+ */
+const SURFACE_COLORS: Record<MapSurface, string> = {
+  road: '#4a4a4f',
+  grass: '#5f8f4a',
+  plaza: '#b8b2a4',
+  water: '#3a6f9f',
+  concrete: '#9a9a96'
+};
+
+/**
+ * マップデータから地形・建物を作成するローダー
+ * 建物は描画用のメッシュとENVIRONMENTレイヤーのコライダーを持つエンティティになり、
+ * ナビメッシュ・視線の遮蔽・弾の衝突にそのまま使われる
+ */
+export class MapLoader {
+  /**
+   * 建物のエンティティを作成
+   */
+  static load(world: World, map: MapData): Entity[] {
+    return map.buildings.map(building => this.createBuilding(world, building));
+  }
+
+  /**
+   * 建物1棟のエンティティを作成（位置は建物の外接箱の中心）
+   */
+  static createBuilding(world: World, building: MapBuilding): Entity {
+    const box = this.getBuildingBox(building);
+    const center = box.getCenter(new THREE.Vector3());
+    const halfSize = box.getSize(new THREE.Vector3()).multiplyScalar(0.5);
+
+    const entity = world.createEntity();
+    entity.addComponent(Transform, new Transform(center, new THREE.Euler(), new THREE.Vector3(1, 1, 1)));
+    entity.addComponent(MeshComponent, new MeshComponent(this.createBuildingMesh(building, center)));
+    entity.addComponent(Collider, new Collider(
+      ColliderType.BOX,
+      halfSize,
+      CollisionLayer.ENVIRONMENT,
+      CollisionLayer.CHARACTER | CollisionLayer.ENEMY | CollisionLayer.PROJECTILE
+    ));
+    entity.addTag('environment');
+
+    const durability = this.getBuildingDurability(building);
+    if (durability > 0) {
+      entity.addComponent(Destructible, new Destructible(durability));
+    }
+    return entity;
+  }
+
+  /**
+   * 建物の耐久力（指定がなければ体積から計算する）
+   */
+  static getBuildingDurability(building: MapBuilding): number {
+    if (building.durability !== undefined) return building.durability;
+
+    const size = this.getBuildingBox(building).getSize(new THREE.Vector3());
+    const config = GAME_CONFIG.DESTRUCTION;
+    return Math.min(
+      config.MAX_DURABILITY,
+      Math.max(config.MIN_DURABILITY, Math.round(size.x * size.y * size.z * config.DURABILITY_PER_VOLUME))
+    );
+  }
+
+  /**
+   * 崩れた建物の瓦礫（同じ敷地に低く積もり、これ以上は壊れない）
+   */
+  static createDebris(building: MapBuilding): MapBuilding {
+    const name = `${building.name ?? '建物'}の瓦礫`;
+    const color = GAME_CONFIG.DESTRUCTION.DEBRIS_COLOR;
+
+    if (building.shape === 'box') {
+      const height = Math.min(GAME_CONFIG.DESTRUCTION.DEBRIS_HEIGHT, building.size.y);
+      return { ...building, name, color, durability: 0, size: { ...building.size, y: height } };
+    }
+    const height = Math.min(GAME_CONFIG.DESTRUCTION.DEBRIS_HEIGHT, building.height);
+    return { ...building, name, color, durability: 0, height };
+  }
+
+  /**
+   * 建物の外接箱（ワールド座標）
+   */
+  static getBuildingBox(building: MapBuilding): THREE.Box3 {
+    const bottom = building.elevation ?? 0;
+
+    if (building.shape === 'box') {
+      const { center, size } = building;
+      return new THREE.Box3(
+        new THREE.Vector3(center.x - size.x / 2, bottom, center.z - size.z / 2),
+        new THREE.Vector3(center.x + size.x / 2, bottom + size.y, center.z + size.z / 2)
+      );
+    }
+
+    const box = new THREE.Box3();
+    for (const point of building.footprint) {
+      box.expandByPoint(new THREE.Vector3(point.x, bottom, point.z));
+    }
+    box.max.y = bottom + building.height;
+    return box;
+  }
+
+  /**
+   * 建物のメッシュを作成（centerを原点とするローカル座標）
+   */
+  static createBuildingMesh(building: MapBuilding, center: THREE.Vector3): THREE.Mesh {
+    let geometry: THREE.BufferGeometry;
+
+    if (building.shape === 'box') {
+      geometry = new THREE.BoxGeometry(building.size.x, building.size.y, building.size.z);
+    } else {
+      // XY平面の多角形をZ方向に押し出し、X軸で回転させて上に伸ばす（shapeのyは-zに対応）
+      const shape = new THREE.Shape(building.footprint.map(point => new THREE.Vector2(point.x, -point.z)));
+      geometry = new THREE.ExtrudeGeometry(shape, { depth: building.height, bevelEnabled: false });
+      geometry.rotateX(-Math.PI / 2);
+      geometry.translate(-center.x, (building.elevation ?? 0) - center.y, -center.z);
+    }
+
+    const material = new THREE.MeshStandardMaterial({
+      color: new THREE.Color(building.color),
+      roughness: 0.85,
+      metalness: 0.1
+    });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = building.name ?? 'building';
+    return mesh;
+  }
+
+  /**
+   * 地面・道路・川などの地形を作成
+   */
+  static createTerrain(map: MapData): THREE.Group {
+    const terrain = map.terrain;
+    const group = new THREE.Group();
+    group.name = 'terrain';
+
+    if (terrain.grid) {
+      group.add(new THREE.GridHelper(terrain.size, terrain.size / 2, 0x444444, 0x888888));
+    }
+
+    const ground = new THREE.Mesh(
+      new THREE.PlaneGeometry(terrain.size, terrain.size),
+      new THREE.MeshStandardMaterial({ color: new THREE.Color(terrain.color), roughness: 0.8, metalness: 0.2 })
+    );
+    ground.rotation.x = -Math.PI / 2;
+    ground.receiveShadow = true;
+    group.add(ground);
+
+    // 区画は地面との重なりでちらつかないよう少しずつ浮かせる
+    terrain.patches.forEach((patch, index) => {
+      const mesh = new THREE.Mesh(
+        new THREE.PlaneGeometry(patch.size.x, patch.size.z),
+        new THREE.MeshStandardMaterial({
+          color: new THREE.Color(patch.color ?? SURFACE_COLORS[patch.surface]),
+          roughness: patch.surface === 'water' ? 0.2 : 0.9,
+          metalness: patch.surface === 'water' ? 0.3 : 0.05
+        })
+      );
+      mesh.rotation.x = -Math.PI / 2;
+      mesh.position.set(patch.center.x, 0.01 + index * 0.001, patch.center.z);
+      mesh.receiveShadow = true;
+      group.add(mesh);
+    });
+
+    return group;
+  }
+
+  /**
+   * 初期位置の向き（Y軸回転、ラジアン）
+   */
+  static getSpawnRotation(spawn: MapSpawn): number {
+    return THREE.MathUtils.degToRad(spawn.facing);
+  }
+
+  /**
+   * マップデータの不備を列挙する（問題がなければ空配列）
+   */
+  static validate(map: MapData): string[] {
+    const problems: string[] = [];
+    const limit = map.bounds.halfExtent;
+    const outside = (point: { x: number; z: number }) => Math.abs(point.x) > limit || Math.abs(point.z) > limit;
+
+    if (!(limit > 0)) {
+      problems.push('移動範囲が設定されていません');
+    }
+
+    const boxes = map.buildings.map((building, index) => {
+      const label = building.name ?? `建物${index}`;
+      if (building.shape === 'box') {
+        if (building.size.x <= 0 || building.size.y <= 0 || building.size.z <= 0) {
+          problems.push(`${label}: 大きさが0以下です`);
+        }
+      } else {
+        if (building.footprint.length < 3) {
+          problems.push(`${label}: 敷地の頂点が3点未満です`);
+        }
+        if (building.height <= 0) {
+          problems.push(`${label}: 高さが0以下です`);
+        }
+      }
+      if (building.durability !== undefined && building.durability < 0) {
+        problems.push(`${label}: 耐久力が負の値です`);
+      }
+
+      const box = this.getBuildingBox(building);
+      if (outside({ x: box.min.x, z: box.min.z }) || outside({ x: box.max.x, z: box.max.z })) {
+        problems.push(`${label}: 移動範囲の外にはみ出しています`);
+      }
+      return box;
+    });
+
+    for (const spawn of map.spawns) {
+      const position = new THREE.Vector3(spawn.position.x, 0.5, spawn.position.z);
+      if (outside(spawn.position)) {
+        problems.push(`部隊${spawn.team}の初期位置が移動範囲の外です`);
+      }
+      if (boxes.some(box => box.containsPoint(position))) {
+        problems.push(`部隊${spawn.team}の初期位置が建物の中です`);
+      }
+    }
+
+    return problems;
+  }
+}
@@ -0,0 +1,338 @@
+import * as THREE from 'three';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
+import { MeshComponent } from '../components/Mesh';
+import { Geometry } from './Geometry';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 足元を基準に直立したカプセル
+ */
+export interface Capsule {
+  radius: number;
+  height: number;  // 足元から頭頂までの高さ（半径の2倍以上）
+}
+
+/**
+ * キャラクターがぶつかる静的な環境
+ */
+export interface ControllerObstacle {
+  entityId: number;
+  bounds: THREE.Box3;                  // 外接箱（ワールド座標）
+  triangles: THREE.Triangle[] | null;  // メッシュの三角形（nullなら外接箱そのものとぶつかる）
+}
+
+/**
+ * 移動の結果
+ */
+export interface ControllerResult {
+  position: THREE.Vector3;
+  grounded: boolean;           // 地面・屋上・緩い斜面に立っているか
+  groundNormal: THREE.Vector3; // 立っている面の法線
+  hitWall: boolean;            // 壁に当たったか
+  hitCeiling: boolean;         // 天井に頭をぶつけたか
+}
+
+/**
+ * カプセルと環境の接触
+ */
+interface Contact {
+  normal: THREE.Vector3;  // 環境からカプセルへ向かう向き
+  depth: number;          // めり込み量（0以下なら接しているだけ）
+  center: THREE.Vector3;  // カプセルの軸上の最も近い点
+  point: THREE.Vector3;   // 環境上の最も近い点
+  ground: boolean;        // 立てる面（屋上の縁や段差の角を含む）に足元で触れているか
+}
+
+/**
+ * キネマティックなキャラクターコントローラー
+ * 移動を半径より短い区間に分けてカプセルを動かし（すり抜け防止）、環境との重なりを押し戻す
+ * 壁では押し戻しで壁沿いに滑り、低い段差は持ち上げて登り、下り坂・段差では足元に吸着する
+ */
+export class CharacterController {
+  private groundLevel: number;
+  private minGroundNormalY: number; // これより上向きの面には立っていられる
+
+  constructor(groundLevel: number = GAME_CONFIG.MOVEMENT.GROUND_LEVEL) {
+    this.groundLevel = groundLevel;
+    this.minGroundNormalY = Math.cos(THREE.MathUtils.degToRad(GAME_CONFIG.CONTROLLER.MAX_SLOPE));
+  }
+
+  /**
+   * エンティティのカプセル（カプセルのコライダーがあればその大きさ）
+   */
+  static getCapsule(entity: Entity): Capsule {
+    const collider = entity.getComponent(Collider);
+    if (collider?.type === ColliderType.CAPSULE) {
+      // Capsuleのコライダーは x = 半径、y = 高さ（半径は高さの半分まで）
+      const height = collider.size.y;
+      return { radius: Math.min(collider.size.x, height / 2), height };
+    }
+    return { radius: GAME_CONFIG.CONTROLLER.RADIUS, height: GAME_CONFIG.CONTROLLER.HEIGHT };
+  }
+
+  /**
+   * 環境のエンティティからぶつかる形状を作成（ENVIRONMENTレイヤーの実体のあるコライダー以外はnull）
+   * 箱以外のメッシュ（角柱の建物など）はメッシュの三角形とぶつかる
+   */
+  static createObstacle(entity: Entity): ControllerObstacle | null {
+    const collider = entity.getComponent(Collider);
+    const transform = entity.getComponent(Transform);
+    if (!collider || !transform || (collider.layer & CollisionLayer.ENVIRONMENT) === 0 || collider.isTrigger) {
+      return null;
+    }
+
+    const bounds = collider.getBoundingBox(transform.position);
+    const mesh = entity.getComponent(MeshComponent)?.mesh;
+    if (!(mesh instanceof THREE.Mesh) || mesh.geometry instanceof THREE.BoxGeometry) {
+      return { entityId: entity.id, bounds, triangles: null };
+    }
+
+    const matrix = new THREE.Matrix4().compose(
+      transform.position,
+      new THREE.Quaternion().setFromEuler(transform.rotation),
+      transform.scale
+    );
+    const triangles = Geometry.getLocalTriangles(mesh.geometry).map(triangle => new THREE.Triangle(
+      triangle.a.clone().applyMatrix4(matrix),
+      triangle.b.clone().applyMatrix4(matrix),
+      triangle.c.clone().applyMatrix4(matrix)
+    ));
+    return { entityId: entity.id, bounds, triangles };
+  }
+
+  /**
+   * カプセルを移動させる
+   * wasGroundedは直前に接地していたか（段差を登る・足元に吸着するのは接地中のみ）
+   */
+  move(
+    position: THREE.Vector3,
+    displacement: THREE.Vector3,
+    capsule: Capsule,
+    obstacles: ControllerObstacle[],
+    wasGrounded: boolean
+  ): ControllerResult {
+    const stepHeight = GAME_CONFIG.CONTROLLER.STEP_HEIGHT;
+    const down = new THREE.Vector3(0, -stepHeight, 0);
+    const horizontal = displacement.clone().setY(0);
+    let result = this.sweep(position, displacement, capsule, obstacles);
+
+    // 段差：持ち上げてから水平に動き、下ろしたところに足場があれば登る
+    if (wasGrounded && result.hitWall && displacement.y <= 0 && horizontal.lengthSq() > 1e-8) {
+      const raised = this.sweep(position, new THREE.Vector3(0, stepHeight, 0), capsule, obstacles);
+      if (!raised.hitCeiling) {
+        const moved = this.sweep(raised.position, horizontal, capsule, obstacles);
+        const lowered = this.sweep(moved.position, down, capsule, obstacles);
+        const progress = (candidate: ControllerResult) => candidate.position.clone().sub(position).setY(0).dot(horizontal);
+        if (lowered.grounded && progress(lowered) > progress(result) + 1e-4) {
+          result = { ...lowered, hitWall: moved.hitWall };
+        }
+      }
+    }
+
+    // 下り坂・段差を降りるときは足元に吸着する（ジャンプ中は吸着しない）
+    if (wasGrounded && !result.grounded && displacement.y <= 0) {
+      const snapped = this.sweep(result.position, down, capsule, obstacles);
+      if (snapped.grounded) {
+        result = { ...snapped, hitWall: result.hitWall };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * その場で環境との重なりを押し戻す（他から押されたときなど）
+   */
+  resolve(position: THREE.Vector3, capsule: Capsule, obstacles: ControllerObstacle[]): ControllerResult {
+    return this.sweep(position, new THREE.Vector3(), capsule, obstacles);
+  }
+
+  /**
+   * 移動を半径より短い区間に分けて動かし、区間ごとに重なりを押し戻す
+   */
+  private sweep(
+    start: THREE.Vector3,
+    displacement: THREE.Vector3,
+    capsule: Capsule,
+    obstacles: ControllerObstacle[]
+  ): ControllerResult {
+    const result: ControllerResult = {
+      position: start.clone(),
+      grounded: false,
+      groundNormal: new THREE.Vector3(0, 1, 0),
+      hitWall: false,
+      hitCeiling: false
+    };
+
+    const maxStep = capsule.radius * GAME_CONFIG.CONTROLLER.MAX_SUBSTEP;
+    const steps = Math.max(1, Math.ceil(displacement.length() / maxStep));
+    const step = displacement.clone().divideScalar(steps);
+
+    for (let i = 0; i < steps; i++) {
+      result.position.add(step);
+      this.depenetrate(result, capsule, obstacles, step);
+    }
+    return result;
+  }
+
+  /**
+   * 環境との重なりを押し戻す
+   * 立てる面では真上に押し上げ（斜面でずり落ちず、段差の角にも載れる）、壁・天井では法線方向に押し戻して残りの移動から壁向きの成分を除く
+   */
+  private depenetrate(
+    result: ControllerResult,
+    capsule: Capsule,
+    obstacles: ControllerObstacle[],
+    step: THREE.Vector3
+  ): void {
+    const position = result.position;
+
+    for (let i = 0; i < GAME_CONFIG.CONTROLLER.MAX_ITERATIONS; i++) {
+      const contacts = this.findContacts(position, capsule, obstacles);
+      let deepest: Contact | null = null;
+
+      for (const contact of contacts) {
+        if (contact.ground) {
+          result.grounded = true;
+          result.groundNormal.copy(contact.normal);
+        } else if (contact.normal.y <= -this.minGroundNormalY) {
+          result.hitCeiling = true;
+        } else {
+          result.hitWall = true;
+        }
+        if (contact.depth > 0 && (!deepest || contact.depth > deepest.depth)) {
+          deepest = contact;
+        }
+      }
+      if (!deepest) break;
+
+      if (deepest.ground) {
+        // 接点の真上に足元の球が載る高さまで持ち上げる（縁に載るときは少し沈む）
+        const horizontal = Math.hypot(deepest.center.x - deepest.point.x, deepest.center.z - deepest.point.z);
+        const lift = Math.sqrt(Math.max(0, capsule.radius ** 2 - horizontal ** 2)) - (deepest.center.y - deepest.point.y);
+        position.y += Math.max(lift, 1e-4);
+      } else {
+        position.addScaledVector(deepest.normal, deepest.depth);
+      }
+
+      const into = step.dot(deepest.normal);
+      if (into < 0) {
+        step.addScaledVector(deepest.normal, -into);
+      }
+    }
+
+    // 地面（無限に広い平面）
+    if (position.y <= this.groundLevel + GAME_CONFIG.CONTROLLER.SKIN_WIDTH) {
+      position.y = Math.max(position.y, this.groundLevel);
+      result.grounded = true;
+      result.groundNormal.set(0, 1, 0);
+      if (step.y < 0) step.y = 0;
+    }
+  }
+
+  /**
+   * カプセルが接している（めり込んでいる）環境
+   */
+  private findContacts(position: THREE.Vector3, capsule: Capsule, obstacles: ControllerObstacle[]): Contact[] {
+    const skin = GAME_CONFIG.CONTROLLER.SKIN_WIDTH;
+    const reach = capsule.radius + skin;
+    const bounds = new THREE.Box3(
+      new THREE.Vector3(position.x - reach, position.y - skin, position.z - reach),
+      new THREE.Vector3(position.x + reach, position.y + capsule.height + skin, position.z + reach)
+    );
+    const a = new THREE.Vector3(position.x, position.y + capsule.radius, position.z);
+    const b = new THREE.Vector3(position.x, position.y + Math.max(capsule.radius, capsule.height - capsule.radius), position.z);
+
+    const contacts: Contact[] = [];
+    for (const obstacle of obstacles) {
+      if (!obstacle.bounds.intersectsBox(bounds)) continue;
+
+      if (!obstacle.triangles) {
+        const contact = this.getBoxContact(a, b, capsule.radius, obstacle.bounds);
+        if (contact) contacts.push(contact);
+        continue;
+      }
+
+      for (const triangle of obstacle.triangles) {
+        const contact = this.getTriangleContact(a, b, capsule.radius, triangle);
+        if (contact) contacts.push(contact);
+      }
+    }
+    return contacts;
+  }
+
+  /**
+   * カプセルの軸（線分ab）と箱の接触
+   */
+  private getBoxContact(a: THREE.Vector3, b: THREE.Vector3, radius: number, box: THREE.Box3): Contact | null {
+    const closest = Geometry.closestPointsSegmentBox(a, b, box);
+    if (closest.distance > radius + GAME_CONFIG.CONTROLLER.SKIN_WIDTH) return null;
+    if (closest.distance > 1e-6) {
+      // 上面（縁を含む）に足元で触れていれば立てる
+      const onTop = Math.abs(closest.onShape.y - box.max.y) < 1e-6;
+      return this.createContact(a, radius, closest.onSegment, closest.onShape, closest.distance, onTop);
+    }
+
+    // 軸が箱の中に入り込んでいるときは、最も短い距離で抜け出せる面から押し出す
+    const exits: { normal: THREE.Vector3; depth: number }[] = [
+      { normal: new THREE.Vector3(1, 0, 0), depth: box.max.x - Math.min(a.x, b.x) + radius },
+      { normal: new THREE.Vector3(-1, 0, 0), depth: Math.max(a.x, b.x) - box.min.x + radius },
+      { normal: new THREE.Vector3(0, 1, 0), depth: box.max.y - Math.min(a.y, b.y) + radius },
+      { normal: new THREE.Vector3(0, -1, 0), depth: Math.max(a.y, b.y) - box.min.y + radius },
+      { normal: new THREE.Vector3(0, 0, 1), depth: box.max.z - Math.min(a.z, b.z) + radius },
+      { normal: new THREE.Vector3(0, 0, -1), depth: Math.max(a.z, b.z) - box.min.z + radius }
+    ];
+    const exit = exits.reduce((best, candidate) => candidate.depth < best.depth ? candidate : best);
+    return { ...exit, center: closest.onSegment, point: closest.onShape, ground: false };
+  }
+
+  /**
+   * カプセルの軸（線分ab）と三角形の接触
+   */
+  private getTriangleContact(a: THREE.Vector3, b: THREE.Vector3, radius: number, triangle: THREE.Triangle): Contact | null {
+    const reach = radius + GAME_CONFIG.CONTROLLER.SKIN_WIDTH;
+    const plane = triangle.getPlane(new THREE.Plane());
+    const distanceA = plane.distanceToPoint(a);
+    const distanceB = plane.distanceToPoint(b);
+    if ((distanceA > reach && distanceB > reach) || (distanceA < -reach && distanceB < -reach)) return null;
+
+    const closest = Geometry.closestPointsSegmentTriangle(a, b, triangle);
+    if (closest.distance > reach) return null;
+    if (closest.distance > 1e-6) {
+      // 上向きの緩い面（縁を含む）に足元で触れていれば立てる
+      const facingUp = Math.abs(plane.normal.y) >= this.minGroundNormalY;
+      return this.createContact(a, radius, closest.onSegment, closest.onShape, closest.distance, facingUp);
+    }
+
+    // 軸が面を貫いているときは、軸の中点がある側へ面の外まで押し出す
+    const normal = plane.normal.clone();
+    const middle = a.clone().add(b).multiplyScalar(0.5);
+    if (plane.distanceToPoint(middle) < 0) normal.negate();
+    const behind = Math.max(0, -normal.dot(a.clone().sub(closest.onShape)), -normal.dot(b.clone().sub(closest.onShape)));
+    return { normal, depth: behind + radius, center: closest.onSegment, point: closest.onShape, ground: false };
+  }
+
+  /**
+   * 軸から離れた接点の接触
+   * 立てる面の接点が足元の球の中心より下かつ段差の高さ以内なら、立てる接触とする
+   */
+  private createContact(
+    bottom: THREE.Vector3,
+    radius: number,
+    center: THREE.Vector3,
+    point: THREE.Vector3,
+    distance: number,
+    walkableSurface: boolean
+  ): Contact {
+    const normal = center.clone().sub(point).divideScalar(distance);
+    const feet = bottom.y - radius;
+    const ground = normal.y >= this.minGroundNormalY || (
+      walkableSurface &&
+      point.y < bottom.y - 1e-4 &&
+      point.y <= feet + GAME_CONFIG.CONTROLLER.STEP_HEIGHT
+    );
+    return { normal, depth: radius - distance, center, point, ground };
+  }
+}
@@ -0,0 +1,177 @@
+import * as THREE from 'three';
+
+/**
+ * 線分と図形の最近点
+ */
+export interface SegmentContact {
+  onSegment: THREE.Vector3;  // 線分上の最も近い点
+  onShape: THREE.Vector3;    // 図形上の最も近い点
+  distance: number;          // 2点間の距離（線分が図形を貫いていれば0）
+}
+
+/**
+ * 最近点探索の反復回数（黄金分割探索）
+ */
+const SEARCH_ITERATIONS = 40;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+const EPSILON = 1e-12;
+
+/**
+ * メッシュのローカル座標の三角形（ジオメトリごとに使い回す）
+ */
+const localTriangles: WeakMap<THREE.BufferGeometry, THREE.Triangle[]> = new WeakMap();
+
+/**
+ * 衝突判定に使う幾何計算
+ * 凸な図形までの距離は線分上で単峰になるため、線分上の最近点は黄金分割探索で求める
+ */
+export class Geometry {
+  /**
+   * 線分上の点（t = 0 で a、t = 1 で b）
+   */
+  static pointOnSegment(a: THREE.Vector3, b: THREE.Vector3, t: number, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    return target.copy(a).lerp(b, t);
+  }
+
+  /**
+   * 点に最も近い線分上の点
+   */
+  static closestPointOnSegment(a: THREE.Vector3, b: THREE.Vector3, point: THREE.Vector3, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const ab = b.clone().sub(a);
+    const lengthSq = ab.lengthSq();
+    const t = lengthSq > 0 ? THREE.MathUtils.clamp(point.clone().sub(a).dot(ab) / lengthSq, 0, 1) : 0;
+    return this.pointOnSegment(a, b, t, target);
+  }
+
+  /**
+   * 2本の線分の最近点（onShapeは2本目の線分上の点）
+   */
+  static closestPointsSegmentSegment(a1: THREE.Vector3, b1: THREE.Vector3, a2: THREE.Vector3, b2: THREE.Vector3): SegmentContact {
+    const d1 = b1.clone().sub(a1);
+    const d2 = b2.clone().sub(a2);
+    const r = a1.clone().sub(a2);
+    const a = d1.lengthSq();
+    const e = d2.lengthSq();
+    const f = d2.dot(r);
+    const clamp = (value: number) => THREE.MathUtils.clamp(value, 0, 1);
+
+    let s = 0;
+    let t = 0;
+    if (a <= EPSILON && e > EPSILON) {
+      // 1本目が点
+      t = clamp(f / e);
+    } else if (a > EPSILON) {
+      const c = d1.dot(r);
+      if (e <= EPSILON) {
+        // 2本目が点
+        s = clamp(-c / a);
+      } else {
+        const b = d1.dot(d2);
+        const denominator = a * e - b * b;
+        s = denominator > EPSILON ? clamp((b * f - c * e) / denominator) : 0; // 平行ならどこでもよい
+        t = (b * s + f) / e;
+        if (t < 0) {
+          t = 0;
+          s = clamp(-c / a);
+        } else if (t > 1) {
+          t = 1;
+          s = clamp((b - c) / a);
+        }
+      }
+    }
+
+    const onSegment = this.pointOnSegment(a1, b1, s);
+    const onShape = this.pointOnSegment(a2, b2, t);
+    return { onSegment, onShape, distance: onSegment.distanceTo(onShape) };
+  }
+
+  /**
+   * 線分と箱（軸平行）の最近点
+   */
+  static closestPointsSegmentBox(a: THREE.Vector3, b: THREE.Vector3, box: THREE.Box3): SegmentContact {
+    return this.closestPointsSegmentConvex(a, b, (point, target) => box.clampPoint(point, target));
+  }
+
+  /**
+   * 線分と三角形の最近点
+   */
+  static closestPointsSegmentTriangle(a: THREE.Vector3, b: THREE.Vector3, triangle: THREE.Triangle): SegmentContact {
+    return this.closestPointsSegmentConvex(a, b, (point, target) => triangle.closestPointToPoint(point, target));
+  }
+
+  /**
+   * 線分と凸な図形の最近点
+   * closestPointは与えた点に最も近い図形上の点を返す関数
+   */
+  static closestPointsSegmentConvex(
+    a: THREE.Vector3,
+    b: THREE.Vector3,
+    closestPoint: (point: THREE.Vector3, target: THREE.Vector3) => THREE.Vector3
+  ): SegmentContact {
+    const point = new THREE.Vector3();
+    const onShape = new THREE.Vector3();
+    const distanceAt = (t: number) => {
+      this.pointOnSegment(a, b, t, point);
+      return closestPoint(point, onShape).distanceToSquared(point);
+    };
+
+    let low = 0;
+    let high = 1;
+    let left = high - GOLDEN_RATIO * (high - low);
+    let right = low + GOLDEN_RATIO * (high - low);
+    let leftDistance = distanceAt(left);
+    let rightDistance = distanceAt(right);
+
+    for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+      if (leftDistance <= rightDistance) {
+        high = right;
+        right = left;
+        rightDistance = leftDistance;
+        left = high - GOLDEN_RATIO * (high - low);
+        leftDistance = distanceAt(left);
+      } else {
+        low = left;
+        left = right;
+        leftDistance = rightDistance;
+        right = low + GOLDEN_RATIO * (high - low);
+        rightDistance = distanceAt(right);
+      }
+    }
+
+    // 端点が最も近い場合は探索区間の端に届かないので、端点とも比べる
+    let bestT = (low + high) / 2;
+    let bestDistance = distanceAt(bestT);
+    for (const t of [0, 1]) {
+      const distance = distanceAt(t);
+      if (distance < bestDistance) {
+        bestT = t;
+        bestDistance = distance;
+      }
+    }
+
+    const onSegment = this.pointOnSegment(a, b, bestT);
+    closestPoint(onSegment, onShape);
+    return { onSegment, onShape, distance: onSegment.distanceTo(onShape) };
+  }
+
+  /**
+   * ジオメトリのローカル座標の三角形
+   */
+  static getLocalTriangles(geometry: THREE.BufferGeometry): THREE.Triangle[] {
+    const cached = localTriangles.get(geometry);
+    if (cached) return cached;
+
+    const positions = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const count = index ? index.count : positions.count;
+    const vertex = (i: number) => new THREE.Vector3().fromBufferAttribute(positions, index ? index.getX(i) : i);
+
+    const triangles: THREE.Triangle[] = [];
+    for (let i = 0; i + 2 < count; i += 3) {
+      const triangle = new THREE.Triangle(vertex(i), vertex(i + 1), vertex(i + 2));
+      if (triangle.getArea() > 1e-8) triangles.push(triangle);
+    }
+    localTriangles.set(geometry, triangles);
+    return triangles;
+  }
+}
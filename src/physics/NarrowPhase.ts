@@ -0,0 +1,333 @@
+import * as THREE from 'three';
+import { Geometry } from './Geometry';
+
+/**
+ * 球
+ */
+export interface SphereShape {
+  kind: 'sphere';
+  center: THREE.Vector3;
+  radius: number;
+}
+
+/**
+ * カプセル（軸の両端と半径）
+ */
+export interface CapsuleShape {
+  kind: 'capsule';
+  a: THREE.Vector3;
+  b: THREE.Vector3;
+  radius: number;
+}
+
+/**
+ * 向きを持つ箱（OBB）
+ */
+export interface BoxShape {
+  kind: 'box';
+  center: THREE.Vector3;
+  halfSize: THREE.Vector3;
+  rotation: THREE.Quaternion;
+}
+
+/**
+ * 衝突判定の形状（ワールド座標）
+ */
+export type Shape = SphereShape | CapsuleShape | BoxShape;
+
+/**
+ * 2つの形状の接触
+ */
+export interface ShapeContact {
+  point: THREE.Vector3;   // 接触点（2つの表面の中間）
+  normal: THREE.Vector3;  // BからAへ向かう向き
+  depth: number;          // めり込み量
+}
+
+/**
+ * 球（半径0ならレイ）を動かしたときの衝突
+ */
+export interface ShapeCastHit {
+  time: number;           // 衝突するまでに動いた割合（0〜1）
+  center: THREE.Vector3;  // 衝突したときの球の中心
+  point: THREE.Vector3;   // 形状の表面上の接触点
+  normal: THREE.Vector3;  // 形状の表面から外向き
+}
+
+/**
+ * 接しているとみなす距離の誤差（最近点探索の誤差を吸収する）
+ */
+const TOLERANCE = 1e-6;
+const BISECTION_ITERATIONS = 30;
+
+/**
+ * 形状どうしの詳細な衝突判定（ナローフェーズ）
+ * 球は中心の点、カプセルは軸の線分、箱は箱そのものを「芯」とし、芯どうしの最近点と半径から接触を求める
+ */
+export class NarrowPhase {
+  static sphere(center: THREE.Vector3, radius: number): SphereShape {
+    return { kind: 'sphere', center: center.clone(), radius };
+  }
+
+  static capsule(a: THREE.Vector3, b: THREE.Vector3, radius: number): CapsuleShape {
+    return { kind: 'capsule', a: a.clone(), b: b.clone(), radius };
+  }
+
+  /**
+   * 足元を基準に直立したカプセル（高さは半径の2倍以上）
+   */
+  static uprightCapsule(feet: THREE.Vector3, radius: number, height: number): CapsuleShape {
+    return this.capsule(
+      new THREE.Vector3(feet.x, feet.y + radius, feet.z),
+      new THREE.Vector3(feet.x, feet.y + Math.max(radius, height - radius), feet.z),
+      radius
+    );
+  }
+
+  static box(center: THREE.Vector3, halfSize: THREE.Vector3, rotation: THREE.Quaternion = new THREE.Quaternion()): BoxShape {
+    return { kind: 'box', center: center.clone(), halfSize: halfSize.clone(), rotation: rotation.clone() };
+  }
+
+  /**
+   * 形状の外接箱（軸平行）
+   */
+  static getBounds(shape: Shape): THREE.Box3 {
+    switch (shape.kind) {
+      case 'sphere':
+        return new THREE.Box3().setFromCenterAndSize(shape.center, new THREE.Vector3().setScalar(shape.radius * 2));
+      case 'capsule':
+        return new THREE.Box3().setFromPoints([shape.a, shape.b]).expandByScalar(shape.radius);
+      case 'box':
+        return new THREE.Box3().setFromPoints(this.getBoxCorners(shape));
+    }
+  }
+
+  /**
+   * 2つの形状の接触（離れていればnull）
+   */
+  static intersect(a: Shape, b: Shape): ShapeContact | null {
+    if (a.kind === 'box' && b.kind === 'box') {
+      return this.intersectBoxes(a, b);
+    }
+    if (a.kind === 'box') {
+      const contact = this.intersect(b, a);
+      if (contact) contact.normal.negate();
+      return contact;
+    }
+
+    // Aは球かカプセル（芯は線分）
+    const [start, end] = a.kind === 'sphere' ? [a.center, a.center] : [a.a, a.b];
+    const closest = b.kind === 'box'
+      ? Geometry.closestPointsSegmentConvex(start, end, (point, target) => this.closestPointOnCore(b, point, target))
+      : b.kind === 'sphere'
+        ? Geometry.closestPointsSegmentSegment(start, end, b.center, b.center)
+        : Geometry.closestPointsSegmentSegment(start, end, b.a, b.b);
+
+    const radiusA = a.radius;
+    const radiusB = this.getCoreRadius(b);
+    if (closest.distance > radiusA + radiusB + TOLERANCE) return null;
+
+    let normal: THREE.Vector3;
+    let depth = radiusA + radiusB - closest.distance;
+    if (closest.distance > TOLERANCE) {
+      normal = closest.onSegment.clone().sub(closest.onShape).divideScalar(closest.distance);
+    } else if (b.kind === 'box') {
+      // 芯が箱の中にあれば最も近い面から押し出す
+      const exit = this.getBoxExit(b, closest.onSegment);
+      normal = exit.normal;
+      depth = radiusA + exit.depth;
+    } else {
+      normal = new THREE.Vector3(0, 1, 0); // 芯が重なっていれば上へ
+    }
+
+    const surfaceA = closest.onSegment.clone().addScaledVector(normal, -radiusA);
+    const surfaceB = closest.onShape.clone().addScaledVector(normal, radiusB);
+    return { point: surfaceA.add(surfaceB).multiplyScalar(0.5), normal, depth };
+  }
+
+  /**
+   * 球をstartからendまで動かしたときに最初に形状に当たる位置（半径0ならレイ）
+   */
+  static sweepSphere(start: THREE.Vector3, end: THREE.Vector3, radius: number, shape: Shape): ShapeCastHit | null {
+    return this.sweep(start, end, radius, this.getCoreRadius(shape), (point, target) => this.closestPointOnCore(shape, point, target));
+  }
+
+  /**
+   * 球をstartからendまで動かしたときに最初に三角形に当たる位置
+   */
+  static sweepSphereTriangle(start: THREE.Vector3, end: THREE.Vector3, radius: number, triangle: THREE.Triangle): ShapeCastHit | null {
+    return this.sweep(start, end, radius, 0, (point, target) => triangle.closestPointToPoint(point, target));
+  }
+
+  /**
+   * レイが最初に形状に当たる位置（directionは正規化済み）
+   */
+  static raycast(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number, shape: Shape): ShapeCastHit | null {
+    return this.sweepSphere(origin, origin.clone().addScaledVector(direction, maxDistance), 0, shape);
+  }
+
+  /**
+   * 点に最も近い芯の上の点
+   */
+  static closestPointOnCore(shape: Shape, point: THREE.Vector3, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    switch (shape.kind) {
+      case 'sphere':
+        return target.copy(shape.center);
+      case 'capsule':
+        return Geometry.closestPointOnSegment(shape.a, shape.b, point, target);
+      case 'box': {
+        const local = this.toBoxLocal(shape, point);
+        local.clamp(shape.halfSize.clone().negate(), shape.halfSize);
+        return target.copy(this.fromBoxLocal(shape, local));
+      }
+    }
+  }
+
+  /**
+   * 芯のまわりの厚み（箱は0）
+   */
+  private static getCoreRadius(shape: Shape): number {
+    return shape.kind === 'box' ? 0 : shape.radius;
+  }
+
+  /**
+   * 動く球が芯から半径の和以内に入る最初の位置
+   * 凸な芯までの距離は移動に沿って単峰なので、最も近づく位置を求めてから手前を二分探索する
+   */
+  private static sweep(
+    start: THREE.Vector3,
+    end: THREE.Vector3,
+    radius: number,
+    coreRadius: number,
+    closestPoint: (point: THREE.Vector3, target: THREE.Vector3) => THREE.Vector3
+  ): ShapeCastHit | null {
+    const reach = radius + coreRadius + TOLERANCE;
+    const closest = Geometry.closestPointsSegmentConvex(start, end, closestPoint);
+    if (closest.distance > reach) return null;
+
+    const onCore = new THREE.Vector3();
+    const center = new THREE.Vector3();
+    const distanceAt = (t: number) => closestPoint(Geometry.pointOnSegment(start, end, t, center), onCore).distanceTo(center);
+
+    const length = start.distanceTo(end);
+    let time = 0;
+    if (distanceAt(0) > reach) {
+      let low = 0;
+      let high = length > 0 ? closest.onSegment.distanceTo(start) / length : 0;
+      for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+        const middle = (low + high) / 2;
+        if (distanceAt(middle) > reach) low = middle;
+        else high = middle;
+      }
+      time = high;
+    }
+
+    Geometry.pointOnSegment(start, end, time, center);
+    closestPoint(center, onCore);
+    const normal = center.clone().sub(onCore);
+    if (normal.lengthSq() > TOLERANCE * TOLERANCE) {
+      normal.normalize();
+    } else if (length > 0) {
+      normal.copy(start).sub(end).divideScalar(length); // 表面上から動き出した場合は進行方向の逆向き
+    } else {
+      normal.set(0, 1, 0);
+    }
+
+    return {
+      time,
+      center: center.clone(),
+      point: onCore.clone().addScaledVector(normal, coreRadius),
+      normal
+    };
+  }
+
+  /**
+   * 箱どうしの接触（分離軸判定）
+   */
+  private static intersectBoxes(a: BoxShape, b: BoxShape): ShapeContact | null {
+    const axesA = this.getBoxAxes(a);
+    const axesB = this.getBoxAxes(b);
+    const offset = a.center.clone().sub(b.center);
+
+    const candidates = [...axesA, ...axesB];
+    for (const axisA of axesA) {
+      for (const axisB of axesB) {
+        const cross = axisA.clone().cross(axisB);
+        if (cross.lengthSq() > 1e-8) candidates.push(cross.normalize());
+      }
+    }
+
+    let depth = Infinity;
+    let normal = new THREE.Vector3(0, 1, 0);
+    for (const axis of candidates) {
+      const projectedA = this.projectBox(a, axesA, axis);
+      const projectedB = this.projectBox(b, axesB, axis);
+      const distance = offset.dot(axis);
+      const overlap = projectedA + projectedB - Math.abs(distance);
+      if (overlap < -TOLERANCE) return null;
+      if (overlap < depth) {
+        depth = overlap;
+        normal = distance >= 0 ? axis.clone() : axis.clone().negate();
+      }
+    }
+
+    const onB = this.closestPointOnCore(b, a.center);
+    const onA = this.closestPointOnCore(a, b.center);
+    return { point: onA.add(onB).multiplyScalar(0.5), normal, depth };
+  }
+
+  /**
+   * 箱の中の点を最も近い面から外へ出す向きと距離
+   */
+  private static getBoxExit(box: BoxShape, point: THREE.Vector3): { normal: THREE.Vector3; depth: number } {
+    const local = this.toBoxLocal(box, point);
+    const axes = this.getBoxAxes(box);
+    let depth = Infinity;
+    let normal = axes[1];
+    (['x', 'y', 'z'] as const).forEach((key, i) => {
+      const distance = box.halfSize[key] - Math.abs(local[key]);
+      if (distance < depth) {
+        depth = distance;
+        normal = local[key] >= 0 ? axes[i].clone() : axes[i].clone().negate();
+      }
+    });
+    return { normal, depth };
+  }
+
+  private static getBoxAxes(box: BoxShape): THREE.Vector3[] {
+    return [
+      new THREE.Vector3(1, 0, 0).applyQuaternion(box.rotation),
+      new THREE.Vector3(0, 1, 0).applyQuaternion(box.rotation),
+      new THREE.Vector3(0, 0, 1).applyQuaternion(box.rotation)
+    ];
+  }
+
+  private static getBoxCorners(box: BoxShape): THREE.Vector3[] {
+    const corners: THREE.Vector3[] = [];
+    for (const x of [-1, 1]) {
+      for (const y of [-1, 1]) {
+        for (const z of [-1, 1]) {
+          corners.push(this.fromBoxLocal(box, new THREE.Vector3(x, y, z).multiply(box.halfSize)));
+        }
+      }
+    }
+    return corners;
+  }
+
+  /**
+   * 軸に投影した箱の半分の長さ
+   */
+  private static projectBox(box: BoxShape, axes: THREE.Vector3[], axis: THREE.Vector3): number {
+    return box.halfSize.x * Math.abs(axes[0].dot(axis)) +
+      box.halfSize.y * Math.abs(axes[1].dot(axis)) +
+      box.halfSize.z * Math.abs(axes[2].dot(axis));
+  }
+
+  private static toBoxLocal(box: BoxShape, point: THREE.Vector3): THREE.Vector3 {
+    return point.clone().sub(box.center).applyQuaternion(box.rotation.clone().invert());
+  }
+
+  private static fromBoxLocal(box: BoxShape, local: THREE.Vector3): THREE.Vector3 {
+    return local.clone().applyQuaternion(box.rotation).add(box.center);
+  }
+}
@@ -6,8 +6,9 @@ import { Velocity } from '../components/Velocity';
 import { MeshComponent } from '../components/Mesh';
 import { Projectile, ProjectileType } from '../components/Projectile';
 import { Character } from '../components/Character';
-import { TriggerType, TRIGGER_DEFINITIONS } from '../triggers/TriggerDefinitions';
+import { TriggerType } from '../triggers/TriggerDefinitions';
 import { RenderSystem } from '../systems/RenderSystem';
+import { TriggerStatCalculator } from '../triggers/TriggerStatCalculator';
 
 /**
  * 発射物の管理を専門とするクラス
@@ -59,14 +60,13 @@ export class ProjectileManager {
     character: Character
   ): Entity {
     const projectileEntity = this.world.createEntity();
-    const definition = TRIGGER_DEFINITIONS[triggerType];
     
     // 渡された方向をそのまま使用（ShootingSystemで既に計算済み）
     const normalizedDirection = direction.clone().normalize();
     
-    // 弾速を設定
-    const speed = this.getProjectileSpeed(triggerType);
-    const velocity = normalizedDirection.multiplyScalar(speed);
+    // トリオン量に基づく性能（ShootingSystemと共通）
+    const stats = TriggerStatCalculator.calculate(triggerType, character);
+    const velocity = normalizedDirection.clone().multiplyScalar(stats.speed);
     
     // 弾丸の種類を決定
     const projectileType = this.getProjectileType(triggerType);
@@ -76,8 +76,8 @@ export class ProjectileManager {
       projectileType,
       triggerType,
       velocity,
-      definition.damage,
-      definition.range,
+      stats.damage,
+      stats.range,
       shooter.id,
       character.team
     );
@@ -264,24 +264,6 @@ export class ProjectileManager {
     }
   }
 
-  /**
-   * 発射物の速度を取得
-   */
-  private getProjectileSpeed(triggerType: TriggerType): number {
-    const definition = TRIGGER_DEFINITIONS[triggerType];
-    
-    switch (definition.category) {
-      case 'sniper':
-        return 50; // 狙撃銃は高速
-      case 'gunner':
-        return 30; // ガンナーは中速
-      case 'shooter':
-        return 40; // シューターは高速
-      default:
-        return 25; // デフォルト
-    }
-  }
-
   /**
    * ダメージを適用
    */
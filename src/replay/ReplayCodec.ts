@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { Input } from '../components/Input';
+import { CameraPose } from '../systems/RenderSystem';
+import { ReplayData, ReplaySetup, ReplayInputState, ReplayViewState } from './ReplayData';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * ビットフラグにまとめるInputのボタン（並びを変えると古いリプレイが読めなくなる）
+ */
+const INPUT_FLAGS = [
+  'jump',
+  'dash',
+  'mainRightAction',
+  'subRightAction',
+  'mainLeftAction',
+  'subLeftAction',
+  'generateWeapon',
+  'generateLeftWeapon',
+  'isMainActionHeld',
+  'isLeftActionHeld',
+  'mergeCompound',
+  'placeWaypoint',
+  'clearWaypoints',
+  'rebindTrajectoryPreset',
+  'openTriggerMenu'
+] as const;
+
+/**
+ * リプレイの入力・カメラの姿勢の変換とファイルの読み書き
+ */
+export class ReplayCodec {
+  /**
+   * 記録を始める空のリプレイを作成
+   */
+  static create(seed: number, tickRate: number, setup: ReplaySetup): ReplayData {
+    return {
+      version: GAME_CONFIG.REPLAY.FORMAT_VERSION,
+      seed,
+      tickRate,
+      setup: JSON.parse(JSON.stringify(setup)),
+      tickCount: 0,
+      inputs: [],
+      views: []
+    };
+  }
+
+  /**
+   * Inputコンポーネントの値を配列に詰める
+   * [移動xy, 視線xy, ボタンのフラグ, 右手スロット, 左手スロット, 弾道プリセット, マウス位置xy, マウスのワールド座標xyz]
+   */
+  static captureInput(input: Input): ReplayInputState {
+    const flags = INPUT_FLAGS.reduce((bits, key, index) => input[key] ? bits | (1 << index) : bits, 0);
+    return [
+      input.moveDirection.x, input.moveDirection.y,
+      input.lookDirection.x, input.lookDirection.y,
+      flags,
+      input.triggerSlot,
+      input.leftTriggerSlot,
+      input.trajectoryPresetKey,
+      input.mousePosition.x, input.mousePosition.y,
+      input.mouseWorldPosition.x, input.mouseWorldPosition.y, input.mouseWorldPosition.z
+    ];
+  }
+
+  /**
+   * 記録した値をInputコンポーネントに戻す
+   */
+  static applyInput(state: ReplayInputState, input: Input): void {
+    const value = (index: number) => state[index] as number;
+    input.moveDirection.set(value(0), value(1));
+    input.lookDirection.set(value(2), value(3));
+    INPUT_FLAGS.forEach((key, index) => {
+      input[key] = (value(4) & (1 << index)) !== 0;
+    });
+    input.triggerSlot = value(5);
+    input.leftTriggerSlot = value(6);
+    input.trajectoryPresetKey = state[7] as string | null;
+    input.mousePosition.set(value(8), value(9));
+    input.mouseWorldPosition.set(value(10), value(11), value(12));
+  }
+
+  /**
+   * カメラの姿勢を配列に詰める
+   */
+  static captureView(pose: CameraPose): ReplayViewState {
+    return [
+      ...pose.position.toArray(),
+      ...pose.quaternion.toArray(),
+      pose.rotation.x, pose.rotation.y
+    ];
+  }
+
+  /**
+   * 記録した値をカメラの姿勢に戻す
+   */
+  static toCameraPose(view: ReplayViewState): CameraPose {
+    return {
+      position: new THREE.Vector3(view[0], view[1], view[2]),
+      quaternion: new THREE.Quaternion(view[3], view[4], view[5], view[6]),
+      rotation: { x: view[7], y: view[8] }
+    };
+  }
+
+  /**
+   * 2つの記録が同じ値か（変わった刻みだけを記録するため）
+   */
+  static isSame(a: ReadonlyArray<unknown> | null, b: ReadonlyArray<unknown>): boolean {
+    return a !== null && a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+
+  /**
+   * リプレイの長さ（秒）
+   */
+  static getDuration(replay: ReplayData): number {
+    return replay.tickCount / replay.tickRate;
+  }
+
+  /**
+   * ファイルに書き出す文字列
+   */
+  static serialize(replay: ReplayData): string {
+    return JSON.stringify(replay);
+  }
+
+  /**
+   * ファイルの文字列から読み込む（形式が違えばnull）
+   */
+  static parse(text: string): ReplayData | null {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return null;
+    }
+
+    const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+    if (!data || data.version !== GAME_CONFIG.REPLAY.FORMAT_VERSION) return null;
+    if (!isCount(data.seed) || !(data.tickRate > 0) || !isCount(data.tickCount)) return null;
+    if (!data.setup || !data.setup.modeSettings || typeof data.setup.character !== 'string') return null;
+    if (!Array.isArray(data.inputs) || !Array.isArray(data.views)) return null;
+
+    const validInputs = data.inputs.every((change: unknown) =>
+      Array.isArray(change) && isCount(change[0]) && isCount(change[1]) && Array.isArray(change[2]) && change[2].length === 13
+    );
+    const validViews = data.views.every((change: unknown) =>
+      Array.isArray(change) && isCount(change[0]) && Array.isArray(change[1]) && change[1].length === 9
+    );
+    return validInputs && validViews ? data as ReplayData : null;
+  }
+
+  /**
+   * リプレイをファイルとしてダウンロード
+   */
+  static download(replay: ReplayData): void {
+    const blob = new Blob([this.serialize(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `replay_${replay.setup.modeSettings.mode}_${replay.seed}_${replay.tickCount}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,47 @@
+import { CharacterType } from '../components/Character';
+import { TriggerSet } from '../triggers/TriggerDefinitions';
+import { GameModeSettings } from '../config/GameModes';
+
+/**
+ * 試合の設定（リプレイの再生ではこの設定からワールドを作り直す）
+ */
+export interface ReplaySetup {
+  character: CharacterType;        // プレイヤーのキャラクター
+  triggerSet: TriggerSet | null;   // プレイヤーのトリガー構成（nullならクラスの標準構成）
+  modeSettings: GameModeSettings;  // モード・マップ・難易度・試合のシード
+}
+
+/**
+ * 1刻み分の入力（Inputコンポーネントの値を詰めた配列、並びはReplayCodecが決める）
+ */
+export type ReplayInputState = Array<number | string | null>;
+
+/**
+ * カメラの姿勢（位置xyz・回転の四元数xyzw・視点の回転xy）
+ */
+export type ReplayViewState = number[];
+
+/**
+ * 入力が変わった刻みの記録 [刻み, プレイヤーの番号, 入力]
+ */
+export type ReplayInputChange = [number, number, ReplayInputState];
+
+/**
+ * カメラの姿勢が変わった刻みの記録 [刻み, 姿勢]
+ */
+export type ReplayViewChange = [number, ReplayViewState];
+
+/**
+ * リプレイファイルの中身
+ * 試合のシードと設定、プレイヤーの入力とカメラの姿勢（照準）だけを記録し、再生はワールドを作り直して再シミュレーションする
+ * 入力と姿勢は変わった刻みだけを記録する
+ */
+export interface ReplayData {
+  version: number;
+  seed: number;
+  tickRate: number;
+  setup: ReplaySetup;
+  tickCount: number;                 // 記録した刻みの数
+  inputs: ReplayInputChange[];
+  views: ReplayViewChange[];
+}
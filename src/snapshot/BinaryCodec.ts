@@ -0,0 +1,193 @@
+/**
+ * 値の種類を表す先頭の1バイト
+ */
+enum ValueTag {
+  NULL = 0,
+  FALSE = 1,
+  TRUE = 2,
+  INT = 3,     // 32ビット整数
+  FLOAT = 4,   // 64ビット浮動小数点数（Infinity・NaNもそのまま）
+  STRING = 5,  // 長さ + UTF-8
+  ARRAY = 6,   // 要素数 + 要素
+  OBJECT = 7   // キーの数 + (キー, 値)
+}
+
+/**
+ * 必要に応じて伸びるバッファに書き込む
+ */
+class BinaryWriter {
+  private buffer: Uint8Array = new Uint8Array(1024);
+  private view: DataView = new DataView(this.buffer.buffer);
+  private offset: number = 0;
+  private encoder = new TextEncoder();
+
+  writeValue(value: unknown): void {
+    if (value === null || value === undefined) {
+      this.writeByte(ValueTag.NULL);
+    } else if (typeof value === 'boolean') {
+      this.writeByte(value ? ValueTag.TRUE : ValueTag.FALSE);
+    } else if (typeof value === 'number') {
+      if (Number.isInteger(value) && value >= -0x80000000 && value <= 0x7FFFFFFF && !Object.is(value, -0)) {
+        this.writeByte(ValueTag.INT);
+        this.reserve(4);
+        this.view.setInt32(this.offset, value, true);
+        this.offset += 4;
+      } else {
+        this.writeByte(ValueTag.FLOAT);
+        this.reserve(8);
+        this.view.setFloat64(this.offset, value, true);
+        this.offset += 8;
+      }
+    } else if (typeof value === 'string') {
+      this.writeByte(ValueTag.STRING);
+      this.writeString(value);
+    } else if (Array.isArray(value)) {
+      this.writeByte(ValueTag.ARRAY);
+      this.writeLength(value.length);
+      value.forEach(item => this.writeValue(item));
+    } else if (typeof value === 'object') {
+      // JSONと同じく値がundefinedのキーは書かない
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+      this.writeByte(ValueTag.OBJECT);
+      this.writeLength(entries.length);
+      for (const [key, item] of entries) {
+        this.writeString(key);
+        this.writeValue(item);
+      }
+    } else {
+      throw new Error(`Unsupported value type: ${typeof value}`);
+    }
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+
+  private writeByte(byte: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset++, byte);
+  }
+
+  private writeLength(length: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, length, true);
+    this.offset += 4;
+  }
+
+  private writeString(text: string): void {
+    const bytes = this.encoder.encode(text);
+    this.writeLength(bytes.length);
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  private reserve(size: number): void {
+    if (this.offset + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.offset + size) capacity *= 2;
+    const buffer = new Uint8Array(capacity);
+    buffer.set(this.buffer);
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+}
+
+/**
+ * バッファから読み出す（範囲外や不明な種類は例外）
+ */
+class BinaryReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset: number = 0;
+  private decoder = new TextDecoder();
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  readValue(): unknown {
+    const tag = this.view.getUint8(this.offset++);
+    switch (tag) {
+      case ValueTag.NULL: return null;
+      case ValueTag.FALSE: return false;
+      case ValueTag.TRUE: return true;
+      case ValueTag.INT: {
+        const value = this.view.getInt32(this.offset, true);
+        this.offset += 4;
+        return value;
+      }
+      case ValueTag.FLOAT: {
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return value;
+      }
+      case ValueTag.STRING:
+        return this.readString();
+      case ValueTag.ARRAY: {
+        const length = this.readLength();
+        const array: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          array.push(this.readValue());
+        }
+        return array;
+      }
+      case ValueTag.OBJECT: {
+        const count = this.readLength();
+        const object: Record<string, unknown> = {};
+        for (let i = 0; i < count; i++) {
+          const key = this.readString();
+          object[key] = this.readValue();
+        }
+        return object;
+      }
+      default:
+        throw new Error(`Unknown value tag: ${tag}`);
+    }
+  }
+
+  isAtEnd(): boolean {
+    return this.offset === this.bytes.byteLength;
+  }
+
+  private readLength(): number {
+    const length = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return length;
+  }
+
+  private readString(): string {
+    const length = this.readLength();
+    if (this.offset + length > this.bytes.byteLength) {
+      throw new RangeError('String exceeds buffer');
+    }
+    const text = this.decoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return text;
+  }
+}
+
+/**
+ * JSONで表せる値を小さなバイナリ形式に変換する
+ * 数値は整数なら4バイト、それ以外は8バイトで保存する（JSONでは表せないInfinity・NaNもそのまま残る）
+ */
+export class BinaryCodec {
+  static encode(value: unknown): Uint8Array {
+    const writer = new BinaryWriter();
+    writer.writeValue(value);
+    return writer.finish();
+  }
+
+  /**
+   * バイナリから値を読み出す（壊れたデータは例外）
+   */
+  static decode(bytes: Uint8Array): unknown {
+    const reader = new BinaryReader(bytes);
+    const value = reader.readValue();
+    if (!reader.isAtEnd()) {
+      throw new Error('Unexpected trailing bytes');
+    }
+    return value;
+  }
+}
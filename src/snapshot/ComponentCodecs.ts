@@ -0,0 +1,291 @@
+import * as THREE from 'three';
+import { Transform } from '../components/Transform';
+import { Velocity } from '../components/Velocity';
+import { Character } from '../components/Character';
+import { Trigger, TriggerState } from '../components/Trigger';
+import { Shield } from '../components/Shield';
+import { Projectile } from '../components/Projectile';
+import { AI } from '../components/AI';
+import { SplittingTrigger } from '../components/SplittingTrigger';
+import { Collider } from '../components/Collider';
+import { Input } from '../components/Input';
+import { Hitbox, HitZone } from '../components/Hitbox';
+import { Destructible } from '../components/Destructible';
+import { TrionSoldier } from '../components/TrionSoldier';
+import { Perception, PerceivedEnemy } from '../components/Perception';
+import { SpiderWire } from '../components/SpiderWire';
+import { NavWaypoint } from '../ai/NavMesh';
+import { ReplayCodec } from '../replay/ReplayCodec';
+import { ComponentRegistry, ComponentType } from '../ecs/ComponentRegistry';
+import type { ComponentCodec, ComponentCodecEntry } from './SnapshotRegistry';
+
+const vec3 = (vector: THREE.Vector3): number[] => vector.toArray();
+const toVec3 = (data: number[]): THREE.Vector3 => new THREE.Vector3().fromArray(data);
+const euler = (rotation: THREE.Euler): Array<number | string> => [rotation.x, rotation.y, rotation.z, rotation.order];
+const toEuler = (data: any[]): THREE.Euler => new THREE.Euler(data[0], data[1], data[2], data[3]);
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * JSONで表せないInfinity（まだ一度も攻撃していないなど）はnullにする
+ */
+const finite = (value: number): number | null => Number.isFinite(value) ? value : null;
+const toFinite = (data: number | null): number => data ?? Infinity;
+
+/**
+ * 値をそのままコピーするフィールドを取り出す
+ */
+function pick<T, K extends keyof T>(source: T, keys: readonly K[]): Pick<T, K> {
+  const result = {} as Pick<T, K>;
+  for (const key of keys) {
+    result[key] = source[key];
+  }
+  return result;
+}
+
+function define<T>(type: ComponentType<T>, codec: ComponentCodec<T>): ComponentCodecEntry<T> {
+  return { key: ComponentRegistry.getId(type), type, codec };
+}
+
+const TRIGGER_FIELDS = [
+  'currentSlot', 'currentTrigger', 'lastGeneratedTrigger', 'weaponGenerated',
+  'leftCurrentSlot', 'leftCurrentTrigger', 'leftWeaponGenerated',
+  'bagwormActive', 'rightHandLost', 'leftHandLost'
+] as const;
+
+const SHIELD_FIELDS = [
+  'active', 'chargeTime', 'size', 'trionDrainRate', 'maxSize', 'minSize',
+  'chargeRate', 'baseDurability', 'currentDurability'
+] as const;
+
+const PROJECTILE_FIELDS = [
+  'travelDistance', 'pierceCount', 'maxPierce', 'explosionRadius', 'homingTarget',
+  'homingStrength', 'trajectoryProgress', 'lifeTime', 'age'
+] as const;
+
+const AI_FIELDS = [
+  'currentBehavior', 'target', 'behaviorTimer', 'attackCooldown', 'currentPatrolIndex',
+  'stateChangeTimer', 'repathTimer', 'decisionTimer'
+] as const;
+
+const SPLITTING_FIELDS = ['currentSplitLevel', 'maxSplitLevel', 'cubeSize', 'isGenerated'] as const;
+
+const TRION_SOLDIER_FIELDS = ['attackTimer', 'captured', 'captureTimer', 'returning'] as const;
+
+/**
+ * 弾道（バイパーの曲線）は通過点から作り直す
+ * 弾道はCatmullRomCurve3で作るので、それ以外の曲線は保存しない
+ */
+function encodeTrajectory(curve: THREE.Curve<THREE.Vector3> | null): any {
+  if (!(curve instanceof THREE.CatmullRomCurve3)) return null;
+  return { points: curve.points.map(vec3), closed: curve.closed, curveType: curve.curveType, tension: curve.tension };
+}
+
+function decodeTrajectory(data: any): THREE.CatmullRomCurve3 | null {
+  if (!data) return null;
+  return new THREE.CatmullRomCurve3(data.points.map(toVec3), data.closed, data.curveType, data.tension);
+}
+
+/**
+ * 標準のコンポーネントのエンコーダーとデコーダー
+ * キューブや武器のメッシュなど、システムが別に管理しているものは含めない
+ */
+export const DEFAULT_COMPONENT_CODECS: ComponentCodecEntry[] = [
+  define(Transform, {
+    encode: transform => ({
+      position: vec3(transform.position),
+      rotation: euler(transform.rotation),
+      scale: vec3(transform.scale)
+    }),
+    decode: data => new Transform(toVec3(data.position), toEuler(data.rotation), toVec3(data.scale)),
+    auxiliary: true
+  }),
+
+  define(Velocity, {
+    encode: velocity => ({ linear: vec3(velocity.linear), angular: vec3(velocity.angular), damping: velocity.damping }),
+    decode: data => new Velocity(toVec3(data.linear), toVec3(data.angular), data.damping),
+    auxiliary: true
+  }),
+
+  define(Character, {
+    encode: character => ({
+      name: character.name,
+      type: character.type,
+      class: character.class,
+      stats: clone(character.stats),
+      team: character.team,
+      mobilityMultiplier: character.mobilityMultiplier,
+      lastAttackerId: character.lastAttackerId
+    }),
+    decode: data => {
+      const character = new Character(data.name, data.type, data.class, clone(data.stats), data.team);
+      character.mobilityMultiplier = data.mobilityMultiplier;
+      character.lastAttackerId = data.lastAttackerId;
+      return character;
+    }
+  }),
+
+  define(Trigger, {
+    encode: trigger => ({
+      triggerSet: { ...trigger.triggerSet },
+      states: Array.from(trigger.states.values()).map(state => ({ ...state })),
+      ...pick(trigger, TRIGGER_FIELDS)
+    }),
+    decode: data => {
+      // セットコストは元のワールドで支払い済みなのでキャラクターは渡さない
+      const trigger = Object.assign(new Trigger(data.triggerSet), pick(data, TRIGGER_FIELDS));
+      trigger.states = new Map(data.states.map((state: TriggerState) => [state.type, { ...state }]));
+      return trigger;
+    }
+  }),
+
+  define(Shield, {
+    encode: shield => ({
+      ...pick(shield, SHIELD_FIELDS),
+      orientation: euler(shield.orientation),
+      deployPosition: vec3(shield.deployPosition),
+      deployOffset: vec3(shield.deployOffset)
+    }),
+    decode: data => {
+      const shield = Object.assign(new Shield(), pick(data, SHIELD_FIELDS));
+      shield.orientation = toEuler(data.orientation);
+      shield.deployPosition = toVec3(data.deployPosition);
+      shield.deployOffset = toVec3(data.deployOffset);
+      return shield;
+    }
+  }),
+
+  define(Projectile, {
+    encode: projectile => ({
+      type: projectile.type,
+      triggerType: projectile.triggerType,
+      velocity: vec3(projectile.velocity),
+      damage: projectile.damage,
+      range: projectile.range,
+      owner: projectile.owner,
+      team: projectile.team,
+      ...pick(projectile, PROJECTILE_FIELDS),
+      trajectory: encodeTrajectory(projectile.trajectory),
+      hitEntities: Array.from(projectile.hitEntities)
+    }),
+    decode: data => {
+      const projectile = new Projectile(
+        data.type, data.triggerType, toVec3(data.velocity), data.damage, data.range, data.owner, data.team
+      );
+      Object.assign(projectile, pick(data, PROJECTILE_FIELDS));
+      projectile.trajectory = decodeTrajectory(data.trajectory);
+      projectile.hitEntities = new Set(data.hitEntities);
+      return projectile;
+    }
+  }),
+
+  define(AI, {
+    encode: ai => ({
+      config: { ...ai.config },
+      ...pick(ai, AI_FIELDS),
+      lastTargetPosition: ai.lastTargetPosition ? vec3(ai.lastTargetPosition) : null,
+      patrolPoints: ai.patrolPoints.map(vec3),
+      timeSinceAttack: finite(ai.timeSinceAttack),
+      path: ai.path.map(waypoint => ({ position: vec3(waypoint.position), link: waypoint.link })),
+      pathGoal: ai.pathGoal ? vec3(ai.pathGoal) : null
+    }),
+    decode: data => {
+      const ai = Object.assign(new AI(data.config), pick(data, AI_FIELDS));
+      ai.lastTargetPosition = data.lastTargetPosition ? toVec3(data.lastTargetPosition) : null;
+      ai.patrolPoints = data.patrolPoints.map(toVec3);
+      ai.timeSinceAttack = toFinite(data.timeSinceAttack);
+      ai.path = data.path.map((waypoint: any): NavWaypoint => ({ position: toVec3(waypoint.position), link: waypoint.link }));
+      ai.pathGoal = data.pathGoal ? toVec3(data.pathGoal) : null;
+      return ai;
+    }
+  }),
+
+  define(SplittingTrigger, {
+    encode: splitting => ({ triggerType: splitting.triggerType, ...pick(splitting, SPLITTING_FIELDS) }),
+    decode: data => Object.assign(new SplittingTrigger(data.triggerType), pick(data, SPLITTING_FIELDS))
+  }),
+
+  define(Collider, {
+    encode: collider => ({
+      type: collider.type,
+      size: vec3(collider.size),
+      offset: vec3(collider.offset),
+      layer: collider.layer,
+      mask: collider.mask,
+      isTrigger: collider.isTrigger
+    }),
+    decode: data => new Collider(data.type, toVec3(data.size), data.layer, data.mask, data.isTrigger, toVec3(data.offset))
+  }),
+
+  define(Input, {
+    encode: input => ReplayCodec.captureInput(input),
+    decode: data => {
+      const input = new Input();
+      ReplayCodec.applyInput(data, input);
+      return input;
+    }
+  }),
+
+  define(Hitbox, {
+    encode: hitbox => ({
+      zones: Array.from(hitbox.zones.values()).map(zone => ({
+        ...zone,
+        center: vec3(zone.center),
+        halfExtents: vec3(zone.halfExtents),
+        meshNames: [...zone.meshNames]
+      })),
+      wounds: hitbox.wounds.map(wound => ({ ...wound })),
+      pendingSevered: [...hitbox.pendingSevered]
+    }),
+    decode: data => {
+      const hitbox = new Hitbox(data.zones.map((zone: any): HitZone => ({
+        ...zone,
+        center: toVec3(zone.center),
+        halfExtents: toVec3(zone.halfExtents),
+        meshNames: [...zone.meshNames]
+      })));
+      hitbox.wounds = data.wounds.map((wound: any) => ({ ...wound }));
+      hitbox.pendingSevered = [...data.pendingSevered];
+      return hitbox;
+    }
+  }),
+
+  define(Destructible, {
+    encode: destructible => ({ maxDurability: destructible.maxDurability, durability: destructible.durability }),
+    decode: data => Object.assign(new Destructible(data.maxDurability), { durability: data.durability })
+  }),
+
+  define(TrionSoldier, {
+    encode: soldier => ({
+      type: soldier.type,
+      gateIndex: soldier.gateIndex,
+      ...pick(soldier, TRION_SOLDIER_FIELDS),
+      wanderTarget: soldier.wanderTarget ? vec3(soldier.wanderTarget) : null
+    }),
+    decode: data => {
+      const soldier = Object.assign(new TrionSoldier(data.type, data.gateIndex), pick(data, TRION_SOLDIER_FIELDS));
+      soldier.wanderTarget = data.wanderTarget ? toVec3(data.wanderTarget) : null;
+      return soldier;
+    }
+  }),
+
+  define(Perception, {
+    encode: perception => ({
+      config: { ...perception.config },
+      memories: Array.from(perception.memories.values()).map(memory => ({ ...memory, position: vec3(memory.position) })),
+      noise: perception.noise ? { position: vec3(perception.noise.position), age: perception.noise.age } : null
+    }),
+    decode: data => {
+      const perception = new Perception(data.config);
+      perception.memories = new Map(data.memories.map((memory: any): [number, PerceivedEnemy] =>
+        [memory.entityId, { ...memory, position: toVec3(memory.position) }]
+      ));
+      perception.noise = data.noise ? { position: toVec3(data.noise.position), age: data.noise.age } : null;
+      return perception;
+    }
+  }),
+
+  define(SpiderWire, {
+    encode: wire => ({ start: vec3(wire.start), end: vec3(wire.end), owner: wire.owner, team: wire.team }),
+    decode: data => new SpiderWire(toVec3(data.start), toVec3(data.end), data.owner, data.team)
+  })
+];
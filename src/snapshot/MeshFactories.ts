@@ -0,0 +1,83 @@
+import * as THREE from 'three';
+import { Character, CharacterType } from '../components/Character';
+import { Hitbox } from '../components/Hitbox';
+import { Projectile } from '../components/Projectile';
+import { TrionSoldier } from '../components/TrionSoldier';
+import { SpiderWire } from '../components/SpiderWire';
+import { Collider } from '../components/Collider';
+import { ShootingSystem } from '../systems/ShootingSystem';
+import { SpiderSystem } from '../systems/SpiderSystem';
+import { CharacterMeshBuilder } from '../utils/CharacterMeshBuilder';
+import { TrionSoldierMeshBuilder } from '../utils/TrionSoldierMeshBuilder';
+import { GAME_CONFIG } from '../config/GameConfig';
+import type { MeshFactoryEntry } from './SnapshotRegistry';
+
+/**
+ * 標準のメッシュのファクトリ（上から順に試す）
+ * マップの建物は同じ設定で作ったワールドに既にあるものを使うので、作り直すのは試合中に生まれた瓦礫だけ
+ */
+export const DEFAULT_MESH_FACTORIES: MeshFactoryEntry[] = [
+  {
+    name: 'trionSoldier',
+    create: entity => {
+      const soldier = entity.getComponent(TrionSoldier);
+      return soldier ? TrionSoldierMeshBuilder.createMesh(soldier.type) : null;
+    }
+  },
+  {
+    // 人型のキャラクター（敵は部隊の色、欠損した部位は非表示）
+    name: 'character',
+    create: entity => {
+      const character = entity.getComponent(Character);
+      if (!character || character.type === CharacterType.TRION_SOLDIER) return null;
+
+      const colors = GAME_CONFIG.RANK_WAR.SQUAD_COLORS[character.team % GAME_CONFIG.RANK_WAR.SQUAD_COLORS.length];
+      const mesh = entity.hasTag('player')
+        ? CharacterMeshBuilder.createPlayerMesh()
+        : CharacterMeshBuilder.createEnemyMesh(colors.primary, colors.secondary);
+
+      for (const zone of entity.getComponent(Hitbox)?.zones.values() ?? []) {
+        if (!zone.severed) continue;
+        for (const name of zone.meshNames) {
+          const part = mesh.getObjectByName(name);
+          if (part) part.visible = false;
+        }
+      }
+      return mesh;
+    }
+  },
+  {
+    name: 'projectile',
+    create: (entity, world) => {
+      const projectile = entity.getComponent(Projectile);
+      return projectile ? world.getSystem(ShootingSystem)?.createProjectileMesh(projectile.triggerType) ?? null : null;
+    }
+  },
+  {
+    name: 'spiderWire',
+    create: (entity, world) => {
+      const wire = entity.getComponent(SpiderWire);
+      return wire ? world.getSystem(SpiderSystem)?.createWireMesh(wire) ?? null : null;
+    }
+  },
+  {
+    // 瓦礫（コライダーの外接箱で作る）
+    name: 'debris',
+    create: entity => {
+      const collider = entity.getComponent(Collider);
+      if (!entity.hasTag('debris') || !collider) return null;
+
+      const size = collider.size.clone().multiplyScalar(2);
+      const mesh = new THREE.Mesh(
+        new THREE.BoxGeometry(size.x, size.y, size.z),
+        new THREE.MeshStandardMaterial({
+          color: new THREE.Color(GAME_CONFIG.DESTRUCTION.DEBRIS_COLOR),
+          roughness: 0.85,
+          metalness: 0.1
+        })
+      );
+      mesh.name = 'debris';
+      return mesh;
+    }
+  }
+];
@@ -0,0 +1,26 @@
+import { RandomStreamName } from '../ecs/RandomStreams';
+
+/**
+ * 1エンティティ分のスナップショット
+ */
+export interface EntitySnapshot {
+  id: number;
+  active: boolean;
+  tags: string[];
+  components: Record<string, any>; // 登録キー -> エンコードしたコンポーネント
+}
+
+/**
+ * ワールドのスナップショットの中身
+ * 刻み・経過時間・乱数列の状態と、登録されたコンポーネントを持つエンティティを記録する
+ * メッシュは記録せず、復元するときにファクトリで作り直す
+ */
+export interface WorldSnapshotData {
+  version: number;
+  tick: number;
+  time: number;                                     // シミュレーションの経過時間（ミリ秒）
+  seed: number;
+  random: Partial<Record<RandomStreamName, number>>; // 系統ごとの乱数列の状態
+  nextEntityId: number;
+  entities: EntitySnapshot[];
+}
@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import { Entity } from '../ecs/Entity';
+import { World } from '../ecs/World';
+import { ComponentRegistry, ComponentType } from '../ecs/ComponentRegistry';
+import { DEFAULT_COMPONENT_CODECS } from './ComponentCodecs';
+import { DEFAULT_MESH_FACTORIES } from './MeshFactories';
+
+/**
+ * コンポーネントのエンコーダーとデコーダー
+ * エンコードした値はJSONで表せる値（数値・文字列・真偽値・null・配列・オブジェクト）にする
+ */
+export interface ComponentCodec<T> {
+  encode(component: T): any;
+  decode(data: any): T;
+  auxiliary?: boolean; // 演出用のエンティティも持つコンポーネント（これだけを持つエンティティは保存しない）
+}
+
+/**
+ * 登録されたコンポーネント
+ */
+export interface ComponentCodecEntry<T = any> {
+  key: string; // スナップショットでの名前（ComponentRegistryの名前）
+  type: ComponentType<T>;
+  codec: ComponentCodec<T>;
+}
+
+/**
+ * 復元したエンティティのメッシュを作るファクトリ（作れないエンティティにはnullを返す）
+ */
+export type MeshFactory = (entity: Entity, world: World) => THREE.Mesh | THREE.Group | null;
+
+/**
+ * 登録されたメッシュのファクトリ
+ */
+export interface MeshFactoryEntry {
+  name: string;
+  create: MeshFactory;
+}
+
+/**
+ * スナップショットに含めるコンポーネントと、メッシュのファクトリの登録先
+ * 標準のコンポーネントとファクトリは最初から登録されている
+ */
+export class SnapshotRegistry {
+  private static components: Map<string, ComponentCodecEntry> = new Map(
+    DEFAULT_COMPONENT_CODECS.map(entry => [entry.key, entry])
+  );
+  private static meshFactories: MeshFactoryEntry[] = [...DEFAULT_MESH_FACTORIES];
+
+  /**
+   * コンポーネントのエンコーダーとデコーダーを登録（同じ型は上書き）
+   * 保存したデータを別のビルドで読めるよう、型はComponentRegistryに名前を付けて登録しておく
+   */
+  static registerComponent<T>(type: ComponentType<T>, codec: ComponentCodec<T>): void {
+    if (!ComponentRegistry.isRegistered(type)) {
+      throw new Error(`Component must be registered in ComponentRegistry before adding a snapshot codec: ${type.name}`);
+    }
+    const key = ComponentRegistry.getId(type);
+    this.components.set(key, { key, type, codec });
+  }
+
+  /**
+   * メッシュのファクトリを登録（同じ名前は上書き、先に登録したものから試す）
+   */
+  static registerMeshFactory(name: string, create: MeshFactory): void {
+    const index = this.meshFactories.findIndex(entry => entry.name === name);
+    if (index !== -1) {
+      this.meshFactories[index] = { name, create };
+    } else {
+      this.meshFactories.push({ name, create });
+    }
+  }
+
+  /**
+   * 登録されたコンポーネント
+   */
+  static getComponents(): ComponentCodecEntry[] {
+    return Array.from(this.components.values());
+  }
+
+  /**
+   * キーで登録されたコンポーネントを取得
+   */
+  static getComponent(key: string): ComponentCodecEntry | undefined {
+    return this.components.get(key);
+  }
+
+  /**
+   * 最初にメッシュを作れたファクトリのメッシュ
+   */
+  static createMesh(entity: Entity, world: World): THREE.Mesh | THREE.Group | null {
+    for (const factory of this.meshFactories) {
+      const mesh = factory.create(entity, world);
+      if (mesh) return mesh;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,179 @@
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { MeshComponent } from '../components/Mesh';
+import { SnapshotRegistry } from './SnapshotRegistry';
+import { BinaryCodec } from './BinaryCodec';
+import { EntitySnapshot, WorldSnapshotData } from './SnapshotData';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * バイナリ形式の先頭に置く識別子（"WTSS"）
+ */
+const BINARY_MAGIC = [0x57, 0x54, 0x53, 0x53];
+
+/**
+ * ワールドのスナップショットの作成・復元と読み書き
+ * 登録されたコンポーネント（SnapshotRegistry）を持つエンティティだけを対象にする
+ * 予約した処理やシステムが内部に持つ状態（トリガーのキューブ・武器のメッシュなど）は含まれないので、
+ * 完全に同じ続きになるのは刻みの境目で、それらが空のときに取ったスナップショット
+ */
+export class WorldSnapshot {
+  /**
+   * ワールドの現在の状態を記録
+   */
+  static capture(world: World): WorldSnapshotData {
+    const entities: EntitySnapshot[] = [];
+    for (const entity of world.getEntities()) {
+      const snapshot = this.captureEntity(entity);
+      if (snapshot) entities.push(snapshot);
+    }
+
+    return {
+      version: GAME_CONFIG.SNAPSHOT.FORMAT_VERSION,
+      tick: world.getTick(),
+      time: world.now(),
+      seed: world.getSeed(),
+      random: world.getRandomStates(),
+      nextEntityId: world.getNextEntityId(),
+      entities
+    };
+  }
+
+  /**
+   * スナップショットの状態にワールドを戻す
+   * 同じIDのエンティティはコンポーネントを置き換え（システムが持つ参照はそのまま使える）、
+   * ないエンティティは元のIDで作ってファクトリでメッシュを作り直し、スナップショットにないものは削除する
+   * 対象外のエンティティ（演出用など）には触れない
+   */
+  static restore(world: World, snapshot: WorldSnapshotData): void {
+    const ids = new Set(snapshot.entities.map(entity => entity.id));
+    for (const entity of world.getEntities()) {
+      if (!ids.has(entity.id) && this.isCaptured(entity)) {
+        world.removeEntity(entity);
+      }
+    }
+    world.flushRemovedEntities();
+
+    for (const data of snapshot.entities) {
+      const existing = world.getEntityById(data.id);
+      const entity = existing ?? world.createEntity(data.id);
+      this.restoreEntity(entity, data);
+
+      if (!existing) {
+        const mesh = SnapshotRegistry.createMesh(entity, world);
+        if (mesh) entity.addComponent(MeshComponent, new MeshComponent(mesh));
+      }
+    }
+
+    world.sortEntitiesById();
+    world.setNextEntityId(snapshot.nextEntityId);
+    world.setClock(snapshot.tick, snapshot.time);
+    world.setSeed(snapshot.seed);
+    world.setRandomStates(snapshot.random);
+  }
+
+  /**
+   * JSON文字列に変換
+   */
+  static toJSON(snapshot: WorldSnapshotData): string {
+    return JSON.stringify(snapshot);
+  }
+
+  /**
+   * JSON文字列から読み込む（形式が違えばnull）
+   */
+  static fromJSON(text: string): WorldSnapshotData | null {
+    try {
+      return this.validate(JSON.parse(text));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * バイナリに変換
+   */
+  static toBinary(snapshot: WorldSnapshotData): Uint8Array {
+    const body = BinaryCodec.encode(snapshot);
+    const bytes = new Uint8Array(BINARY_MAGIC.length + body.length);
+    bytes.set(BINARY_MAGIC);
+    bytes.set(body, BINARY_MAGIC.length);
+    return bytes;
+  }
+
+  /**
+   * バイナリから読み込む（形式が違えばnull）
+   */
+  static fromBinary(bytes: Uint8Array): WorldSnapshotData | null {
+    if (bytes.length < BINARY_MAGIC.length || BINARY_MAGIC.some((byte, i) => bytes[i] !== byte)) return null;
+    try {
+      return this.validate(BinaryCodec.decode(bytes.subarray(BINARY_MAGIC.length)));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * エンティティを記録（対象外ならnull）
+   */
+  private static captureEntity(entity: Entity): EntitySnapshot | null {
+    if (!this.isCaptured(entity)) return null;
+
+    const components: Record<string, any> = {};
+    for (const { key, type, codec } of SnapshotRegistry.getComponents()) {
+      const component = entity.getComponent(type);
+      if (component) components[key] = codec.encode(component);
+    }
+    return { id: entity.id, active: entity.active, tags: entity.getTags(), components };
+  }
+
+  /**
+   * 記録したタグ・状態・コンポーネントをエンティティに戻す
+   * 登録されたコンポーネントで記録にないものは外し、登録されていないものは残す
+   */
+  private static restoreEntity(entity: Entity, data: EntitySnapshot): void {
+    for (const tag of entity.getTags()) {
+      entity.removeTag(tag);
+    }
+    data.tags.forEach(tag => entity.addTag(tag));
+    entity.active = data.active;
+
+    for (const { key, type, codec } of SnapshotRegistry.getComponents()) {
+      if (key in data.components) {
+        entity.addComponent(type, codec.decode(data.components[key]));
+      } else {
+        entity.removeComponent(type);
+      }
+    }
+
+    for (const key of Object.keys(data.components)) {
+      if (!SnapshotRegistry.getComponent(key)) {
+        console.warn(`⚠️ スナップショットの未登録のコンポーネントを無視: ${key}`);
+      }
+    }
+  }
+
+  /**
+   * スナップショットの対象か（補助的でない登録済みのコンポーネントを持つ）
+   */
+  private static isCaptured(entity: Entity): boolean {
+    return SnapshotRegistry.getComponents().some(({ type, codec }) => !codec.auxiliary && entity.hasComponent(type));
+  }
+
+  /**
+   * 読み込んだ値がスナップショットの形式か確認
+   */
+  private static validate(data: any): WorldSnapshotData | null {
+    const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+    if (!data || data.version !== GAME_CONFIG.SNAPSHOT.FORMAT_VERSION) return null;
+    if (!isCount(data.tick) || typeof data.time !== 'number' || !isCount(data.seed) || !isCount(data.nextEntityId)) return null;
+    if (!data.random || typeof data.random !== 'object' || !Array.isArray(data.entities)) return null;
+
+    const validEntities = data.entities.every((entity: any) =>
+      entity && isCount(entity.id) && typeof entity.active === 'boolean' &&
+      Array.isArray(entity.tags) && entity.tags.every((tag: unknown) => typeof tag === 'string') &&
+      entity.components && typeof entity.components === 'object' && !Array.isArray(entity.components)
+    );
+    return validEntities ? data as WorldSnapshotData : null;
+  }
+}
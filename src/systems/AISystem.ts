@@ -5,35 +5,45 @@ import { Transform } from '../components/Transform';
 import { Character } from '../components/Character';
 import { Input } from '../components/Input';
 import { Trigger } from '../components/Trigger';
-import { TRIGGER_DEFINITIONS } from '../triggers/TriggerDefinitions';
-
-/**
- * AIの行動状態
- */
-enum AIState {
-  IDLE = 'idle',
-  PATROL = 'patrol',
-  CHASE = 'chase',
-  ATTACK = 'attack',
-  EVADE = 'evade'
-}
+import { Shield } from '../components/Shield';
+import { AI, AITactics, AITriggerUsage } from '../components/AI';
+import { Perception } from '../components/Perception';
+import { Velocity } from '../components/Velocity';
+import { Projectile, ProjectileType } from '../components/Projectile';
+import { MeshComponent } from '../components/Mesh';
+import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
+import { TrionSoldier, TrionSoldierType } from '../components/TrionSoldier';
+import { TriggerType } from '../triggers/TriggerDefinitions';
+import { AttackEffects } from '../effects/AttackEffects';
+import { RadarSystem } from './RadarSystem';
+import { NavigationSystem } from './NavigationSystem';
+import { SquadSystem } from './SquadSystem';
+import { EnvironmentSystem } from './EnvironmentSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+import { BehaviorTree } from '../ai/BehaviorTree';
+import { TacticTrees } from '../ai/TacticTrees';
+import { SquadRole } from '../ai/SquadBlackboard';
 
 /**
  * AI制御システム
+ * ボーダー隊員のAIは戦術（AI.config.tactics）ごとのビヘイビアツリーで行動を決める
  */
 export class AISystem extends System {
-  private aiStates: Map<number, AIState> = new Map();
-  private aiTargets: Map<number, Entity | null> = new Map();
-  private patrolTargets: Map<number, THREE.Vector3> = new Map();
-  private actionCooldowns: Map<number, number> = new Map();
-  private weaponGeneratedFlags: Map<number, boolean> = new Map();
+  private trees: Map<number, {
+    tactics: AITactics;
+    role: SquadRole | null;
+    usage: AITriggerUsage;
+    tree: BehaviorTree;
+  }> = new Map();
+  private elapsedTime: number = 0;
 
   requiredComponents() {
-    return [Transform, Character, Input];
+    return [Transform, Character];
   }
 
   update(deltaTime: number): void {
     const entities = this.getEntities();
+    this.elapsedTime += deltaTime;
 
     for (const entity of entities) {
       // プレイヤーはスキップ
@@ -44,296 +54,388 @@ export class AISystem extends System {
 
       const transform = entity.getComponent(Transform)!;
       const character = entity.getComponent(Character)!;
-      const input = entity.getComponent(Input)!;
-      const trigger = entity.getComponent(Trigger);
       
       // キャラクターが戦闘不能の場合はスキップ
       if (character.isDefeated()) continue;
 
-      // AIの状態を更新
-      this.updateAIState(entity, transform, character);
+      // トリオン兵は入力を介さず、種類ごとの行動パターンで直接動く
+      const soldier = entity.getComponent(TrionSoldier);
+      if (soldier) {
+        this.updateTrionSoldier(entity, transform, character, soldier, deltaTime);
+        continue;
+      }
 
-      // AIの行動を実行
-      this.executeAIBehavior(entity, transform, character, input, trigger, deltaTime);
+      const input = entity.getComponent(Input);
+      const ai = entity.getComponent(AI);
+      if (!input || !ai) continue;
 
-      // クールダウンを更新
-      const cooldown = this.actionCooldowns.get(entity.id) || 0;
-      if (cooldown > 0) {
-        this.actionCooldowns.set(entity.id, cooldown - deltaTime);
-      }
+      this.updateBorderAgent(entity, transform, character, input, ai, deltaTime);
     }
   }
 
   /**
-   * AIの状態を更新
+   * ボーダー隊員のAIを更新（ターゲットを選び、戦術のツリーを評価して入力を作る）
    */
-  private updateAIState(entity: Entity, transform: Transform, character: Character): void {
-    const currentState = this.aiStates.get(entity.id) || AIState.IDLE;
-    let newState = currentState;
-
-    // 敵を探す
-    const nearestEnemy = this.findNearestEnemy(transform.position, character.team);
-    this.aiTargets.set(entity.id, nearestEnemy);
-
-    if (nearestEnemy) {
-      const enemyTransform = nearestEnemy.getComponent(Transform)!;
-      const distance = transform.position.distanceTo(enemyTransform.position);
-
-      if (distance < 8) {
-        // 近距離：攻撃
-        newState = AIState.ATTACK;
-      } else if (distance < 25) {
-        // 中距離：追跡
-        newState = AIState.CHASE;
-      } else {
-        // 遠距離：パトロール
-        newState = AIState.PATROL;
-      }
+  private updateBorderAgent(
+    entity: Entity,
+    transform: Transform,
+    character: Character,
+    input: Input,
+    ai: AI,
+    deltaTime: number
+  ): void {
+    // 一度きりの操作をリセット（移動と視線の向きは前フレームのものを維持する）
+    input.jump = false;
+    input.mainRightAction = false;
+    input.mainLeftAction = false;
+    input.isMainActionHeld = false;
+    input.generateWeapon = false;
+    input.triggerSlot = 0;
+    input.leftTriggerSlot = -1;
+    input.mergeCompound = false;
+    input.placeWaypoint = false;
+    input.clearWaypoints = false;
+    input.trajectoryPresetKey = null;
 
-      // 体力が低い場合は回避
-      if (character.stats.currentTrion < character.stats.trionCapacity * 0.3) {
-        newState = AIState.EVADE;
-      }
+    ai.updateTimers(deltaTime);
 
-      // 状態変化をログ出力
-      if (currentState !== newState) {
-        console.log(`🤖 AI ${entity.id}: ${currentState} → ${newState} (距離: ${distance.toFixed(1)}, トリオン: ${character.stats.currentTrion}/${character.stats.trionCapacity})`);
+    // 判断の間隔が空くまでは直前の判断どおりに動き続ける（難易度が低いほど間隔が長い）
+    if (this.trees.has(entity.id) && ai.decisionTimer > 0) return;
+    ai.decisionTimer = ai.config.decisionInterval;
+    input.moveDirection.set(0, 0);
+    input.dash = false;
+
+    // 初回は配置時の向きを視線の初期値にし、配置場所の周りに巡回路を作る
+    if (!this.trees.has(entity.id)) {
+      input.lookDirection.set(transform.rotation.y, 0);
+      const navMesh = this.world?.getSystem(NavigationSystem)?.getNavMesh();
+      if (navMesh) {
+        ai.setPatrolPoints(navMesh.createPatrolRoute(transform.position));
       }
-    } else {
-      // 敵がいない場合はパトロール
-      newState = AIState.PATROL;
     }
 
-    this.aiStates.set(entity.id, newState);
+    // 部隊の集中攻撃の対象を狙う。目の前に迫った敵がいればそちらを優先する
+    // 知覚を持つAIは、自分か部隊の仲間が位置を把握している敵だけを狙える
+    const squad = this.world?.getSystem(SquadSystem)?.getSquad(character.team) ?? undefined;
+    const perception = entity.getComponent(Perception);
+    const nearest = perception
+      ? this.findNearestPerceivedEnemy(transform.position, perception)
+      : this.findNearestEnemy(transform.position, character.team, ai.config.detectionRange);
+    const focusId = squad?.focusTargetId ?? null;
+    const focus = focusId !== null && (!perception || perception.getMemory(focusId))
+      ? this.world?.getEntityById(focusId) ?? null
+      : null;
+    const nearestPosition = nearest ? this.getKnownPosition(nearest, perception) : null;
+    const nearestDistance = nearestPosition ? transform.position.distanceTo(nearestPosition) : Infinity;
+    const target = focus && focus.active && nearestDistance > GAME_CONFIG.SQUAD.SELF_DEFENSE_RANGE ? focus : nearest;
+    const targetPosition = target ? this.getKnownPosition(target, perception) : null;
+    ai.setTarget(target?.id ?? null, targetPosition ?? undefined);
+
+    const previousBehavior = ai.currentBehavior;
+    const role = squad?.getRole(entity.id) ?? null;
+    this.getTree(entity.id, ai.config.tactics, role, ai.config.triggerUsage).tick({
+      entity,
+      world: this.world!,
+      ai,
+      transform,
+      character,
+      input,
+      trigger: entity.getComponent(Trigger),
+      shield: entity.getComponent(Shield),
+      target,
+      perception,
+      squad,
+      time: this.elapsedTime,
+      deltaTime
+    });
+
+    // 行動の変化をログ出力
+    if (ai.currentBehavior !== previousBehavior) {
+      const distance = targetPosition ? transform.position.distanceTo(targetPosition).toFixed(1) : '-';
+      console.log(`🤖 AI ${entity.id} [${ai.config.tactics}]: ${previousBehavior} → ${ai.currentBehavior} (距離: ${distance}, トリオン: ${character.stats.currentTrion}/${character.stats.trionCapacity})`);
+    }
+  }
+
+  /**
+   * エンティティのビヘイビアツリーを取得（戦術・部隊の役割・トリガー運用の練度が変わった場合は作り直す）
+   */
+  private getTree(entityId: number, tactics: AITactics, role: SquadRole | null, usage: AITriggerUsage): BehaviorTree {
+    const entry = this.trees.get(entityId);
+    if (entry && entry.tactics === tactics && entry.role === role && entry.usage === usage) return entry.tree;
+
+    const tree = TacticTrees.create(tactics, role, usage);
+    this.trees.set(entityId, { tactics, role, usage, tree });
+    return tree;
   }
 
   /**
-   * AIの行動を実行
+   * トリオン兵の行動
    */
-  private executeAIBehavior(
+  private updateTrionSoldier(
     entity: Entity,
     transform: Transform,
     character: Character,
-    input: Input,
-    trigger: Trigger | undefined,
+    soldier: TrionSoldier,
     deltaTime: number
   ): void {
-    const state = this.aiStates.get(entity.id) || AIState.IDLE;
-    const target = this.aiTargets.get(entity.id);
-
-    // 入力をリセット
-    input.moveDirection.set(0, 0);
-    input.jump = false;
-    input.mainRightAction = false;
-    input.mainLeftAction = false;
-    input.generateWeapon = false;
-    input.triggerSlot = 0;
-
-    switch (state) {
-      case AIState.PATROL:
-        this.executePatrol(entity, transform, input);
+    const velocity = entity.getComponent(Velocity);
+    if (!velocity) return;
+
+    const config = GAME_CONFIG.NEIGHBOR;
+    const definition = soldier.definition;
+    const district = new THREE.Vector3(config.DISTRICT_CENTER.x, 0, config.DISTRICT_CENTER.z);
+    const speed = character.getMoveSpeed();
+    soldier.attackTimer = Math.max(0, soldier.attackTimer - deltaTime);
+
+    const target = definition.detectionRange > 0
+      ? this.findSoldierTarget(transform.position, character.team, definition.detectionRange)
+      : null;
+    const targetPosition = target?.getComponent(Transform)?.position ?? null;
+
+    switch (soldier.type) {
+      case TrionSoldierType.BAMSTER: {
+        // 隊員には目もくれず市街地へ向かい、捕獲を終えたらゲートへ戻る
+        const gate = config.GATE_POSITIONS[soldier.gateIndex];
+        if (soldier.returning) {
+          this.moveSoldierTowards(transform, velocity, new THREE.Vector3(gate.x, 0, gate.z), speed, 0.5);
+        } else {
+          this.moveSoldierTowards(transform, velocity, district, speed, config.DISTRICT_RADIUS * 0.5);
+        }
         break;
+      }
 
-      case AIState.CHASE:
-        if (target) {
-          this.executeChase(entity, transform, target, input);
+      case TrionSoldierType.MOD: {
+        // 探知した隊員に高速で接近して斬りかかる。いなければ市街地を襲う
+        if (!targetPosition) {
+          this.moveSoldierTowards(transform, velocity, district, speed, 1);
+          break;
+        }
+        this.moveSoldierTowards(transform, velocity, targetPosition, speed, definition.attackRange * 0.6);
+        if (this.horizontalDistance(transform.position, targetPosition) <= definition.attackRange &&
+            soldier.attackTimer <= 0) {
+          soldier.attackTimer = definition.attackCooldown;
+          this.soldierSlash(entity, transform, definition.attackRange, definition.attackDamage);
         }
         break;
+      }
 
-      case AIState.ATTACK:
-        if (target && trigger) {
-          this.executeAttack(entity, transform, character, target, input, trigger);
+      case TrionSoldierType.BANDO: {
+        // 高度を保ったまま目標の上空へ飛び、真下に爆弾を落とす
+        const destination = targetPosition ?? district;
+        this.moveSoldierTowards(transform, velocity, destination, speed, 0.5);
+        velocity.linear.y = (config.BANDO_ALTITUDE - transform.position.y) * 2;
+        if (this.horizontalDistance(transform.position, destination) <= definition.attackRange &&
+            soldier.attackTimer <= 0) {
+          soldier.attackTimer = definition.attackCooldown;
+          this.dropBomb(entity, transform, character, definition.attackDamage);
         }
         break;
+      }
 
-      case AIState.EVADE:
-        if (target) {
-          this.executeEvade(entity, transform, target, input);
+      case TrionSoldierType.RADO: {
+        // 戦闘はせず、隊員から距離をとりながら戦場を偵察する
+        if (targetPosition && this.horizontalDistance(transform.position, targetPosition) < 8) {
+          const away = transform.position.clone().sub(targetPosition).setY(0).add(transform.position);
+          this.moveSoldierTowards(transform, velocity, away, speed, 0);
+          break;
+        }
+        if (!soldier.wanderTarget || this.horizontalDistance(transform.position, soldier.wanderTarget) < 2) {
+          const bounds = this.world?.getSystem(EnvironmentSystem)?.getHalfExtent() ?? GAME_CONFIG.MOVEMENT.ARENA_BOUNDS;
+          const random = this.world!.getRandom('ai');
+          soldier.wanderTarget = new THREE.Vector3(
+            (random.next() - 0.5) * bounds * 2,
+            0,
+            (random.next() - 0.5) * bounds * 2
+          );
         }
+        this.moveSoldierTowards(transform, velocity, soldier.wanderTarget, speed * 0.6, 0);
         break;
-    }
-
-    // ランダムなジャンプ
-    if (Math.random() < 0.01) {
-      input.jump = true;
+      }
     }
   }
 
   /**
-   * パトロール行動
+   * トリオン兵を目的地へ移動させ、進行方向を向かせる（水平方向のみ）
    */
-  private executePatrol(entity: Entity, transform: Transform, input: Input): void {
-    let patrolTarget = this.patrolTargets.get(entity.id);
-
-    // パトロール目標がないか、近づいたら新しい目標を設定
-    if (!patrolTarget || transform.position.distanceTo(patrolTarget) < 2) {
-      patrolTarget = new THREE.Vector3(
-        (Math.random() - 0.5) * 40,
-        0,
-        (Math.random() - 0.5) * 40
-      );
-      this.patrolTargets.set(entity.id, patrolTarget);
+  private moveSoldierTowards(
+    transform: Transform,
+    velocity: Velocity,
+    destination: THREE.Vector3,
+    speed: number,
+    stopDistance: number
+  ): void {
+    const direction = destination.clone().sub(transform.position).setY(0);
+    if (direction.length() <= stopDistance) {
+      velocity.linear.x = 0;
+      velocity.linear.z = 0;
+      return;
     }
 
-    // パトロール目標に向かって移動
-    const direction = patrolTarget.clone().sub(transform.position).normalize();
-    input.moveDirection.x = direction.x * 0.5; // ゆっくり移動
-    input.moveDirection.y = direction.z * 0.5;
+    direction.normalize();
+    velocity.linear.x = direction.x * speed;
+    velocity.linear.z = direction.z * speed;
+    transform.rotation.y = Math.atan2(-direction.x, -direction.z); // メッシュの正面は-Z
+  }
+
+  private horizontalDistance(a: THREE.Vector3, b: THREE.Vector3): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
   }
 
   /**
-   * 追跡行動
+   * トリオン兵の近接攻撃（ブレードでの薙ぎ払い）
    */
-  private executeChase(entity: Entity, transform: Transform, target: Entity, input: Input): void {
-    const targetTransform = target.getComponent(Transform)!;
-    const direction = targetTransform.position.clone().sub(transform.position).normalize();
-
-    // 基本的な追跡移動
-    input.moveDirection.x = direction.x * 0.8;
-    input.moveDirection.y = direction.z * 0.8;
-
-    // ランダムな回避行動を追加
-    const time = Date.now() / 1000;
-    input.moveDirection.x += Math.sin(time * 2 + entity.id) * 0.3;
-    input.moveDirection.y += Math.cos(time * 1.5 + entity.id) * 0.3;
-
-    // 戦術的ジャンプ
-    if (Math.random() < 0.03) {
-      input.jump = true;
-    }
+  private soldierSlash(entity: Entity, transform: Transform, range: number, damage: number): void {
+    if (!this.world) return;
+
+    const slashEntity = AttackEffects.createFanSlashEffect(
+      this.world,
+      transform,
+      TriggerType.RAYGUST,
+      range,
+      entity,
+      damage
+    );
+
+    this.world?.schedule(() => {
+      this.world?.removeEntity(slashEntity);
+    }, GAME_CONFIG.ATTACK.FAN_SLASH.ANIMATION_DURATION);
   }
 
   /**
-   * 攻撃行動
+   * 真下に爆撃弾を投下
    */
-  private executeAttack(
-    entity: Entity,
-    transform: Transform,
-    character: Character,
-    target: Entity,
-    input: Input,
-    trigger: Trigger
-  ): void {
-    const targetTransform = target.getComponent(Transform)!;
-    const direction = targetTransform.position.clone().sub(transform.position);
-    const distance = direction.length();
-    direction.normalize();
+  private dropBomb(entity: Entity, transform: Transform, character: Character, damage: number): void {
+    if (!this.world) return;
+
+    const velocity = new THREE.Vector3(0, -12, 0);
+    const bomb = this.world.createEntity();
+    bomb.addComponent(Projectile, new Projectile(
+      ProjectileType.BOMB,
+      TriggerType.METEORA,
+      velocity,
+      damage,
+      GAME_CONFIG.NEIGHBOR.BANDO_ALTITUDE * 2,
+      entity.id,
+      character.team
+    ));
+    bomb.addComponent(Transform, new Transform(
+      transform.position.clone(),
+      new THREE.Euler(0, 0, 0),
+      new THREE.Vector3(1, 1, 1)
+    ));
+    bomb.addComponent(Velocity, new Velocity(velocity));
+    bomb.addComponent(Collider, new Collider(
+      ColliderType.SPHERE,
+      new THREE.Vector3(0.3, 0.3, 0.3),
+      CollisionLayer.PROJECTILE,
+      CollisionLayer.CHARACTER | CollisionLayer.ENEMY | CollisionLayer.SHIELD
+    ));
+    bomb.addComponent(MeshComponent, new MeshComponent(new THREE.Mesh(
+      new THREE.SphereGeometry(0.3, 8, 8),
+      new THREE.MeshBasicMaterial({ color: 0x222222 })
+    )));
+
+    console.log(`💣 ${character.name}: 爆撃`);
+  }
 
-    // ターゲットの方を向く
-    input.lookDirection.x = Math.atan2(direction.x, direction.z);
-    input.lookDirection.y = -Math.atan2(direction.y, Math.sqrt(direction.x * direction.x + direction.z * direction.z));
-
-    // 武器を生成していない場合は生成
-    if (!this.weaponGeneratedFlags.get(entity.id) && !trigger.weaponGenerated) {
-      // ランダムなトリガーを選択
-      const slots = [1, 2, 3, 4];
-      const randomSlot = slots[Math.floor(Math.random() * slots.length)];
-      console.log(`🔧 AI ${entity.id}: 武器生成開始 - スロット${randomSlot}選択`);
-      input.triggerSlot = randomSlot;
-      input.generateWeapon = true;
-      this.weaponGeneratedFlags.set(entity.id, true);
-      return;
-    }
+  /**
+   * トリオン兵の標的を探す
+   * 自身の探知範囲に加え、ラッドが捉えた隊員も標的にできる
+   */
+  private findSoldierTarget(position: THREE.Vector3, team: number, range: number): Entity | null {
+    const radarSystem = this.world?.getSystem(RadarSystem);
+    if (!radarSystem || !this.world) return null;
 
-    // クールダウン中は何もしない
-    const cooldown = this.actionCooldowns.get(entity.id) || 0;
-    if (cooldown > 0) return;
-
-    // 現在のトリガーの種類を確認
-    if (trigger.currentTrigger) {
-      const definition = TRIGGER_DEFINITIONS[trigger.currentTrigger];
-      const category = definition.category;
-
-      if (category === 'attacker' && distance < 5) {
-        // 近接攻撃
-        console.log(`⚔️ AI ${entity.id}: 近接攻撃実行 (${trigger.currentTrigger})`);
-        input.mainRightAction = true;
-        this.actionCooldowns.set(entity.id, 0.8);
-      } else if ((category === 'shooter' || category === 'gunner' || category === 'sniper') && distance < 25) {
-        // 射撃攻撃
-        console.log(`🏹 AI ${entity.id}: 射撃攻撃実行 (${trigger.currentTrigger})`);
-        input.mainRightAction = true;
-        this.actionCooldowns.set(entity.id, definition.cooldown + 0.3);
-      }
-    }
+    const radoPositions = this.world.getEntities()
+      .filter(entity => entity.active && entity.getComponent(TrionSoldier)?.type === TrionSoldierType.RADO)
+      .filter(entity => entity.getComponent(Character)?.team === team)
+      .map(entity => entity.getComponent(Transform)!.position);
 
-    // 適切な距離を保つ & 戦術的移動
-    if (distance < 3) {
-      // 近すぎる場合は少し離れる
-      input.moveDirection.x = -direction.x * 0.7;
-      input.moveDirection.y = -direction.z * 0.7;
-    } else if (distance > 6) {
-      // 遠い場合は近づく
-      input.moveDirection.x = direction.x * 0.6;
-      input.moveDirection.y = direction.z * 0.6;
-    } else {
-      // 理想的な距離では左右に移動（ストラフィング）
-      const time = Date.now() / 1000;
-      const strafe = Math.sin(time * 3 + entity.id) * 0.8;
-      input.moveDirection.x = direction.z * strafe; // 垂直方向に移動
-      input.moveDirection.y = -direction.x * strafe;
-    }
+    let nearest: Entity | null = null;
+    let nearestDistance = Infinity;
 
-    // 攻撃中のランダム回避
-    if (Math.random() < 0.02) {
-      input.jump = true;
+    for (const blip of radarSystem.getEnemyBlips(position, team)) {
+      const distance = position.distanceTo(blip.position);
+      const spotted = distance <= range ||
+        radoPositions.some(rado => rado.distanceTo(blip.position) <= GAME_CONFIG.NEIGHBOR.RADO_SCAN_RANGE);
+      if (!spotted || distance >= nearestDistance) continue;
+
+      const entity = this.world.getEntityById(blip.entityId);
+      if (!entity || !entity.hasComponent(Transform)) continue;
+
+      nearest = entity;
+      nearestDistance = distance;
     }
+
+    return nearest;
   }
 
   /**
-   * 回避行動
+   * 探知範囲内で最も近い敵を探す
    */
-  private executeEvade(entity: Entity, transform: Transform, target: Entity, input: Input): void {
-    const targetTransform = target.getComponent(Transform)!;
-    const direction = transform.position.clone().sub(targetTransform.position).normalize();
+  private findNearestEnemy(position: THREE.Vector3, team: number, range: number): Entity | null {
+    // レーダーに映っている敵のみを対象とする（バッグワーム起動中の敵は探知できない）
+    const radarSystem = this.world?.getSystem(RadarSystem);
+    if (!radarSystem || !this.world) return null;
 
-    // ターゲットから離れる
-    input.moveDirection.x = direction.x;
-    input.moveDirection.y = direction.z;
+    let nearestEnemy: Entity | null = null;
+    let nearestDistance = Infinity;
 
-    // ジグザグ移動
-    const time = Date.now() / 1000;
-    input.moveDirection.x += Math.sin(time * 5) * 0.5;
+    for (const blip of radarSystem.getEnemyBlips(position, team)) {
+      const entity = this.world.getEntityById(blip.entityId);
+      if (!entity || !entity.hasComponent(Transform)) continue;
 
-    // 頻繁にジャンプ
-    if (Math.random() < 0.1) {
-      input.jump = true;
+      const distance = position.distanceTo(blip.position);
+      if (distance <= range && distance < nearestDistance) {
+        nearestDistance = distance;
+        nearestEnemy = entity;
+      }
     }
+
+    return nearestEnemy;
   }
 
   /**
-   * 最も近い敵を探す
+   * 知覚している敵のうち、見えている敵を優先して最も近い敵を探す
    */
-  private findNearestEnemy(position: THREE.Vector3, team: number): Entity | null {
-    const entities = this.world?.getEntities() || [];
+  private findNearestPerceivedEnemy(position: THREE.Vector3, perception: Perception): Entity | null {
+    if (!this.world) return null;
+
     let nearestEnemy: Entity | null = null;
+    let nearestVisible = false;
     let nearestDistance = Infinity;
 
-    for (const entity of entities) {
-      const character = entity.getComponent(Character);
-      const transform = entity.getComponent(Transform);
-
-      if (character && transform && character.team !== team) {
-        const distance = position.distanceTo(transform.position);
-        if (distance < nearestDistance) {
-          nearestDistance = distance;
-          nearestEnemy = entity;
-        }
+    for (const memory of perception.memories.values()) {
+      const entity = this.world.getEntityById(memory.entityId);
+      if (!entity || !entity.active || !entity.hasComponent(Transform) ||
+          entity.getComponent(Character)?.isDefeated()) continue;
+
+      const distance = position.distanceTo(memory.position);
+      const closer = memory.visible === nearestVisible && distance < nearestDistance;
+      if ((memory.visible && !nearestVisible) || closer) {
+        nearestEnemy = entity;
+        nearestVisible = memory.visible;
+        nearestDistance = distance;
       }
     }
 
     return nearestEnemy;
   }
 
+  /**
+   * 把握している敵の位置（知覚を持つAIは最後に確認した位置）
+   */
+  private getKnownPosition(entity: Entity, perception: Perception | undefined): THREE.Vector3 | null {
+    const memory = perception?.getMemory(entity.id);
+    if (memory) return memory.position;
+    return entity.getComponent(Transform)?.position ?? null;
+  }
+
   /**
    * システム破棄時の処理
    */
   destroy(): void {
-    this.aiStates.clear();
-    this.aiTargets.clear();
-    this.patrolTargets.clear();
-    this.actionCooldowns.clear();
-    this.weaponGeneratedFlags.clear();
+    this.trees.clear();
     super.destroy();
   }
 }
\ No newline at end of file
@@ -59,7 +59,7 @@ export class AnimationSystem extends System {
       // 状態が変わったか、アニメーションが終了した場合
       if (!currentAnimation || 
           currentAnimation.state !== newState ||
-          (!currentAnimation.loop && Date.now() - currentAnimation.startTime > currentAnimation.duration)) {
+          (!currentAnimation.loop && this.world!.now() - currentAnimation.startTime > currentAnimation.duration)) {
         this.startAnimation(entity.id, newState);
       }
 
@@ -92,7 +92,7 @@ export class AnimationSystem extends System {
   private startAnimation(entityId: number, state: AnimationState): void {
     const animationInfo: AnimationInfo = {
       state,
-      startTime: Date.now(),
+      startTime: this.world!.now(),
       duration: this.getAnimationDuration(state),
       loop: this.isLoopAnimation(state)
     };
@@ -146,7 +146,7 @@ export class AnimationSystem extends System {
     const animation = this.animations.get(entityId);
     if (!animation) return;
 
-    const elapsed = Date.now() - animation.startTime;
+    const elapsed = this.world!.now() - animation.startTime;
     let progress = elapsed / animation.duration;
 
     // ループアニメーションの場合
@@ -0,0 +1,448 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Character } from '../components/Character';
+import { Velocity } from '../components/Velocity';
+import { MeshComponent } from '../components/Mesh';
+import { Hitbox } from '../components/Hitbox';
+import { Trigger } from '../components/Trigger';
+import { TrionSoldier } from '../components/TrionSoldier';
+import { RenderSystem } from './RenderSystem';
+import { TriggerSystem } from './TriggerSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 緊急脱出の段階
+ */
+export enum BailoutPhase {
+  BREAKING = 'breaking',   // トリオン体の崩壊
+  LAUNCHING = 'launching', // 基地へ飛行中
+  WAITING = 'waiting'      // 基地で復帰待ち
+}
+
+/**
+ * 緊急脱出のルール（ゲームモードごとに設定）
+ */
+export interface BailoutRules {
+  allowReturn: boolean;     // 脱出後に戦場へ復帰できるか
+  returnDelay: number;      // 基地到着から復帰までの時間（秒）
+  pointsPerBailout: number; // 撃破者のチームに入る得点
+}
+
+/**
+ * 緊急脱出の記録
+ */
+export interface BailoutEvent {
+  time: number;               // 試合開始からの経過時間（秒）
+  victimId: number;
+  victimName: string;
+  victimTeam: number;
+  killerId: number | null;    // 撃破者（自発的・不明な場合はnull）
+  killerName: string | null;
+  killerTeam: number | null;
+  points: number;
+}
+
+/**
+ * 脱出中のキャラクターの状態
+ */
+interface BailoutState {
+  entity: Entity;
+  phase: BailoutPhase;
+  timer: number;
+  start: THREE.Vector3;
+  target: THREE.Vector3;
+  beam: THREE.Mesh | null;
+}
+
+/**
+ * 崩壊時に飛び散る破片
+ */
+interface BreakFragment {
+  mesh: THREE.Mesh;
+  velocity: THREE.Vector3;
+  life: number;
+}
+
+/**
+ * 初期ルール（脱出したら戦場に戻らない）
+ */
+export const DEFAULT_BAILOUT_RULES: BailoutRules = {
+  allowReturn: false,
+  returnDelay: 5,
+  pointsPerBailout: 1
+};
+
+/**
+ * 緊急脱出（ベイルアウト）システム
+ * トリオン切れ・供給機関破壊でトリオン体を崩壊させ、チームの基地へ飛ばす
+ */
+export class BailoutSystem extends System {
+  private rules: BailoutRules = { ...DEFAULT_BAILOUT_RULES };
+  private states: Map<number, BailoutState> = new Map();
+  private fragments: BreakFragment[] = [];
+  private events: BailoutEvent[] = [];
+  private eliminated: Set<number> = new Set(); // 基地に到着して戦線離脱したエンティティ
+  private elapsed: number = 0;
+
+  requiredComponents() {
+    return [Character, Transform];
+  }
+
+  update(deltaTime: number): void {
+    this.elapsed += deltaTime;
+
+    // トリオンが尽きたキャラクターを検出（どの経路で0になっても脱出させる）
+    for (const entity of this.getEntities()) {
+      if (entity.getComponent(Character)!.isDefeated() && !this.states.has(entity.id)) {
+        this.bailout(entity);
+      }
+    }
+
+    for (const state of [...this.states.values()]) {
+      this.updateState(state, deltaTime);
+    }
+
+    this.updateFragments(deltaTime);
+  }
+
+  /**
+   * 緊急脱出を開始
+   */
+  bailout(entity: Entity): void {
+    if (this.states.has(entity.id)) return;
+
+    const character = entity.getComponent(Character);
+    const transform = entity.getComponent(Transform);
+    if (!character || !transform) return;
+
+    this.recordEvent(character, entity);
+
+    // トリオン兵には緊急脱出機能がないので、その場で崩壊して消滅する
+    if (entity.hasComponent(TrionSoldier)) {
+      this.createBreakEffect(transform.position);
+      entity.active = false;
+      this.world?.removeEntity(entity);
+      console.log(`💥 ${character.name}: 撃破`);
+      return;
+    }
+
+    // 武器を破棄し、トリオン体を非表示に
+    this.world?.getSystem(TriggerSystem)?.releaseWeapons(entity);
+    const meshComponent = entity.getComponent(MeshComponent);
+    if (meshComponent) {
+      meshComponent.mesh.visible = false;
+    }
+    entity.active = false; // 脱出中は他のシステムの処理対象外
+
+    this.createBreakEffect(transform.position);
+
+    const base = GAME_CONFIG.BAILOUT.TEAM_BASES[character.team % GAME_CONFIG.BAILOUT.TEAM_BASES.length];
+    this.states.set(entity.id, {
+      entity,
+      phase: BailoutPhase.BREAKING,
+      timer: 0,
+      start: transform.position.clone().add(new THREE.Vector3(0, 1, 0)),
+      target: new THREE.Vector3(base.x, base.y + 1, base.z),
+      beam: null
+    });
+
+    console.log(`🚀 ${character.name}: 緊急脱出`);
+  }
+
+  /**
+   * 脱出状態を更新
+   */
+  private updateState(state: BailoutState, deltaTime: number): void {
+    state.timer += deltaTime;
+
+    switch (state.phase) {
+      case BailoutPhase.BREAKING:
+        if (state.timer >= GAME_CONFIG.BAILOUT.BREAK_DURATION) {
+          state.phase = BailoutPhase.LAUNCHING;
+          state.timer = 0;
+          state.beam = this.createBeam(state.start);
+        }
+        break;
+
+      case BailoutPhase.LAUNCHING: {
+        const progress = Math.min(state.timer / GAME_CONFIG.BAILOUT.LAUNCH_DURATION, 1);
+        const position = this.getLaunchPosition(state, progress);
+        state.beam?.position.copy(position);
+
+        // カメラが追従できるようTransformも光と一緒に移動
+        state.entity.getComponent(Transform)?.position.copy(position);
+
+        if (progress >= 1) {
+          this.arrive(state);
+        }
+        break;
+      }
+
+      case BailoutPhase.WAITING:
+        if (state.timer >= this.rules.returnDelay) {
+          this.respawn(state);
+        }
+        break;
+    }
+  }
+
+  /**
+   * 飛行軌道上の位置（放物線）
+   */
+  private getLaunchPosition(state: BailoutState, progress: number): THREE.Vector3 {
+    const position = state.start.clone().lerp(state.target, progress);
+    position.y += Math.sin(progress * Math.PI) * GAME_CONFIG.BAILOUT.LAUNCH_HEIGHT;
+    return position;
+  }
+
+  /**
+   * 基地に到着
+   */
+  private arrive(state: BailoutState): void {
+    this.removeBeam(state);
+    const character = state.entity.getComponent(Character)!;
+
+    if (this.rules.allowReturn) {
+      state.phase = BailoutPhase.WAITING;
+      state.timer = 0;
+      console.log(`🏠 ${character.name}: 基地に到着（${this.rules.returnDelay}秒後に復帰）`);
+      return;
+    }
+
+    console.log(`🏠 ${character.name}: 基地に到着（戦線離脱）`);
+    this.states.delete(state.entity.id);
+    this.eliminated.add(state.entity.id);
+    this.world?.removeEntity(state.entity);
+  }
+
+  /**
+   * トリオン体を再構築して戦場へ復帰
+   */
+  private respawn(state: BailoutState): void {
+    const entity = state.entity;
+    const character = entity.getComponent(Character)!;
+    const transform = entity.getComponent(Transform)!;
+
+    character.healTrion(character.stats.trionCapacity);
+    character.mobilityMultiplier = 1.0;
+    character.lastAttackerId = null;
+
+    const base = state.target.clone().setY(state.target.y - 1);
+    transform.position.copy(base);
+    entity.getComponent(Velocity)?.linear.set(0, 0, 0);
+
+    // 欠損した部位を元に戻す
+    const meshComponent = entity.getComponent(MeshComponent);
+    if (meshComponent) {
+      meshComponent.mesh.visible = true;
+      meshComponent.mesh.traverse(child => { child.visible = true; });
+      if (entity.hasComponent(Hitbox)) {
+        entity.addComponent(Hitbox, Hitbox.fromCharacterMesh(meshComponent.mesh));
+      }
+    }
+    entity.getComponent(Trigger)?.restoreHands();
+
+    entity.active = true;
+    this.states.delete(entity.id);
+    console.log(`✨ ${character.name}: 戦場に復帰`);
+  }
+
+  /**
+   * 脱出の記録を追加
+   */
+  private recordEvent(character: Character, entity: Entity): void {
+    const killerEntity = character.lastAttackerId !== null
+      ? this.world?.getEntityById(character.lastAttackerId)
+      : undefined;
+    const killer = killerEntity?.getComponent(Character) ?? null;
+
+    // 味方への攻撃や自滅は得点にならない
+    const points = killer && killer.team !== character.team ? this.rules.pointsPerBailout : 0;
+
+    const event: BailoutEvent = {
+      time: this.elapsed,
+      victimId: entity.id,
+      victimName: character.name,
+      victimTeam: character.team,
+      killerId: killerEntity?.id ?? null,
+      killerName: killer?.name ?? null,
+      killerTeam: killer?.team ?? null,
+      points
+    };
+    this.events.push(event);
+
+    console.log(`📋 Bailout: ${event.victimName} ← ${event.killerName ?? '不明'} (+${points}pt)`);
+  }
+
+  /**
+   * トリオン体の崩壊エフェクト（白い閃光と飛び散る破片）
+   */
+  private createBreakEffect(position: THREE.Vector3): void {
+    const scene = this.world?.getSystem(RenderSystem)?.getScene();
+    if (!scene) return;
+
+    const center = position.clone().add(new THREE.Vector3(0, 1, 0));
+
+    // 閃光
+    const flash = new THREE.Mesh(
+      new THREE.SphereGeometry(1.2, 16, 16),
+      new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.9 })
+    );
+    flash.position.copy(center);
+    scene.add(flash);
+    this.fragments.push({ mesh: flash, velocity: new THREE.Vector3(0, 1, 0), life: GAME_CONFIG.BAILOUT.BREAK_DURATION });
+
+    // 破片
+    const random = this.world!.getRandom('effects');
+    for (let i = 0; i < GAME_CONFIG.BAILOUT.FRAGMENT_COUNT; i++) {
+      const fragment = new THREE.Mesh(
+        new THREE.BoxGeometry(0.12, 0.12, 0.12),
+        new THREE.MeshBasicMaterial({ color: 0xccffee, transparent: true, opacity: 1.0 })
+      );
+      fragment.position.copy(center);
+      scene.add(fragment);
+
+      const direction = new THREE.Vector3(
+        random.next() - 0.5,
+        random.next() * 0.8,
+        random.next() - 0.5
+      ).normalize();
+      this.fragments.push({
+        mesh: fragment,
+        velocity: direction.multiplyScalar(3 + random.next() * 4),
+        life: GAME_CONFIG.BAILOUT.BREAK_DURATION * (1 + random.next())
+      });
+    }
+  }
+
+  /**
+   * 破片エフェクトを更新
+   */
+  private updateFragments(deltaTime: number): void {
+    for (const fragment of this.fragments) {
+      fragment.life -= deltaTime;
+      fragment.velocity.y += GAME_CONFIG.MOVEMENT.GRAVITY * deltaTime * 0.3;
+      fragment.mesh.position.addScaledVector(fragment.velocity, deltaTime);
+      fragment.mesh.rotation.x += deltaTime * 5;
+
+      const material = fragment.mesh.material as THREE.MeshBasicMaterial;
+      material.opacity = Math.max(0, Math.min(1, fragment.life * 2));
+    }
+
+    const expired = this.fragments.filter(fragment => fragment.life <= 0);
+    for (const fragment of expired) {
+      this.disposeMesh(fragment.mesh);
+    }
+    this.fragments = this.fragments.filter(fragment => fragment.life > 0);
+  }
+
+  /**
+   * 基地へ飛んでいく光を作成
+   */
+  private createBeam(position: THREE.Vector3): THREE.Mesh | null {
+    const scene = this.world?.getSystem(RenderSystem)?.getScene();
+    if (!scene) return null;
+
+    const beam = new THREE.Mesh(
+      new THREE.SphereGeometry(0.4, 12, 12),
+      new THREE.MeshBasicMaterial({ color: 0x88ffff, transparent: true, opacity: 0.9 })
+    );
+    beam.position.copy(position);
+    scene.add(beam);
+    return beam;
+  }
+
+  /**
+   * 飛行中の光を削除
+   */
+  private removeBeam(state: BailoutState): void {
+    if (state.beam) {
+      this.disposeMesh(state.beam);
+      state.beam = null;
+    }
+  }
+
+  private disposeMesh(mesh: THREE.Mesh): void {
+    mesh.parent?.remove(mesh);
+    mesh.geometry.dispose();
+    (mesh.material as THREE.Material).dispose();
+  }
+
+  /**
+   * 緊急脱出のルールを設定
+   */
+  setRules(rules: Partial<BailoutRules>): void {
+    this.rules = { ...this.rules, ...rules };
+  }
+
+  /**
+   * 現在のルールを取得
+   */
+  getRules(): BailoutRules {
+    return { ...this.rules };
+  }
+
+  /**
+   * 脱出中（崩壊・飛行中・復帰待ち）か
+   */
+  isBailingOut(entityId: number): boolean {
+    return this.states.has(entityId);
+  }
+
+  /**
+   * 緊急脱出で戦線離脱したか（エンティティは既にワールドから削除されている）
+   */
+  isEliminated(entityId: number): boolean {
+    return this.eliminated.has(entityId);
+  }
+
+  /**
+   * 復帰までの残り時間（復帰待ちでなければnull）
+   */
+  getReturnCountdown(entityId: number): number | null {
+    const state = this.states.get(entityId);
+    if (!state || !this.rules.allowReturn) return null;
+    if (state.phase !== BailoutPhase.WAITING) return this.rules.returnDelay;
+    return Math.max(0, this.rules.returnDelay - state.timer);
+  }
+
+  /**
+   * 脱出の記録を取得
+   */
+  getEvents(): BailoutEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * チームの獲得得点
+   */
+  getTeamPoints(team: number): number {
+    return this.events
+      .filter(event => event.killerTeam === team)
+      .reduce((total, event) => total + event.points, 0);
+  }
+
+  /**
+   * 記録と進行中の脱出をリセット
+   */
+  reset(): void {
+    for (const state of this.states.values()) {
+      this.removeBeam(state);
+    }
+    this.states.clear();
+    this.events = [];
+    this.eliminated.clear();
+    this.elapsed = 0;
+  }
+
+  destroy(): void {
+    this.reset();
+    for (const fragment of this.fragments) {
+      this.disposeMesh(fragment.mesh);
+    }
+    this.fragments = [];
+    super.destroy();
+  }
+}
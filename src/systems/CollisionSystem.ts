@@ -3,11 +3,20 @@ import { System } from '../ecs/System';
 import { Entity } from '../ecs/Entity';
 import { Transform } from '../components/Transform';
 import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
-import { Projectile } from '../components/Projectile';
+import { Projectile, ProjectileType } from '../components/Projectile';
 import { Character } from '../components/Character';
 import { Shield } from '../components/Shield';
 import { MeshComponent } from '../components/Mesh';
+import { Velocity } from '../components/Velocity';
+import { Hitbox } from '../components/Hitbox';
 import { RenderSystem } from './RenderSystem';
+import { BailoutSystem } from './BailoutSystem';
+import { PerceptionSystem } from './PerceptionSystem';
+import { EnvironmentSystem } from './EnvironmentSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+import { TriggerType } from '../triggers/TriggerDefinitions';
+import { NarrowPhase, Shape, SphereShape, ShapeCastHit } from '../physics/NarrowPhase';
+import { CharacterController } from '../physics/CharacterController';
 
 /**
  * 衝突情報
@@ -18,6 +27,28 @@ interface CollisionInfo {
   point: THREE.Vector3;
   normal: THREE.Vector3;
   distance: number;
+  impact?: THREE.Vector3;  // 弾の掃引判定で当たったときの弾の中心
+}
+
+/**
+ * レイキャスト・シェイプキャストなどの問い合わせの条件
+ */
+export interface CollisionQueryOptions {
+  layerMask?: number;        // 対象のレイヤー（既定はすべて）
+  ignore?: number[];         // 除外するエンティティID
+  includeTriggers?: boolean; // isTriggerのコライダー（シールドなど）も対象にするか
+  hitGround?: boolean;       // 地面にも当てるか
+  entities?: Entity[];       // 対象を絞る場合のエンティティ
+}
+
+/**
+ * レイキャスト・シェイプキャストの結果
+ */
+export interface CollisionQueryHit {
+  entity: Entity | null;   // 当たったエンティティ（地面ならnull）
+  point: THREE.Vector3;    // 当たった表面上の点
+  normal: THREE.Vector3;   // 当たった表面の外向きの法線
+  distance: number;        // 始点からの距離（シェイプキャストでは球の中心の移動距離）
 }
 
 /**
@@ -26,6 +57,8 @@ interface CollisionInfo {
 export class CollisionSystem extends System {
   private collisionPairs: Set<string> = new Set();
   private hitEffects: Map<string, THREE.Object3D> = new Map();
+  private environmentTriangles: Map<number, { key: string; triangles: THREE.Triangle[] | null }> = new Map();
+  private deltaTime: number = 0;
 
   requiredComponents() {
     return [Transform, Collider];
@@ -34,6 +67,7 @@ export class CollisionSystem extends System {
   update(deltaTime: number): void {
     const entities = this.getEntities();
     this.collisionPairs.clear();
+    this.deltaTime = deltaTime;
 
     // 総当たりで衝突判定
     for (let i = 0; i < entities.length; i++) {
@@ -91,11 +125,6 @@ export class CollisionSystem extends System {
    * 衝突判定
    */
   private checkCollision(entityA: Entity, entityB: Entity): CollisionInfo | null {
-    const transformA = entityA.getComponent(Transform)!;
-    const transformB = entityB.getComponent(Transform)!;
-    const colliderA = entityA.getComponent(Collider)!;
-    const colliderB = entityB.getComponent(Collider)!;
-
     // 扇形攻撃の特別な判定
     if ((entityA as any).fanAttackInfo) {
       return this.checkFanAttackCollision(entityA, entityB);
@@ -104,170 +133,256 @@ export class CollisionSystem extends System {
       return this.checkFanAttackCollision(entityB, entityA);
     }
 
-    // 通常の球体同士の衝突判定
-    const distance = transformA.position.distanceTo(transformB.position);
-    const radiusSum = this.getColliderRadius(colliderA, transformA) + 
-                     this.getColliderRadius(colliderB, transformB);
+    const colliderA = entityA.getComponent(Collider)!;
+    const colliderB = entityB.getComponent(Collider)!;
+    const projectileA = entityA.hasComponent(Projectile);
+    const projectileB = entityB.hasComponent(Projectile);
 
-    if (distance <= radiusSum) {
-      const normal = transformB.position.clone()
-        .sub(transformA.position)
-        .normalize();
-      
-      const point = transformA.position.clone()
-        .add(normal.multiplyScalar(this.getColliderRadius(colliderA, transformA)));
+    // 建物に当たって処理が必要なのは弾のみ
+    if ((this.isEnvironment(colliderA) && !projectileB) || (this.isEnvironment(colliderB) && !projectileA)) {
+      return null;
+    }
 
-      return {
-        entityA,
-        entityB,
-        point,
-        normal,
-        distance
-      };
+    // 弾はこのフレームの移動を掃引して判定する（高速な弾が薄いシールドや壁をすり抜けないように）
+    if (projectileA !== projectileB) {
+      return projectileA
+        ? this.checkProjectileCollision(entityA, entityB, false)
+        : this.checkProjectileCollision(entityB, entityA, true);
     }
 
-    return null;
+    const shapeA = this.getShape(entityA);
+    const shapeB = this.getShape(entityB);
+    if (!NarrowPhase.getBounds(shapeA).intersectsBox(NarrowPhase.getBounds(shapeB))) return null;
+
+    const contact = NarrowPhase.intersect(shapeA, shapeB);
+    if (!contact) return null;
+
+    return {
+      entityA,
+      entityB,
+      point: contact.point,
+      normal: contact.normal,
+      distance: -contact.depth
+    };
   }
 
   /**
-   * 扇形攻撃の衝突判定（5度セグメント単位）
+   * 弾の掃引判定（前フレームの位置から現在の位置まで弾の球を動かして最初に当たる位置）
    */
-  private checkFanAttackCollision(attackEntity: Entity, targetEntity: Entity): CollisionInfo | null {
-    const attackTransform = attackEntity.getComponent(Transform)!;
-    const targetTransform = targetEntity.getComponent(Transform)!;
-    const fanInfo = (attackEntity as any).fanAttackInfo;
+  private checkProjectileCollision(projectileEntity: Entity, otherEntity: Entity, swapped: boolean): CollisionInfo | null {
+    const { start, end } = this.getProjectileSweep(projectileEntity);
+    const radius = (this.getShape(projectileEntity) as SphereShape).radius;
+    const hit = this.castAgainst(otherEntity, start, end, radius);
+    if (!hit) return null;
+
+    return {
+      entityA: swapped ? otherEntity : projectileEntity,
+      entityB: swapped ? projectileEntity : otherEntity,
+      point: hit.point,
+      normal: hit.normal, // 相手の表面から外向き
+      distance: start.distanceTo(hit.center),
+      impact: hit.center
+    };
+  }
 
-    if (!fanInfo) return null;
+  /**
+   * 弾がこのフレームに通った区間（発射位置より後ろには伸ばさない）
+   */
+  private getProjectileSweep(projectileEntity: Entity): { start: THREE.Vector3; end: THREE.Vector3 } {
+    const end = projectileEntity.getComponent(Transform)!.position.clone();
+    const projectile = projectileEntity.getComponent(Projectile)!;
+    const velocity = projectileEntity.getComponent(Velocity)?.linear ?? projectile.velocity;
+    const speed = velocity.length();
+    const length = Math.min(speed * this.deltaTime, projectile.travelDistance);
+    const start = speed > 0 ? end.clone().addScaledVector(velocity, -length / speed) : end.clone();
+    return { start, end };
+  }
 
-    // 攻撃者の位置（基準点）
-    const attackerPos = attackTransform.position.clone();
-    const targetPos = targetTransform.position.clone();
-    
-    // 攻撃者からターゲットへのベクトル
-    const toTarget = targetPos.clone().sub(attackerPos);
-    const distance = toTarget.length();
-    
-    // 射程チェック
-    if (distance > fanInfo.range * 0.8) { // エフェクトの有効範囲
-      return null;
+  /**
+   * 球をstartからendまで動かしたときに最初にエンティティのコライダーに当たる位置
+   * 箱以外のメッシュを持つ環境（角柱の建物など）はメッシュの三角形で判定する
+   */
+  private castAgainst(entity: Entity, start: THREE.Vector3, end: THREE.Vector3, radius: number): ShapeCastHit | null {
+    const shape = this.getShape(entity);
+    const sweepBounds = new THREE.Box3().setFromPoints([start, end]).expandByScalar(radius);
+    if (!NarrowPhase.getBounds(shape).intersectsBox(sweepBounds)) return null;
+
+    const triangles = this.getEnvironmentTriangles(entity);
+    if (!triangles) return NarrowPhase.sweepSphere(start, end, radius, shape);
+
+    let first: ShapeCastHit | null = null;
+    for (const triangle of triangles) {
+      const hit = NarrowPhase.sweepSphereTriangle(start, end, radius, triangle);
+      if (hit && (!first || hit.time < first.time)) first = hit;
     }
-    
-    // Y軸の高さチェック（上下方向の許容範囲）
-    if (Math.abs(toTarget.y) > 2.0) { // 2m以上の高低差は対象外
-      return null;
+    return first;
+  }
+
+  /**
+   * エンティティの衝突判定の形状
+   */
+  private getShape(entity: Entity): Shape {
+    const transform = entity.getComponent(Transform)!;
+    return entity.getComponent(Collider)!.getShape(transform.position, transform.rotation, transform.scale);
+  }
+
+  /**
+   * 箱以外のメッシュを持つ環境の三角形（ワールド座標、位置が変わらない間は使い回す）
+   */
+  private getEnvironmentTriangles(entity: Entity): THREE.Triangle[] | null {
+    const collider = entity.getComponent(Collider)!;
+    if (!this.isEnvironment(collider)) return null;
+
+    const position = entity.getComponent(Transform)!.position;
+    const key = position.toArray().join(',');
+    const cached = this.environmentTriangles.get(entity.id);
+    if (cached?.key === key) return cached.triangles;
+
+    const triangles = CharacterController.createObstacle(entity)?.triangles ?? null;
+    this.environmentTriangles.set(entity.id, { key, triangles });
+    return triangles;
+  }
+
+  /**
+   * レイが最初に当たるコライダー（directionは正規化済み）
+   * ShootingSystemの射線やAIの視線など、描画用のメッシュではなく当たり判定の形状で調べたいときに使う
+   */
+  public raycast(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    maxDistance: number,
+    options: CollisionQueryOptions = {}
+  ): CollisionQueryHit | null {
+    return this.sphereCast(origin, direction, 0, maxDistance, options);
+  }
+
+  /**
+   * 球を動かしたときに最初に当たるコライダー（シェイプキャスト、directionは正規化済み）
+   * distanceは当たったときの球の中心までの移動距離
+   */
+  public sphereCast(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    radius: number,
+    maxDistance: number,
+    options: CollisionQueryOptions = {}
+  ): CollisionQueryHit | null {
+    const end = origin.clone().addScaledVector(direction, maxDistance);
+    const layerMask = options.layerMask ?? 0xFFFF;
+    let nearest: CollisionQueryHit | null = null;
+
+    for (const entity of options.entities ?? this.getEntities()) {
+      const collider = entity.getComponent(Collider);
+      if (!collider || !entity.hasComponent(Transform)) continue;
+      if ((collider.layer & layerMask) === 0) continue;
+      if (collider.isTrigger && !options.includeTriggers) continue;
+      if (options.ignore?.includes(entity.id)) continue;
+
+      const hit = this.castAgainst(entity, origin, end, radius);
+      if (!hit) continue;
+      const distance = hit.time * maxDistance;
+      if (!nearest || distance < nearest.distance) {
+        nearest = { entity, point: hit.point, normal: hit.normal, distance };
+      }
     }
-    
-    // XZ平面での角度計算（Y軸回転を考慮）
-    const targetAngleXZ = Math.atan2(toTarget.x, -toTarget.z); // -Z軸が前方向
-    const attackerRotationY = attackTransform.rotation.y;
-    
-    // 攻撃者の向きに対する相対角度
-    let relativeAngle = targetAngleXZ - attackerRotationY;
-    
-    // 角度を -π から π の範囲に正規化
-    while (relativeAngle > Math.PI) relativeAngle -= 2 * Math.PI;
-    while (relativeAngle < -Math.PI) relativeAngle += 2 * Math.PI;
-    
-    // 現在表示されている5度セグメントのうち、どれかに当たっているかチェック
-    const currentTime = Date.now();
-    const animationStartTime = (attackEntity as any).animationStartTime || currentTime;
-    const timeSinceStart = currentTime - animationStartTime;
-    
-    // 現在アクティブなセグメントを直接メッシュのフラグで確認（残影除外）
+
+    // 地面（GROUND_LEVELの平面）
+    if (options.hitGround && direction.y < 0) {
+      const groundLevel = GAME_CONFIG.MOVEMENT.GROUND_LEVEL;
+      const distance = (origin.y - radius - groundLevel) / -direction.y;
+      if (distance >= 0 && distance <= maxDistance && (!nearest || distance < nearest.distance)) {
+        const point = origin.clone().addScaledVector(direction, distance);
+        point.y = groundLevel;
+        nearest = { entity: null, point, normal: new THREE.Vector3(0, 1, 0), distance };
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * 形状と重なっているコライダーのエンティティ
+   */
+  public overlap(shape: Shape, options: CollisionQueryOptions = {}): Entity[] {
+    const layerMask = options.layerMask ?? 0xFFFF;
+    const bounds = NarrowPhase.getBounds(shape);
+
+    return (options.entities ?? this.getEntities()).filter(entity => {
+      const collider = entity.getComponent(Collider);
+      if (!collider || !entity.hasComponent(Transform)) return false;
+      if ((collider.layer & layerMask) === 0) return false;
+      if (collider.isTrigger && !options.includeTriggers) return false;
+      if (options.ignore?.includes(entity.id)) return false;
+
+      const other = this.getShape(entity);
+      return NarrowPhase.getBounds(other).intersectsBox(bounds) && NarrowPhase.intersect(shape, other) !== null;
+    });
+  }
+
+  /**
+   * 建物などの静的な環境のコライダーか
+   */
+  private isEnvironment(collider: Collider): boolean {
+    return (collider.layer & CollisionLayer.ENVIRONMENT) !== 0 &&
+      collider.type === ColliderType.BOX &&
+      !collider.isTrigger;
+  }
+
+  /**
+   * 扇形攻撃の衝突判定
+   * 表示中の1度のセグメントごとに刃を線分として、対象のコライダーの形状と交差するかを調べる
+   */
+  private checkFanAttackCollision(attackEntity: Entity, targetEntity: Entity): CollisionInfo | null {
+    const attackTransform = attackEntity.getComponent(Transform)!;
+    const fanInfo = (attackEntity as any).fanAttackInfo;
     const meshComponent = attackEntity.getComponent(MeshComponent);
-    if (!meshComponent || !meshComponent.mesh) return null;
-    
+    if (!fanInfo || !meshComponent || !meshComponent.mesh) return null;
+
+    // 刃の根元（攻撃者の足元から斬撃の高さ）と届く距離（エフェクトの半径）
+    const bladeRoot = attackTransform.position.clone();
+    bladeRoot.y += GAME_CONFIG.COLLISION.BLADE_HEIGHT;
+    const bladeLength = fanInfo.range * GAME_CONFIG.COLLISION.BLADE_REACH;
+    const targetShape = this.getShape(targetEntity);
+
+    // アクティブなセグメント（残影を除く）をすべて調べる（1フレームに複数のセグメントが進むため）
     const attackMesh = meshComponent.mesh as THREE.Group;
-    let activeSegmentIndex = -1;
-    let activeSegmentMesh: THREE.Mesh | null = null;
-    
-    // 全セグメントをチェックして、isActiveフラグがtrueのものを探す
+    const attackRotation = new THREE.Quaternion().setFromEuler(attackTransform.rotation);
     for (let i = 0; i < attackMesh.children.length; i++) {
       const segment = attackMesh.children[i] as THREE.Mesh;
-      if (segment.visible && (segment as any).isActive === true) {
-        activeSegmentIndex = i;
-        activeSegmentMesh = segment;
-        break; // 最初のアクティブセグメントのみ使用
-      }
-    }
-    
-    // アクティブなセグメントが見つからない場合は判定なし
-    if (activeSegmentIndex === -1 || !activeSegmentMesh) {
-      return null;
-    }
-    
-    const i = activeSegmentIndex;
-    // 各セグメントの角度範囲を計算
-    const segmentStartAngle = fanInfo.startAngle + (i * fanInfo.visualSegmentAngle) - attackerRotationY;
-    const segmentEndAngle = segmentStartAngle + fanInfo.visualSegmentAngle;
-    
-    // セグメント角度も正規化
-    let normalizedSegmentStart = segmentStartAngle;
-    let normalizedSegmentEnd = segmentEndAngle;
-    
-    while (normalizedSegmentStart > Math.PI) normalizedSegmentStart -= 2 * Math.PI;
-    while (normalizedSegmentStart < -Math.PI) normalizedSegmentStart += 2 * Math.PI;
-    while (normalizedSegmentEnd > Math.PI) normalizedSegmentEnd -= 2 * Math.PI;
-    while (normalizedSegmentEnd < -Math.PI) normalizedSegmentEnd += 2 * Math.PI;
-    
-    // ターゲットがこの1度セグメント内にいるかチェック
-    let isInSegment = false;
-    if (normalizedSegmentStart <= normalizedSegmentEnd) {
-      // 通常のケース
-      isInSegment = relativeAngle >= normalizedSegmentStart && relativeAngle <= normalizedSegmentEnd;
-    } else {
-      // -π/π境界をまたぐケース
-      isInSegment = relativeAngle >= normalizedSegmentStart || relativeAngle <= normalizedSegmentEnd;
-    }
-    
-    if (isInSegment) {
-      // 衝突点を計算
-      const hitPoint = targetPos.clone();
-      const normal = toTarget.clone().normalize();
-      
-      console.log(`🗡️ 扇形攻撃ヒット! アクティブセグメント${i}/120, 距離=${distance.toFixed(2)}, 角度=${(relativeAngle * 180 / Math.PI).toFixed(1)}度, セグメント範囲=${(normalizedSegmentStart * 180 / Math.PI).toFixed(1)}-${(normalizedSegmentEnd * 180 / Math.PI).toFixed(1)}度`);
-      
+      if (!segment.visible || (segment as any).isActive !== true) continue;
+
+      // セグメントの中心の角度（CircleGeometryの角度）をメッシュの向きと攻撃の向きでワールドの向きに変換
+      const angle = fanInfo.startAngle + (i + 0.5) * fanInfo.visualSegmentAngle;
+      const direction = new THREE.Vector3(Math.cos(angle), Math.sin(angle), 0)
+        .applyQuaternion(segment.quaternion)
+        .applyQuaternion(attackRotation);
+      const blade = NarrowPhase.capsule(bladeRoot, bladeRoot.clone().addScaledVector(direction, bladeLength), 0);
+
+      const contact = NarrowPhase.intersect(blade, targetShape);
+      if (!contact) continue;
+
+      console.log(`🗡️ 扇形攻撃ヒット! アクティブセグメント${i}/${attackMesh.children.length}, 距離=${bladeRoot.distanceTo(contact.point).toFixed(2)}`);
       return {
         entityA: attackEntity,
         entityB: targetEntity,
-        point: hitPoint,
-        normal: normal,
-        distance: distance
+        point: contact.point,
+        normal: contact.normal.negate(), // 刃から対象へ
+        distance: bladeRoot.distanceTo(contact.point)
       };
     }
-    
-    return null;
-  }
 
-  /**
-   * コライダーの半径を取得
-   */
-  private getColliderRadius(collider: Collider, transform: Transform): number {
-    switch (collider.type) {
-      case ColliderType.SPHERE:
-        return collider.size.x * Math.max(
-          transform.scale.x,
-          transform.scale.y,
-          transform.scale.z
-        );
-      case ColliderType.BOX:
-        // ボックスの場合は対角線の半分を概算
-        const size = collider.size.clone().multiply(transform.scale);
-        return size.length() * 0.5;
-      default:
-        return 1.0;
-    }
+    return null;
   }
 
   /**
    * 衝突処理
    */
   private handleCollision(collision: CollisionInfo): void {
-    const { entityA, entityB, point } = collision;
+    const { entityA, entityB, point, impact } = collision;
 
     // 弾丸とキャラクターの衝突
-    this.handleProjectileCharacterCollision(entityA, entityB, point);
-    this.handleProjectileCharacterCollision(entityB, entityA, point);
+    this.handleProjectileCharacterCollision(entityA, entityB, point, impact);
+    this.handleProjectileCharacterCollision(entityB, entityA, point, impact);
 
     // 攻撃エフェクトとキャラクターの衝突
     this.handleAttackEffectCharacterCollision(entityA, entityB, point);
@@ -279,6 +394,10 @@ export class CollisionSystem extends System {
 
     // 弾丸同士の衝突
     this.handleProjectileProjectileCollision(entityA, entityB, point);
+
+    // 弾丸と建物の衝突
+    this.handleProjectileEnvironmentCollision(entityA, entityB, point);
+    this.handleProjectileEnvironmentCollision(entityB, entityA, point);
   }
 
   /**
@@ -314,7 +433,7 @@ export class CollisionSystem extends System {
     // ダメージを与える
     const beforeTrion = character.stats.currentTrion;
     console.log(`🗡️ 近接攻撃ヒット! ${character.name} が ${finalDamage} ダメージを受けた (元値: ${attackInfo.damage})`);
-    character.takeDamage(finalDamage);
+    this.applyCharacterDamage(characterEntity, finalDamage, hitPoint, null, attackInfo.attackerEntity?.id ?? null);
     const afterTrion = character.stats.currentTrion;
     console.log(`💉 ${character.name}: トリオン ${beforeTrion} → ${afterTrion} (isDefeated: ${character.isDefeated()})`);
 
@@ -328,22 +447,76 @@ export class CollisionSystem extends System {
     }
   }
 
+  /**
+   * キャラクターにダメージを与える（部位判定あり）
+   * 弾道がどの部位にも当たらなかった場合はfalseを返す
+   */
+  private applyCharacterDamage(
+    characterEntity: Entity,
+    damage: number,
+    hitPoint: THREE.Vector3,
+    direction: THREE.Vector3 | null,
+    attackerId: number | null,
+    allowLethal: boolean = true
+  ): boolean {
+    const character = characterEntity.getComponent(Character)!;
+    const transform = characterEntity.getComponent(Transform);
+    const hitbox = characterEntity.getComponent(Hitbox);
+
+    // 撃破者の判定用に攻撃者を記録
+    if (attackerId !== null) {
+      character.lastAttackerId = attackerId;
+    }
+
+    // 部位判定を持たないキャラクターは従来通り
+    if (!hitbox || !transform) {
+      character.takeDamage(damage);
+      return true;
+    }
+
+    const zone = hitbox.resolveHit(transform, hitPoint, direction);
+    if (!zone) return false;
+
+    const result = hitbox.applyHit(zone.part, damage, allowLethal);
+    if (result.lethal) {
+      console.log(`🎯 ${character.name}: ${zone.part} を破壊（致命傷）`);
+      character.destroyTrionBody();
+    } else {
+      character.takeDamage(damage);
+    }
+    return true;
+  }
+
   /**
    * 弾丸とキャラクターの衝突処理
    */
   private handleProjectileCharacterCollision(
     projectileEntity: Entity,
     characterEntity: Entity,
-    hitPoint: THREE.Vector3
+    hitPoint: THREE.Vector3,
+    impact?: THREE.Vector3
   ): void {
     const projectile = projectileEntity.getComponent(Projectile);
     const character = characterEntity.getComponent(Character);
 
     if (!projectile || !character) return;
 
-    // ダメージを与える
+    // 貫通中の弾が同じキャラクターに何度も当たらないようにする
+    if (projectile.hitEntities.has(characterEntity.id)) return;
+
+    // 炸裂する弾（合成弾・爆撃弾）は着弾点で爆発
+    if (projectile.detonatesOnImpact()) {
+      projectile.hitEntities.add(characterEntity.id);
+      this.detonateProjectile(projectileEntity, hitPoint);
+      return;
+    }
+
+    // 弾道に沿って命中部位を判定してダメージを与える（どの部位にも当たらなければ素通り）
+    const direction = projectileEntity.getComponent(Velocity)?.linear ?? projectile.velocity;
+    const origin = impact ?? projectileEntity.getComponent(Transform)?.position ?? hitPoint; // 掃引判定で当たった位置から
+    if (!this.applyCharacterDamage(characterEntity, projectile.damage, origin, direction, projectile.owner)) return;
+    projectile.hitEntities.add(characterEntity.id);
     console.log(`Hit! ${character.name} takes ${projectile.damage} damage`);
-    character.takeDamage(projectile.damage);
 
     // ヒットエフェクトを生成
     this.createHitEffect(hitPoint, projectile.damage);
@@ -372,16 +545,30 @@ export class CollisionSystem extends System {
     const shield = shieldEntity.getComponent(Shield);
 
     if (!projectile || !shield || !shield.isActive) return;
+    if (projectile.hitEntities.has(shieldEntity.id)) return;
 
-    // シールドにダメージ
-    shield.takeDamage(projectile.damage);
-    console.log(`Shield hit! Durability: ${shield.currentDurability}/${shield.baseDurability}`);
-
-    // シールドヒットエフェクト
-    this.createShieldHitEffect(hitPoint);
-
-    // 弾を削除（シールドは貫通しない）
-    this.world?.removeEntity(projectileEntity);
+    // 炸裂する弾（合成弾・爆撃弾）はシールド表面で爆発
+    if (projectile.detonatesOnImpact()) {
+      shield.takeDamage(projectile.damage);
+      this.detonateProjectile(projectileEntity, hitPoint);
+    } else {
+      // シールドにダメージ
+      shield.takeDamage(projectile.damage);
+      console.log(`Shield hit! Durability: ${shield.currentDurability}/${shield.baseDurability}`);
+
+      // シールドヒットエフェクト
+      this.createShieldHitEffect(hitPoint);
+
+      if (projectile.type === ProjectileType.GIMLET) {
+        // ギムレットはシールドを貫通するが威力が落ちる
+        projectile.hitEntities.add(shieldEntity.id);
+        projectile.damage *= GAME_CONFIG.COMPOUND.GIMLET_SHIELD_PENETRATION;
+        console.log(`🔩 Gimlet pierced the shield (damage now ${projectile.damage.toFixed(1)})`);
+      } else {
+        // 弾を削除（シールドは貫通しない）
+        this.world?.removeEntity(projectileEntity);
+      }
+    }
 
     // シールドが破壊された場合
     if (shield.currentDurability <= 0) {
@@ -395,6 +582,127 @@ export class CollisionSystem extends System {
     }
   }
 
+  /**
+   * 弾丸と建物の衝突処理（建物は弾を通さず、炸裂する弾は壁面で爆発する）
+   * 爆発とアイビスの弾は建物を削る
+   */
+  private handleProjectileEnvironmentCollision(
+    projectileEntity: Entity,
+    environmentEntity: Entity,
+    hitPoint: THREE.Vector3
+  ): void {
+    const projectile = projectileEntity.getComponent(Projectile);
+    const collider = environmentEntity.getComponent(Collider);
+
+    if (!projectile || !collider || !this.isEnvironment(collider)) return;
+
+    if (projectile.detonatesOnImpact()) {
+      this.detonateProjectile(projectileEntity, hitPoint);
+      return;
+    }
+
+    const environment = this.world?.getSystem(EnvironmentSystem);
+    if (projectile.explosionRadius > 0) {
+      // メテオラは壁面で爆発する
+      console.log(`💥 ${projectile.type} exploded against a building (radius ${projectile.explosionRadius}m)`);
+      this.createExplosionEffect(hitPoint, projectile.explosionRadius);
+      this.world?.getSystem(PerceptionSystem)?.emitSound(
+        hitPoint,
+        GAME_CONFIG.PERCEPTION.EXPLOSION_RANGE,
+        projectile.team,
+        null
+      );
+      environment?.applyExplosion(hitPoint, projectile);
+    } else {
+      if (projectile.triggerType === TriggerType.IBIS) {
+        environment?.damageBuilding(environmentEntity, projectile.damage * GAME_CONFIG.DESTRUCTION.IBIS_CHIP_RATE);
+      }
+      this.createProjectileCollisionEffect(hitPoint);
+    }
+    this.world?.removeEntity(projectileEntity);
+  }
+
+  /**
+   * 弾丸を炸裂させる（範囲内の敵キャラクターと建物に距離減衰ダメージ）
+   */
+  public detonateProjectile(projectileEntity: Entity, position: THREE.Vector3): void {
+    const projectile = projectileEntity.getComponent(Projectile);
+    if (!projectile || !this.world) return;
+
+    console.log(`💥 ${projectile.type} detonated (radius ${projectile.explosionRadius}m)`);
+    this.createExplosionEffect(position, projectile.explosionRadius);
+    this.world.getSystem(PerceptionSystem)?.emitSound(
+      position,
+      GAME_CONFIG.PERCEPTION.EXPLOSION_RANGE,
+      projectile.team,
+      null
+    );
+    this.world.getSystem(EnvironmentSystem)?.applyExplosion(position, projectile);
+
+    for (const entity of this.world.getEntities()) {
+      const character = entity.getComponent(Character);
+      const transform = entity.getComponent(Transform);
+      if (!character || !transform || character.team === projectile.team || character.isDefeated()) continue;
+
+      // 胴体の中心で距離を測る
+      const center = transform.position.clone().add(new THREE.Vector3(0, 1, 0));
+      const distance = center.distanceTo(position);
+      if (distance > projectile.explosionRadius) continue;
+
+      const damage = projectile.getExplosionDamage(distance);
+      console.log(`Blast! ${character.name} takes ${damage.toFixed(1)} damage`);
+      this.applyCharacterDamage(entity, damage, position, null, projectile.owner, false);
+      this.createHitEffect(center, damage);
+
+      if (character.isDefeated()) {
+        console.log(`${character.name} has been eliminated!`);
+        this.handleCharacterDeath(entity);
+      }
+    }
+
+    this.world.removeEntity(projectileEntity);
+  }
+
+  /**
+   * 爆発エフェクトを生成
+   */
+  private createExplosionEffect(position: THREE.Vector3, radius: number): void {
+    const renderSystem = this.world?.getSystem(RenderSystem);
+    const scene = renderSystem?.getScene();
+    if (!scene) return;
+
+    const geometry = new THREE.SphereGeometry(radius, 16, 16);
+    const material = new THREE.MeshBasicMaterial({
+      color: 0xff6600,
+      transparent: true,
+      opacity: 0.7
+    });
+
+    const effect = new THREE.Mesh(geometry, material);
+    effect.position.copy(position);
+    effect.scale.setScalar(0.2);
+    scene.add(effect);
+
+    const effectId = `explosion_${Date.now()}_${Math.random()}`;
+    this.hitEffects.set(effectId, effect);
+
+    // 膨らみながらフェードアウト
+    const expand = () => {
+      material.opacity -= 0.04;
+      effect.scale.multiplyScalar(1.12);
+
+      if (material.opacity > 0) {
+        requestAnimationFrame(expand);
+      } else {
+        scene.remove(effect);
+        this.hitEffects.delete(effectId);
+        effect.geometry.dispose();
+        material.dispose();
+      }
+    };
+    expand();
+  }
+
   /**
    * 弾丸同士の衝突処理
    */
@@ -444,7 +752,7 @@ export class CollisionSystem extends System {
     this.hitEffects.set(effectId, effect);
 
     // 一定時間後に削除
-    setTimeout(() => {
+    this.world?.schedule(() => {
       scene.remove(effect);
       this.hitEffects.delete(effectId);
       effect.geometry.dispose();
@@ -538,73 +846,10 @@ export class CollisionSystem extends System {
   }
 
   /**
-   * キャラクター死亡処理
-   */
-  private handleCharacterDeath(entity: Entity): void {
-    const character = entity.getComponent(Character);
-    const transform = entity.getComponent(Transform);
-    
-    if (!character || !transform) return;
-
-    // 死亡エフェクト
-    this.createDeathEffect(transform.position);
-
-    // キャラクターを非表示に
-    const meshComponent = entity.getComponent(MeshComponent);
-    if (meshComponent) {
-      meshComponent.mesh.visible = false;
-    }
-
-    console.log(`🗑️ エンティティ ${entity.id} (${character.name}) を削除中...`);
-    
-    // 短い遅延後にエンティティを完全に削除
-    setTimeout(() => {
-      if (this.world) {
-        this.world.removeEntity(entity);
-        console.log(`✅ エンティティ ${entity.id} (${character.name}) を削除完了`);
-      }
-    }, 100); // 死亡エフェクトが始まってから削除
-  }
-
-  /**
-   * 死亡エフェクトを生成
+   * キャラクター死亡処理（緊急脱出に移行）
    */
-  private createDeathEffect(position: THREE.Vector3): void {
-    const renderSystem = this.world?.getSystem(RenderSystem);
-    const scene = renderSystem?.getScene();
-    if (!scene) return;
-
-    // 白い光のエフェクト
-    const geometry = new THREE.SphereGeometry(2, 16, 16);
-    const material = new THREE.MeshBasicMaterial({
-      color: 0xffffff,
-      transparent: true,
-      opacity: 1.0
-    });
-
-    const effect = new THREE.Mesh(geometry, material);
-    effect.position.copy(position);
-    effect.position.y += 1;
-    scene.add(effect);
-
-    const effectId = `death_${Date.now()}_${Math.random()}`;
-    this.hitEffects.set(effectId, effect);
-
-    // フェードアウトアニメーション
-    const fadeOut = () => {
-      material.opacity -= 0.02;
-      effect.position.y += 0.05;
-
-      if (material.opacity > 0) {
-        requestAnimationFrame(fadeOut);
-      } else {
-        scene.remove(effect);
-        this.hitEffects.delete(effectId);
-        effect.geometry.dispose();
-        material.dispose();
-      }
-    };
-    fadeOut();
+  public handleCharacterDeath(entity: Entity): void {
+    this.world?.getSystem(BailoutSystem)?.bailout(entity);
   }
 
   /**
@@ -0,0 +1,210 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Character } from '../components/Character';
+import { Input } from '../components/Input';
+import { Trigger } from '../components/Trigger';
+import { Projectile } from '../components/Projectile';
+import { Velocity } from '../components/Velocity';
+import { MeshComponent } from '../components/Mesh';
+import { ProjectileType } from '../components/Projectile';
+import { CompoundRecipe, CompoundBulletUtils } from '../triggers/CompoundBullets';
+import { RenderSystem } from './RenderSystem';
+import { ShootingSystem } from './ShootingSystem';
+import { ViperTrajectorySystem } from './ViperTrajectorySystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 合成中の状態
+ */
+interface CompoundCharge {
+  recipe: CompoundRecipe;
+  elapsed: number;
+  ready: boolean;
+  orb: THREE.Mesh;
+}
+
+/**
+ * 合成弾システム
+ * 両手に構えた弾トリガーを合成し、合成弾を発射する
+ */
+export class CompoundBulletSystem extends System {
+  private charges: Map<number, CompoundCharge> = new Map();
+
+  requiredComponents() {
+    return [Transform, Character, Input, Trigger];
+  }
+
+  update(deltaTime: number): void {
+    const entities = this.getEntities();
+
+    for (const entity of entities) {
+      const transform = entity.getComponent(Transform)!;
+      const character = entity.getComponent(Character)!;
+      const input = entity.getComponent(Input)!;
+      const trigger = entity.getComponent(Trigger)!;
+      const charge = this.charges.get(entity.id);
+
+      if (!charge) {
+        if (input.mergeCompound) {
+          this.startCharge(entity, character, trigger);
+        }
+        continue;
+      }
+
+      // 構えているトリガーが変わったら合成を中断
+      const recipe = CompoundBulletUtils.findRecipe(trigger.currentTrigger, trigger.leftCurrentTrigger);
+      if (recipe !== charge.recipe || character.isDefeated()) {
+        console.log(`🔮 ${charge.recipe.name}: 合成を中断`);
+        this.cancelCharge(entity.id);
+        continue;
+      }
+
+      // 合成中・合成完了後は両手が塞がるため通常の射撃は行わない
+      const firePressed = input.mainRightAction || input.mainLeftAction;
+      input.mainRightAction = false;
+      input.mainLeftAction = false;
+      input.isMainActionHeld = false;
+
+      if (!charge.ready) {
+        charge.elapsed += deltaTime;
+        if (charge.elapsed >= GAME_CONFIG.COMPOUND.CHARGE_TIME) {
+          charge.ready = true;
+          console.log(`🔮 ${charge.recipe.name}: 合成完了`);
+        }
+      } else if (firePressed) {
+        this.fireCompound(entity, transform, character, charge);
+        this.cancelCharge(entity.id);
+        continue;
+      }
+
+      this.updateOrb(transform, charge);
+    }
+  }
+
+  /**
+   * 合成を開始
+   */
+  private startCharge(entity: Entity, character: Character, trigger: Trigger): void {
+    const recipe = CompoundBulletUtils.findRecipe(trigger.currentTrigger, trigger.leftCurrentTrigger);
+    if (!recipe) {
+      console.log('🔮 合成できる組み合わせではありません');
+      return;
+    }
+
+    const trionCost = CompoundBulletUtils.calculateTrionCost(recipe);
+    if (character.stats.currentTrion < trionCost) {
+      console.log(`Insufficient trion for ${recipe.name}`);
+      return;
+    }
+    character.takeDamage(trionCost);
+
+    // 合成中のキューブ
+    const orb = new THREE.Mesh(
+      new THREE.SphereGeometry(0.25, 12, 12),
+      new THREE.MeshBasicMaterial({ color: recipe.color, transparent: true, opacity: 0.8 })
+    );
+    orb.scale.setScalar(0.1);
+    this.world?.getSystem(RenderSystem)?.getScene().add(orb);
+
+    this.charges.set(entity.id, { recipe, elapsed: 0, ready: false, orb });
+    console.log(`🔮 ${recipe.name}: 合成開始（トリオン ${trionCost.toFixed(1)} 消費）`);
+  }
+
+  /**
+   * 合成中キューブの表示を更新
+   */
+  private updateOrb(transform: Transform, charge: CompoundCharge): void {
+    const progress = Math.min(charge.elapsed / GAME_CONFIG.COMPOUND.CHARGE_TIME, 1);
+    const forward = new THREE.Vector3(0, 0, -1)
+      .applyAxisAngle(new THREE.Vector3(0, 1, 0), transform.rotation.y);
+
+    charge.orb.position.copy(transform.position)
+      .add(forward.multiplyScalar(1.0))
+      .add(new THREE.Vector3(0, 1.2, 0));
+    charge.orb.scale.setScalar(0.1 + progress * 0.9);
+  }
+
+  /**
+   * 合成弾を発射
+   */
+  private fireCompound(entity: Entity, transform: Transform, character: Character, charge: CompoundCharge): void {
+    const shootingSystem = this.world?.getSystem(ShootingSystem);
+    if (!shootingSystem) return;
+
+    const recipe = charge.recipe;
+    const projectileEntity = shootingSystem.fireProjectile(entity, transform, character, recipe.triggers[0], false);
+    if (!projectileEntity) return;
+
+    const velocity = projectileEntity.getComponent(Velocity)!;
+    const stats = CompoundBulletUtils.calculateStats(recipe, character);
+    velocity.linear.normalize().multiplyScalar(stats.speed);
+
+    // 合成弾として弾丸コンポーネントを置き換え
+    const compound = new Projectile(
+      recipe.result,
+      recipe.triggers[0],
+      velocity.linear,
+      stats.damage,
+      stats.range,
+      entity.id,
+      character.team
+    );
+    projectileEntity.removeComponent(Projectile);
+    projectileEntity.addComponent(Projectile, compound);
+
+    // 見た目を合成弾用に置き換え
+    projectileEntity.removeComponent(MeshComponent);
+    projectileEntity.addComponent(MeshComponent, new MeshComponent(this.createCompoundMesh(recipe)));
+
+    // トマホークはバイパーの弾道を引き継ぐ
+    if (recipe.result === ProjectileType.TOMAHAWK) {
+      this.world?.getSystem(ViperTrajectorySystem)?.assignTrajectory(entity, projectileEntity, 0, 1);
+    }
+
+    console.log(`🔮 ${recipe.name} fired: damage ${stats.damage.toFixed(1)}, speed ${stats.speed.toFixed(1)}`);
+  }
+
+  /**
+   * 合成弾のメッシュを作成
+   */
+  private createCompoundMesh(recipe: CompoundRecipe): THREE.Mesh {
+    const geometry = recipe.result === ProjectileType.GIMLET
+      ? new THREE.ConeGeometry(0.06, 0.4, 8)
+      : new THREE.SphereGeometry(0.15, 10, 10);
+    const material = new THREE.MeshBasicMaterial({
+      color: recipe.color,
+      transparent: true,
+      opacity: 1.0
+    });
+    return new THREE.Mesh(geometry, material);
+  }
+
+  /**
+   * 合成を中断
+   */
+  private cancelCharge(entityId: number): void {
+    const charge = this.charges.get(entityId);
+    if (!charge) return;
+
+    charge.orb.parent?.remove(charge.orb);
+    charge.orb.geometry.dispose();
+    (charge.orb.material as THREE.Material).dispose();
+    this.charges.delete(entityId);
+  }
+
+  /**
+   * 合成中か確認
+   */
+  isCharging(entityId: number): boolean {
+    return this.charges.has(entityId);
+  }
+
+  destroy(): void {
+    for (const entityId of [...this.charges.keys()]) {
+      this.cancelCharge(entityId);
+    }
+    super.destroy();
+  }
+}
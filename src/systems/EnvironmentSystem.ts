@@ -0,0 +1,179 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Collider } from '../components/Collider';
+import { MeshComponent } from '../components/Mesh';
+import { Projectile } from '../components/Projectile';
+import { Destructible } from '../components/Destructible';
+import { MapData, MapBuilding, MapSpawn } from '../maps/MapData';
+import { MapLoader } from '../maps/MapLoader';
+import { BATTLE_MAPS, DEFAULT_BATTLE_MAP } from '../maps/BattleMaps';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 環境システム
+ * 対戦マップの建物を配置し、移動範囲・初期位置などマップの情報を他のシステムに提供する
+ * 建物は爆発やアイビスで削れ、耐久力が尽きると瓦礫になる（ナビメッシュは環境の変化を検知して作り直される）
+ * 地形と照明はRenderSystemがこのマップをもとに作成する
+ */
+export class EnvironmentSystem extends System {
+  private map: MapData;
+  private buildings: Entity[] = [];
+  private buildingData: Map<number, MapBuilding> = new Map(); // エンティティID → 建物データ
+  private collapsed: Set<number> = new Set();
+  private debris: Entity[] = [];
+
+  constructor(map: MapData = BATTLE_MAPS[DEFAULT_BATTLE_MAP]) {
+    super();
+    this.map = map;
+  }
+
+  requiredComponents() {
+    return [Transform, Collider];
+  }
+
+  initialize(): void {
+    if (!this.world) return;
+
+    for (const problem of MapLoader.validate(this.map)) {
+      console.warn(`⚠️ マップ「${this.map.name}」: ${problem}`);
+    }
+
+    this.buildings = MapLoader.load(this.world, this.map);
+    this.buildings.forEach((building, index) => this.buildingData.set(building.id, this.map.buildings[index]));
+    console.log(`🏙️ マップ読み込み: ${this.map.name}（建物${this.buildings.length}棟、移動範囲±${this.map.bounds.halfExtent}m）`);
+  }
+
+  update(_deltaTime: number): void {
+    // 建物の損傷・崩壊は攻撃を受けたときに処理するため毎フレームの処理はない
+  }
+
+  /**
+   * 爆発で周囲の建物を削る（爆心から建物の表面までの距離で減衰する）
+   */
+  applyExplosion(position: THREE.Vector3, projectile: Projectile): void {
+    if (projectile.explosionRadius <= 0) return;
+
+    for (const building of this.getBuildings()) {
+      const distance = this.getBox(building).distanceToPoint(position);
+      if (distance > projectile.explosionRadius) continue;
+      this.damageBuilding(building, projectile.getExplosionDamage(distance));
+    }
+  }
+
+  /**
+   * 建物にダメージを与える（崩壊したらtrue）
+   */
+  damageBuilding(building: Entity, amount: number): boolean {
+    const destructible = building.getComponent(Destructible);
+    if (!destructible || this.collapsed.has(building.id)) return false;
+
+    if (destructible.takeDamage(amount)) {
+      this.collapse(building, false);
+      return true;
+    }
+
+    this.showDamage(building, destructible);
+    return false;
+  }
+
+  /**
+   * 現在のマップ
+   */
+  getMap(): MapData {
+    return this.map;
+  }
+
+  /**
+   * 移動できる範囲（中心から各辺までの距離）
+   */
+  getHalfExtent(): number {
+    return this.map.bounds.halfExtent;
+  }
+
+  /**
+   * 部隊の初期位置（マップで指定されていなければnull）
+   */
+  getSpawn(team: number): MapSpawn | null {
+    return this.map.spawns.find(spawn => spawn.team === team) ?? null;
+  }
+
+  /**
+   * 配置した建物のうち崩れていないもの
+   */
+  getBuildings(): Entity[] {
+    return this.buildings.filter(building => building.active && !this.collapsed.has(building.id));
+  }
+
+  /**
+   * 崩れた建物の瓦礫
+   */
+  getDebris(): Entity[] {
+    return this.debris.filter(debris => debris.active);
+  }
+
+  /**
+   * 建物を崩す（上に載っている建物も一緒に崩れ、瓦礫は一番下の建物の位置にまとめて残る）
+   */
+  private collapse(building: Entity, buried: boolean): void {
+    if (!this.world || this.collapsed.has(building.id)) return;
+
+    const data = this.buildingData.get(building.id)!;
+    const box = this.getBox(building);
+    this.collapsed.add(building.id);
+    this.world.removeEntity(building);
+
+    for (const other of this.getBuildings()) {
+      if (this.restsOn(this.getBox(other), box)) {
+        this.collapse(other, true);
+      }
+    }
+    for (const pile of this.debris.filter(pile => this.restsOn(this.getBox(pile), box))) {
+      this.world.removeEntity(pile);
+      this.debris.splice(this.debris.indexOf(pile), 1);
+    }
+
+    if (!buried) {
+      const debris = MapLoader.createBuilding(this.world, MapLoader.createDebris(data));
+      debris.addTag('debris');
+      this.debris.push(debris);
+    }
+    console.log(`🏚️ ${data.name ?? '建物'}が崩壊${buried ? '（下の建物とともに）' : ''}`);
+  }
+
+  /**
+   * upperがlowerの上面に載っているか
+   */
+  private restsOn(upper: THREE.Box3, lower: THREE.Box3): boolean {
+    return Math.abs(upper.min.y - lower.max.y) < 0.05 &&
+      upper.min.x < lower.max.x && upper.max.x > lower.min.x &&
+      upper.min.z < lower.max.z && upper.max.z > lower.min.z;
+  }
+
+  /**
+   * 損傷に応じて建物を暗くする
+   */
+  private showDamage(building: Entity, destructible: Destructible): void {
+    const mesh = building.getComponent(MeshComponent)?.mesh;
+    if (!(mesh instanceof THREE.Mesh) || !(mesh.material instanceof THREE.MeshStandardMaterial)) return;
+
+    const baseColor = new THREE.Color(this.buildingData.get(building.id)!.color);
+    mesh.material.color.copy(baseColor).multiplyScalar(1 - destructible.getDamageRatio() * GAME_CONFIG.DESTRUCTION.DAMAGE_DARKEN);
+  }
+
+  /**
+   * 建物のコライダーの箱（ワールド座標）
+   */
+  private getBox(building: Entity): THREE.Box3 {
+    return building.getComponent(Collider)!.getBoundingBox(building.getComponent(Transform)!.position);
+  }
+
+  destroy(): void {
+    this.buildings = [];
+    this.buildingData.clear();
+    this.collapsed.clear();
+    this.debris = [];
+    super.destroy();
+  }
+}
@@ -7,8 +7,11 @@ import { Input } from '../components/Input';
 import { Trigger } from '../components/Trigger';
 import { Velocity } from '../components/Velocity';
 import { MeshComponent } from '../components/Mesh';
+import { AI } from '../components/AI';
 import { TriggerType, TRIGGER_DEFINITIONS } from '../triggers/TriggerDefinitions';
 import { RenderSystem } from './RenderSystem';
+import { PerceptionSystem } from './PerceptionSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
 
 /**
  * グラスホッパー（空中移動）システム
@@ -51,6 +54,13 @@ export class GrasshopperSystem extends System {
     this.updateBlinkEffects(deltaTime);
   }
 
+  /**
+   * ブリンクできる状態か（クールダウンが明けているか）
+   */
+  isBlinkReady(entityId: number): boolean {
+    return (this.blinkCooldowns.get(entityId) || 0) <= 0;
+  }
+
   /**
    * グラスホッパーのアクション処理
    */
@@ -98,8 +108,8 @@ export class GrasshopperSystem extends System {
     // トリオンを消費
     character.takeDamage(definition.trionCost);
 
-    // ブリンク方向を決定
-    const blinkDirection = this.calculateBlinkDirection(input);
+    // ブリンク方向を決定（AIは自身の向きを基準にする）
+    const blinkDirection = this.calculateBlinkDirection(input, entity.hasComponent(AI));
     
     // ブリンク距離（トリオン量に応じて調整）
     const trionRatio = character.stats.currentTrion / character.stats.trionCapacity;
@@ -122,6 +132,14 @@ export class GrasshopperSystem extends System {
     // 到着エフェクト
     this.createBlinkEffect(blinkTarget.clone(), 0x88ff00);
 
+    // 跳躍音で周囲の敵に到着地点を知らせる
+    this.world?.getSystem(PerceptionSystem)?.emitSound(
+      blinkTarget,
+      GAME_CONFIG.PERCEPTION.BLINK_RANGE,
+      character.team,
+      entity.id
+    );
+
     // 少し浮遊させる（グラスホッパーの特徴）
     const velocity = entity.getComponent(Velocity);
     if (velocity) {
@@ -134,21 +152,21 @@ export class GrasshopperSystem extends System {
   /**
    * ブリンク方向を計算
    */
-  private calculateBlinkDirection(input: Input): THREE.Vector3 {
+  private calculateBlinkDirection(input: Input, aiControlled: boolean): THREE.Vector3 {
     const direction = new THREE.Vector3();
 
     // 入力がある場合は入力方向
     if (input.moveDirection.length() > 0.1) {
-      // カメラの向きを考慮した移動方向を計算
+      // カメラ（AIは視線）の向きを考慮した移動方向を計算
       const renderSystem = this.world?.getSystem(RenderSystem);
-      const cameraRotation = renderSystem?.getCameraRotation() || { x: 0, y: 0 };
+      const facingY = aiControlled ? input.lookDirection.x : renderSystem?.getCameraRotation().y ?? 0;
 
       // 前方と右方向ベクトルを計算
       const forward = new THREE.Vector3(0, 0, -1);
-      forward.applyAxisAngle(new THREE.Vector3(0, 1, 0), cameraRotation.y);
+      forward.applyAxisAngle(new THREE.Vector3(0, 1, 0), facingY);
 
       const right = new THREE.Vector3(1, 0, 0);
-      right.applyAxisAngle(new THREE.Vector3(0, 1, 0), cameraRotation.y);
+      right.applyAxisAngle(new THREE.Vector3(0, 1, 0), facingY);
 
       // 入力に基づいて方向を合成
       direction.addScaledVector(forward, input.moveDirection.y);
@@ -216,8 +234,9 @@ export class GrasshopperSystem extends System {
 
       // ランダムな方向に散らばる
       const angle = (i / particleCount) * Math.PI * 2;
-      const radius = 0.5 + Math.random() * 0.5;
-      const height = Math.random() * 1.0;
+      const random = this.world!.getRandom('effects');
+      const radius = 0.5 + random.next() * 0.5;
+      const height = random.next() * 1.0;
 
       const particlePos = position.clone();
       particlePos.x += Math.cos(angle) * radius;
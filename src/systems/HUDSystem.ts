@@ -5,13 +5,21 @@ import { Trigger } from '../components/Trigger';
 import { Transform } from '../components/Transform';
 import { Velocity } from '../components/Velocity';
 import { HUD } from '../ui/HUD';
+import { RadarSystem } from './RadarSystem';
+import { BailoutSystem } from './BailoutSystem';
+import { RankWarSystem } from './RankWarSystem';
+import { NeighborWaveSystem } from './NeighborWaveSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
 
 /**
  * HUDを管理するシステム
  */
 export class HUDSystem extends System {
+  public readonly runsOnRender: boolean = true;
   private hud: HUD;
   private playerEntity: Entity | null = null;
+  private playerTeam: number = 0; // 戦線離脱でエンティティが消えても使えるよう保持
+  private resultShown: boolean = false; // 試合結果を表示済みか
 
   constructor(container: HTMLElement) {
     super();
@@ -29,16 +37,21 @@ export class HUDSystem extends System {
       const players = this.world!.getEntitiesWithTag('player');
       if (players.length > 0) {
         this.playerEntity = players[0];
+        this.playerTeam = this.playerEntity.getComponent(Character)?.team ?? 0;
       }
     }
 
     if (!this.playerEntity) return;
 
+    // 試合状況はプレイヤーが戦線離脱した後も更新する
+    this.updateMatchState();
+
     const character = this.playerEntity.getComponent(Character);
     const trigger = this.playerEntity.getComponent(Trigger);
     const transform = this.playerEntity.getComponent(Transform);
     const velocity = this.playerEntity.getComponent(Velocity);
 
+    // 緊急脱出で戦線離脱したプレイヤーはワールドから削除されている
     if (!character) return;
 
     // キャラクター情報を更新
@@ -49,6 +62,24 @@ export class HUDSystem extends System {
       this.hud.updateTrigger(trigger);
     }
 
+    // レーダーを更新
+    const radarSystem = this.world!.getSystem(RadarSystem);
+    if (radarSystem && transform) {
+      this.hud.updateRadar(
+        radarSystem.getBlipsForTeam(this.playerTeam),
+        transform.position,
+        this.playerTeam,
+        trigger?.bagwormActive ?? false
+      );
+    }
+
+    // 緊急脱出の表示
+    const bailoutSystem = this.world!.getSystem(BailoutSystem);
+    this.hud.updateBailout(
+      bailoutSystem?.isBailingOut(this.playerEntity.id) ?? false,
+      bailoutSystem?.getReturnCountdown(this.playerEntity.id) ?? null
+    );
+
     // FPSを更新
     this.hud.updateFPS(deltaTime);
 
@@ -61,9 +92,57 @@ export class HUDSystem extends System {
         activeTriggerInfo?.name || ''
       );
     }
+  }
 
-    // 勝敗判定
-    this.checkGameState();
+  /**
+   * ランク戦では得点と制限時間、ネイバー遠征では防衛の成否で決着、それ以外は勝敗判定
+   */
+  private updateMatchState(): void {
+    const rankWarSystem = this.world!.getSystem(RankWarSystem);
+    const neighborWaveSystem = this.world!.getSystem(NeighborWaveSystem);
+    if (rankWarSystem) {
+      this.updateRankWar(rankWarSystem, this.playerTeam);
+    } else if (neighborWaveSystem) {
+      this.updateNeighborWaves(neighborWaveSystem);
+    } else {
+      this.checkGameState();
+    }
+  }
+
+  /**
+   * ネイバー遠征の防衛状況を更新
+   */
+  private updateNeighborWaves(neighborWaveSystem: NeighborWaveSystem): void {
+    this.hud.updateWaveStatus({
+      wave: neighborWaveSystem.getWave(),
+      totalWaves: GAME_CONFIG.NEIGHBOR.TOTAL_WAVES,
+      prepTime: neighborWaveSystem.getPrepTimeRemaining(),
+      remainingSoldiers: neighborWaveSystem.getRemainingSoldiers(),
+      territoryDamage: neighborWaveSystem.getTerritoryDamage(),
+      civiliansRemaining: neighborWaveSystem.getCiviliansRemaining(),
+      civilianCount: GAME_CONFIG.NEIGHBOR.CIVILIAN_COUNT
+    });
+
+    if (!neighborWaveSystem.isFinished() || this.resultShown) return;
+    this.resultShown = true;
+
+    if (neighborWaveSystem.isVictory()) {
+      this.hud.showVictory(`全${GAME_CONFIG.NEIGHBOR.TOTAL_WAVES}ウェーブを防衛（撃破${neighborWaveSystem.getDestroyedCount()}体）`);
+    } else {
+      this.hud.showDefeat(`市街地を守りきれなかった（被害${Math.floor(neighborWaveSystem.getTerritoryDamage())}%、連れ去られた市民${neighborWaveSystem.getCiviliansLost()}人）`);
+    }
+  }
+
+  /**
+   * ランク戦の試合状況を更新
+   */
+  private updateRankWar(rankWarSystem: RankWarSystem, playerTeam: number): void {
+    this.hud.updateMatchStatus(rankWarSystem.getRemainingTime(), rankWarSystem.getScores(), playerTeam);
+
+    if (rankWarSystem.isFinished() && !this.resultShown) {
+      this.resultShown = true;
+      this.hud.showStandings(rankWarSystem.getStandings(), playerTeam);
+    }
   }
 
   /**
@@ -72,11 +151,20 @@ export class HUDSystem extends System {
   private checkGameState(): void {
     if (!this.playerEntity) return;
 
+    // 緊急脱出の演出中・復帰待ちのキャラクターはまだ脱落扱いにしない
+    const bailoutSystem = this.world!.getSystem(BailoutSystem);
+
+    // プレイヤーが基地に到着して戦線離脱した場合
+    if (bailoutSystem?.isEliminated(this.playerEntity.id)) {
+      this.hud.showDefeat();
+      return;
+    }
+
     const playerCharacter = this.playerEntity.getComponent(Character);
     if (!playerCharacter) return;
 
     // プレイヤーが倒された場合
-    if (playerCharacter.isDefeated()) {
+    if (playerCharacter.isDefeated() && !bailoutSystem?.isBailingOut(this.playerEntity.id)) {
       this.hud.showDefeat();
       return;
     }
@@ -85,7 +173,7 @@ export class HUDSystem extends System {
     const enemies = this.world!.getEntitiesWithTag('enemy');
     const aliveEnemies = enemies.filter(enemy => {
       const character = enemy.getComponent(Character);
-      return character && !character.isDefeated();
+      return character && (!character.isDefeated() || bailoutSystem?.isBailingOut(enemy.id));
     });
 
     if (aliveEnemies.length === 0) {
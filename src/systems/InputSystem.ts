@@ -1,8 +1,10 @@
 import * as THREE from 'three';
 import { System } from '../ecs/System';
 import { Input } from '../components/Input';
+import { AI } from '../components/AI';
 import { RenderSystem } from './RenderSystem';
 import { ShootingSystem } from './ShootingSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
 
 /**
  * 入力を管理するシステム
@@ -82,6 +84,8 @@ export class InputSystem extends System {
     const renderSystem = this.world?.getSystem(RenderSystem);
 
     for (const entity of entities) {
+      // AIの入力はAISystemが書き込む（キーボードの入力を混ぜるとリプレイで再現できない）
+      if (entity.hasComponent(AI)) continue;
       const input = entity.getComponent(Input)!;
 
       // 移動入力
@@ -114,6 +118,15 @@ export class InputSystem extends System {
       // トリガーメニュー
       input.openTriggerMenu = this.isKeyJustPressed('tab');        // Tabキー（トリガーメニュー）
 
+      // 合成弾
+      input.mergeCompound = this.isMouseButtonJustPressed(1);      // 中クリック（両手の弾を合成）
+
+      // バイパー弾道作成
+      input.placeWaypoint = this.isKeyJustPressed('f');            // Fキー（経由点設置）
+      input.clearWaypoints = this.isKeyJustPressed('g');           // Gキー（経由点クリア）
+      input.trajectoryPresetKey = GAME_CONFIG.VIPER.PRESET_KEYS.find(key => this.isKeyJustPressed(key)) ?? null;
+      input.rebindTrajectoryPreset = input.trajectoryPresetKey !== null && this.shiftPressed;
+
       // 右手トリガー切り替え（1-4の数字キー）- 修飾キーなし
       input.triggerSlot = -1; // デフォルトはリセット
       if (!this.ctrlPressed && !this.shiftPressed) {
@@ -171,6 +184,11 @@ export class InputSystem extends System {
    * デバッグキーの処理
    */
   private handleDebugKeys(): void {
+    // Nキーでナビメッシュ表示切り替え
+    if (this.isKeyJustPressed('n')) {
+      this.world?.getSystem(RenderSystem)?.toggleNavMeshDebug();
+    }
+
     const shootingSystem = this.world?.getSystem(ShootingSystem);
     
     if (!shootingSystem) return;
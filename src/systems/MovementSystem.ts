@@ -4,18 +4,31 @@ import { Transform } from '../components/Transform';
 import { Velocity } from '../components/Velocity';
 import { Character } from '../components/Character';
 import { Input } from '../components/Input';
+import { Collider } from '../components/Collider';
 import { Projectile } from '../components/Projectile';
+import { SpiderWire } from '../components/SpiderWire';
+import { TrionSoldier } from '../components/TrionSoldier';
+import { AI } from '../components/AI';
+import { Entity } from '../ecs/Entity';
 import { RenderSystem } from './RenderSystem';
+import { EnvironmentSystem } from './EnvironmentSystem';
+import { CharacterController, ControllerObstacle } from '../physics/CharacterController';
 import { GAME_CONFIG } from '../config/GameConfig';
 
 /**
  * 移動を管理するシステム
+ * キャラクターはキャラクターコントローラーで建物に沿って動き、屋上に着地し、互いに押し合う
  */
 export class MovementSystem extends System {
   private gravity: number = GAME_CONFIG.MOVEMENT.GRAVITY;
   private jumpForce: number = GAME_CONFIG.MOVEMENT.JUMP_FORCE;
   private groundLevel: number = GAME_CONFIG.MOVEMENT.GROUND_LEVEL;
   private characterHeight: number = GAME_CONFIG.MOVEMENT.CHARACTER_HEIGHT;
+  private wireRiders: Set<number> = new Set(); // ワイヤー上を走っているエンティティ
+  private tripTimers: Map<number, number> = new Map(); // ワイヤーで転倒中の残り時間
+  private controller: CharacterController = new CharacterController(this.groundLevel);
+  private groundedEntities: Set<number> = new Set(); // 地面・屋上に立っているキャラクター
+  private obstacles: Map<number, ControllerObstacle> = new Map(); // 環境の形状（エンティティID → 形状）
 
   requiredComponents() {
     return [Transform, Velocity];
@@ -23,6 +36,7 @@ export class MovementSystem extends System {
 
   update(deltaTime: number): void {
     const entities = this.getEntities();
+    const obstacles = this.getObstacles();
 
     for (const entity of entities) {
       const transform = entity.getComponent(Transform)!;
@@ -30,20 +44,38 @@ export class MovementSystem extends System {
       const character = entity.getComponent(Character);
       const input = entity.getComponent(Input);
       const projectile = entity.getComponent(Projectile);
+      const controlled = !!character && !projectile;
+      const grounded = controlled ? this.groundedEntities.has(entity.id) : this.isGrounded(transform);
 
-      // 入力による移動処理
-      if (input && character) {
-        this.handleInput(input, velocity, transform, character);
+      // 転倒中は入力を受け付けない
+      const tripTime = this.tripTimers.get(entity.id) || 0;
+      if (tripTime > 0) {
+        this.tripTimers.set(entity.id, tripTime - deltaTime);
+        velocity.linear.x = 0;
+        velocity.linear.z = 0;
+      } else if (input && character) {
+        // 入力による移動処理
+        this.handleInput(input, velocity, transform, character, grounded || this.wireRiders.has(entity.id), entity.hasComponent(AI));
       }
 
-      // 重力を適用（弾丸以外で地面にいない場合）
-      if (!projectile && transform.position.y > this.groundLevel + 0.1) {
+      // ワイヤーによる減速・転倒・ワイヤー上の移動
+      if (character) {
+        this.applyWireEffects(entity, transform, velocity, character);
+      }
+
+      // 重力を適用（弾丸・飛行型トリオン兵以外で地面・屋上・ワイヤーにいない場合）
+      const flying = entity.getComponent(TrionSoldier)?.isFlying() ?? false;
+      if (!projectile && !flying && !this.wireRiders.has(entity.id) && !grounded) {
         velocity.linear.y += this.gravity * deltaTime;
       }
 
-      // 速度を位置に適用
+      // 速度を位置に適用（キャラクターは建物に沿って動く）
       const displacement = velocity.linear.clone().multiplyScalar(deltaTime);
-      transform.position.add(displacement);
+      if (controlled) {
+        this.moveCharacter(entity, transform, velocity, displacement, obstacles, grounded);
+      } else {
+        transform.position.add(displacement);
+      }
 
       // 回転を適用
       transform.rotation.x += velocity.angular.x * deltaTime;
@@ -56,6 +88,11 @@ export class MovementSystem extends System {
         velocity.linear.y = Math.max(0, velocity.linear.y);
       }
 
+      // ワイヤーへの着地判定
+      if (character) {
+        this.updateWireRiding(entity, transform, velocity, character);
+      }
+
       // アリーナの境界チェック（弾丸以外）
       if (!projectile) {
         this.checkArenaBounds(transform);
@@ -66,14 +103,128 @@ export class MovementSystem extends System {
         velocity.applyDamping(deltaTime);
       }
     }
+
+    // キャラクター同士の重なりを押し戻す
+    this.separateCharacters(entities, obstacles);
+  }
+
+  /**
+   * キャラクターコントローラーで移動し、接地状態を更新する
+   */
+  private moveCharacter(
+    entity: Entity,
+    transform: Transform,
+    velocity: Velocity,
+    displacement: THREE.Vector3,
+    obstacles: ControllerObstacle[],
+    wasGrounded: boolean
+  ): void {
+    const result = this.controller.move(
+      transform.position,
+      displacement,
+      CharacterController.getCapsule(entity),
+      obstacles,
+      wasGrounded
+    );
+    transform.position.copy(result.position);
+
+    if (result.grounded) {
+      this.groundedEntities.add(entity.id);
+      velocity.linear.y = Math.max(0, velocity.linear.y);
+    } else {
+      this.groundedEntities.delete(entity.id);
+    }
+    if (result.hitCeiling) {
+      velocity.linear.y = Math.min(0, velocity.linear.y);
+    }
+  }
+
+  /**
+   * 重なったキャラクターを水平に押し離す（押された先でも建物にはめり込まない）
+   */
+  private separateCharacters(entities: readonly Entity[], obstacles: ControllerObstacle[]): void {
+    const characters = entities.filter(entity => {
+      const character = entity.getComponent(Character);
+      return !!character && !character.isDefeated() && !entity.hasComponent(Projectile) && entity.hasComponent(Collider);
+    });
+
+    for (let i = 0; i < characters.length; i++) {
+      for (let j = i + 1; j < characters.length; j++) {
+        const positionA = characters[i].getComponent(Transform)!.position;
+        const positionB = characters[j].getComponent(Transform)!.position;
+        const capsuleA = CharacterController.getCapsule(characters[i]);
+        const capsuleB = CharacterController.getCapsule(characters[j]);
+
+        // 高さが重ならなければ（上を跳び越えているなど）押し合わない
+        if (positionA.y >= positionB.y + capsuleB.height || positionB.y >= positionA.y + capsuleA.height) continue;
+
+        const offset = new THREE.Vector3(positionB.x - positionA.x, 0, positionB.z - positionA.z);
+        const distance = offset.length();
+        const overlap = capsuleA.radius + capsuleB.radius - distance;
+        if (overlap <= 0) continue;
+
+        // 完全に重なっているときは決まった向きに押し離す
+        const direction = distance > 1e-4 ? offset.divideScalar(distance) : new THREE.Vector3(1, 0, 0);
+        const push = direction.multiplyScalar(overlap * GAME_CONFIG.CONTROLLER.PUSH_RATIO / 2);
+        this.pushCharacter(characters[i], push.clone().negate(), obstacles);
+        this.pushCharacter(characters[j], push, obstacles);
+      }
+    }
+  }
+
+  /**
+   * キャラクターを押す
+   */
+  private pushCharacter(entity: Entity, push: THREE.Vector3, obstacles: ControllerObstacle[]): void {
+    const transform = entity.getComponent(Transform)!;
+    const result = this.controller.move(
+      transform.position,
+      push,
+      CharacterController.getCapsule(entity),
+      obstacles,
+      this.groundedEntities.has(entity.id)
+    );
+    transform.position.copy(result.position);
+  }
+
+  /**
+   * キャラクターがぶつかる環境の形状（建物は動かないため作成した形状を使い回す）
+   */
+  private getObstacles(): ControllerObstacle[] {
+    const obstacles: ControllerObstacle[] = [];
+    const present = new Set<number>();
+
+    for (const entity of this.world?.getEntities() ?? []) {
+      if (!entity.active || entity.hasComponent(Velocity) || !entity.hasComponent(Collider)) continue;
+
+      let obstacle = this.obstacles.get(entity.id) ?? null;
+      if (!obstacle) {
+        obstacle = CharacterController.createObstacle(entity);
+        if (!obstacle) continue;
+        this.obstacles.set(entity.id, obstacle);
+      }
+      present.add(entity.id);
+      obstacles.push(obstacle);
+    }
+
+    for (const id of this.obstacles.keys()) {
+      if (!present.has(id)) this.obstacles.delete(id);
+    }
+    return obstacles;
   }
 
   private handleInput(
     input: Input,
     velocity: Velocity,
     transform: Transform,
-    character: Character
+    character: Character,
+    canJump: boolean = false,
+    aiControlled: boolean = false
   ): void {
+    // AIはカメラではなく自身の視線（lookDirection.x）を基準に移動・旋回する
+    const renderSystem = this.world?.getSystem(RenderSystem);
+    const facingY = aiControlled ? input.lookDirection.x : renderSystem?.getCameraRotation().y ?? 0;
+
     // 移動入力がある場合のみ処理
     if (input.hasMovement()) {
       // 移動速度を計算
@@ -81,17 +232,13 @@ export class MovementSystem extends System {
         character.getDashSpeed() : 
         character.getMoveSpeed();
 
-      // カメラ相対の移動方向を計算
-      const renderSystem = this.world?.getSystem(RenderSystem);
-      const cameraRotation = renderSystem?.getCameraRotation() || { x: 0, y: 0 };
-
       // エイミングモード時は移動速度を60%に減少
-      if (renderSystem?.isAimingModeActive()) {
+      if (!aiControlled && renderSystem?.isAimingModeActive()) {
         moveSpeed *= 0.6;
       }
 
       // スコープモード時は移動速度を40%に減少（より大きな制限）
-      if (renderSystem?.isScopeModeActive()) {
+      if (!aiControlled && renderSystem?.isScopeModeActive()) {
         moveSpeed *= 0.4;
       }
       
@@ -100,8 +247,8 @@ export class MovementSystem extends System {
       const cameraRight = new THREE.Vector3(1, 0, 0);    // カメラの右方向
       
       // カメラのY軸回転を適用
-      cameraForward.applyAxisAngle(new THREE.Vector3(0, 1, 0), cameraRotation.y);
-      cameraRight.applyAxisAngle(new THREE.Vector3(0, 1, 0), cameraRotation.y);
+      cameraForward.applyAxisAngle(new THREE.Vector3(0, 1, 0), facingY);
+      cameraRight.applyAxisAngle(new THREE.Vector3(0, 1, 0), facingY);
       
       // 入力に基づいて移動方向を計算
       const moveDirection = new THREE.Vector3();
@@ -122,24 +269,125 @@ export class MovementSystem extends System {
     }
 
     // ジャンプ処理
-    if (input.jump && this.isGrounded(transform)) {
-      velocity.linear.y = this.jumpForce;
+    if (input.jump && canJump) {
+      velocity.linear.y = this.jumpForce * character.mobilityMultiplier; // 脚の欠損でジャンプ力も低下
     }
 
-    // プレイヤーをカメラの水平方向に向ける（垂直方向は除外）
-    const renderSystem = this.world?.getSystem(RenderSystem);
-    if (renderSystem) {
-      const cameraRotation = renderSystem.getCameraRotation();
-      transform.rotation.y = cameraRotation.y;
+    // カメラ（AIは視線）の水平方向に向ける（垂直方向は除外）
+    if (renderSystem || aiControlled) {
+      transform.rotation.y = facingY;
+    }
+  }
+
+  /**
+   * ワイヤーとの接触による減速・転倒を適用
+   * 味方のワイヤー上ではワイヤー方向に沿って移動する
+   */
+  private applyWireEffects(
+    entity: Entity,
+    transform: Transform,
+    velocity: Velocity,
+    character: Character
+  ): void {
+    const config = GAME_CONFIG.SPIDER;
+
+    for (const wireEntity of this.getWires()) {
+      const wire = wireEntity.getComponent(SpiderWire)!;
+
+      // 味方のワイヤー上を走る：水平速度をワイヤー方向に射影
+      if (this.wireRiders.has(entity.id) && wire.team === character.team &&
+          this.isOnWire(wire, transform.position)) {
+        const direction = wire.getDirection();
+        const along = velocity.linear.x * direction.x + velocity.linear.z * direction.z;
+        velocity.linear.x = direction.x * along;
+        velocity.linear.z = direction.z * along;
+        continue;
+      }
+
+      // 敵のワイヤーは足元の高さで引っかかる
+      if (wire.team === character.team) continue;
+
+      const closest = wire.closestPointTo(transform.position);
+      const height = closest.y - transform.position.y;
+      const horizontal = Math.hypot(
+        closest.x - transform.position.x,
+        closest.z - transform.position.z
+      );
+      if (height < 0 || height > config.LEG_HEIGHT || horizontal > config.WIRE_RADIUS) continue;
+
+      const speed = Math.hypot(velocity.linear.x, velocity.linear.z);
+      if (speed > character.getMoveSpeed() * config.TRIP_SPEED_RATIO) {
+        // 高速で突っ込むと転倒
+        if (!this.tripTimers.has(entity.id) || this.tripTimers.get(entity.id)! <= 0) {
+          console.log(`🕸️ ${character.name} tripped on a spider wire`);
+        }
+        this.tripTimers.set(entity.id, config.TRIP_DURATION);
+        velocity.linear.x = 0;
+        velocity.linear.z = 0;
+      } else {
+        // 通常速度では減速
+        velocity.linear.x *= config.SLOW_FACTOR;
+        velocity.linear.z *= config.SLOW_FACTOR;
+      }
+    }
+  }
+
+  /**
+   * 味方のワイヤーへの着地・離脱を更新
+   */
+  private updateWireRiding(
+    entity: Entity,
+    transform: Transform,
+    velocity: Velocity,
+    character: Character
+  ): void {
+    // 上昇中（ジャンプ中）はワイヤーから離れる
+    if (velocity.linear.y > 0) {
+      this.wireRiders.delete(entity.id);
+      return;
     }
+
+    for (const wireEntity of this.getWires()) {
+      const wire = wireEntity.getComponent(SpiderWire)!;
+      if (wire.team !== character.team || !this.isOnWire(wire, transform.position)) continue;
+
+      const closest = wire.closestPointTo(transform.position);
+      transform.position.y = closest.y;
+      velocity.linear.y = 0;
+      this.wireRiders.add(entity.id);
+      return;
+    }
+
+    this.wireRiders.delete(entity.id);
+  }
+
+  /**
+   * 足元がワイヤー上にあるか判定
+   */
+  private isOnWire(wire: SpiderWire, position: THREE.Vector3): boolean {
+    const closest = wire.closestPointTo(position);
+    const horizontal = Math.hypot(closest.x - position.x, closest.z - position.z);
+    const height = position.y - closest.y;
+    return horizontal <= GAME_CONFIG.SPIDER.WIRE_RADIUS && height >= -0.3 && height <= 0.3 &&
+      closest.y > this.groundLevel + 0.1;
+  }
+
+  /**
+   * ワイヤーエンティティを取得
+   */
+  private getWires(): Entity[] {
+    return this.world?.getEntitiesWithTag('wire').filter(wire => wire.hasComponent(SpiderWire)) || [];
   }
 
+  /**
+   * 地面に立っているか（コントローラーで動かないエンティティ用）
+   */
   private isGrounded(transform: Transform): boolean {
     return Math.abs(transform.position.y - this.groundLevel) < 0.1;
   }
 
   private checkArenaBounds(transform: Transform): void {
-    const bounds = GAME_CONFIG.MOVEMENT.ARENA_BOUNDS;
+    const bounds = this.world?.getSystem(EnvironmentSystem)?.getHalfExtent() ?? GAME_CONFIG.MOVEMENT.ARENA_BOUNDS;
     
     // X軸の境界
     if (Math.abs(transform.position.x) > bounds) {
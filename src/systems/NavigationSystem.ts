@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Collider, CollisionLayer } from '../components/Collider';
+import { Velocity } from '../components/Velocity';
+import { Character } from '../components/Character';
+import { NavMesh } from '../ai/NavMesh';
+import { EnvironmentSystem } from './EnvironmentSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * ナビゲーションシステム
+ * 静的な環境コライダー（ENVIRONMENTレイヤーで速度を持たないもの）からナビメッシュを構築し、
+ * 環境が変わったときは作り直す
+ */
+export class NavigationSystem extends System {
+  private navMesh: NavMesh | null = null;
+  private obstacleSignature: string | null = null;
+  private version: number = 0;
+
+  requiredComponents() {
+    return [Transform, Collider];
+  }
+
+  update(_deltaTime: number): void {
+    // レベルの読み込み後（最初の更新）と、静的な環境が増減・移動したときに構築する
+    const obstacles = this.getStaticObstacles();
+    const signature = obstacles
+      .map(entity => `${entity.id}:${entity.getComponent(Transform)!.position.toArray().join(',')}`)
+      .join('|');
+
+    if (signature !== this.obstacleSignature) {
+      this.obstacleSignature = signature;
+      this.buildNavMesh(obstacles);
+    }
+  }
+
+  /**
+   * ナビメッシュを強制的に作り直す
+   */
+  rebuild(): void {
+    this.obstacleSignature = null;
+  }
+
+  /**
+   * 現在のナビメッシュ（最初の更新までは未構築）
+   */
+  getNavMesh(): NavMesh | null {
+    return this.navMesh;
+  }
+
+  /**
+   * ナビメッシュの更新回数（デバッグ表示の更新判定用）
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * 周囲のキャラクターから離れる方向（局所回避、水平方向のみ）
+   */
+  getAvoidance(entity: Entity, position: THREE.Vector3): THREE.Vector3 {
+    const avoidance = new THREE.Vector3();
+    if (!this.world) return avoidance;
+
+    const radius = GAME_CONFIG.NAVIGATION.AVOIDANCE_RADIUS;
+    for (const other of this.world.getEntities()) {
+      if (other === entity || !other.active || !other.hasComponent(Character)) continue;
+
+      const offset = position.clone().sub(other.getComponent(Transform)!.position).setY(0);
+      const distance = offset.length();
+      if (distance >= radius || distance < 0.001) continue;
+
+      // 近いほど強く押し返す
+      avoidance.addScaledVector(offset.normalize(), (radius - distance) / radius);
+    }
+
+    return avoidance;
+  }
+
+  /**
+   * ナビメッシュを構築
+   */
+  private buildNavMesh(obstacles: Entity[]): void {
+    const boxes = obstacles.map(entity => {
+      const collider = entity.getComponent(Collider)!;
+      return collider.getBoundingBox(entity.getComponent(Transform)!.position);
+    });
+
+    const halfExtent = this.world?.getSystem(EnvironmentSystem)?.getHalfExtent() ?? GAME_CONFIG.MOVEMENT.ARENA_BOUNDS;
+    this.navMesh = NavMesh.build(boxes, halfExtent);
+    this.version++;
+
+    const raised = this.navMesh.cells.filter(cell => cell.height > GAME_CONFIG.MOVEMENT.GROUND_LEVEL).length;
+    console.log(`🧭 ナビメッシュ構築: ${this.navMesh.cells.length}セル（障害物${boxes.length}個、高所${raised}セル）`);
+  }
+
+  /**
+   * 静的な環境コライダーを持つエンティティ
+   */
+  private getStaticObstacles(): Entity[] {
+    return this.getEntities().filter(entity => {
+      const collider = entity.getComponent(Collider)!;
+      return (collider.layer & CollisionLayer.ENVIRONMENT) !== 0 &&
+        !collider.isTrigger &&
+        !entity.hasComponent(Velocity);
+    });
+  }
+}
@@ -0,0 +1,427 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { MeshComponent } from '../components/Mesh';
+import { Character, CharacterType, CHARACTER_PRESETS } from '../components/Character';
+import { Velocity } from '../components/Velocity';
+import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
+import { TrionSoldier, TrionSoldierType, TRION_SOLDIER_DEFINITIONS } from '../components/TrionSoldier';
+import { TrionSoldierMeshBuilder } from '../utils/TrionSoldierMeshBuilder';
+import { RenderSystem } from './RenderSystem';
+import { BailoutSystem } from './BailoutSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * ネイバー遠征（防衛戦）の進行段階
+ */
+export enum WavePhase {
+  PREPARING = 'preparing', // 次のウェーブまでの準備時間
+  SPAWNING = 'spawning',   // ゲートからトリオン兵が出現中
+  FIGHTING = 'fighting',   // 出現完了、残りのトリオン兵と交戦中
+  CLEARED = 'cleared',     // 全ウェーブを防衛
+  FAILED = 'failed'        // 市街地が壊滅、または市民を奪われた
+}
+
+/**
+ * 出現待ちのトリオン兵
+ */
+interface SpawnOrder {
+  type: TrionSoldierType;
+  gateIndex: number;
+}
+
+/**
+ * ネイバー遠征（防衛戦）システム
+ * ゲートからトリオン兵のウェーブを出現させ、市街地の被害と市民の捕獲を管理する
+ */
+export class NeighborWaveSystem extends System {
+  private phase: WavePhase = WavePhase.PREPARING;
+  private wave: number = 0;
+  private phaseTimer: number = GAME_CONFIG.NEIGHBOR.WAVE_INTERVAL;
+  private spawnQueue: SpawnOrder[] = [];
+  private territoryDamage: number = 0; // 市街地の被害（%）
+  private civiliansLost: number = 0;   // ゲートの向こうへ連れ去られた市民
+  private destroyedCount: number = 0;
+  private carriers: Map<number, number> = new Map(); // バムスターID → 捕獲中の市民数
+  private escaped: Set<number> = new Set();          // ゲートから帰還したトリオン兵
+  private trackedSoldiers: Set<number> = new Set();  // 前フレームに存在したトリオン兵
+  private gateMeshes: THREE.Group[] = [];
+  private districtMesh: THREE.Mesh | null = null;
+
+  requiredComponents() {
+    return [TrionSoldier, Transform, Character];
+  }
+
+  initialize(): void {
+    // 防衛戦では緊急脱出した隊員も基地から戦線に復帰できる
+    this.world?.getSystem(BailoutSystem)?.setRules({ allowReturn: true });
+  }
+
+  update(deltaTime: number): void {
+    if (this.isFinished()) return;
+
+    this.ensureScenery();
+    this.trackDestroyedSoldiers();
+
+    switch (this.phase) {
+      case WavePhase.PREPARING:
+        this.phaseTimer -= deltaTime;
+        if (this.phaseTimer <= 0) {
+          this.startWave(this.wave + 1);
+        }
+        break;
+
+      case WavePhase.SPAWNING:
+        this.phaseTimer -= deltaTime;
+        if (this.phaseTimer <= 0) {
+          this.spawnSoldier(this.spawnQueue.shift()!);
+          this.phaseTimer = GAME_CONFIG.NEIGHBOR.SPAWN_INTERVAL;
+          if (this.spawnQueue.length === 0) {
+            this.phase = WavePhase.FIGHTING;
+            this.setGatesOpen(false);
+          }
+        }
+        break;
+
+      case WavePhase.FIGHTING:
+        if (this.getEntities().length === 0) {
+          this.completeWave();
+        }
+        break;
+    }
+
+    for (const entity of this.getEntities()) {
+      this.updateSoldier(entity, deltaTime);
+    }
+
+    this.checkFailure();
+  }
+
+  /**
+   * ウェーブを開始（ゲートを開いて出現順を決める）
+   */
+  private startWave(wave: number): void {
+    this.wave = wave;
+    this.phase = WavePhase.SPAWNING;
+    this.phaseTimer = GAME_CONFIG.NEIGHBOR.GATE_OPEN_DURATION;
+
+    const gateCount = GAME_CONFIG.NEIGHBOR.GATE_POSITIONS.length;
+    this.spawnQueue = NeighborWaveSystem.composeWave(wave).map((type, index) => ({
+      type,
+      gateIndex: index % gateCount
+    }));
+
+    this.setGatesOpen(true);
+    console.log(`🌀 ウェーブ${wave}: ゲート発生（トリオン兵${this.spawnQueue.length}体）`);
+  }
+
+  /**
+   * ウェーブを防衛
+   */
+  private completeWave(): void {
+    console.log(`🛡️ ウェーブ${this.wave} 防衛成功`);
+
+    if (this.wave >= GAME_CONFIG.NEIGHBOR.TOTAL_WAVES) {
+      this.phase = WavePhase.CLEARED;
+      console.log('🏆 ネイバーの侵攻を退けた');
+      return;
+    }
+
+    this.phase = WavePhase.PREPARING;
+    this.phaseTimer = GAME_CONFIG.NEIGHBOR.WAVE_INTERVAL;
+  }
+
+  /**
+   * ウェーブの編成（後のウェーブほど数が増え、上位の種類が加わる）
+   */
+  static composeWave(wave: number): TrionSoldierType[] {
+    const config = GAME_CONFIG.NEIGHBOR;
+    const total = config.BASE_WAVE_SIZE + (wave - 1) * config.WAVE_SIZE_GROWTH;
+
+    const bamsters = 1 + Math.floor(wave / 3);
+    const rados = wave >= 2 ? 1 + Math.floor(wave / 4) : 0;
+    const bandos = wave >= 3 ? wave - 2 : 0;
+    const mods = Math.max(1, total - bamsters - rados - bandos);
+
+    return [
+      ...Array(bamsters).fill(TrionSoldierType.BAMSTER),
+      ...Array(mods).fill(TrionSoldierType.MOD),
+      ...Array(rados).fill(TrionSoldierType.RADO),
+      ...Array(bandos).fill(TrionSoldierType.BANDO)
+    ];
+  }
+
+  /**
+   * ゲートからトリオン兵を出現させる
+   */
+  private spawnSoldier(order: SpawnOrder): Entity | null {
+    if (!this.world) return null;
+
+    const definition = TRION_SOLDIER_DEFINITIONS[order.type];
+    const gate = GAME_CONFIG.NEIGHBOR.GATE_POSITIONS[order.gateIndex];
+    const district = GAME_CONFIG.NEIGHBOR.DISTRICT_CENTER;
+    const entity = this.world.createEntity();
+
+    // ゲートの周囲に出現し、市街地の方を向く
+    const random = this.world.getRandom('spawn');
+    const position = new THREE.Vector3(
+      gate.x + (random.next() - 0.5) * 2,
+      definition.flying ? GAME_CONFIG.NEIGHBOR.BANDO_ALTITUDE : 0,
+      gate.z + (random.next() - 0.5) * 2
+    );
+    const rotationY = Math.atan2(-(district.x - gate.x), -(district.z - gate.z));
+    entity.addComponent(Transform, new Transform(
+      position,
+      new THREE.Euler(0, rotationY, 0),
+      new THREE.Vector3(1, 1, 1)
+    ));
+
+    entity.addComponent(MeshComponent, new MeshComponent(TrionSoldierMeshBuilder.createMesh(order.type)));
+
+    const preset = CHARACTER_PRESETS[CharacterType.TRION_SOLDIER];
+    entity.addComponent(Character, new Character(
+      definition.name,
+      CharacterType.TRION_SOLDIER,
+      preset.class,
+      {
+        trionCapacity: definition.trionCapacity,
+        currentTrion: definition.trionCapacity,
+        mobility: definition.mobility
+      },
+      GAME_CONFIG.NEIGHBOR.TEAM
+    ));
+
+    entity.addComponent(Velocity, new Velocity());
+    entity.addComponent(Collider, new Collider(
+      ColliderType.CAPSULE,
+      definition.colliderSize.clone(),
+      CollisionLayer.ENEMY
+    ));
+    entity.addComponent(TrionSoldier, new TrionSoldier(order.type, order.gateIndex));
+
+    entity.addTag('neighbor');
+    entity.addTag('enemy');
+    this.trackedSoldiers.add(entity.id); // 出現した刻みに撃破されても集計する
+
+    console.log(`👾 ${definition.name} 出現（ゲート${order.gateIndex + 1}）`);
+    return entity;
+  }
+
+  /**
+   * 市街地への侵入・捕獲・帰還を処理
+   */
+  private updateSoldier(entity: Entity, deltaTime: number): void {
+    const soldier = entity.getComponent(TrionSoldier)!;
+    const transform = entity.getComponent(Transform)!;
+    if (entity.getComponent(Character)!.isDefeated()) return;
+
+    const config = GAME_CONFIG.NEIGHBOR;
+
+    // 市民を満載した（または捕獲できる市民がいなくなった）バムスターはゲートへ戻る
+    if (soldier.isFull() || (soldier.captured > 0 && this.getCiviliansRemaining() === 0)) {
+      soldier.returning = true;
+    }
+    if (soldier.returning) {
+      const gate = config.GATE_POSITIONS[soldier.gateIndex];
+      if (Math.hypot(transform.position.x - gate.x, transform.position.z - gate.z) < 2) {
+        this.escape(entity, soldier);
+      }
+      return;
+    }
+
+    if (!NeighborWaveSystem.isInDistrict(transform.position)) return;
+
+    if (soldier.definition.captureCapacity > 0) {
+      // バムスター：市民を捕獲
+      soldier.captureTimer += deltaTime;
+      if (soldier.captureTimer >= config.CAPTURE_TIME && this.getCiviliansRemaining() > 0) {
+        soldier.captureTimer = 0;
+        soldier.captured++;
+        this.carriers.set(entity.id, soldier.captured);
+        console.log(`😱 ${soldier.definition.name}が市民を捕獲（${soldier.captured}/${soldier.definition.captureCapacity}）`);
+      }
+    } else if (!soldier.isFlying()) {
+      // 地上のトリオン兵は市街地を破壊する
+      this.addTerritoryDamage(config.TERRITORY_DAMAGE_RATE * deltaTime);
+    }
+  }
+
+  /**
+   * トリオン兵がゲートの向こうへ帰還（捕獲された市民は失われる）
+   */
+  private escape(entity: Entity, soldier: TrionSoldier): void {
+    this.civiliansLost += soldier.captured;
+    this.carriers.delete(entity.id);
+    this.escaped.add(entity.id);
+    console.log(`🌀 ${soldier.definition.name}が市民${soldier.captured}人を連れ去った`);
+    this.world?.removeEntity(entity);
+  }
+
+  /**
+   * 撃破されたトリオン兵を集計（捕獲中の市民は救出される）
+   */
+  private trackDestroyedSoldiers(): void {
+    if (!this.world) return;
+
+    for (const [id, captured] of [...this.carriers]) {
+      if (this.world.getEntityById(id)) continue;
+      this.carriers.delete(id);
+      console.log(`🙌 市民${captured}人を救出`);
+    }
+
+    const aliveIds = new Set(this.getEntities().map(entity => entity.id));
+    for (const id of this.trackedSoldiers) {
+      if (aliveIds.has(id)) continue;
+      this.trackedSoldiers.delete(id);
+      if (!this.escaped.delete(id)) {
+        this.destroyedCount++;
+      }
+    }
+    for (const id of aliveIds) {
+      this.trackedSoldiers.add(id);
+    }
+  }
+
+  /**
+   * 爆撃の着弾を記録（BandoのBOMB弾から呼ばれる）
+   */
+  reportBombImpact(position: THREE.Vector3): void {
+    if (NeighborWaveSystem.isInDistrict(position)) {
+      this.addTerritoryDamage(GAME_CONFIG.NEIGHBOR.BOMB_TERRITORY_DAMAGE);
+    }
+  }
+
+  private addTerritoryDamage(amount: number): void {
+    this.territoryDamage = Math.min(100, this.territoryDamage + amount);
+  }
+
+  /**
+   * 防衛失敗の判定
+   */
+  private checkFailure(): void {
+    if (this.territoryDamage >= 100 || this.civiliansLost >= GAME_CONFIG.NEIGHBOR.CIVILIAN_COUNT) {
+      this.phase = WavePhase.FAILED;
+      console.log(`💀 防衛失敗（被害${this.territoryDamage.toFixed(0)}%、連れ去られた市民${this.civiliansLost}人）`);
+    }
+  }
+
+  /**
+   * 位置が市街地の中か
+   */
+  static isInDistrict(position: THREE.Vector3): boolean {
+    const district = GAME_CONFIG.NEIGHBOR.DISTRICT_CENTER;
+    return Math.hypot(position.x - district.x, position.z - district.z) <= GAME_CONFIG.NEIGHBOR.DISTRICT_RADIUS;
+  }
+
+  /**
+   * ゲートと市街地の表示を作成
+   */
+  private ensureScenery(): void {
+    if (this.districtMesh) return;
+
+    const scene = this.world?.getSystem(RenderSystem)?.getScene();
+    if (!scene) return;
+
+    const district = GAME_CONFIG.NEIGHBOR.DISTRICT_CENTER;
+    this.districtMesh = new THREE.Mesh(
+      new THREE.CircleGeometry(GAME_CONFIG.NEIGHBOR.DISTRICT_RADIUS, 32),
+      new THREE.MeshBasicMaterial({ color: 0x44aaff, transparent: true, opacity: 0.25 })
+    );
+    this.districtMesh.rotation.x = -Math.PI / 2;
+    this.districtMesh.position.set(district.x, 0.02, district.z);
+    scene.add(this.districtMesh);
+
+    for (const gate of GAME_CONFIG.NEIGHBOR.GATE_POSITIONS) {
+      const group = new THREE.Group();
+      const core = new THREE.Mesh(
+        new THREE.SphereGeometry(1.8, 16, 16),
+        new THREE.MeshBasicMaterial({ color: 0x000000 })
+      );
+      const ring = new THREE.Mesh(
+        new THREE.TorusGeometry(2.0, 0.15, 8, 32),
+        new THREE.MeshBasicMaterial({ color: 0x8844ff })
+      );
+      group.add(core);
+      group.add(ring);
+      group.position.set(gate.x, 2.5, gate.z);
+      group.visible = false;
+      scene.add(group);
+      this.gateMeshes.push(group);
+    }
+  }
+
+  private setGatesOpen(open: boolean): void {
+    for (const gate of this.gateMeshes) {
+      gate.visible = open;
+    }
+  }
+
+  /**
+   * 現在のウェーブ番号（開始前は0）
+   */
+  getWave(): number {
+    return this.wave;
+  }
+
+  getPhase(): WavePhase {
+    return this.phase;
+  }
+
+  /**
+   * 次のウェーブまでの残り時間（準備中でなければnull）
+   */
+  getPrepTimeRemaining(): number | null {
+    return this.phase === WavePhase.PREPARING ? Math.max(0, this.phaseTimer) : null;
+  }
+
+  /**
+   * 残りのトリオン兵（出現待ちを含む）
+   */
+  getRemainingSoldiers(): number {
+    return this.getEntities().length + this.spawnQueue.length;
+  }
+
+  getDestroyedCount(): number {
+    return this.destroyedCount;
+  }
+
+  /**
+   * 市街地の被害（%）
+   */
+  getTerritoryDamage(): number {
+    return this.territoryDamage;
+  }
+
+  /**
+   * まだ市街地にいる市民の数
+   */
+  getCiviliansRemaining(): number {
+    const carried = [...this.carriers.values()].reduce((total, count) => total + count, 0);
+    return Math.max(0, GAME_CONFIG.NEIGHBOR.CIVILIAN_COUNT - this.civiliansLost - carried);
+  }
+
+  getCiviliansLost(): number {
+    return this.civiliansLost;
+  }
+
+  isFinished(): boolean {
+    return this.phase === WavePhase.CLEARED || this.phase === WavePhase.FAILED;
+  }
+
+  isVictory(): boolean {
+    return this.phase === WavePhase.CLEARED;
+  }
+
+  destroy(): void {
+    for (const mesh of [...this.gateMeshes, this.districtMesh]) {
+      mesh?.parent?.remove(mesh);
+    }
+    this.gateMeshes = [];
+    this.districtMesh = null;
+    this.carriers.clear();
+    this.escaped.clear();
+    this.trackedSoldiers.clear();
+    super.destroy();
+  }
+}
@@ -0,0 +1,204 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Character } from '../components/Character';
+import { Input } from '../components/Input';
+import { Collider, CollisionLayer } from '../components/Collider';
+import { MeshComponent } from '../components/Mesh';
+import { Perception, PerceptionSource } from '../components/Perception';
+import { GAME_CONFIG } from '../config/GameConfig';
+import { RadarSystem } from './RadarSystem';
+import { CollisionSystem } from './CollisionSystem';
+
+/**
+ * 発生した音
+ */
+interface SoundEvent {
+  position: THREE.Vector3;
+  range: number;           // 音が届く距離
+  team: number;            // 音を出した側のチーム
+  sourceId: number | null; // 音を出したキャラクター（爆発などで発生源がわからなければnull）
+}
+
+/**
+ * 知覚システム
+ * 視界（視野角と環境への遮蔽判定）・聴覚・レーダーで敵を捉え、Perceptionの記憶を更新する
+ * バッグワーム起動中の敵はレーダーに映らないため、視界か音でしか気づけない
+ */
+export class PerceptionSystem extends System {
+  private sounds: SoundEvent[] = [];
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+
+  requiredComponents() {
+    return [Transform, Character, Perception];
+  }
+
+  update(deltaTime: number): void {
+    if (!this.world) return;
+
+    const characters = this.world.getEntities().filter(entity => {
+      const character = entity.getComponent(Character);
+      return entity.active && !!character && !character.isDefeated() && entity.hasComponent(Transform);
+    });
+    const occluders = this.getOccluders();
+    const radarSystem = this.world.getSystem(RadarSystem);
+
+    for (const entity of this.getEntities()) {
+      const character = entity.getComponent(Character)!;
+      const perception = entity.getComponent(Perception)!;
+      if (character.isDefeated()) continue;
+
+      perception.decay(deltaTime);
+      const position = entity.getComponent(Transform)!.position;
+
+      // 視界
+      for (const enemy of characters) {
+        if (enemy.getComponent(Character)!.team === character.team) continue;
+
+        const enemyPosition = enemy.getComponent(Transform)!.position;
+        if (this.canSee(entity, perception, enemyPosition, occluders)) {
+          perception.sense(enemy.id, enemyPosition, PerceptionSource.SIGHT);
+        }
+      }
+
+      // レーダー（位置はわかるが、見えてはいない）
+      if (radarSystem) {
+        for (const blip of radarSystem.getEnemyBlips(position, character.team, perception.config.radarRange)) {
+          perception.sense(blip.entityId, blip.position, PerceptionSource.RADAR);
+        }
+      }
+
+      // 聴覚
+      for (const sound of this.sounds) {
+        if (sound.team === character.team) continue;
+        if (position.distanceTo(sound.position) > sound.range * perception.config.hearingScale) continue;
+
+        if (sound.sourceId !== null) {
+          perception.sense(sound.sourceId, sound.position, PerceptionSource.SOUND);
+        } else {
+          perception.hear(sound.position);
+        }
+      }
+
+      this.clearSearchedMemories(position, perception);
+    }
+
+    this.sounds = [];
+  }
+
+  /**
+   * 音を発生させる（次の更新で周囲の敵に聞こえる）
+   * 発生源のキャラクターがわかる音は、その位置を知らせる
+   */
+  emitSound(position: THREE.Vector3, range: number, team: number, sourceId: number | null): void {
+    this.sounds.push({ position: position.clone(), range, team, sourceId });
+  }
+
+  /**
+   * 視野角・視認距離・遮蔽物をもとに、指定位置のキャラクターが見えるか判定
+   * すぐ近くの敵は視野の外でも気づく
+   */
+  canSee(
+    entity: Entity,
+    perception: Perception,
+    targetPosition: THREE.Vector3,
+    occluders: Entity[] = this.getOccluders()
+  ): boolean {
+    const config = GAME_CONFIG.PERCEPTION;
+    const position = entity.getComponent(Transform)!.position;
+    const eye = position.clone().setY(position.y + config.EYE_HEIGHT);
+    const target = targetPosition.clone().setY(targetPosition.y + 1.2); // 胴体の高さ
+
+    const toTarget = target.clone().sub(eye);
+    const distance = toTarget.length();
+    if (distance > perception.config.visionRange) return false;
+
+    if (distance > config.PERIPHERAL_RANGE) {
+      // メッシュの正面は-Z。AIは視線の向き、それ以外は体の向きを基準にする
+      const yaw = entity.getComponent(Input)?.lookDirection.x ?? entity.getComponent(Transform)!.rotation.y;
+      const facing = new THREE.Vector2(-Math.sin(yaw), -Math.cos(yaw));
+      const horizontal = new THREE.Vector2(toTarget.x, toTarget.z);
+      if (horizontal.lengthSq() > 0.0001) {
+        const angle = facing.angleTo(horizontal.normalize());
+        if (angle > THREE.MathUtils.degToRad(perception.config.visionAngle) / 2) return false;
+      }
+    }
+
+    return !this.isOccluded(eye, target, occluders);
+  }
+
+  /**
+   * 2点の間が環境に遮られているか
+   * CollisionSystemがあれば当たり判定の形状へのレイキャストで調べる
+   * ない場合はメッシュを持つ環境はメッシュに、持たないものはコライダーの箱に対してレイを飛ばす
+   */
+  isOccluded(from: THREE.Vector3, to: THREE.Vector3, occluders: Entity[] = this.getOccluders()): boolean {
+    const direction = to.clone().sub(from);
+    const distance = direction.length();
+    if (distance < 0.001) return false;
+    direction.divideScalar(distance);
+
+    const collisionSystem = this.world?.getSystem(CollisionSystem);
+    if (collisionSystem) {
+      return collisionSystem.raycast(from, direction, distance, { entities: occluders }) !== null;
+    }
+
+    this.raycaster.set(from, direction);
+    this.raycaster.far = distance;
+    const hit = new THREE.Vector3();
+
+    for (const occluder of occluders) {
+      const transform = occluder.getComponent(Transform)!;
+      const meshComponent = occluder.getComponent(MeshComponent);
+
+      if (meshComponent) {
+        // 描画前でもTransformの位置で判定できるよう同期する
+        meshComponent.mesh.position.copy(transform.position);
+        meshComponent.mesh.rotation.copy(transform.rotation);
+        meshComponent.mesh.updateMatrixWorld(true);
+        if (this.raycaster.intersectObject(meshComponent.mesh, true).length > 0) return true;
+        continue;
+      }
+
+      const box = occluder.getComponent(Collider)!.getBoundingBox(transform.position);
+      if (this.raycaster.ray.intersectBox(box, hit) && hit.distanceTo(from) <= distance) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 視線を遮る環境（ENVIRONMENTレイヤーの実体のあるコライダー）
+   */
+  private getOccluders(): Entity[] {
+    if (!this.world) return [];
+    return this.world.getEntities().filter(entity => {
+      const collider = entity.getComponent(Collider);
+      return entity.active && !!collider && entity.hasComponent(Transform) &&
+        (collider.layer & CollisionLayer.ENVIRONMENT) !== 0 && !collider.isTrigger;
+    });
+  }
+
+  /**
+   * 最後に確認した位置まで来ても見つからない敵を忘れる
+   */
+  private clearSearchedMemories(position: THREE.Vector3, perception: Perception): void {
+    const radius = GAME_CONFIG.PERCEPTION.SEARCH_CLEAR_DISTANCE;
+    for (const memory of perception.memories.values()) {
+      if (memory.visible || memory.age === 0) continue;
+      if (Math.hypot(memory.position.x - position.x, memory.position.z - position.z) < radius) {
+        perception.forget(memory.entityId);
+      }
+    }
+
+    const noise = perception.noise;
+    if (noise && Math.hypot(noise.position.x - position.x, noise.position.z - position.z) < radius) {
+      perception.noise = null;
+    }
+  }
+
+  destroy(): void {
+    this.sounds = [];
+    super.destroy();
+  }
+}
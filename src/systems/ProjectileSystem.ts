@@ -8,6 +8,11 @@ import { MeshComponent } from '../components/Mesh';
 import { Character } from '../components/Character';
 import { Collider } from '../components/Collider';
 import { RenderSystem } from './RenderSystem';
+import { CollisionSystem } from './CollisionSystem';
+import { NeighborWaveSystem } from './NeighborWaveSystem';
+import { PerceptionSystem } from './PerceptionSystem';
+import { EnvironmentSystem } from './EnvironmentSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
 import { TriggerType } from '../triggers/TriggerDefinitions';
 
 /**
@@ -28,6 +33,11 @@ export class ProjectileSystem extends System {
       const velocity = entity.getComponent(Velocity)!;
       const projectile = entity.getComponent(Projectile)!;
 
+      // 近接信管（サラマンダー）：敵に近づいたら炸裂
+      if (projectile.type === ProjectileType.SALAMANDER && this.checkProximityFuse(entity, projectile, transform)) {
+        continue;
+      }
+
       // 特殊動作の処理
       this.handleSpecialBehavior(entity, projectile, transform, velocity, deltaTime);
       
@@ -94,14 +104,55 @@ export class ProjectileSystem extends System {
     velocity: Velocity, 
     deltaTime: number
   ): void {
+    // 弾道が設定されている弾（バイパー）は弾道に沿って移動
+    if (projectile.trajectory) {
+      this.handleTrajectoryBehavior(projectile, transform, velocity, deltaTime);
+      return;
+    }
+
     switch (projectile.type) {
       case ProjectileType.HOMING:
+      case ProjectileType.TOMAHAWK: // 弾道を引き終えたトマホークは追尾に切り替わる
         this.handleHomingBehavior(entity, projectile, transform, velocity, deltaTime);
         break;
       // SCATTERタイプは削除（Spiderは補助トリガー）
     }
   }
 
+  /**
+   * 弾道追従の処理（バイパー）
+   * 弾道の終点に達した後は終点の接線方向へ直進する
+   */
+  private handleTrajectoryBehavior(
+    projectile: Projectile,
+    transform: Transform,
+    velocity: Velocity,
+    deltaTime: number
+  ): void {
+    const trajectory = projectile.trajectory!;
+    const speed = velocity.linear.length();
+    const length = trajectory.getLength();
+
+    projectile.trajectoryProgress += speed * deltaTime;
+
+    if (projectile.trajectoryProgress >= length || length === 0 || deltaTime <= 0) {
+      velocity.linear.copy(trajectory.getTangentAt(1).multiplyScalar(speed));
+      projectile.setTrajectory(null);
+      return;
+    }
+
+    // 次の位置へ到達するよう速度を設定
+    const nextPoint = trajectory.getPointAt(projectile.trajectoryProgress / length);
+    velocity.linear.copy(nextPoint.sub(transform.position).divideScalar(deltaTime));
+
+    // 弾の向きを進行方向に合わせる
+    const quaternion = new THREE.Quaternion().setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      velocity.linear.clone().normalize()
+    );
+    transform.rotation.setFromQuaternion(quaternion);
+  }
+
   /**
    * 追尾弾の動作処理
    */
@@ -158,6 +209,25 @@ export class ProjectileSystem extends System {
     }
   }
 
+  /**
+   * 近接信管の判定（範囲内に敵がいれば炸裂）
+   */
+  private checkProximityFuse(entity: Entity, projectile: Projectile, transform: Transform): boolean {
+    const target = this.findNearestTarget(transform.position, projectile.team);
+    const targetTransform = target?.getComponent(Transform);
+    if (!targetTransform) return false;
+
+    // 胴体の中心との距離で判定
+    const center = targetTransform.position.clone().add(new THREE.Vector3(0, 1, 0));
+    if (center.distanceTo(transform.position) > GAME_CONFIG.COMPOUND.SALAMANDER_FUSE_RADIUS) return false;
+
+    const collisionSystem = this.world?.getSystem(CollisionSystem);
+    if (!collisionSystem) return false;
+
+    collisionSystem.detonateProjectile(entity, transform.position.clone());
+    return true;
+  }
+
   // 散弾関連のメソッドは削除（Spiderは補助トリガー）
 
   // 散弾作成メソッドは削除（Spiderは補助トリガー）
@@ -179,7 +249,7 @@ export class ProjectileSystem extends System {
       const transform = entity.getComponent(Transform);
       
       // Characterコンポーネントを持ち、異なるチームの場合のみ対象
-      if (character && transform && character.team !== projectileTeam) {
+      if (character && transform && character.team !== projectileTeam && !character.isDefeated()) {
         const distance = position.distanceTo(transform.position);
         
         // 基本的な距離チェック（視界チェックは緩めにする）
@@ -200,6 +270,23 @@ export class ProjectileSystem extends System {
     switch (projectile.type) {
       case ProjectileType.EXPLOSIVE:
         this.createExplosionEffect(impactPosition, projectile.explosionRadius);
+        this.world?.getSystem(PerceptionSystem)?.emitSound(
+          impactPosition,
+          GAME_CONFIG.PERCEPTION.EXPLOSION_RANGE,
+          projectile.team,
+          null
+        );
+        this.world?.getSystem(EnvironmentSystem)?.applyExplosion(impactPosition, projectile);
+        break;
+      case ProjectileType.TOMAHAWK:
+      case ProjectileType.SALAMANDER:
+        // 合成弾は着弾点の周囲にダメージを与える
+        this.world?.getSystem(CollisionSystem)?.detonateProjectile(entity, impactPosition.clone());
+        break;
+      case ProjectileType.BOMB:
+        // 爆撃弾は市街地への被害も記録する
+        this.world?.getSystem(NeighborWaveSystem)?.reportBombImpact(impactPosition);
+        this.world?.getSystem(CollisionSystem)?.detonateProjectile(entity, impactPosition.clone());
         break;
       // SCATTER処理は削除（Spiderは補助トリガー）
     }
@@ -227,7 +314,7 @@ export class ProjectileSystem extends System {
     scene.add(explosionMesh);
     
     // 0.5秒後に爆発エフェクトを削除
-    setTimeout(() => {
+    this.world?.schedule(() => {
       scene.remove(explosionMesh);
       explosionGeometry.dispose();
       explosionMaterial.dispose();
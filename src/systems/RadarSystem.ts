@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Character } from '../components/Character';
+import { Input } from '../components/Input';
+import { Trigger } from '../components/Trigger';
+import { TriggerType, TRIGGER_DEFINITIONS } from '../triggers/TriggerDefinitions';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * レーダー上の反応（ブリップ）
+ */
+export interface RadarBlip {
+  entityId: number;
+  team: number;
+  position: THREE.Vector3;
+}
+
+/**
+ * レーダーシステム
+ * 全キャラクターをチーム共有レーダーに表示し、バッグワームによる隠蔽を処理
+ */
+export class RadarSystem extends System {
+  private blips: RadarBlip[] = [];
+
+  requiredComponents() {
+    return [Transform, Character];
+  }
+
+  update(deltaTime: number): void {
+    const entities = this.getEntities();
+
+    // バッグワームの起動・維持
+    for (const entity of entities) {
+      const trigger = entity.getComponent(Trigger);
+      if (!trigger) continue;
+
+      this.updateBagworm(
+        entity,
+        entity.getComponent(Character)!,
+        trigger,
+        entity.getComponent(Input),
+        deltaTime
+      );
+    }
+
+    // ブリップを更新
+    this.blips = [];
+    for (const entity of entities) {
+      const character = entity.getComponent(Character)!;
+      if (character.isDefeated()) continue;
+
+      const trigger = entity.getComponent(Trigger);
+      if (trigger?.bagwormActive) continue;
+
+      this.blips.push({
+        entityId: entity.id,
+        team: character.team,
+        position: entity.getComponent(Transform)!.position.clone()
+      });
+    }
+  }
+
+  /**
+   * バッグワームの状態を更新
+   */
+  private updateBagworm(
+    entity: Entity,
+    character: Character,
+    trigger: Trigger,
+    input: Input | undefined,
+    deltaTime: number
+  ): void {
+    // バッグワームはCスロット（左手）で選択中の場合のみ使用可能
+    const equipped = trigger.leftCurrentTrigger === TriggerType.BAGWORM &&
+      trigger.leftCurrentSlot >= 5;
+
+    if (!equipped) {
+      if (trigger.bagwormActive) {
+        this.setBagworm(entity, trigger, false);
+      }
+      return;
+    }
+
+    // Qキー（左手メイン）で起動/解除を切り替え
+    if (input?.mainLeftAction) {
+      this.setBagworm(entity, trigger, !trigger.bagwormActive);
+      input.mainLeftAction = false; // 左手攻撃として処理されないよう消費
+    }
+
+    if (!trigger.bagwormActive) return;
+
+    // 起動中は毎秒トリオンを消費
+    const definition = TRIGGER_DEFINITIONS[TriggerType.BAGWORM];
+    const drain = definition.trionCost * deltaTime;
+    if (character.stats.currentTrion <= drain) {
+      console.log(`🕶️ ${character.name}: トリオン不足でバッグワーム解除`);
+      this.setBagworm(entity, trigger, false);
+      return;
+    }
+    character.takeDamage(drain);
+
+    // 起動中はもう片方の手（右手）のトリガーを使用できない
+    if (input) {
+      input.mainRightAction = false;
+      input.subRightAction = false;
+      input.generateWeapon = false;
+      input.isMainActionHeld = false;
+    }
+  }
+
+  /**
+   * バッグワームの起動状態を設定
+   */
+  private setBagworm(entity: Entity, trigger: Trigger, active: boolean): void {
+    trigger.bagwormActive = active;
+    console.log(`🕶️ Entity ${entity.id}: バッグワーム${active ? '起動' : '解除'}`);
+  }
+
+  /**
+   * 指定チームのレーダーに映るブリップを取得
+   * 自チームのメンバーはバッグワーム起動中でもチーム内で共有される
+   */
+  getBlipsForTeam(team: number): RadarBlip[] {
+    const result = this.blips.slice();
+
+    for (const entity of this.getEntities()) {
+      const character = entity.getComponent(Character)!;
+      const trigger = entity.getComponent(Trigger);
+      if (character.team !== team || !trigger?.bagwormActive || character.isDefeated()) continue;
+
+      result.push({
+        entityId: entity.id,
+        team: character.team,
+        position: entity.getComponent(Transform)!.position.clone()
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 指定位置からレーダー範囲内の敵ブリップを取得
+   */
+  getEnemyBlips(position: THREE.Vector3, team: number, range: number = GAME_CONFIG.RADAR.RANGE): RadarBlip[] {
+    return this.blips.filter(blip =>
+      blip.team !== team && blip.position.distanceTo(position) <= range
+    );
+  }
+
+  /**
+   * エンティティがレーダーに映っているか確認
+   */
+  isOnRadar(entityId: number): boolean {
+    return this.blips.some(blip => blip.entityId === entityId);
+  }
+
+  destroy(): void {
+    this.blips = [];
+    super.destroy();
+  }
+}
@@ -0,0 +1,148 @@
+import { System } from '../ecs/System';
+import { Character } from '../components/Character';
+import { BailoutSystem } from './BailoutSystem';
+import { RankWarSettings } from '../config/GameModes';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 部隊ごとの試合結果
+ */
+export interface RankWarStanding {
+  team: number;           // 部隊ID（Character.team）
+  bailoutPoints: number;  // 緊急脱出させた得点
+  survivors: number;      // 試合終了時の生存者数
+  survivorBonus: number;  // 生存点
+  total: number;
+  rank: number;           // 順位（1始まり、同点は同順位）
+}
+
+/**
+ * ランク戦システム
+ * 部隊ごとの得点と制限時間を管理し、終了時に最終順位を確定する
+ */
+export class RankWarSystem extends System {
+  private settings: RankWarSettings;
+  private remainingTime: number;
+  private finished: boolean = false;
+  private standings: RankWarStanding[] = [];
+
+  constructor(settings: RankWarSettings) {
+    super();
+    this.settings = settings;
+    this.remainingTime = settings.timeLimit;
+  }
+
+  requiredComponents() {
+    return [Character];
+  }
+
+  initialize(): void {
+    // ランク戦では脱出した隊員は戦場に戻らない
+    this.world?.getSystem(BailoutSystem)?.setRules({
+      allowReturn: false,
+      pointsPerBailout: GAME_CONFIG.RANK_WAR.POINTS_PER_BAILOUT
+    });
+  }
+
+  update(deltaTime: number): void {
+    if (this.finished) return;
+
+    this.remainingTime = Math.max(0, this.remainingTime - deltaTime);
+
+    // 生き残っている部隊が1つ以下、または時間切れで終了
+    const aliveSquads = this.getSquads().filter(team => this.countSurvivors(team) > 0);
+    if (aliveSquads.length <= 1 || this.remainingTime <= 0) {
+      this.finish();
+    }
+  }
+
+  /**
+   * 試合を終了して最終順位を確定
+   */
+  private finish(): void {
+    this.finished = true;
+    this.standings = this.calculateStandings(true);
+
+    console.log('🏁 ランク戦終了');
+    for (const standing of this.standings) {
+      console.log(`  ${standing.rank}位 部隊${standing.team + 1}: ${standing.total}pt（撃破${standing.bailoutPoints} + 生存${standing.survivorBonus}）`);
+    }
+  }
+
+  /**
+   * 部隊ごとの得点を集計
+   */
+  private calculateStandings(includeSurvivorBonus: boolean): RankWarStanding[] {
+    const bailoutSystem = this.world?.getSystem(BailoutSystem);
+
+    const standings = this.getSquads().map(team => {
+      const bailoutPoints = bailoutSystem?.getTeamPoints(team) ?? 0;
+      const survivors = this.countSurvivors(team);
+      const survivorBonus = includeSurvivorBonus && survivors > 0 ? GAME_CONFIG.RANK_WAR.SURVIVOR_BONUS : 0;
+      return {
+        team,
+        bailoutPoints,
+        survivors,
+        survivorBonus,
+        total: bailoutPoints + survivorBonus,
+        rank: 0
+      };
+    });
+
+    // 合計点、同点なら生存者の多い順
+    standings.sort((a, b) => b.total - a.total || b.survivors - a.survivors);
+    standings.forEach((standing, index) => {
+      const previous = standings[index - 1];
+      standing.rank = previous && previous.total === standing.total && previous.survivors === standing.survivors
+        ? previous.rank
+        : index + 1;
+    });
+
+    return standings;
+  }
+
+  /**
+   * 参加している部隊ID
+   */
+  private getSquads(): number[] {
+    return Array.from({ length: this.settings.squadCount }, (_, team) => team);
+  }
+
+  /**
+   * 部隊の生存者数（緊急脱出中の隊員は含めない）
+   */
+  private countSurvivors(team: number): number {
+    return this.getEntities().filter(entity => {
+      const character = entity.getComponent(Character)!;
+      return character.team === team && !character.isDefeated();
+    }).length;
+  }
+
+  /**
+   * 残り時間（秒）
+   */
+  getRemainingTime(): number {
+    return this.remainingTime;
+  }
+
+  /**
+   * 試合中の得点（生存点は含まない）
+   */
+  getScores(): RankWarStanding[] {
+    return this.finished ? [...this.standings] : this.calculateStandings(false);
+  }
+
+  /**
+   * 試合が終了したか
+   */
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * 最終順位（試合終了後のみ）
+   */
+  getStandings(): RankWarStanding[] {
+    return [...this.standings];
+  }
+}
@@ -3,12 +3,29 @@ import { System } from '../ecs/System';
 import { Entity } from '../ecs/Entity';
 import { Transform } from '../components/Transform';
 import { MeshComponent } from '../components/Mesh';
+import { AI } from '../components/AI';
 import { GAME_CONFIG } from '../config/GameConfig';
+import { NavigationSystem } from './NavigationSystem';
+import { NavMesh, NavLinkType, DEFAULT_NAV_PATH_OPTIONS } from '../ai/NavMesh';
+import { EnvironmentSystem } from './EnvironmentSystem';
+import { MapData } from '../maps/MapData';
+import { MapLoader } from '../maps/MapLoader';
+import { BATTLE_MAPS, DEFAULT_BATTLE_MAP } from '../maps/BattleMaps';
+
+/**
+ * カメラの位置・向き・視点の回転（リプレイでは刻みごとに記録して射撃の照準を再現する）
+ */
+export interface CameraPose {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  rotation: { x: number; y: number };
+}
 
 /**
  * レンダリングを管理するシステム
  */
 export class RenderSystem extends System {
+  public readonly runsOnRender: boolean = true;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
@@ -29,6 +46,16 @@ export class RenderSystem extends System {
   private scopeCameraOffset: THREE.Vector3 = new THREE.Vector3(0.05, 1.7, 0.15); // FPS位置
   private crosshairCallback: ((visible: boolean) => void) | null = null;
   private isAimingMode: boolean = false;
+  private navMeshDebugEnabled: boolean = false;
+  private navMeshDebug: THREE.Group | null = null;
+  private navMeshDebugVersion: number = -1;
+  private navPathDebug: THREE.Group | null = null;
+  private previousTransforms: Map<number, { position: THREE.Vector3; quaternion: THREE.Quaternion }> = new Map();
+  private freeCamera: THREE.PerspectiveCamera;
+  private freeCameraEnabled: boolean = false;
+  private freeCameraRotation: { x: number; y: number } = { x: 0, y: 0 };
+  private freeCameraKeys: Set<string> = new Set();
+  private listeners: Array<{ target: EventTarget; type: string; handler: EventListener }> = []; // destroyで外すイベントリスナー
 
   constructor(container: HTMLElement) {
     super();
@@ -60,6 +87,9 @@ export class RenderSystem extends System {
     );
     this.camera.lookAt(0, 0, 0);
 
+    // フリーカメラ（リプレイ用。ゲームの処理が使うカメラとは別に描画だけに使う）
+    this.freeCamera = this.camera.clone();
+
     // レンダラー作成
     this.renderer = new THREE.WebGLRenderer({ 
       antialias: true,
@@ -71,11 +101,8 @@ export class RenderSystem extends System {
     this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     container.appendChild(this.renderer.domElement);
 
-    // ライティング設定
-    this.setupLighting();
-
     // リサイズハンドラー
-    window.addEventListener('resize', this.onWindowResize.bind(this));
+    this.addListener(window, 'resize', () => this.onWindowResize());
     
     // マウス視点制御のイベントリスナー
     this.setupCameraControls();
@@ -178,79 +205,62 @@ export class RenderSystem extends System {
   }
 
   initialize(): void {
-    // 基本的な環境を設定
-    this.createEnvironment();
+    // 対戦マップの地形と照明を設定（建物はEnvironmentSystemがエンティティとして配置）
+    const map = this.world?.getSystem(EnvironmentSystem)?.getMap() ?? BATTLE_MAPS[DEFAULT_BATTLE_MAP];
+    this.setupLighting(map);
+    this.scene.add(MapLoader.createTerrain(map));
   }
 
-  private setupLighting(): void {
+  private setupLighting(map: MapData): void {
+    const lighting = map.lighting;
+    this.scene.background = new THREE.Color(lighting.background);
+    this.scene.fog = new THREE.Fog(new THREE.Color(lighting.fog.color), lighting.fog.near, lighting.fog.far);
+
     // 環境光
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
+    const ambientLight = new THREE.AmbientLight(new THREE.Color(lighting.ambient.color), lighting.ambient.intensity);
     this.scene.add(ambientLight);
 
-    // 太陽光
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    directionalLight.position.set(10, 20, 10);
+    // 太陽光（影はマップ全体を覆う）
+    const sun = lighting.sun;
+    const shadowExtent = Math.max(50, map.bounds.halfExtent + 10);
+    const directionalLight = new THREE.DirectionalLight(new THREE.Color(sun.color), sun.intensity);
+    directionalLight.position.set(sun.position.x, sun.position.y, sun.position.z);
     directionalLight.castShadow = true;
-    directionalLight.shadow.camera.left = -50;
-    directionalLight.shadow.camera.right = 50;
-    directionalLight.shadow.camera.top = 50;
-    directionalLight.shadow.camera.bottom = -50;
+    directionalLight.shadow.camera.left = -shadowExtent;
+    directionalLight.shadow.camera.right = shadowExtent;
+    directionalLight.shadow.camera.top = shadowExtent;
+    directionalLight.shadow.camera.bottom = -shadowExtent;
     directionalLight.shadow.camera.near = 0.1;
-    directionalLight.shadow.camera.far = 100;
+    directionalLight.shadow.camera.far = shadowExtent * 2 + 50;
     directionalLight.shadow.mapSize.width = 2048;
     directionalLight.shadow.mapSize.height = 2048;
     this.scene.add(directionalLight);
 
     // ポイントライト（補助）
-    const pointLight = new THREE.PointLight(0xffffff, 0.5, 50);
-    pointLight.position.set(0, 10, 0);
-    this.scene.add(pointLight);
-  }
-
-  private createEnvironment(): void {
-    // グリッドヘルパー
-    const gridHelper = new THREE.GridHelper(100, 50, 0x444444, 0x888888);
-    this.scene.add(gridHelper);
-
-    // 地面
-    const groundGeometry = new THREE.PlaneGeometry(100, 100);
-    const groundMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0x808080,
-      roughness: 0.8,
-      metalness: 0.2
-    });
-    const ground = new THREE.Mesh(groundGeometry, groundMaterial);
-    ground.rotation.x = -Math.PI / 2;
-    ground.receiveShadow = true;
-    this.scene.add(ground);
-
-    // アリーナの境界（見えない壁）
-    const wallGeometry = new THREE.BoxGeometry(1, 10, 50);
-    const wallMaterial = new THREE.MeshBasicMaterial({ 
-      color: 0x0000ff,
-      transparent: true,
-      opacity: 0.1,
-      visible: false  // 本番では非表示
-    });
+    for (const point of lighting.points ?? []) {
+      const pointLight = new THREE.PointLight(new THREE.Color(point.color), point.intensity, point.distance);
+      pointLight.position.set(point.position.x, point.position.y, point.position.z);
+      this.scene.add(pointLight);
+    }
+  }
 
-    // 四方の壁
-    const walls = [
-      { x: 25, z: 0, ry: 0 },
-      { x: -25, z: 0, ry: 0 },
-      { x: 0, z: 25, ry: Math.PI / 2 },
-      { x: 0, z: -25, ry: Math.PI / 2 }
-    ];
-
-    walls.forEach(({ x, z, ry }) => {
-      const wall = new THREE.Mesh(wallGeometry, wallMaterial);
-      wall.position.set(x, 5, z);
-      wall.rotation.y = ry;
-      this.scene.add(wall);
-    });
+  /**
+   * 刻みの前のTransformを記録（描画で前の刻みとの間を補間する）
+   */
+  beforeTick(): void {
+    for (const entity of this.getEntities()) {
+      const transform = entity.getComponent(Transform)!;
+      const previous = this.previousTransforms.get(entity.id) ??
+        { position: new THREE.Vector3(), quaternion: new THREE.Quaternion() };
+      previous.position.copy(transform.position);
+      previous.quaternion.setFromEuler(transform.rotation);
+      this.previousTransforms.set(entity.id, previous);
+    }
   }
 
-  update(_deltaTime: number): void {
+  update(deltaTime: number): void {
     const entities = this.getEntities();
+    const alpha = this.world?.getInterpolationAlpha() ?? 1;
 
     // プレイヤーエンティティを特定
     if (!this.playerEntity) {
@@ -268,15 +278,27 @@ export class RenderSystem extends System {
         this.entityMeshMap.set(entity.id, meshComponent.mesh);
       }
 
-      // Transformをメッシュに適用
-      meshComponent.mesh.position.copy(transform.position);
-      meshComponent.mesh.rotation.copy(transform.rotation);
+      // Transformをメッシュに適用（前の刻みとの間を補間）
+      const previous = this.previousTransforms.get(entity.id);
+      if (previous) {
+        meshComponent.mesh.position.lerpVectors(previous.position, transform.position, alpha);
+        meshComponent.mesh.quaternion.copy(previous.quaternion)
+          .slerp(new THREE.Quaternion().setFromEuler(transform.rotation), alpha);
+      } else {
+        meshComponent.mesh.position.copy(transform.position);
+        meshComponent.mesh.rotation.copy(transform.rotation);
+      }
       meshComponent.mesh.scale.copy(transform.scale);
     }
 
     // カメラをプレイヤーに追従させる
     this.updateCameraFollow();
 
+    // ナビメッシュのデバッグ表示
+    if (this.navMeshDebugEnabled) {
+      this.updateNavMeshDebug();
+    }
+
     // 削除されたエンティティのメッシュを削除
     const activeEntityIds = new Set(entities.map(e => e.id));
     for (const [entityId, mesh] of this.entityMeshMap) {
@@ -285,14 +307,166 @@ export class RenderSystem extends System {
         this.entityMeshMap.delete(entityId);
       }
     }
+    for (const entityId of this.previousTransforms.keys()) {
+      if (!activeEntityIds.has(entityId)) this.previousTransforms.delete(entityId);
+    }
+
+    // フリーカメラを操作
+    if (this.freeCameraEnabled) {
+      this.updateFreeCamera(deltaTime);
+    }
 
     // レンダリング
-    this.renderer.render(this.scene, this.camera);
+    this.renderer.render(this.scene, this.freeCameraEnabled ? this.freeCamera : this.camera);
+  }
+
+  /**
+   * ナビメッシュのデバッグ表示を切り替え
+   */
+  toggleNavMeshDebug(): boolean {
+    this.navMeshDebugEnabled = !this.navMeshDebugEnabled;
+
+    if (!this.navMeshDebugEnabled) {
+      this.clearDebugGroup(this.navMeshDebug);
+      this.clearDebugGroup(this.navPathDebug);
+      this.navMeshDebug = null;
+      this.navPathDebug = null;
+      this.navMeshDebugVersion = -1;
+    }
+
+    console.log(`🧭 ナビメッシュ表示: ${this.navMeshDebugEnabled ? 'ON' : 'OFF'}`);
+    return this.navMeshDebugEnabled;
+  }
+
+  /**
+   * ナビメッシュ（セルと跳躍リンク）とAIの経路を描画
+   */
+  private updateNavMeshDebug(): void {
+    const navigationSystem = this.world?.getSystem(NavigationSystem);
+    const navMesh = navigationSystem?.getNavMesh();
+    if (!navigationSystem || !navMesh) return;
+
+    // メッシュは構築し直されたときだけ作り直す
+    if (navigationSystem.getVersion() !== this.navMeshDebugVersion) {
+      this.clearDebugGroup(this.navMeshDebug);
+      this.navMeshDebug = this.createNavMeshDebug(navMesh);
+      this.navMeshDebugVersion = navigationSystem.getVersion();
+      this.scene.add(this.navMeshDebug);
+    }
+
+    // 経路は毎フレーム描き直す
+    this.clearDebugGroup(this.navPathDebug);
+    this.navPathDebug = new THREE.Group();
+    for (const entity of this.world!.getEntities()) {
+      const ai = entity.getComponent(AI);
+      if (!entity.active || !ai || ai.path.length === 0) continue;
+
+      const points = [entity.getComponent(Transform)!.position.clone()]
+        .concat(ai.path.map(waypoint => waypoint.position.clone()))
+        .map(point => point.setY(point.y + 0.1));
+      this.navPathDebug.add(new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints(points),
+        new THREE.LineBasicMaterial({ color: 0x00ffff })
+      ));
+    }
+    this.scene.add(this.navPathDebug);
+  }
+
+  /**
+   * ナビメッシュの表示用オブジェクトを作成
+   * 地面のセルは緑、高所のセルは青、ジャンプのリンクは黄、グラスホッパーのリンクは紫
+   */
+  private createNavMeshDebug(navMesh: NavMesh): THREE.Group {
+    const group = new THREE.Group();
+    const half = navMesh.cellSize * 0.45;
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const groundColor = new THREE.Color(0x00ff66);
+    const raisedColor = new THREE.Color(0x3388ff);
+
+    for (const cell of navMesh.cells) {
+      const center = navMesh.getCellCenter(cell);
+      const y = center.y + 0.02;
+      const color = cell.height > GAME_CONFIG.MOVEMENT.GROUND_LEVEL ? raisedColor : groundColor;
+      const corners = [
+        [center.x - half, center.z - half], [center.x - half, center.z + half], [center.x + half, center.z + half],
+        [center.x - half, center.z - half], [center.x + half, center.z + half], [center.x + half, center.z - half]
+      ];
+      for (const [x, z] of corners) {
+        positions.push(x, y, z);
+        colors.push(color.r, color.g, color.b);
+      }
+    }
+
+    const cellGeometry = new THREE.BufferGeometry();
+    cellGeometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    cellGeometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    group.add(new THREE.Mesh(cellGeometry, new THREE.MeshBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      opacity: 0.25,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    })));
+
+    // 段差をまたぐリンク（右と奥の隣接セルとの間を双方向で判定）
+    const jumpPoints: THREE.Vector3[] = [];
+    const hopPoints: THREE.Vector3[] = [];
+    const options = { ...DEFAULT_NAV_PATH_OPTIONS, canHop: true };
+    for (const cell of navMesh.cells) {
+      const neighbors = [
+        cell.column + 1 < navMesh.columns ? navMesh.cells[cell.index + 1] : null,
+        cell.row + 1 < navMesh.columns ? navMesh.cells[cell.index + navMesh.columns] : null
+      ];
+      for (const neighbor of neighbors) {
+        if (!neighbor || neighbor.height === cell.height) continue;
+
+        const [low, high] = cell.height < neighbor.height ? [cell, neighbor] : [neighbor, cell];
+        const link = navMesh.getLinkType(low, high, options);
+        if (link === NavLinkType.JUMP) {
+          jumpPoints.push(navMesh.getCellCenter(low), navMesh.getCellCenter(high));
+        } else if (link === NavLinkType.HOP) {
+          hopPoints.push(navMesh.getCellCenter(low), navMesh.getCellCenter(high));
+        }
+      }
+    }
+
+    if (jumpPoints.length > 0) {
+      group.add(new THREE.LineSegments(
+        new THREE.BufferGeometry().setFromPoints(jumpPoints),
+        new THREE.LineBasicMaterial({ color: 0xffff00 })
+      ));
+    }
+    if (hopPoints.length > 0) {
+      group.add(new THREE.LineSegments(
+        new THREE.BufferGeometry().setFromPoints(hopPoints),
+        new THREE.LineBasicMaterial({ color: 0xff00ff })
+      ));
+    }
+
+    return group;
+  }
+
+  /**
+   * デバッグ表示用のオブジェクトをシーンから外して破棄
+   */
+  private clearDebugGroup(group: THREE.Group | null): void {
+    if (!group) return;
+
+    this.scene.remove(group);
+    group.traverse(object => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
   }
 
   private onWindowResize(): void {
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
+    this.freeCamera.aspect = this.camera.aspect;
+    this.freeCamera.updateProjectionMatrix();
     this.renderer.setSize(window.innerWidth, window.innerHeight);
   }
 
@@ -310,6 +484,79 @@ export class RenderSystem extends System {
     return this.cameraRotation;
   }
 
+  /**
+   * ゲームの処理が使うカメラの姿勢を取得（コピー）
+   */
+  getCameraPose(): CameraPose {
+    return {
+      position: this.camera.position.clone(),
+      quaternion: this.camera.quaternion.clone(),
+      rotation: { ...this.cameraRotation }
+    };
+  }
+
+  /**
+   * ゲームの処理が使うカメラの姿勢を設定（リプレイで記録した照準を再現する）
+   */
+  setCameraPose(pose: CameraPose): void {
+    this.camera.position.copy(pose.position);
+    this.camera.quaternion.copy(pose.quaternion);
+    this.camera.updateMatrixWorld();
+    this.cameraRotation.x = pose.rotation.x;
+    this.cameraRotation.y = pose.rotation.y;
+  }
+
+  /**
+   * フリーカメラの切り替え（有効にするとプレイヤーから切り離して自由に動かせる）
+   * 位置を指定しなければ現在の視点から始める
+   */
+  setFreeCamera(enabled: boolean, pose?: CameraPose): void {
+    if (enabled && !this.freeCameraEnabled) {
+      const start = pose ?? this.getCameraPose();
+      this.freeCamera.position.copy(start.position);
+      const euler = new THREE.Euler().setFromQuaternion(start.quaternion, 'YXZ');
+      this.freeCameraRotation = { x: euler.x, y: euler.y };
+    }
+    this.freeCameraEnabled = enabled;
+    this.freeCameraKeys.clear();
+  }
+
+  isFreeCameraEnabled(): boolean {
+    return this.freeCameraEnabled;
+  }
+
+  /**
+   * フリーカメラの姿勢を取得（ワールドを作り直しても同じ視点から続けるため）
+   */
+  getFreeCameraPose(): CameraPose {
+    return {
+      position: this.freeCamera.position.clone(),
+      quaternion: this.freeCamera.quaternion.clone(),
+      rotation: { ...this.freeCameraRotation }
+    };
+  }
+
+  /**
+   * フリーカメラを移動（WASDで前後左右、Space/Cで上下、Shiftで加速）
+   */
+  private updateFreeCamera(deltaTime: number): void {
+    this.freeCamera.quaternion.setFromEuler(
+      new THREE.Euler(this.freeCameraRotation.x, this.freeCameraRotation.y, 0, 'YXZ')
+    );
+
+    const move = new THREE.Vector3(
+      (this.freeCameraKeys.has('d') ? 1 : 0) - (this.freeCameraKeys.has('a') ? 1 : 0),
+      (this.freeCameraKeys.has(' ') ? 1 : 0) - (this.freeCameraKeys.has('c') ? 1 : 0),
+      (this.freeCameraKeys.has('s') ? 1 : 0) - (this.freeCameraKeys.has('w') ? 1 : 0)
+    );
+    if (move.lengthSq() === 0) return;
+
+    const speed = GAME_CONFIG.CAMERA.FREE_CAMERA_SPEED *
+      (this.freeCameraKeys.has('shift') ? GAME_CONFIG.CAMERA.FREE_CAMERA_FAST_MULTIPLIER : 1);
+    move.normalize().applyQuaternion(this.freeCamera.quaternion);
+    this.freeCamera.position.addScaledVector(move, speed * deltaTime);
+  }
+
   /**
    * シーンを取得
    */
@@ -413,13 +660,21 @@ export class RenderSystem extends System {
     }
   }
 
+  /**
+   * イベントリスナーを登録（destroyでまとめて外す）
+   */
+  private addListener<E extends Event = Event>(target: EventTarget, type: string, handler: (event: E) => void): void {
+    target.addEventListener(type, handler as EventListener);
+    this.listeners.push({ target, type, handler: handler as EventListener });
+  }
+
   private setupCameraControls(): void {
     const canvas = this.renderer.domElement;
     
     // Pointer Lock APIのサポートを確認
     if ('pointerLockElement' in document) {
       // キャンバスクリックでPointer Lockをリクエスト
-      canvas.addEventListener('click', () => {
+      this.addListener(canvas, 'click', () => {
         if (!this.isPointerLocked && document.pointerLockElement !== canvas) {
           canvas.requestPointerLock().catch(() => {
             // リクエストが失敗した場合は何もしない（ログも出さない）
@@ -428,7 +683,7 @@ export class RenderSystem extends System {
       });
       
       // Pointer Lockの状態変更を監視
-      document.addEventListener('pointerlockchange', () => {
+      this.addListener(document, 'pointerlockchange', () => {
         this.isPointerLocked = document.pointerLockElement === canvas;
         if (this.isPointerLocked) {
           canvas.style.cursor = 'none';
@@ -438,12 +693,12 @@ export class RenderSystem extends System {
       });
       
       // Pointer Lockエラーをハンドリング（サイレント）
-      document.addEventListener('pointerlockerror', () => {
+      this.addListener(document, 'pointerlockerror', () => {
         // エラーは無視（ユーザー操作による正常な動作）
       });
       
       // マウス移動イベント
-      canvas.addEventListener('mousemove', (e) => {
+      this.addListener<MouseEvent>(canvas, 'mousemove', (e) => {
         if (this.isPointerLocked) {
           // Pointer Lock中はmovementX/Yを使用
           const deltaX = e.movementX || 0;
@@ -451,6 +706,17 @@ export class RenderSystem extends System {
           
           // 感度調整（スコープモード時は感度を大幅に下げる）
           const baseSensitivity = GAME_CONFIG.CAMERA.MOUSE_SENSITIVITY;
+
+          // フリーカメラ中はゲームのカメラではなくフリーカメラを回す
+          if (this.freeCameraEnabled) {
+            this.freeCameraRotation.y -= deltaX * baseSensitivity;
+            this.freeCameraRotation.x = Math.max(
+              -Math.PI / 2,
+              Math.min(Math.PI / 2, this.freeCameraRotation.x - deltaY * baseSensitivity)
+            );
+            return;
+          }
+
           const sensitivity = this.isScopeMode ? baseSensitivity * 0.2 : baseSensitivity;
           this.cameraRotation.y -= deltaX * sensitivity; // 左右（正常）
           this.cameraRotation.x -= deltaY * sensitivity; // 上下を修正（-に変更）
@@ -468,11 +734,19 @@ export class RenderSystem extends System {
       });
       
       // ESCキーでPointer Lockを解除
-      document.addEventListener('keydown', (e) => {
+      this.addListener<KeyboardEvent>(document, 'keydown', (e) => {
         if (e.key === 'Escape' && this.isPointerLocked) {
           document.exitPointerLock();
         }
       });
+
+      // フリーカメラの移動キー
+      this.addListener<KeyboardEvent>(window, 'keydown', (e) => {
+        if (this.freeCameraEnabled) this.freeCameraKeys.add(e.key.toLowerCase());
+      });
+      this.addListener<KeyboardEvent>(window, 'keyup', (e) => {
+        this.freeCameraKeys.delete(e.key.toLowerCase());
+      });
     } else {
       console.warn('Pointer Lock APIがサポートされていません');
     }
@@ -482,12 +756,14 @@ export class RenderSystem extends System {
     if (this.playerEntity) {
       const playerTransform = this.playerEntity.getComponent(Transform);
       if (playerTransform) {
+        // 補間済みのメッシュの位置に追従する
+        const playerPosition = this.playerEntity.getComponent(MeshComponent)?.mesh.position ?? playerTransform.position;
         if (this.isScopeMode) {
           // FPSスコープモード
-          this.updateFPSCamera(playerTransform);
+          this.updateFPSCamera(playerPosition);
         } else {
           // 通常のTPSモード
-          this.updateTPSCamera(playerTransform);
+          this.updateTPSCamera(playerPosition);
         }
       }
     }
@@ -496,9 +772,9 @@ export class RenderSystem extends System {
   /**
    * FPSカメラの更新（スコープモード）
    */
-  private updateFPSCamera(playerTransform: Transform): void {
+  private updateFPSCamera(playerPosition: THREE.Vector3): void {
     // プレイヤーの頭の位置
-    const headPosition = playerTransform.position.clone().add(this.cameraOffset);
+    const headPosition = playerPosition.clone().add(this.cameraOffset);
     
     // カメラの回転を適用
     const cameraDirection = new THREE.Vector3(0, 0, -1);
@@ -514,7 +790,7 @@ export class RenderSystem extends System {
   /**
    * TPSカメラの更新（通常モード）
    */
-  private updateTPSCamera(playerTransform: Transform): void {
+  private updateTPSCamera(playerPosition: THREE.Vector3): void {
     // TPS標準の球座標系カメラシステム
     const distance = this.cameraOffset.length();
     
@@ -523,7 +799,7 @@ export class RenderSystem extends System {
     const zenith = this.cameraRotation.x;     // 垂直角度（天頂角）
     
     // ピボットポイント（キャラクターの頭上少し）
-    const pivotPoint = playerTransform.position.clone().add(
+    const pivotPoint = playerPosition.clone().add(
       new THREE.Vector3(
         GAME_CONFIG.CAMERA.SHOULDER_OFFSET.x,
         GAME_CONFIG.CAMERA.SHOULDER_OFFSET.y,
@@ -542,7 +818,7 @@ export class RenderSystem extends System {
     let finalPosition = pivotPoint.clone().add(sphericalOffset);
     
     // 地面衝突防止
-    const minHeight = playerTransform.position.y + 0.5;
+    const minHeight = playerPosition.y + 0.5;
     if (finalPosition.y < minHeight) {
       finalPosition.y = minHeight;
     }
@@ -592,7 +868,11 @@ export class RenderSystem extends System {
   }
 
   destroy(): void {
-    window.removeEventListener('resize', this.onWindowResize.bind(this));
+    // リプレイのシークなどでワールドを作り直しても古いリスナーが残らないよう外す
+    for (const { target, type, handler } of this.listeners) {
+      target.removeEventListener(type, handler);
+    }
+    this.listeners = [];
     
     // スコープオーバーレイを削除
     if (this.scopeOverlay && this.scopeOverlay.parentNode) {
@@ -600,6 +880,7 @@ export class RenderSystem extends System {
     }
     
     this.renderer.dispose();
+    this.renderer.domElement.remove();
     super.destroy();
   }
 }
\ No newline at end of file
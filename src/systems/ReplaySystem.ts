@@ -0,0 +1,116 @@
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Input } from '../components/Input';
+import { RenderSystem } from './RenderSystem';
+import { ReplayCodec } from '../replay/ReplayCodec';
+import { ReplayData, ReplayInputState, ReplayViewState } from '../replay/ReplayData';
+
+/**
+ * リプレイの動作
+ */
+export enum ReplayMode {
+  RECORD = 'record',     // 試合中の入力を記録する
+  PLAYBACK = 'playback'  // 記録した入力で再シミュレーションする（InputSystemの代わり）
+}
+
+/**
+ * プレイヤーの入力とカメラの姿勢を刻みごとに記録・再生するシステム
+ * 入力の直後に実行し、記録では入力を読み取り、再生では入力を書き込む
+ */
+export class ReplaySystem extends System {
+  private replay: ReplayData;
+  private mode: ReplayMode;
+  private inputCursor: number = 0;
+  private viewCursor: number = 0;
+  private lastInputs: Map<number, ReplayInputState> = new Map();
+  private lastView: ReplayViewState | null = null;
+
+  constructor(replay: ReplayData, mode: ReplayMode) {
+    super();
+    this.priority = 99; // InputSystemの直後
+    this.replay = replay;
+    this.mode = mode;
+  }
+
+  requiredComponents() {
+    return [Input];
+  }
+
+  update(_deltaTime: number): void {
+    const tick = this.world!.getTick();
+    if (this.mode === ReplayMode.RECORD) {
+      this.record(tick);
+    } else {
+      this.play(tick);
+    }
+  }
+
+  /**
+   * 前の刻みから変わった入力とカメラの姿勢を記録
+   */
+  private record(tick: number): void {
+    this.getPlayers().forEach((player, index) => {
+      const state = ReplayCodec.captureInput(player.getComponent(Input)!);
+      if (!ReplayCodec.isSame(this.lastInputs.get(index) ?? null, state)) {
+        this.replay.inputs.push([tick, index, state]);
+        this.lastInputs.set(index, state);
+      }
+    });
+
+    const renderSystem = this.world?.getSystem(RenderSystem);
+    if (renderSystem) {
+      const view = ReplayCodec.captureView(renderSystem.getCameraPose());
+      if (!ReplayCodec.isSame(this.lastView, view)) {
+        this.replay.views.push([tick, view]);
+        this.lastView = view;
+      }
+    }
+
+    this.replay.tickCount = tick;
+  }
+
+  /**
+   * この刻みまでに記録された入力とカメラの姿勢を反映
+   */
+  private play(tick: number): void {
+    const inputs = this.replay.inputs;
+    while (this.inputCursor < inputs.length && inputs[this.inputCursor][0] <= tick) {
+      const [, index, state] = inputs[this.inputCursor++];
+      this.lastInputs.set(index, state);
+    }
+    this.getPlayers().forEach((player, index) => {
+      const state = this.lastInputs.get(index);
+      if (state) ReplayCodec.applyInput(state, player.getComponent(Input)!);
+    });
+
+    const views = this.replay.views;
+    while (this.viewCursor < views.length && views[this.viewCursor][0] <= tick) {
+      this.lastView = views[this.viewCursor++][1];
+    }
+    if (this.lastView) {
+      this.world?.getSystem(RenderSystem)?.setCameraPose(ReplayCodec.toCameraPose(this.lastView));
+    }
+  }
+
+  /**
+   * 入力を記録・再生するプレイヤー（作成順に番号を振る）
+   */
+  private getPlayers(): Entity[] {
+    return this.getEntities().filter(entity => entity.hasTag('player'));
+  }
+
+  getReplay(): ReplayData {
+    return this.replay;
+  }
+
+  getMode(): ReplayMode {
+    return this.mode;
+  }
+
+  /**
+   * 再生が記録の最後まで進んだか
+   */
+  isFinished(): boolean {
+    return this.mode === ReplayMode.PLAYBACK && this.world!.getTick() >= this.replay.tickCount;
+  }
+}
@@ -6,6 +6,7 @@ import { Transform } from '../components/Transform';
 import { Character } from '../components/Character';
 import { Input } from '../components/Input';
 import { Trigger } from '../components/Trigger';
+import { AI } from '../components/AI';
 import { MeshComponent } from '../components/Mesh';
 import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
 import { RenderSystem } from './RenderSystem';
@@ -66,9 +67,11 @@ export class ShieldSystem extends System {
         // チャージ終了、シールド展開
         this.chargingPlayers.delete(entity.id);
         
-        // カメラの向きを取得
+        // カメラの向きを取得（AIは視線の水平方向に展開）
         const renderSystem = this.world?.getSystem(RenderSystem);
-        const cameraRotation = renderSystem?.getCameraRotation() || { x: 0, y: 0 };
+        const cameraRotation = entity.hasComponent(AI)
+          ? { x: 0, y: input.lookDirection.x }
+          : renderSystem?.getCameraRotation() || { x: 0, y: 0 };
         
         shield.deploy(cameraRotation, transform.position);
         this.createShieldEntity(entity, shield, transform);
@@ -119,10 +122,10 @@ export class ShieldSystem extends System {
     shieldEntity.addTag('shield');
     shieldEntity.addTag(`shield-${playerEntity.id}`); // 所有者を識別
     
-    // コライダーを追加（当たり判定用）
+    // コライダーを追加（当たり判定用、Boxのsizeは半分の大きさ）
     const collider = new Collider(
       ColliderType.BOX,
-      shield.getScale(),
+      shield.getScale().multiplyScalar(0.5),
       CollisionLayer.DEFAULT,
       0xFFFF,
       true  // isTrigger
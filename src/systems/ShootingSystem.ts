@@ -4,11 +4,17 @@ import { Entity } from '../ecs/Entity';
 import { Transform } from '../components/Transform';
 import { Character } from '../components/Character';
 import { Trigger } from '../components/Trigger';
+import { Input } from '../components/Input';
+import { AI } from '../components/AI';
 import { MeshComponent } from '../components/Mesh';
 import { Velocity } from '../components/Velocity';
 import { Projectile, ProjectileType } from '../components/Projectile';
 import { RenderSystem } from './RenderSystem';
+import { PerceptionSystem } from './PerceptionSystem';
+import { CollisionSystem, CollisionQueryHit, CollisionQueryOptions } from './CollisionSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
 import { TRIGGER_DEFINITIONS, TriggerType } from '../triggers/TriggerDefinitions';
+import { TriggerStatCalculator } from '../triggers/TriggerStatCalculator';
 import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
 
 /**
@@ -19,6 +25,7 @@ interface RaycastResult {
   point: THREE.Vector3;
   distance: number;
   object?: THREE.Object3D;
+  entity?: Entity | null;  // 当たり判定の形状に当たった場合のエンティティ（地面ならnull）
   normal?: THREE.Vector3;
 }
 
@@ -114,6 +121,21 @@ export class ShootingSystem extends System {
     console.log('  camera position:', camera.position.toArray());
     console.log('  ray origin:', raycaster.ray.origin.toArray());
     console.log('  ray direction:', raycaster.ray.direction.toArray());
+
+    // 当たり判定の形状にレイを飛ばす（カメラ近くの障害物は避ける）
+    const collisionSystem = this.world?.getSystem(CollisionSystem);
+    if (collisionSystem) {
+      const near = 1.5;
+      const origin = raycaster.ray.origin.clone().addScaledVector(raycaster.ray.direction, near);
+      const hit = collisionSystem.raycast(origin, raycaster.ray.direction, this.maxShootingRange - near, this.getShotQuery());
+      if (hit) return this.toRaycastResult(hit, near);
+
+      return {
+        hit: false,
+        point: raycaster.ray.origin.clone().add(raycaster.ray.direction.clone().multiplyScalar(this.maxShootingRange)),
+        distance: this.maxShootingRange
+      };
+    }
     
     // レイキャスト対象を取得
     const renderSystem = this.world?.getSystem(RenderSystem);
@@ -220,6 +242,19 @@ export class ShootingSystem extends System {
     // 武器からのレイキャスト距離を制限
     const actualDistance = Math.min(distance, weaponRange);
     
+    // 当たり判定の形状にレイを飛ばす
+    const collisionSystem = this.world?.getSystem(CollisionSystem);
+    if (collisionSystem) {
+      const hit = collisionSystem.raycast(weaponPosition, direction, actualDistance, this.getShotQuery());
+      if (hit) return this.toRaycastResult(hit);
+
+      return {
+        hit: false,
+        point: weaponPosition.clone().add(direction.multiplyScalar(actualDistance)),
+        distance: actualDistance
+      };
+    }
+
     const raycaster = new THREE.Raycaster(weaponPosition, direction, 0, actualDistance);
     
     // シーン内のオブジェクトに対してレイキャスト実行
@@ -261,6 +296,30 @@ export class ShootingSystem extends System {
     }
   }
 
+  /**
+   * 射線のレイキャストの条件（建物・キャラクター・地面に当て、プレイヤー自身は除外）
+   */
+  private getShotQuery(): CollisionQueryOptions {
+    return {
+      layerMask: CollisionLayer.ENVIRONMENT | CollisionLayer.CHARACTER | CollisionLayer.ENEMY,
+      ignore: this.world?.getEntitiesWithTag('player').map(entity => entity.id) ?? [],
+      hitGround: true
+    };
+  }
+
+  /**
+   * 当たり判定のレイキャストの結果を射撃用の結果に変換（offsetは始点をずらした距離）
+   */
+  private toRaycastResult(hit: CollisionQueryHit, offset: number = 0): RaycastResult {
+    return {
+      hit: true,
+      point: hit.point.clone(),
+      distance: hit.distance + offset,
+      entity: hit.entity,
+      normal: hit.normal.clone()
+    };
+  }
+
   /**
    * TPSデュアルトレース弾道計算
    * カメラトレースとマズルトレースを組み合わせた高精度射撃
@@ -344,6 +403,27 @@ export class ShootingSystem extends System {
     triggerType: TriggerType,
     isLeftHand: boolean = false
   ): Entity | null {
+    // AIはカメラではなく自身の視線の方向に撃つ
+    const aiInput = shooter.hasComponent(AI) ? shooter.getComponent(Input) : undefined;
+    if (aiInput) {
+      const direction = new THREE.Vector3(0, 0, -1)
+        .applyAxisAngle(new THREE.Vector3(1, 0, 0), aiInput.lookDirection.y)
+        .applyAxisAngle(new THREE.Vector3(0, 1, 0), aiInput.lookDirection.x);
+      const muzzlePosition = shooterTransform.position.clone();
+      muzzlePosition.y += 1.5; // 胸の高さ
+      muzzlePosition.addScaledVector(direction, 0.5);
+
+      const projectile = this.createProjectileEntity(
+        shooter,
+        muzzlePosition,
+        this.applyAccuracy(direction, triggerType, shooter),
+        triggerType,
+        character
+      );
+      this.emitGunshot(shooter, shooterTransform, character);
+      return projectile;
+    }
+
     const renderSystem = this.world?.getSystem(RenderSystem);
     const camera = renderSystem?.getCamera();
     
@@ -393,10 +473,23 @@ export class ShootingSystem extends System {
       triggerType,
       character
     );
+    this.emitGunshot(shooter, shooterTransform, character);
 
     return projectileEntity;
   }
 
+  /**
+   * 銃声で周囲の敵に射手の位置を知らせる
+   */
+  private emitGunshot(shooter: Entity, shooterTransform: Transform, character: Character): void {
+    this.world?.getSystem(PerceptionSystem)?.emitSound(
+      shooterTransform.position,
+      GAME_CONFIG.PERCEPTION.GUNSHOT_RANGE,
+      character.team,
+      shooter.id
+    );
+  }
+
   /**
    * 射撃精度を適用（散布角度を追加）
    */
@@ -425,10 +518,13 @@ export class ShootingSystem extends System {
         baseSpread = 0.04; // 2.29度 - デフォルト
     }
 
-    // エイミング状態による精度修正
+    // エイミング状態による精度修正（AIはカメラを持たないため難易度に応じた倍率を使う）
     let accuracyMultiplier = 1.0;
+    const ai = shooter.getComponent(AI);
     
-    if (renderSystem?.isScopeModeActive()) {
+    if (ai) {
+      accuracyMultiplier = ai.config.aimSpread;
+    } else if (renderSystem?.isScopeModeActive()) {
       // スコープ時：散布を50%に削減（高精度）
       accuracyMultiplier = 0.5;
     } else if (renderSystem?.isAimingModeActive()) {
@@ -445,8 +541,9 @@ export class ShootingSystem extends System {
     // 散布をランダムに適用
     if (finalSpread > 0) {
       // ランダム角度生成
-      const randomAngle = (Math.random() - 0.5) * 2 * Math.PI;
-      const randomDistance = Math.random() * finalSpread;
+      const random = this.world!.getRandom('aim');
+      const randomAngle = (random.next() - 0.5) * 2 * Math.PI;
+      const randomDistance = random.next() * finalSpread;
 
       // 射撃方向に垂直な平面でランダム散布
       const perpendicular1 = new THREE.Vector3();
@@ -524,10 +621,10 @@ export class ShootingSystem extends System {
     character: Character
   ): Entity {
     const projectileEntity = this.world!.createEntity();
-    const definition = TRIGGER_DEFINITIONS[triggerType];
     
-    // 弾速を設定（キャラクターのトリオン量を考慮）
-    const speed = this.getProjectileSpeed(triggerType, character);
+    // トリオン量に基づく性能（威力・弾速・射程）
+    const stats = TriggerStatCalculator.calculate(triggerType, character);
+    const speed = stats.speed;
     const velocity = direction.clone().multiplyScalar(speed);
     
     // デバッグ用ログ
@@ -539,27 +636,9 @@ export class ShootingSystem extends System {
     // 弾丸の種類を決定
     const projectileType = this.getProjectileType(triggerType);
     
-    // ダメージ計算（アイビスの特殊効果あり）
-    let finalDamage = definition.damage;
-    
-    // アイビスの特殊効果：トリオン量によるダメージアップ
-    if (triggerType === TriggerType.IBIS) {
-      const trionRatio = character.stats.currentTrion / character.stats.trionCapacity;
-      const damageMultiplier = 1 + (trionRatio * 1.2); // 最大2.2倍
-      finalDamage *= damageMultiplier;
-      console.log(`Ibis damage boost: ${damageMultiplier.toFixed(2)}x (Trion: ${character.stats.currentTrion}/${character.stats.trionCapacity})`);
-    }
-    
-    // 射程距離計算（イーグレットの特殊効果あり）
-    let finalRange = definition.range;
-    
-    // イーグレットの特殊効果：射程距離アップ
-    if (triggerType === TriggerType.EAGLET) {
-      const trionRatio = character.stats.currentTrion / character.stats.trionCapacity;
-      const rangeMultiplier = 1 + (trionRatio * 0.6); // 最大1.6倍
-      finalRange *= rangeMultiplier;
-      console.log(`Eaglet range boost: ${rangeMultiplier.toFixed(2)}x (Trion: ${character.stats.currentTrion}/${character.stats.trionCapacity})`);
-    }
+    const finalDamage = stats.damage;
+    const finalRange = stats.range;
+    console.log(`Trion-based stats for ${triggerType}: damage=${finalDamage.toFixed(1)}, speed=${speed.toFixed(1)}, range=${finalRange.toFixed(1)}`);
     
     // 弾丸コンポーネント
     const projectile = new Projectile(
@@ -607,44 +686,6 @@ export class ShootingSystem extends System {
     return projectileEntity;
   }
 
-  /**
-   * 弾速を取得（トリオン量による補正あり）
-   */
-  private getProjectileSpeed(triggerType: TriggerType, character: Character): number {
-    const definition = TRIGGER_DEFINITIONS[triggerType];
-    let baseSpeed: number;
-    
-    // 基本弾速を設定
-    switch (definition.category) {
-      case 'sniper':
-        baseSpeed = 50; // スナイパーの基本弾速
-        break;
-      case 'gunner':
-        baseSpeed = 40;
-        break;
-      case 'shooter':
-        baseSpeed = 35;
-        break;
-      default:
-        baseSpeed = 30;
-    }
-    
-    // ライトニングの特殊効果：トリオン量による弾速アップ
-    if (triggerType === TriggerType.LIGHTNING) {
-      const trionRatio = character.stats.currentTrion / character.stats.trionCapacity;
-      const speedMultiplier = 1 + (trionRatio * 0.8); // 最大1.8倍
-      baseSpeed *= speedMultiplier;
-      console.log(`Lightning speed boost: ${speedMultiplier.toFixed(2)}x (Trion: ${character.stats.currentTrion}/${character.stats.trionCapacity})`);
-    }
-    
-    // ハウンドの弾速調整（ホーミング効果を活かすため中程度の速度）
-    if (triggerType === TriggerType.HOUND) {
-      baseSpeed = 30; // ホーミングが効果的に働く速度
-    }
-    
-    return baseSpeed;
-  }
-
   /**
    * 弾丸の種類を取得
    */
@@ -669,7 +710,7 @@ export class ShootingSystem extends System {
   /**
    * 弾丸メッシュを作成
    */
-  private createProjectileMesh(triggerType: TriggerType): THREE.Mesh {
+  createProjectileMesh(triggerType: TriggerType): THREE.Mesh {
     let geometry: THREE.BufferGeometry;
     let material: THREE.MeshBasicMaterial;
     
@@ -872,7 +913,7 @@ export class ShootingSystem extends System {
     }
 
     // デバッグオブジェクトを自動的に削除（1秒後）
-    setTimeout(() => {
+    this.world?.schedule(() => {
       this.clearDebugObjects(scene);
     }, 1000);
   }
@@ -0,0 +1,245 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Character } from '../components/Character';
+import { Input } from '../components/Input';
+import { Trigger } from '../components/Trigger';
+import { MeshComponent } from '../components/Mesh';
+import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
+import { SpiderWire } from '../components/SpiderWire';
+import { TriggerType, TRIGGER_DEFINITIONS } from '../triggers/TriggerDefinitions';
+import { RenderSystem } from './RenderSystem';
+import { ShootingSystem } from './ShootingSystem';
+import { CollisionSystem } from './CollisionSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * スパイダー（ワイヤートラップ）システム
+ * 1回目の操作で始点、2回目の操作で終点を指定してワイヤーを張る
+ */
+export class SpiderSystem extends System {
+  private pendingAnchors: Map<number, THREE.Vector3> = new Map();
+  private placeCooldowns: Map<number, number> = new Map();
+
+  requiredComponents() {
+    return [Transform, Character, Input, Trigger];
+  }
+
+  update(deltaTime: number): void {
+    const entities = this.getEntities();
+
+    for (const entity of entities) {
+      const input = entity.getComponent(Input)!;
+      const trigger = entity.getComponent(Trigger)!;
+
+      // クールダウンを更新
+      const cooldown = this.placeCooldowns.get(entity.id) || 0;
+      if (cooldown > 0) {
+        this.placeCooldowns.set(entity.id, cooldown - deltaTime);
+      }
+
+      // スパイダーを選択していない場合は始点をリセット
+      if (trigger.currentTrigger !== TriggerType.SPIDER &&
+          trigger.leftCurrentTrigger !== TriggerType.SPIDER) {
+        this.pendingAnchors.delete(entity.id);
+        continue;
+      }
+
+      // 右手でスパイダーが装備されている場合
+      if (trigger.currentTrigger === TriggerType.SPIDER && input.mainRightAction) {
+        input.mainRightAction = false; // 他のシステムで攻撃として処理されないよう消費
+        this.handleSpiderAction(entity);
+      }
+
+      // 左手でスパイダーが装備されている場合
+      if (trigger.leftCurrentTrigger === TriggerType.SPIDER && input.mainLeftAction) {
+        input.mainLeftAction = false;
+        this.handleSpiderAction(entity);
+      }
+    }
+
+    // ワイヤーの可視性を更新
+    this.updateWireVisibility();
+  }
+
+  /**
+   * スパイダーのアクション処理
+   */
+  private handleSpiderAction(entity: Entity): void {
+    const transform = entity.getComponent(Transform)!;
+    const character = entity.getComponent(Character)!;
+    const definition = TRIGGER_DEFINITIONS[TriggerType.SPIDER];
+
+    if ((this.placeCooldowns.get(entity.id) || 0) > 0) return;
+
+    const point = this.getAnchorPoint(entity, transform);
+    const anchor = this.pendingAnchors.get(entity.id);
+
+    // 1回目：始点を記録
+    if (!anchor) {
+      this.pendingAnchors.set(entity.id, point);
+      console.log(`🕸️ Spider anchor set at (${point.x.toFixed(1)}, ${point.y.toFixed(1)}, ${point.z.toFixed(1)})`);
+      return;
+    }
+
+    // 2回目：終点を決めてワイヤーを張る
+    if (anchor.distanceTo(point) > GAME_CONFIG.SPIDER.MAX_LENGTH) {
+      console.log('🕸️ Wire too long, anchor reset');
+      this.pendingAnchors.set(entity.id, point);
+      return;
+    }
+
+    if (character.stats.currentTrion < definition.trionCost) {
+      console.log('Insufficient trion for Spider');
+      return;
+    }
+
+    character.takeDamage(definition.trionCost);
+    this.createWire(anchor, point, entity.id, character.team);
+    this.pendingAnchors.delete(entity.id);
+    this.placeCooldowns.set(entity.id, definition.cooldown);
+  }
+
+  /**
+   * ワイヤーの端点を取得
+   */
+  private getAnchorPoint(entity: Entity, transform: Transform): THREE.Vector3 {
+    let point: THREE.Vector3 | null = null;
+
+    // プレイヤーはクロスヘアの指す面を端点にする
+    if (entity.hasTag('player')) {
+      const renderSystem = this.world?.getSystem(RenderSystem);
+      const shootingSystem = this.world?.getSystem(ShootingSystem);
+      if (renderSystem && shootingSystem) {
+        const result = shootingSystem.performCameraRaycast(renderSystem.getCamera());
+        if (result.hit && result.distance <= GAME_CONFIG.SPIDER.MAX_LENGTH) {
+          point = result.point.clone();
+        }
+      }
+    }
+
+    // レイが届かない場合（AIを含む）は正面の点を端点にする
+    if (!point) {
+      const forward = new THREE.Vector3(0, 0, -1)
+        .applyAxisAngle(new THREE.Vector3(0, 1, 0), transform.rotation.y);
+      point = transform.position.clone().add(forward.multiplyScalar(4));
+    }
+
+    point.y = Math.max(point.y, GAME_CONFIG.SPIDER.MIN_ANCHOR_HEIGHT);
+    return point;
+  }
+
+  /**
+   * ワイヤーエンティティを作成
+   */
+  createWire(start: THREE.Vector3, end: THREE.Vector3, owner: number, team: number): Entity {
+    const wireEntity = this.world!.createEntity();
+    const wire = new SpiderWire(start, end, owner, team);
+    const length = Math.max(wire.getLength(), 0.01);
+
+    // ワイヤーの向き（シリンダーのY軸をワイヤー方向に合わせる）
+    const quaternion = new THREE.Quaternion();
+    quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), wire.getDirection());
+    const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+
+    wireEntity.addComponent(SpiderWire, wire);
+    wireEntity.addComponent(Transform, new Transform(
+      wire.getMidpoint(),
+      rotation,
+      new THREE.Vector3(1, 1, 1)
+    ));
+
+    // ワイヤーの見た目
+    wireEntity.addComponent(MeshComponent, new MeshComponent(this.createWireMesh(wire)));
+
+    // ワイヤーのコライダー（移動への影響はMovementSystemで処理）
+    wireEntity.addComponent(Collider, new Collider(
+      ColliderType.CAPSULE,
+      new THREE.Vector3(GAME_CONFIG.SPIDER.WIRE_RADIUS, length, GAME_CONFIG.SPIDER.WIRE_RADIUS),
+      CollisionLayer.TRIGGER,
+      0,
+      true
+    ));
+
+    wireEntity.addTag('wire');
+
+    console.log(`🕸️ Spider wire created: length ${length.toFixed(1)}m, team ${team}`);
+    return wireEntity;
+  }
+
+  /**
+   * ワイヤーのメッシュを作成
+   */
+  createWireMesh(wire: SpiderWire): THREE.Mesh {
+    const geometry = new THREE.CylinderGeometry(0.03, 0.03, Math.max(wire.getLength(), 0.01), 6);
+    const material = new THREE.MeshBasicMaterial({
+      color: 0xccffff,
+      transparent: true,
+      opacity: 0.8
+    });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = 'spider_wire';
+    mesh.userData.isWire = true;
+    return mesh;
+  }
+
+  /**
+   * ワイヤーの可視性を更新（プレイヤー視点）
+   * 敵チームのワイヤーは視線が通っている場合のみ表示
+   */
+  private updateWireVisibility(): void {
+    const player = this.world?.getEntitiesWithTag('player')[0];
+    if (!player) return;
+
+    for (const wireEntity of this.world!.getEntitiesWithTag('wire')) {
+      const meshComponent = wireEntity.getComponent(MeshComponent);
+      if (!meshComponent) continue;
+
+      meshComponent.mesh.visible = this.isWireVisibleTo(wireEntity, player);
+    }
+  }
+
+  /**
+   * ワイヤーが指定キャラクターから見えるか判定
+   */
+  isWireVisibleTo(wireEntity: Entity, viewer: Entity): boolean {
+    const wire = wireEntity.getComponent(SpiderWire);
+    const viewerCharacter = viewer.getComponent(Character);
+    const viewerTransform = viewer.getComponent(Transform);
+    if (!wire || !viewerCharacter || !viewerTransform) return false;
+
+    // 味方のワイヤーは常に見える
+    if (wire.team === viewerCharacter.team) return true;
+
+    // AIの視界と同じ目の高さから見る
+    const eye = viewerTransform.position.clone();
+    eye.y += GAME_CONFIG.PERCEPTION.EYE_HEIGHT;
+    const target = wire.closestPointTo(eye);
+
+    if (eye.distanceTo(target) > GAME_CONFIG.SPIDER.VISIBILITY_RANGE) return false;
+
+    return this.hasLineOfSight(eye, target);
+  }
+
+  /**
+   * 2点間の視線が環境（ENVIRONMENTレイヤーのコライダー）に遮られていないか判定
+   */
+  private hasLineOfSight(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const collisionSystem = this.world?.getSystem(CollisionSystem);
+    if (!collisionSystem) return true;
+
+    const direction = to.clone().sub(from);
+    const distance = direction.length();
+    if (distance < 0.001) return true;
+    direction.divideScalar(distance);
+
+    return collisionSystem.raycast(from, direction, distance, { layerMask: CollisionLayer.ENVIRONMENT }) === null;
+  }
+
+  destroy(): void {
+    this.pendingAnchors.clear();
+    this.placeCooldowns.clear();
+    super.destroy();
+  }
+}
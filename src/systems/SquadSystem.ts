@@ -0,0 +1,282 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Character } from '../components/Character';
+import { AI } from '../components/AI';
+import { Perception, PerceptionSource } from '../components/Perception';
+import { GAME_CONFIG } from '../config/GameConfig';
+import { SquadBlackboard, SquadRole, CLASS_SQUAD_ROLES } from '../ai/SquadBlackboard';
+import { RadarSystem } from './RadarSystem';
+import { NavigationSystem } from './NavigationSystem';
+import { EnvironmentSystem } from './EnvironmentSystem';
+
+/**
+ * 部隊AIの指揮システム
+ * Character.teamごとにAI隊員をまとめ、共有ブラックボードに敵の位置を集めて
+ * 役割の割り当て・集中攻撃・撤退の指示を出す（個々の行動はAISystemのツリーが決める）
+ */
+export class SquadSystem extends System {
+  private squads: Map<number, SquadBlackboard> = new Map();
+  private elapsedTime: number = 0;
+
+  requiredComponents() {
+    return [Transform, Character, AI];
+  }
+
+  update(deltaTime: number): void {
+    this.elapsedTime += deltaTime;
+    const config = GAME_CONFIG.SQUAD;
+
+    // 戦闘可能なAI隊員を部隊ごとにまとめる
+    const teams = new Map<number, Entity[]>();
+    for (const entity of this.getEntities()) {
+      const character = entity.getComponent(Character)!;
+      if (character.isDefeated()) continue;
+
+      const members = teams.get(character.team) ?? [];
+      members.push(entity);
+      teams.set(character.team, members);
+    }
+
+    // 全員が戦闘不能になった部隊は解散
+    for (const team of this.squads.keys()) {
+      if (!teams.has(team)) {
+        this.squads.delete(team);
+      }
+    }
+
+    for (const [team, members] of teams) {
+      let squad = this.squads.get(team);
+      if (!squad) {
+        squad = new SquadBlackboard(team);
+        this.squads.set(team, squad);
+      }
+      squad.members = members.map(entity => entity.id);
+
+      this.gatherReports(squad, members);
+
+      if (this.elapsedTime >= squad.nextDecisionTime) {
+        squad.nextDecisionTime = this.elapsedTime + config.DECISION_INTERVAL;
+        this.assignRoles(squad, members);
+        this.chooseFocusTarget(squad, members);
+        this.updateRetreatOrder(squad, members);
+        this.updateOverwatchPoint(squad, members);
+      }
+    }
+  }
+
+  /**
+   * 部隊のブラックボード（AI隊員がいない部隊はnull）
+   */
+  getSquad(team: number): SquadBlackboard | null {
+    return this.squads.get(team) ?? null;
+  }
+
+  /**
+   * 各メンバーが捉えた敵をブラックボードに集め、部隊の把握している敵をメンバーに共有する
+   * 知覚を持たないメンバーは探知範囲内のレーダーの反応を報告する
+   */
+  private gatherReports(squad: SquadBlackboard, members: Entity[]): void {
+    if (!this.world) return;
+    const radarSystem = this.world.getSystem(RadarSystem);
+
+    for (const member of members) {
+      const perception = member.getComponent(Perception);
+      if (perception) {
+        // このフレームに自分で捉えた敵だけを報告する
+        for (const memory of perception.memories.values()) {
+          if (memory.age > 0 || memory.source === PerceptionSource.SQUAD) continue;
+          squad.report(memory.entityId, memory.position, this.elapsedTime, member.id);
+        }
+        continue;
+      }
+
+      if (!radarSystem) continue;
+      const position = member.getComponent(Transform)!.position;
+      const range = member.getComponent(AI)!.config.detectionRange;
+      for (const blip of radarSystem.getEnemyBlips(position, squad.team, range)) {
+        squad.report(blip.entityId, blip.position, this.elapsedTime, member.id);
+      }
+    }
+
+    // 見失って時間が経った敵と、戦闘不能になった敵を外す
+    squad.forget(this.elapsedTime - GAME_CONFIG.SQUAD.MEMORY_DURATION);
+    for (const entityId of squad.knownEnemies.keys()) {
+      const enemy = this.world.getEntityById(entityId);
+      if (!enemy || !enemy.active || enemy.getComponent(Character)?.isDefeated()) {
+        squad.knownEnemies.delete(entityId);
+      }
+    }
+
+    for (const member of members) {
+      const perception = member.getComponent(Perception);
+      if (!perception) continue;
+      for (const known of squad.knownEnemies.values()) {
+        perception.share(known.entityId, known.position, this.elapsedTime - known.lastSeen);
+      }
+    }
+  }
+
+  /**
+   * クラスに応じて役割を割り当てる
+   * オールラウンダーは前衛がいなければ前衛、いれば援護。前衛が欠けたら援護役が繰り上がる
+   */
+  private assignRoles(squad: SquadBlackboard, members: Entity[]): void {
+    const roles = new Map<number, SquadRole>();
+    const flexible: Entity[] = [];
+
+    for (const member of members) {
+      const role = CLASS_SQUAD_ROLES[member.getComponent(Character)!.class];
+      if (role) {
+        roles.set(member.id, role);
+      } else {
+        flexible.push(member);
+      }
+    }
+
+    for (const member of flexible) {
+      const hasPusher = Array.from(roles.values()).includes(SquadRole.PUSH);
+      roles.set(member.id, hasPusher ? SquadRole.COVER : SquadRole.PUSH);
+    }
+
+    // 前衛がいない場合はトリオンの多い援護役を前に出す
+    if (!Array.from(roles.values()).includes(SquadRole.PUSH)) {
+      const candidate = members
+        .filter(member => roles.get(member.id) === SquadRole.COVER)
+        .sort((a, b) => b.getComponent(Character)!.getTrionPercentage() - a.getComponent(Character)!.getTrionPercentage())[0];
+      if (candidate) {
+        roles.set(candidate.id, SquadRole.PUSH);
+      }
+    }
+
+    for (const [entityId, role] of roles) {
+      if (squad.roles.get(entityId) !== role) {
+        console.log(`📋 部隊${squad.team + 1}: AI ${entityId} → ${role}`);
+      }
+    }
+    squad.roles = roles;
+
+    // 援護役は最もトリオンの多い前衛につく
+    const pushers = members
+      .filter(member => roles.get(member.id) === SquadRole.PUSH)
+      .sort((a, b) => b.getComponent(Character)!.getTrionPercentage() - a.getComponent(Character)!.getTrionPercentage());
+    squad.pushLeaderId = pushers[0]?.id ?? null;
+  }
+
+  /**
+   * 集中攻撃の対象を決める
+   * 部隊の近くにいて弱っている敵ほど優先し、切り替えは十分に有利な場合だけ行う
+   */
+  private chooseFocusTarget(squad: SquadBlackboard, members: Entity[]): void {
+    const centroid = this.getCentroid(members);
+    const score = (entityId: number): number => {
+      const known = squad.knownEnemies.get(entityId)!;
+      const trion = this.world?.getEntityById(entityId)?.getComponent(Character)?.getTrionPercentage() ?? 100;
+      return known.position.distanceTo(centroid) * (0.5 + trion / 100);
+    };
+
+    let best: number | null = null;
+    let bestScore = Infinity;
+    for (const entityId of squad.knownEnemies.keys()) {
+      const candidate = score(entityId);
+      if (candidate < bestScore) {
+        best = entityId;
+        bestScore = candidate;
+      }
+    }
+
+    const current = squad.focusTargetId;
+    if (current !== null && squad.knownEnemies.has(current) &&
+        bestScore >= score(current) * GAME_CONFIG.SQUAD.FOCUS_SWITCH_RATIO) {
+      return;
+    }
+
+    if (best !== current) {
+      squad.focusTargetId = best;
+      if (best !== null) {
+        console.log(`🎯 部隊${squad.team + 1}: 集中攻撃 → ${best}`);
+      }
+    }
+  }
+
+  /**
+   * 消耗が激しいか数で劣る場合に撤退を指示し、敵と反対側に集合地点を決める
+   */
+  private updateRetreatOrder(squad: SquadBlackboard, members: Entity[]): void {
+    const config = GAME_CONFIG.SQUAD;
+    const enemyCentroid = squad.getEnemyCentroid();
+
+    const averageTrion = members.reduce(
+      (sum, member) => sum + member.getComponent(Character)!.getTrionPercentage(), 0
+    ) / members.length;
+    const outnumbered = squad.knownEnemies.size - members.length >= config.OUTNUMBERED_MARGIN;
+    const shouldRetreat = enemyCentroid !== null && (averageTrion < config.RETREAT_TRION || outnumbered);
+
+    if (shouldRetreat !== squad.retreatOrdered) {
+      console.log(shouldRetreat
+        ? `🏳️ 部隊${squad.team + 1}: 撤退指示（平均トリオン${averageTrion.toFixed(0)}%、敵${squad.knownEnemies.size}人）`
+        : `⚔️ 部隊${squad.team + 1}: 撤退解除`);
+    }
+    squad.retreatOrdered = shouldRetreat;
+
+    if (!shouldRetreat || !enemyCentroid) {
+      squad.rallyPoint = null;
+      return;
+    }
+    if (squad.rallyPoint) return; // 撤退中は集合地点を動かさない
+
+    const centroid = this.getCentroid(members);
+    const away = centroid.clone().sub(enemyCentroid).setY(0);
+    if (away.lengthSq() < 0.0001) away.set(0, 0, 1);
+
+    const limit = (this.world?.getSystem(EnvironmentSystem)?.getHalfExtent() ?? GAME_CONFIG.MOVEMENT.ARENA_BOUNDS) - 1;
+    const rally = centroid.addScaledVector(away.normalize(), config.RALLY_DISTANCE);
+    rally.x = THREE.MathUtils.clamp(rally.x, -limit, limit);
+    rally.z = THREE.MathUtils.clamp(rally.z, -limit, limit);
+    rally.y = GAME_CONFIG.MOVEMENT.GROUND_LEVEL;
+    squad.rallyPoint = rally;
+  }
+
+  /**
+   * 狙撃役が確保する高所を探す（範囲内で最も高い足場、同じ高さなら近い方）
+   */
+  private updateOverwatchPoint(squad: SquadBlackboard, members: Entity[]): void {
+    const config = GAME_CONFIG.SQUAD;
+    const sniper = members.find(member => squad.getRole(member.id) === SquadRole.OVERWATCH);
+    const navMesh = this.world?.getSystem(NavigationSystem)?.getNavMesh();
+    if (!sniper || !navMesh) {
+      squad.overwatchPoint = null;
+      return;
+    }
+
+    const origin = sniper.getComponent(Transform)!.position;
+    let best: THREE.Vector3 | null = null;
+    for (const cell of navMesh.cells) {
+      if (cell.height < config.OVERWATCH_MIN_HEIGHT) continue;
+
+      const center = navMesh.getCellCenter(cell);
+      const distance = Math.hypot(center.x - origin.x, center.z - origin.z);
+      if (distance > config.OVERWATCH_SEARCH_RADIUS) continue;
+
+      if (!best || center.y > best.y ||
+          (center.y === best.y && distance < Math.hypot(best.x - origin.x, best.z - origin.z))) {
+        best = center;
+      }
+    }
+    squad.overwatchPoint = best;
+  }
+
+  private getCentroid(members: Entity[]): THREE.Vector3 {
+    const centroid = new THREE.Vector3();
+    for (const member of members) {
+      centroid.add(member.getComponent(Transform)!.position);
+    }
+    return centroid.divideScalar(Math.max(1, members.length));
+  }
+
+  destroy(): void {
+    this.squads.clear();
+    super.destroy();
+  }
+}
@@ -146,7 +146,7 @@ export class SwordActionSystem extends System {
     // 刀身伸長状態を設定
     const state: ExtendedBladeState = {
       isActive: true,
-      startTime: Date.now(),
+      startTime: this.world!.now(),
       holdTime: 0,
       maxLength: hasSenku ? 40 : 25, // 旋空ありなら40m、なしなら25m
       currentLength: 2.5, // 通常の刀身長
@@ -203,14 +203,14 @@ export class SwordActionSystem extends System {
       existingState.maxLength = 15;
       existingState.autoExtensionDuration = 0.2;
       existingState.hasSenku = true;
-      existingState.startTime = Date.now();
+      existingState.startTime = this.world!.now();
       existingState.holdTime = 0;
       console.log('🌀🌀🌀 SENKU EXTENDED 🌀🌀🌀');
     } else {
       // 新規で旋空攻撃時伸長開始
       const state: ExtendedBladeState = {
         isActive: true,
-        startTime: Date.now(),
+        startTime: this.world!.now(),
         holdTime: 0,
         maxLength: 15,
         currentLength: 2.5,
@@ -412,7 +412,7 @@ export class SwordActionSystem extends System {
       isActive: true,
       durability: 500, // 固定耐久力
       maxDurability: 500,
-      startTime: Date.now()
+      startTime: this.world!.now()
     };
 
     this.shieldModes.set(entity, state);
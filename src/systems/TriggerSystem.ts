@@ -18,8 +18,10 @@ import { GAME_CONFIG } from '../config/GameConfig';
 import { ShootingSystem } from './ShootingSystem';
 import { TriggerMenu } from '../ui/TriggerMenu';
 import { SplittingTrigger } from '../components/SplittingTrigger';
+import { TriggerStatCalculator } from '../triggers/TriggerStatCalculator';
 import { AnimationSystem, AnimationState } from './AnimationSystem';
 import { SwordActionSystem } from './SwordActionSystem';
+import { ViperTrajectorySystem } from './ViperTrajectorySystem';
 
 /**
  * トリガーの使用と切り替えを管理するシステム
@@ -319,8 +321,7 @@ export class TriggerSystem extends System {
     }
 
     // トリオン量に基づいてキューブサイズを設定
-    const trionRatio = character.stats.currentTrion / character.stats.trionCapacity;
-    splittingTrigger.setTrionBasedSize(trionRatio);
+    splittingTrigger.cubeSize = TriggerStatCalculator.calculate(triggerType, character).cubeSize;
     splittingTrigger.isGenerated = true;
 
     // キューブエンティティを作成
@@ -457,6 +458,7 @@ export class TriggerSystem extends System {
       right.applyAxisAngle(new THREE.Vector3(0, 1, 0), cameraRotation.y);
       
       const up = new THREE.Vector3(0, 1, 0);
+      const viperSystem = this.world?.getSystem(ViperTrajectorySystem);
       
       // 各キューブの位置から平行に発射
       for (let i = 0; i < splitCount; i++) {
@@ -493,7 +495,12 @@ export class TriggerSystem extends System {
         entity.removeComponent(Transform);
         entity.addComponent(Transform, tempTransform);
         
-        shootingSystem.fireProjectile(entity, tempTransform, character, triggerType, isLeftHand);
+        const projectileEntity = shootingSystem.fireProjectile(entity, tempTransform, character, triggerType, isLeftHand);
+        
+        // バイパーは設定された弾道に沿って飛ぶ
+        if (projectileEntity && triggerType === TriggerType.VIPER) {
+          viperSystem?.assignTrajectory(entity, projectileEntity, i, splitCount);
+        }
         
         // 元のtransformに戻す
         entity.removeComponent(Transform);
@@ -834,7 +841,7 @@ export class TriggerSystem extends System {
     // 攻撃実行（トリオン消費なし）- 横斬りのみ
     this.performMeleeAttack(trigger.currentTrigger, transform, character);
     // 横斬りアニメーション終了後に武器を再表示
-    setTimeout(() => {
+    this.world!.schedule(() => {
       this.showEquippedWeapon(_entity);
     }, GAME_CONFIG.ATTACK.FAN_SLASH.ANIMATION_DURATION);
   }
@@ -873,13 +880,13 @@ export class TriggerSystem extends System {
     if (attackType === 'vertical') {
       this.performLeftVerticalAttack(trigger.leftCurrentTrigger, transform, character);
       // 縦斬りアニメーション終了後に左手武器を再表示
-      setTimeout(() => {
+      this.world!.schedule(() => {
         this.showLeftEquippedWeapon(_entity);
       }, GAME_CONFIG.ATTACK.VERTICAL_SLASH.ANIMATION_DURATION);
     } else {
       this.performLeftMeleeAttack(trigger.leftCurrentTrigger, transform, character);
       // 横斬りアニメーション終了後に左手武器を再表示
-      setTimeout(() => {
+      this.world!.schedule(() => {
         this.showLeftEquippedWeapon(_entity);
       }, GAME_CONFIG.ATTACK.FAN_SLASH.ANIMATION_DURATION);
     }
@@ -914,7 +921,7 @@ export class TriggerSystem extends System {
     // 扇形攻撃エフェクトを生成
     const damage = definition.damage;
     const slashEntity = AttackEffects.createFanSlashEffect(
-      this.world,
+      this.world!,
       transform,
       triggerType,
       attackRange,
@@ -941,12 +948,12 @@ export class TriggerSystem extends System {
       type: 'horizontal',
       range: attackRange,
       damage: definition.damage,
-      startTime: Date.now(),
+      startTime: this.world!.now(),
       duration: GAME_CONFIG.ATTACK.FAN_SLASH.ANIMATION_DURATION
     });
     
     // エフェクトを削除するタイマー
-    setTimeout(() => {
+    this.world!.schedule(() => {
       this.world!.removeEntity(slashEntity);
       this.attackEffects.delete(slashEntity);
       this.activeAttacks.delete(slashEntity);
@@ -1926,6 +1933,56 @@ export class TriggerSystem extends System {
     }
   }
 
+  /**
+   * 腕の欠損時に、その手の武器と分割キューブを破棄してスロット群を使用不可にする
+   */
+  public handleHandLost(entity: Entity, isLeftHand: boolean): void {
+    const trigger = entity.getComponent(Trigger);
+    if (!trigger) return;
+
+    this.clearHand(entity, trigger, isLeftHand);
+    trigger.loseHand(isLeftHand);
+    console.log(`🦾 Entity ${entity.id}: ${isLeftHand ? '左手' : '右手'}のトリガーが使用不可`);
+  }
+
+  /**
+   * 両手の武器と分割キューブを破棄（緊急脱出時など）
+   */
+  public releaseWeapons(entity: Entity): void {
+    const trigger = entity.getComponent(Trigger);
+    if (!trigger) return;
+
+    this.clearHand(entity, trigger, false);
+    this.clearHand(entity, trigger, true);
+    trigger.dismissWeapon();
+    trigger.dismissLeftWeapon();
+  }
+
+  /**
+   * 片手の武器と分割キューブを破棄
+   */
+  private clearHand(entity: Entity, trigger: Trigger, isLeftHand: boolean): void {
+    const heldTrigger = isLeftHand ? trigger.leftCurrentTrigger : trigger.currentTrigger;
+    if (heldTrigger && this.isSplittingTrigger(heldTrigger)) {
+      const cubes = this.cubeEntities.get(entity.id);
+      if (cubes) {
+        cubes.forEach(cube => this.world!.removeEntity(cube));
+        this.cubeEntities.delete(entity.id);
+      }
+      const splittingTrigger = this.splittingTriggers.get(entity.id);
+      if (splittingTrigger) {
+        splittingTrigger.resetSplit();
+        splittingTrigger.isGenerated = false;
+      }
+    }
+
+    if (isLeftHand) {
+      this.removeLeftVisualWeapon(entity);
+    } else {
+      this.removeVisualWeapon(entity);
+    }
+  }
+
   /**
    * 装備武器を非表示
    */
@@ -1956,7 +2013,7 @@ export class TriggerSystem extends System {
    * アクティブな攻撃の当たり判定を更新
    */
   private updateActiveAttacks(_deltaTime: number): void {
-    const currentTime = Date.now();
+    const currentTime = this.world!.now();
     
     for (const [attackEntity, attackInfo] of this.activeAttacks) {
       // 攻撃の有効時間をチェック
@@ -2185,7 +2242,7 @@ export class TriggerSystem extends System {
     // ヒットエフェクトを作成
     const scene = this.world?.getSystem(RenderSystem)?.getScene();
     if (scene) {
-      AttackEffects.createHitEffect(scene, position);
+      AttackEffects.createHitEffect(this.world!, scene, position);
     }
   }
 
@@ -2217,7 +2274,7 @@ export class TriggerSystem extends System {
     // 扇形攻撃エフェクトを生成
     const damage = definition.damage;
     const slashEntity = AttackEffects.createFanSlashEffect(
-      this.world,
+      this.world!,
       transform,
       triggerType,
       attackRange,
@@ -2244,12 +2301,12 @@ export class TriggerSystem extends System {
       type: 'horizontal',
       range: attackRange,
       damage: definition.damage,
-      startTime: Date.now(),
+      startTime: this.world!.now(),
       duration: GAME_CONFIG.ATTACK.FAN_SLASH.ANIMATION_DURATION
     });
     
     // エフェクトを削除するタイマー
-    setTimeout(() => {
+    this.world!.schedule(() => {
       this.world!.removeEntity(slashEntity);
       this.attackEffects.delete(slashEntity);
       this.activeAttacks.delete(slashEntity);
@@ -2286,7 +2343,7 @@ export class TriggerSystem extends System {
     // 縦斬り攻撃エフェクトを生成
     const damage = definition.damage;
     const slashEntity = AttackEffects.createVerticalSlashEffect(
-      this.world,
+      this.world!,
       transform,
       triggerType,
       attackRange,
@@ -2313,12 +2370,12 @@ export class TriggerSystem extends System {
       type: 'vertical',
       range: attackRange,
       damage: definition.damage,
-      startTime: Date.now(),
+      startTime: this.world!.now(),
       duration: GAME_CONFIG.ATTACK.VERTICAL_SLASH.ANIMATION_DURATION
     });
     
     // エフェクトを削除するタイマー
-    setTimeout(() => {
+    this.world!.schedule(() => {
       this.world!.removeEntity(slashEntity);
       this.attackEffects.delete(slashEntity);
       this.activeAttacks.delete(slashEntity);
@@ -2876,7 +2933,7 @@ export class TriggerSystem extends System {
     scene.add(flash);
 
     // 短時間後に削除
-    setTimeout(() => {
+    this.world!.schedule(() => {
       scene.remove(flash);
       flashGeometry.dispose();
       flashMaterial.dispose();
@@ -2915,7 +2972,7 @@ export class TriggerSystem extends System {
     scene.add(trailLine);
 
     // 軌跡を短時間表示後削除
-    setTimeout(() => {
+    this.world!.schedule(() => {
       scene.remove(trailLine);
       trailGeometry.dispose();
       trailMaterial.dispose();
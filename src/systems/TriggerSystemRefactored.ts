@@ -382,7 +382,7 @@ export class TriggerSystemRefactored extends System {
 
     // アニメーション終了後に武器を再表示
     const duration = attackType === 'vertical' ? 250 : 350; // ミリ秒（短縮）
-    setTimeout(() => {
+    this.world!.schedule(() => {
       if (isLeftHand) {
         this.combatManager.getWeaponManager().showLeftWeapon(entity);
       } else {
@@ -0,0 +1,312 @@
+import * as THREE from 'three';
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Character } from '../components/Character';
+import { Input } from '../components/Input';
+import { Trigger } from '../components/Trigger';
+import { Projectile } from '../components/Projectile';
+import { Velocity } from '../components/Velocity';
+import { TriggerType } from '../triggers/TriggerDefinitions';
+import {
+  VIPER_PRESETS,
+  DEFAULT_VIPER_PRESET_BINDINGS,
+  ViperTrajectoryUtils
+} from '../triggers/ViperTrajectories';
+import { RenderSystem } from './RenderSystem';
+import { ShootingSystem } from './ShootingSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * バイパーの弾道作成システム
+ * 経由点の設置・プリセット選択を管理し、発射された弾に弾道を割り当てる
+ */
+export class ViperTrajectorySystem extends System {
+  private static readonly STORAGE_KEY = 'worldTrigger3D_viperPresetBindings';
+  private static readonly MARKER_GEOMETRY = new THREE.SphereGeometry(0.15, 8, 8);
+  private static readonly MARKER_MATERIAL = new THREE.MeshBasicMaterial({ color: 0x8800ff, transparent: true, opacity: 0.8 });
+  private static readonly LINE_MATERIAL = new THREE.LineBasicMaterial({ color: 0xaa66ff, transparent: true, opacity: 0.6 });
+
+  private waypoints: Map<number, THREE.Vector3[]> = new Map(); // エンティティID -> 経由点
+  private selectedPresets: Map<number, string> = new Map(); // エンティティID -> プリセットID
+  private presetBindings: Record<string, string>;
+  private previewGroup: THREE.Group = new THREE.Group();
+  private previewLine: THREE.Line | null = null;
+  private previewDirty: boolean = true; // 経由点が変わり、プレビューを作り直す必要があるか
+
+  constructor() {
+    super();
+    this.presetBindings = ViperTrajectorySystem.loadBindings();
+    this.previewGroup.name = 'viper_trajectory_preview';
+  }
+
+  requiredComponents() {
+    return [Transform, Character, Input, Trigger];
+  }
+
+  update(_deltaTime: number): void {
+    const entities = this.getEntities();
+
+    for (const entity of entities) {
+      const input = entity.getComponent(Input)!;
+      const trigger = entity.getComponent(Trigger)!;
+
+      // バイパーを構えている間のみ弾道を編集できる
+      if (trigger.currentTrigger !== TriggerType.VIPER &&
+          trigger.leftCurrentTrigger !== TriggerType.VIPER) {
+        continue;
+      }
+
+      if (input.placeWaypoint) {
+        this.placeWaypoint(entity);
+      }
+
+      if (input.clearWaypoints) {
+        this.clearTrajectory(entity.id);
+      }
+
+      if (input.trajectoryPresetKey) {
+        if (input.rebindTrajectoryPreset) {
+          this.cyclePresetBinding(input.trajectoryPresetKey);
+        } else {
+          this.selectPresetByKey(entity.id, input.trajectoryPresetKey);
+        }
+      }
+    }
+
+    this.updatePreview();
+  }
+
+  /**
+   * クロスヘアの指す位置に経由点を設置
+   */
+  private placeWaypoint(entity: Entity): void {
+    const points = this.waypoints.get(entity.id) || [];
+    if (points.length >= GAME_CONFIG.VIPER.MAX_WAYPOINTS) {
+      console.log(`🐍 Viper: 経由点は最大${GAME_CONFIG.VIPER.MAX_WAYPOINTS}個までです`);
+      return;
+    }
+
+    const point = this.getAimPoint(entity);
+    points.push(point);
+    this.waypoints.set(entity.id, points);
+    this.previewDirty = true;
+    this.selectedPresets.delete(entity.id); // 手動の経由点を優先
+
+    console.log(`🐍 Viper waypoint ${points.length} placed at (${point.x.toFixed(1)}, ${point.y.toFixed(1)}, ${point.z.toFixed(1)})`);
+  }
+
+  /**
+   * 照準位置を取得
+   */
+  private getAimPoint(entity: Entity): THREE.Vector3 {
+    const renderSystem = this.world?.getSystem(RenderSystem);
+    const shootingSystem = this.world?.getSystem(ShootingSystem);
+
+    if (entity.hasTag('player') && renderSystem && shootingSystem) {
+      return shootingSystem.performCameraRaycast(renderSystem.getCamera()).point.clone();
+    }
+
+    // カメラを持たないキャラクターは正面の点
+    const transform = entity.getComponent(Transform)!;
+    const forward = new THREE.Vector3(0, 0, -1)
+      .applyAxisAngle(new THREE.Vector3(0, 1, 0), transform.rotation.y);
+    return transform.position.clone()
+      .add(forward.multiplyScalar(GAME_CONFIG.VIPER.PRESET_DISTANCE))
+      .add(new THREE.Vector3(0, 1.2, 0));
+  }
+
+  /**
+   * キーに割り当てられたプリセットを選択
+   */
+  private selectPresetByKey(entityId: number, key: string): void {
+    const presetId = this.presetBindings[key];
+    if (!presetId) return;
+    this.selectPreset(entityId, presetId);
+  }
+
+  /**
+   * プリセット弾道を選択
+   */
+  selectPreset(entityId: number, presetId: string): boolean {
+    const preset = ViperTrajectoryUtils.getPreset(presetId);
+    if (!preset) return false;
+
+    this.waypoints.delete(entityId);
+    this.previewDirty = true;
+    this.selectedPresets.set(entityId, presetId);
+    console.log(`🐍 Viper preset selected: ${preset.name}（${preset.description}）`);
+    return true;
+  }
+
+  /**
+   * キーに割り当てるプリセットを順番に切り替え
+   */
+  private cyclePresetBinding(key: string): void {
+    const currentIndex = VIPER_PRESETS.findIndex(preset => preset.id === this.presetBindings[key]);
+    const next = VIPER_PRESETS[(currentIndex + 1) % VIPER_PRESETS.length];
+    this.bindPresetToKey(key, next.id);
+  }
+
+  /**
+   * プリセットをキーに割り当て
+   */
+  bindPresetToKey(key: string, presetId: string): void {
+    if (!ViperTrajectoryUtils.getPreset(presetId)) return;
+
+    this.presetBindings[key.toLowerCase()] = presetId;
+    ViperTrajectorySystem.saveBindings(this.presetBindings);
+    console.log(`🐍 Viper preset "${presetId}" bound to ${key.toUpperCase()}`);
+  }
+
+  /**
+   * 現在のキー割り当てを取得
+   */
+  getPresetBindings(): Record<string, string> {
+    return { ...this.presetBindings };
+  }
+
+  /**
+   * 弾道設定をクリア
+   */
+  clearTrajectory(entityId: number): void {
+    this.waypoints.delete(entityId);
+    this.previewDirty = true;
+    this.selectedPresets.delete(entityId);
+  }
+
+  /**
+   * 弾道が設定されているか
+   */
+  hasTrajectory(entityId: number): boolean {
+    return (this.waypoints.get(entityId)?.length ?? 0) > 0 || this.selectedPresets.has(entityId);
+  }
+
+  /**
+   * 発射された弾に弾道を割り当てる
+   * index / countは分割キューブの番号と総数（プリセットの弾道に振り分ける）
+   */
+  assignTrajectory(shooter: Entity, projectileEntity: Entity, index: number, count: number): boolean {
+    const projectile = projectileEntity.getComponent(Projectile);
+    const transform = projectileEntity.getComponent(Transform);
+    const velocity = projectileEntity.getComponent(Velocity);
+    if (!projectile || !transform || !velocity) return false;
+
+    const start = transform.position.clone();
+    let points: THREE.Vector3[] | null = null;
+
+    const customPoints = this.waypoints.get(shooter.id);
+    const presetId = this.selectedPresets.get(shooter.id);
+
+    if (customPoints && customPoints.length > 0) {
+      points = [start, ...customPoints];
+    } else if (presetId) {
+      const preset = ViperTrajectoryUtils.getPreset(presetId)!;
+      const lane = preset.lanes[index % preset.lanes.length];
+      points = [start, ...ViperTrajectoryUtils.resolvePresetLane(
+        lane,
+        start,
+        velocity.linear,
+        GAME_CONFIG.VIPER.PRESET_DISTANCE
+      )];
+    }
+
+    if (!points) return false;
+
+    projectile.setTrajectory(ViperTrajectoryUtils.createPath(points));
+    if (index === count - 1) {
+      console.log(`🐍 Viper trajectory assigned to ${count} bullets (${points.length - 1} waypoints)`);
+    }
+    return true;
+  }
+
+  /**
+   * 経由点のプレビュー表示を更新（プレイヤーのみ）
+   * マーカーと曲線は経由点が変わったときだけ作り直し、毎刻みは曲線の始点（プレイヤーの位置）だけを追従させる
+   */
+  private updatePreview(): void {
+    const scene = this.world?.getSystem(RenderSystem)?.getScene();
+    if (!scene) return;
+
+    if (!this.previewGroup.parent) {
+      scene.add(this.previewGroup);
+    }
+
+    const player = this.world!.getEntitiesWithTag('player')[0];
+    const trigger = player?.getComponent(Trigger);
+    const points = player ? this.waypoints.get(player.id) : undefined;
+    const visible = !!trigger && !!points && points.length > 0 &&
+      (trigger.currentTrigger === TriggerType.VIPER || trigger.leftCurrentTrigger === TriggerType.VIPER);
+    this.previewGroup.visible = visible;
+    if (!visible) return;
+
+    if (this.previewDirty || !this.previewLine) {
+      this.rebuildPreview(points!);
+      this.previewDirty = false;
+    }
+
+    // 弾道の曲線の頂点を更新
+    const start = player.getComponent(Transform)!.position.clone().add(new THREE.Vector3(0, 1.2, 0));
+    const curve = ViperTrajectoryUtils.createPath([start, ...points!]);
+    const position = this.previewLine!.geometry.getAttribute('position') as THREE.BufferAttribute;
+    curve.getPoints(position.count - 1).forEach((point, i) => position.setXYZ(i, point.x, point.y, point.z));
+    position.needsUpdate = true;
+    this.previewLine!.geometry.computeBoundingSphere();
+  }
+
+  /**
+   * 経由点マーカーと曲線を作り直す（マーカーの形状と材質は共有）
+   */
+  private rebuildPreview(points: THREE.Vector3[]): void {
+    this.previewGroup.clear();
+    this.previewLine?.geometry.dispose();
+
+    for (const point of points) {
+      const marker = new THREE.Mesh(ViperTrajectorySystem.MARKER_GEOMETRY, ViperTrajectorySystem.MARKER_MATERIAL);
+      marker.position.copy(point);
+      this.previewGroup.add(marker);
+    }
+
+    const vertexCount = points.length * 16 + 1;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(vertexCount * 3), 3));
+    this.previewLine = new THREE.Line(geometry, ViperTrajectorySystem.LINE_MATERIAL);
+    this.previewGroup.add(this.previewLine);
+  }
+
+  /**
+   * キー割り当てを読み込み
+   */
+  private static loadBindings(): Record<string, string> {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      if (saved) {
+        return { ...DEFAULT_VIPER_PRESET_BINDINGS, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.warn('Failed to load viper preset bindings:', error);
+    }
+    return { ...DEFAULT_VIPER_PRESET_BINDINGS };
+  }
+
+  /**
+   * キー割り当てを保存
+   */
+  private static saveBindings(bindings: Record<string, string>): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(bindings));
+    } catch (error) {
+      console.warn('Failed to save viper preset bindings:', error);
+    }
+  }
+
+  destroy(): void {
+    this.previewGroup.parent?.remove(this.previewGroup);
+    this.previewGroup.clear();
+    this.previewLine?.geometry.dispose();
+    this.previewLine = null;
+    this.waypoints.clear();
+    this.selectedPresets.clear();
+    super.destroy();
+  }
+}
@@ -0,0 +1,79 @@
+import { System } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { Character } from '../components/Character';
+import { Hitbox, BodyPart } from '../components/Hitbox';
+import { MeshComponent } from '../components/Mesh';
+import { BailoutSystem } from './BailoutSystem';
+import { TriggerSystem } from './TriggerSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 部位欠損・トリオン漏出システム
+ * 欠損した部位の効果を適用し、傷口から毎フレームトリオンを漏出させる
+ */
+export class WoundSystem extends System {
+  requiredComponents() {
+    return [Character, Hitbox];
+  }
+
+  update(deltaTime: number): void {
+    const entities = this.getEntities();
+
+    for (const entity of entities) {
+      const character = entity.getComponent(Character)!;
+      const hitbox = entity.getComponent(Hitbox)!;
+
+      // 戦闘不能なキャラクターはスキップ
+      if (character.isDefeated()) continue;
+
+      // 新たに欠損した部位の効果を適用
+      while (hitbox.pendingSevered.length > 0) {
+        this.applySevered(entity, character, hitbox, hitbox.pendingSevered.shift()!);
+      }
+
+      // 傷口からのトリオン漏出
+      const leakRate = hitbox.getWoundLeakRate();
+      if (leakRate <= 0) continue;
+
+      character.takeDamage(leakRate * deltaTime);
+      if (character.isDefeated()) {
+        console.log(`🩸 ${character.name}: トリオン漏出により戦闘不能`);
+        this.world?.getSystem(BailoutSystem)?.bailout(entity);
+      }
+    }
+  }
+
+  /**
+   * 部位欠損の効果を適用
+   */
+  private applySevered(entity: Entity, character: Character, hitbox: Hitbox, part: BodyPart): void {
+    const zone = hitbox.zones.get(part);
+    if (!zone) return;
+
+    console.log(`🦴 ${character.name}: ${part} を欠損`);
+
+    // 欠損部位のメッシュを非表示
+    const meshComponent = entity.getComponent(MeshComponent);
+    for (const name of zone.meshNames) {
+      const mesh = meshComponent?.mesh.getObjectByName(name);
+      if (mesh) mesh.visible = false;
+    }
+
+    // 欠損部位からは大量のトリオンが漏れ続ける
+    hitbox.wounds.push({
+      part,
+      leakRate: character.stats.trionCapacity * GAME_CONFIG.BODY.SEVER_LEAK_RATIO
+    });
+
+    switch (part) {
+      case BodyPart.RIGHT_ARM:
+      case BodyPart.LEFT_ARM:
+        this.world?.getSystem(TriggerSystem)?.handleHandLost(entity, part === BodyPart.LEFT_ARM);
+        break;
+      case BodyPart.RIGHT_LEG:
+      case BodyPart.LEFT_LEG:
+        character.mobilityMultiplier = Math.pow(GAME_CONFIG.BODY.LEG_LOSS_MOBILITY, hitbox.getSeveredLegCount());
+        break;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * 対戦マップ（マップデータ・ローダー・移動範囲）のテスト
+ */
+
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { Transform } from '../components/Transform';
+import { MeshComponent } from '../components/Mesh';
+import { Velocity } from '../components/Velocity';
+import { Collider, ColliderType, CollisionLayer } from '../components/Collider';
+import { Projectile, ProjectileType } from '../components/Projectile';
+import { TriggerType } from '../triggers/TriggerDefinitions';
+import { BattleMapId, BATTLE_MAPS } from '../maps/BattleMaps';
+import { MapLoader } from '../maps/MapLoader';
+import { MapPrismBuilding } from '../maps/MapData';
+import { EnvironmentSystem } from '../systems/EnvironmentSystem';
+import { NavigationSystem } from '../systems/NavigationSystem';
+import { MovementSystem } from '../systems/MovementSystem';
+import { CollisionSystem } from '../systems/CollisionSystem';
+import { PerceptionSystem } from '../systems/PerceptionSystem';
+
+/**
+ * 対戦マップのテストクラス
+ */
+export class BattleMapTest {
+  static run(): boolean {
+    console.log('🗺️ Battle Map Test Starting...');
+
+    try {
+      // 1. マップデータの整合性
+      console.log('  📄 Testing map data...');
+      for (const map of Object.values(BATTLE_MAPS)) {
+        const id = map.id;
+        const problems = MapLoader.validate(map);
+        if (problems.length > 0) {
+          throw new Error(`Map ${id} has problems: ${problems.join(', ')}`);
+        }
+        if (id !== BattleMapId.TRAINING) {
+          if (map.buildings.length === 0 || !map.buildings.some(building => building.shape === 'prism')) {
+            throw new Error(`Urban map ${id} should have box and prism buildings`);
+          }
+          for (let team = 0; team < 4; team++) {
+            if (!map.spawns.some(spawn => spawn.team === team)) {
+              throw new Error(`Urban map ${id} should have a spawn for squad ${team}`);
+            }
+          }
+        }
+      }
+      console.log('    ✓ 全マップの建物・初期位置が移動範囲内にある');
+
+      // 2. 建物の読み込み
+      console.log('\n  🏙️ Testing loader...');
+      const map = BATTLE_MAPS[BattleMapId.RESIDENTIAL];
+      const world = new World();
+      const environment = new EnvironmentSystem(map);
+      const navigationSystem = new NavigationSystem();
+      world.addSystem(environment);
+      world.addSystem(navigationSystem);
+      world.addSystem(new MovementSystem());
+      world.addSystem(new CollisionSystem());
+      world.addSystem(new PerceptionSystem());
+
+      const buildings = environment.getBuildings();
+      if (buildings.length !== map.buildings.length) {
+        throw new Error(`Expected ${map.buildings.length} buildings, got ${buildings.length}`);
+      }
+      for (const building of buildings) {
+        const collider = building.getComponent(Collider);
+        if (!collider || collider.layer !== CollisionLayer.ENVIRONMENT || !building.hasComponent(MeshComponent)) {
+          throw new Error('Buildings should have a mesh and an environment collider');
+        }
+      }
+      console.log(`    ✓ ${buildings.length}棟の建物がメッシュとコライダーを持つ`);
+
+      // 3. 角柱のメッシュとコライダーの位置が一致する
+      console.log('\n  🔷 Testing prism geometry...');
+      const prismIndex = map.buildings.findIndex(building => building.shape === 'prism');
+      const prism = map.buildings[prismIndex] as MapPrismBuilding;
+      const prismEntity = buildings[prismIndex];
+      const prismMesh = prismEntity.getComponent(MeshComponent)!.mesh as THREE.Mesh;
+      prismMesh.geometry.computeBoundingBox();
+      const meshBox = prismMesh.geometry.boundingBox!.clone().translate(prismEntity.getComponent(Transform)!.position);
+      const colliderBox = prismEntity.getComponent(Collider)!.getBoundingBox(prismEntity.getComponent(Transform)!.position);
+      if (meshBox.min.distanceTo(colliderBox.min) > 0.01 || meshBox.max.distanceTo(colliderBox.max) > 0.01) {
+        throw new Error('Prism mesh should line up with its collider');
+      }
+      if (Math.abs(colliderBox.max.y - prism.height) > 0.01) {
+        throw new Error(`Prism should be ${prism.height}m tall`);
+      }
+      console.log('    ✓ 角柱の建物は敷地どおりの形で建つ');
+
+      // 4. ナビメッシュは移動範囲に合わせ、屋上を足場にする
+      console.log('\n  🧭 Testing navmesh and rooftops...');
+      world.update(0.016);
+      const navMesh = navigationSystem.getNavMesh()!;
+      if (navMesh.halfExtent !== map.bounds.halfExtent) {
+        throw new Error(`NavMesh should cover the map bounds, got ${navMesh.halfExtent}`);
+      }
+      const roof = map.buildings.find(building => building.shape === 'box' && !building.elevation && building.size.y > 10);
+      if (!roof || roof.shape !== 'box') throw new Error('Residential map should have a tall apartment');
+      const roofHeight = navMesh.getHeightAt(new THREE.Vector3(roof.center.x - roof.size.x / 4, 0, roof.center.z));
+      if (roofHeight !== roof.size.y) {
+        throw new Error(`Apartment rooftop should be at ${roof.size.y}m, got ${roofHeight}`);
+      }
+      console.log('    ✓ マンションの屋上がナビメッシュの足場になる');
+
+      // 5. 建物は視線と弾を遮る
+      console.log('\n  🧱 Testing occlusion and bullets...');
+      const eye = new THREE.Vector3(roof.center.x, 1.5, roof.center.z - roof.size.z / 2 - 5);
+      const behind = new THREE.Vector3(roof.center.x, 1.5, roof.center.z + roof.size.z / 2 + 5);
+      if (!world.getSystem(PerceptionSystem)!.isOccluded(eye, behind)) {
+        throw new Error('Apartment should block line of sight');
+      }
+      const bullet = world.createEntity();
+      bullet.addComponent(Transform, new Transform(
+        new THREE.Vector3(roof.center.x, 1.5, roof.center.z - roof.size.z / 2 - 0.1),
+        new THREE.Euler(),
+        new THREE.Vector3(1, 1, 1)
+      ));
+      bullet.addComponent(Projectile, new Projectile(ProjectileType.BULLET, TriggerType.ASTEROID_GUN, new THREE.Vector3(0, 0, 30), 10, 50, -1, 0));
+      bullet.addComponent(Collider, new Collider(
+        ColliderType.SPHERE,
+        new THREE.Vector3(0.2, 0.2, 0.2),
+        CollisionLayer.PROJECTILE,
+        CollisionLayer.CHARACTER | CollisionLayer.ENEMY | CollisionLayer.SHIELD
+      ));
+      world.update(0.001);
+      if (world.getEntityById(bullet.id)) {
+        throw new Error('Bullet hitting a wall should be removed');
+      }
+      console.log('    ✓ 建物は視線と弾を遮る');
+
+      // 6. 移動範囲
+      console.log('\n  🚧 Testing bounds...');
+      const runner = world.createEntity();
+      runner.addComponent(Transform, new Transform(new THREE.Vector3(map.bounds.halfExtent + 5, 0, 0), new THREE.Euler(), new THREE.Vector3(1, 1, 1)));
+      runner.addComponent(Velocity, new Velocity());
+      world.update(0.016);
+      if (runner.getComponent(Transform)!.position.x !== map.bounds.halfExtent) {
+        throw new Error(`Character should be clamped to the map bounds, got ${runner.getComponent(Transform)!.position.x}`);
+      }
+      console.log('    ✓ マップの移動範囲の外には出られない');
+
+      return true;
+
+    } catch (error) {
+      console.error('❌ Battle Map Test Failed:', error);
+      return false;
+    }
+  }
+}
+
+// エクスポート用のメイン関数
+export function runBattleMapValidation(): void {
+  console.log('🔧 BATTLE MAP VALIDATION');
+  console.log('========================\n');
+
+  if (BattleMapTest.run()) {
+    console.log('\n🎉 BATTLE MAP VALIDATION PASSED');
+  } else {
+    console.log('\n⚠️  BATTLE MAP VALIDATION FAILED');
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * キャラクターコントローラー（壁沿いの滑り・すり抜け防止・段差・斜面・屋上への着地・押し合い）のテスト
+ */
+
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Velocity } from '../components/Velocity';
+import { Input } from '../components/Input';
+import { Collider, COLLIDER_PRESETS } from '../components/Collider';
+import { Character, CharacterType, CharacterClass, CHARACTER_PRESETS } from '../components/Character';
+import { MapData } from '../maps/MapData';
+import { EnvironmentSystem } from '../systems/EnvironmentSystem';
+import { MovementSystem } from '../systems/MovementSystem';
+import { CharacterController, ControllerObstacle, Capsule } from '../physics/CharacterController';
+
+const CAPSULE: Capsule = { radius: 0.5, height: 1.8 };
+
+/**
+ * 軸平行な箱の障害物
+ */
+function box(min: [number, number, number], max: [number, number, number]): ControllerObstacle {
+  return { entityId: -1, bounds: new THREE.Box3(new THREE.Vector3(...min), new THREE.Vector3(...max)), triangles: null };
+}
+
+/**
+ * X方向に角度angle（度）で登る斜面（三角形2枚）
+ */
+function ramp(angle: number): ControllerObstacle {
+  const slope = Math.tan(THREE.MathUtils.degToRad(angle));
+  const corners = [
+    new THREE.Vector3(-10, -10 * slope, -10),
+    new THREE.Vector3(10, 10 * slope, -10),
+    new THREE.Vector3(10, 10 * slope, 10),
+    new THREE.Vector3(-10, -10 * slope, 10)
+  ];
+  return {
+    entityId: -1,
+    bounds: new THREE.Box3().setFromPoints(corners),
+    triangles: [
+      new THREE.Triangle(corners[0], corners[1], corners[2]),
+      new THREE.Triangle(corners[0], corners[2], corners[3])
+    ]
+  };
+}
+
+/**
+ * 一定の速度で何フレームか動かす（重力つき）
+ */
+function walk(
+  controller: CharacterController,
+  start: THREE.Vector3,
+  velocity: THREE.Vector3,
+  obstacles: ControllerObstacle[],
+  frames: number,
+  grounded: boolean = true
+): { position: THREE.Vector3; grounded: boolean } {
+  const position = start.clone();
+  const current = velocity.clone();
+  for (let i = 0; i < frames; i++) {
+    if (!grounded) current.y -= 20 * 0.016;
+    const result = controller.move(position, current.clone().multiplyScalar(0.016), CAPSULE, obstacles, grounded);
+    position.copy(result.position);
+    grounded = result.grounded;
+    if (grounded) current.y = Math.max(0, current.y);
+  }
+  return { position, grounded };
+}
+
+/**
+ * キャラクターのエンティティを作成
+ */
+function createCharacter(world: World, position: THREE.Vector3, team: number): Entity {
+  const preset = CHARACTER_PRESETS[CharacterType.AI_ENEMY];
+  const entity = world.createEntity();
+  entity.addComponent(Transform, new Transform(position, new THREE.Euler(), new THREE.Vector3(1, 1, 1)));
+  entity.addComponent(Velocity, new Velocity());
+  entity.addComponent(Character, new Character(preset.name, CharacterType.AI_ENEMY, CharacterClass.ATTACKER, { ...preset.stats }, team));
+  entity.addComponent(Collider, COLLIDER_PRESETS.enemy);
+  entity.addComponent(Input, new Input());
+  return entity;
+}
+
+/**
+ * ビルとL字の建物だけのマップ
+ */
+const TEST_MAP: MapData = {
+  id: 'controller-test',
+  name: 'コントローラーテスト',
+  bounds: { halfExtent: 30 },
+  terrain: { size: 60, color: '#808080', grid: false, patches: [] },
+  buildings: [
+    { shape: 'box', name: 'ビル', center: { x: 0, z: 0 }, size: { x: 6, y: 6, z: 6 }, color: '#a0a0a0' },
+    {
+      shape: 'prism',
+      name: 'L字の建物',
+      footprint: [{ x: 10, z: 10 }, { x: 20, z: 10 }, { x: 20, z: 14 }, { x: 14, z: 14 }, { x: 14, z: 20 }, { x: 10, z: 20 }],
+      height: 8,
+      color: '#909090'
+    }
+  ],
+  spawns: [],
+  lighting: {
+    background: '#87ceeb',
+    fog: { color: '#87ceeb', near: 50, far: 200 },
+    ambient: { color: '#ffffff', intensity: 0.6 },
+    sun: { color: '#ffffff', intensity: 0.8, position: { x: 10, y: 20, z: 5 } }
+  }
+};
+
+/**
+ * キャラクターコントローラーのテストクラス
+ */
+export class CharacterControllerTest {
+  static run(): boolean {
+    console.log('🧍 Character Controller Test Starting...');
+
+    try {
+      const controller = new CharacterController();
+
+      // 1. 壁に斜めにぶつかると壁沿いに滑る
+      console.log('  🧱 Testing wall sliding...');
+      const wall = box([2, 0, -20], [3, 5, 20]);
+      const slid = walk(controller, new THREE.Vector3(0, 0, 0), new THREE.Vector3(8, 0, 4), [wall], 60);
+      if (slid.position.x > 2 - CAPSULE.radius + 0.01 || slid.position.z < 3) {
+        throw new Error(`Character should slide along the wall, got ${slid.position.toArray()}`);
+      }
+      console.log('    ✓ 壁を抜けずに壁沿いに滑る');
+
+      // 2. 高速でも薄い壁をすり抜けない
+      console.log('\n  ⚡ Testing tunneling...');
+      const thin = box([4, 0, -20], [4.1, 5, 20]);
+      const fast = controller.move(new THREE.Vector3(0, 0, 0), new THREE.Vector3(20, 0, 0), CAPSULE, [thin], true);
+      if (fast.position.x > 4 - CAPSULE.radius + 0.01 || !fast.hitWall) {
+        throw new Error(`Fast movement should stop at a thin wall, got x=${fast.position.x}`);
+      }
+      console.log('    ✓ 1フレームで20m動いても薄い壁で止まる');
+
+      // 3. 低い段差は登り、高い段差は登れない、降りるときは足元に吸着する
+      console.log('\n  🪜 Testing steps...');
+      const step = box([1, 0, -5], [6, 0.3, 5]);
+      const climbed = walk(controller, new THREE.Vector3(0, 0, 0), new THREE.Vector3(5, 0, 0), [step], 30);
+      if (Math.abs(climbed.position.y - 0.3) > 0.01 || !climbed.grounded || climbed.position.x < 2) {
+        throw new Error(`Character should walk up a 0.3m step, got ${climbed.position.toArray()}`);
+      }
+      const descended = walk(controller, climbed.position, new THREE.Vector3(5, 0, 0), [step], 60);
+      if (descended.position.y !== 0 || !descended.grounded) {
+        throw new Error(`Character should snap down from the step, got y=${descended.position.y}`);
+      }
+      const ledge = box([1, 0, -5], [6, 1, 5]);
+      const blocked = walk(controller, new THREE.Vector3(0, 0, 0), new THREE.Vector3(5, 0, 0), [ledge], 30);
+      if (blocked.position.y !== 0 || blocked.position.x > 1 - CAPSULE.radius + 0.01) {
+        throw new Error(`Character should not walk up a 1m ledge, got ${blocked.position.toArray()}`);
+      }
+      console.log('    ✓ 0.3mの段差は登り降りでき、1mの段差は登れない');
+
+      // 4. 緩い斜面には立っていられ、急な斜面は壁になる
+      console.log('\n  ⛰️ Testing slopes...');
+      const gentle = ramp(20);
+      const standing = walk(controller, new THREE.Vector3(0, 0.5, 0), new THREE.Vector3(), [gentle], 60, false);
+      if (!standing.grounded || Math.abs(standing.position.x) > 0.05) {
+        throw new Error(`Character should stand still on a gentle slope, got ${standing.position.toArray()}`);
+      }
+      const uphill = walk(controller, standing.position, new THREE.Vector3(3, 0, 0), [gentle], 60);
+      const expectedY = uphill.position.x * Math.tan(THREE.MathUtils.degToRad(20));
+      if (!uphill.grounded || uphill.position.x < 2 || uphill.position.y < expectedY - 0.05) {
+        throw new Error(`Character should walk up a gentle slope, got ${uphill.position.toArray()}`);
+      }
+      const steep = controller.resolve(new THREE.Vector3(0, 0.3, 0), CAPSULE, [ramp(70)]);
+      if (steep.grounded && steep.groundNormal.y < 0.99) {
+        throw new Error('A 70 degree slope should not count as ground');
+      }
+      console.log('    ✓ 20度の斜面は立って登れ、70度の斜面には立てない');
+
+      // 5. ワールドの中で屋上に着地し、屋上から跳べる
+      console.log('\n  🏢 Testing rooftop landing...');
+      const world = new World();
+      world.addSystem(new EnvironmentSystem(TEST_MAP));
+      world.addSystem(new MovementSystem());
+      const jumper = createCharacter(world, new THREE.Vector3(0, 10, 0), 1);
+      for (let i = 0; i < 90; i++) world.update(0.016);
+      const jumperPosition = jumper.getComponent(Transform)!.position;
+      if (Math.abs(jumperPosition.y - 6) > 0.01) {
+        throw new Error(`Character should land on the rooftop, got y=${jumperPosition.y}`);
+      }
+      jumper.getComponent(Input)!.jump = true;
+      world.update(0.016);
+      jumper.getComponent(Input)!.jump = false;
+      world.update(0.016);
+      if (jumperPosition.y <= 6.05) {
+        throw new Error('Character should be able to jump from the rooftop');
+      }
+      console.log('    ✓ 屋上に着地し、屋上から跳べる');
+
+      // 6. 角柱の建物は外接箱ではなく実際の形とぶつかる
+      console.log('\n  🔷 Testing mesh collision...');
+      const notch = createCharacter(world, new THREE.Vector3(17, 0, 17), 1);
+      for (let i = 0; i < 10; i++) world.update(0.016);
+      const notchPosition = notch.getComponent(Transform)!.position;
+      if (notchPosition.distanceTo(new THREE.Vector3(17, 0, 17)) > 0.01) {
+        throw new Error(`L-shaped building should leave its notch open, got ${notchPosition.toArray()}`);
+      }
+      notch.getComponent(Velocity)!.linear.set(-6, 0, 0);
+      for (let i = 0; i < 60; i++) {
+        notch.getComponent(Velocity)!.linear.x = -6;
+        world.update(0.016);
+      }
+      if (notchPosition.x < 14 + 0.5 - 0.01) {
+        throw new Error(`Character should stop at the L-shaped wall, got x=${notchPosition.x}`);
+      }
+      console.log('    ✓ L字の建物の切り欠きには入れ、壁では止まる');
+
+      // 7. キャラクター同士は押し合って重ならない
+      console.log('\n  🤝 Testing character separation...');
+      const first = createCharacter(world, new THREE.Vector3(-10, 0, -10), 1);
+      const second = createCharacter(world, new THREE.Vector3(-10, 0, -10.1), 2);
+      for (let i = 0; i < 30; i++) world.update(0.016);
+      const gap = first.getComponent(Transform)!.position.distanceTo(second.getComponent(Transform)!.position);
+      const minimum = CharacterController.getCapsule(first).radius + CharacterController.getCapsule(second).radius;
+      if (gap < minimum - 0.01) {
+        throw new Error(`Characters should push each other apart, gap ${gap.toFixed(2)}`);
+      }
+      console.log('    ✓ 重なったキャラクターは押し離される');
+
+      return true;
+
+    } catch (error) {
+      console.error('❌ Character Controller Test Failed:', error);
+      return false;
+    }
+  }
+}
+
+// エクスポート用のメイン関数
+export function runCharacterControllerValidation(): void {
+  console.log('🔧 CHARACTER CONTROLLER VALIDATION');
+  console.log('==================================\n');
+
+  if (CharacterControllerTest.run()) {
+    console.log('\n🎉 CHARACTER CONTROLLER VALIDATION PASSED');
+  } else {
+    console.log('\n⚠️  CHARACTER CONTROLLER VALIDATION FAILED');
+  }
+}
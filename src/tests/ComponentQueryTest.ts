@@ -0,0 +1,173 @@
+/**
+ * コンポーネントの登録とワールドのクエリのテスト
+ */
+
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { System } from '../ecs/System';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
+import { Transform } from '../components/Transform';
+import { Velocity } from '../components/Velocity';
+import { Character, CharacterType, CharacterClass } from '../components/Character';
+
+/**
+ * 本番ビルドの圧縮で同じ名前になった2つのクラスを再現する
+ */
+function createMangledClass(): new () => { value: number } {
+  const mangled = class {
+    public value: number = 0;
+  };
+  Object.defineProperty(mangled, 'name', { value: 'a' });
+  return mangled;
+}
+
+/**
+ * Transformを持つアクティブなエンティティを数えるシステム
+ */
+class CountingSystem extends System {
+  requiredComponents() {
+    return [Transform];
+  }
+
+  update(_deltaTime: number): void {}
+
+  count(): number {
+    return this.getEntities().length;
+  }
+
+  entities(): readonly Entity[] {
+    return this.getEntities();
+  }
+}
+
+/**
+ * コンポーネントの登録とクエリのテストクラス
+ */
+export class ComponentQueryTest {
+  static run(): boolean {
+    console.log('🧩 Component Query Test Starting...');
+
+    try {
+      // 1. 登録した名前と番号
+      console.log('  🏷️ Testing registry...');
+      if (ComponentRegistry.getId(Transform) !== 'transform' || ComponentRegistry.getType('velocity') !== Velocity) {
+        throw new Error('Components should be registered with their stable ids');
+      }
+      if (ComponentRegistry.getIndex(Transform) === ComponentRegistry.getIndex(Velocity)) {
+        throw new Error('Each component should have its own bit index');
+      }
+      let duplicateRejected = false;
+      try {
+        ComponentRegistry.register(Velocity, 'transform');
+      } catch {
+        duplicateRejected = true;
+      }
+      if (!duplicateRejected) {
+        throw new Error('An id used by another component should be rejected');
+      }
+      let unregisteredRejected = false;
+      try {
+        new World().createEntity().addComponent(createMangledClass(), { value: 0 });
+      } catch {
+        unregisteredRejected = true;
+      }
+      if (!unregisteredRejected) {
+        throw new Error('Components used without registering should be rejected');
+      }
+      console.log('    ✓ 登録した名前で型を引け、同じ名前の二重登録と登録していない型の使用はエラー');
+
+      // 2. クラス名が同じでも別のコンポーネントとして扱う
+      console.log('\n  🗜️ Testing mangled class names...');
+      const First = createMangledClass();
+      const Second = createMangledClass();
+      ComponentRegistry.register(First, 'testMangledFirst');
+      ComponentRegistry.register(Second, 'testMangledSecond');
+      const world = new World();
+      const entity = world.createEntity();
+      entity.addComponent(First, Object.assign(new First(), { value: 1 }));
+      entity.addComponent(Second, Object.assign(new Second(), { value: 2 }));
+      if (entity.getComponent(First)?.value !== 1 || entity.getComponent(Second)?.value !== 2) {
+        throw new Error('Classes with the same name should not overwrite each other');
+      }
+      console.log('    ✓ 同じ名前のクラスのコンポーネントが上書きされない');
+
+      // 3. クエリの結果とキャッシュ
+      console.log('\n  🔎 Testing queries...');
+      const moving = world.createEntity();
+      moving.addComponent(Transform, new Transform());
+      moving.addComponent(Velocity, new Velocity());
+      const still = world.createEntity();
+      still.addComponent(Transform, new Transform());
+      const character = world.createEntity();
+      character.addComponent(Velocity, new Velocity());
+      character.addComponent(Character, new Character('test', CharacterType.AI_ENEMY, CharacterClass.ATTACKER, {
+        trionCapacity: 10, currentTrion: 10, mobility: 50
+      }));
+      character.addComponent(Transform, new Transform(new THREE.Vector3(1, 0, 0)));
+
+      const first = world.query(Transform, Velocity);
+      if (first.map(e => e.id).join(',') !== `${moving.id},${character.id}`) {
+        throw new Error(`Query should return matching entities in id order, got ${first.map(e => e.id)}`);
+      }
+      if (world.query(Velocity, Transform) !== first) {
+        throw new Error('Repeated queries should reuse the cached result');
+      }
+      console.log('    ✓ 必要なコンポーネントをすべて持つエンティティをID順に返し、結果を使い回す');
+
+      // 4. 構成が変わったときだけ作り直す
+      console.log('\n  ♻️ Testing cache invalidation...');
+      const unrelated = world.query(First);
+      still.addComponent(Velocity, new Velocity());
+      if (world.query(Transform, Velocity).length !== 3 || world.query(First) !== unrelated) {
+        throw new Error('Only queries matching the changed archetype should be rebuilt');
+      }
+      moving.removeComponent(Velocity);
+      world.removeEntity(character);
+      if (world.query(Transform, Velocity).map(e => e.id).join(',') !== `${still.id},${character.id}`) {
+        throw new Error('Removed components should leave the query at once, removed entities at the end of the tick');
+      }
+      world.update(1 / 60);
+      if (world.query(Transform, Velocity).map(e => e.id).join(',') !== `${still.id}`) {
+        throw new Error('Query should follow removed components and entities');
+      }
+      console.log('    ✓ コンポーネントの追加・削除とエンティティの削除でクエリが更新される');
+
+      // 5. システムはアクティブなエンティティだけを処理する
+      console.log('\n  ⚙️ Testing system entities...');
+      const system = new CountingSystem();
+      world.addSystem(system);
+      const allActive = system.entities();
+      if (system.entities() !== allActive) {
+        throw new Error('System should reuse the cached active entities');
+      }
+      still.active = false;
+      if (system.count() !== 1 || system.entities() === allActive) {
+        throw new Error(`System should skip inactive entities, got ${system.count()}`);
+      }
+      still.active = true;
+      if (system.count() !== 2) {
+        throw new Error(`Reactivated entities should be processed again, got ${system.count()}`);
+      }
+      console.log('    ✓ System.getEntitiesはクエリのうちアクティブなものだけを返し、切り替わるまで結果を使い回す');
+
+      return true;
+
+    } catch (error) {
+      console.error('❌ Component Query Test Failed:', error);
+      return false;
+    }
+  }
+}
+
+// エクスポート用のメイン関数
+export function runComponentQueryValidation(): void {
+  console.log('🔧 COMPONENT QUERY VALIDATION');
+  console.log('=============================\n');
+
+  if (ComponentQueryTest.run()) {
+    console.log('\n🎉 COMPONENT QUERY VALIDATION PASSED');
+  } else {
+    console.log('\n⚠️  COMPONENT QUERY VALIDATION FAILED');
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * 部位別当たり判定と部位欠損のテスト
+ */
+
+import * as THREE from 'three';
+import { Hitbox, BodyPart } from '../components/Hitbox';
+import { Transform } from '../components/Transform';
+import { CharacterMeshBuilder } from '../utils/CharacterMeshBuilder';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 部位判定のテストクラス
+ */
+export class HitboxTest {
+  static run(): boolean {
+    console.log('🎯 Hitbox Test Starting...');
+
+    try {
+      const hitbox = Hitbox.fromCharacterMesh(CharacterMeshBuilder.createEnemyMesh());
+      // 原点から180度回転（+Z方向を向く）したキャラクター
+      const transform = new Transform(
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Euler(0, Math.PI, 0),
+        new THREE.Vector3(1, 1, 1)
+      );
+      const forward = new THREE.Vector3(0, 0, 1);
+
+      // 1. メッシュのパーツから全部位が構築される
+      console.log('  🧍 Testing zone construction...');
+      for (const part of Object.values(BodyPart)) {
+        if (!hitbox.zones.has(part)) {
+          throw new Error(`Missing hit zone: ${part}`);
+        }
+      }
+      console.log(`    ✓ ${hitbox.zones.size}部位を構築`);
+
+      // 2. 弾道に沿った部位判定
+      console.log('\n  🔫 Testing ray hits...');
+      const head = hitbox.resolveHit(transform, new THREE.Vector3(0, 1.7, -2), forward);
+      const chest = hitbox.resolveHit(transform, new THREE.Vector3(0, 1.3, -2), forward);
+      const belly = hitbox.resolveHit(transform, new THREE.Vector3(0.1, 1.0, -2), forward);
+      const miss = hitbox.resolveHit(transform, new THREE.Vector3(1.5, 1.2, -2), forward);
+
+      if (head?.part !== BodyPart.HEAD) throw new Error(`Expected head, got ${head?.part}`);
+      if (chest?.part !== BodyPart.TRION_ORGAN) throw new Error(`Expected trion organ, got ${chest?.part}`);
+      if (belly?.part !== BodyPart.TORSO) throw new Error(`Expected torso, got ${belly?.part}`);
+      if (miss !== null) throw new Error(`Expected miss, got ${miss.part}`);
+      console.log('    ✓ 頭部・供給機関・胴体・空振り');
+
+      // 3. 致命部位
+      console.log('\n  💀 Testing lethal zones...');
+      if (!hitbox.applyHit(BodyPart.HEAD, GAME_CONFIG.BODY.LETHAL_MIN_DAMAGE).lethal) {
+        throw new Error('Head hit should be lethal');
+      }
+      if (hitbox.applyHit(BodyPart.TRION_ORGAN, 20, false).lethal) {
+        throw new Error('Lethal hits should be suppressed when not allowed');
+      }
+      console.log('    ✓ 頭部は致命傷、爆風では即死しない');
+
+      // 4. 腕の欠損と漏出
+      console.log('\n  🦾 Testing limb loss...');
+      const leakBefore = hitbox.getWoundLeakRate();
+      const first = hitbox.applyHit(BodyPart.LEFT_ARM, GAME_CONFIG.BODY.ARM_DURABILITY / 2);
+      const second = hitbox.applyHit(BodyPart.LEFT_ARM, GAME_CONFIG.BODY.ARM_DURABILITY / 2);
+      if (first.severed || !second.severed) {
+        throw new Error('Arm should be severed once durability is exceeded');
+      }
+      if (!hitbox.pendingSevered.includes(BodyPart.LEFT_ARM)) {
+        throw new Error('Severed arm should be queued for the wound system');
+      }
+      if (hitbox.getWoundLeakRate() <= leakBefore) {
+        throw new Error('Wounds should leak trion');
+      }
+
+      // 欠損した部位には当たらない
+      const leftArm = hitbox.zones.get(BodyPart.LEFT_ARM)!;
+      const throughArm = hitbox.resolveHit(
+        transform,
+        leftArm.center.clone().applyAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI).setZ(-2),
+        forward
+      );
+      if (throughArm?.part === BodyPart.LEFT_ARM) {
+        throw new Error('Severed arm should not be hit');
+      }
+      console.log(`    ✓ 左腕欠損、漏出量 ${hitbox.getWoundLeakRate().toFixed(2)}/秒`);
+
+      console.log('\n✅ Hitbox Test Passed');
+      return true;
+
+    } catch (error) {
+      console.error('❌ Hitbox Test Failed:', error);
+      return false;
+    }
+  }
+}
+
+// エクスポート用のメイン関数
+export function runHitboxValidation(): void {
+  console.log('🔧 HITBOX VALIDATION');
+  console.log('====================\n');
+
+  if (HitboxTest.run()) {
+    console.log('\n🎉 HITBOX VALIDATION PASSED');
+  } else {
+    console.log('\n⚠️  HITBOX VALIDATION FAILED');
+  }
+}
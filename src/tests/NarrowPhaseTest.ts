@@ -0,0 +1,251 @@
+/**
+ * 衝突判定の形状（カプセル・向きを持つ箱）どうしの判定・弾の掃引判定・レイキャストのテスト
+ */
+
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Velocity } from '../components/Velocity';
+import { MeshComponent } from '../components/Mesh';
+import { Collider, ColliderType, CollisionLayer, COLLIDER_PRESETS } from '../components/Collider';
+import { Character, CharacterType, CharacterClass, CHARACTER_PRESETS } from '../components/Character';
+import { Projectile, ProjectileType } from '../components/Projectile';
+import { TriggerType } from '../triggers/TriggerDefinitions';
+import { CollisionSystem } from '../systems/CollisionSystem';
+import { NarrowPhase } from '../physics/NarrowPhase';
+
+const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z);
+
+/**
+ * キャラクターのエンティティを作成
+ */
+function createCharacter(world: World, position: THREE.Vector3, team: number): Entity {
+  const preset = CHARACTER_PRESETS[CharacterType.AI_ENEMY];
+  const entity = world.createEntity();
+  entity.addComponent(Transform, new Transform(position, new THREE.Euler(), v(1, 1, 1)));
+  entity.addComponent(Character, new Character(preset.name, CharacterType.AI_ENEMY, CharacterClass.ATTACKER, { ...preset.stats }, team));
+  entity.addComponent(Collider, COLLIDER_PRESETS.enemy);
+  return entity;
+}
+
+/**
+ * 環境の箱（centerは中心、halfSizeは半分の大きさ）
+ */
+function createWall(world: World, center: THREE.Vector3, halfSize: THREE.Vector3): Entity {
+  const entity = world.createEntity();
+  entity.addComponent(Transform, new Transform(center, new THREE.Euler(), v(1, 1, 1)));
+  entity.addComponent(Collider, new Collider(
+    ColliderType.BOX,
+    halfSize,
+    CollisionLayer.ENVIRONMENT,
+    CollisionLayer.CHARACTER | CollisionLayer.ENEMY | CollisionLayer.PROJECTILE
+  ));
+  return entity;
+}
+
+/**
+ * 飛行中の高速弾（ライトニング）
+ */
+function createBullet(world: World, position: THREE.Vector3, velocity: THREE.Vector3): Entity {
+  const entity = world.createEntity();
+  entity.addComponent(Transform, new Transform(position, new THREE.Euler(), v(1, 1, 1)));
+  entity.addComponent(Velocity, new Velocity(velocity));
+  const projectile = new Projectile(ProjectileType.BULLET, TriggerType.LIGHTNING, velocity, 10, 200, -1, 1);
+  projectile.travelDistance = 50;
+  entity.addComponent(Projectile, projectile);
+  entity.addComponent(Collider, new Collider(
+    ColliderType.SPHERE,
+    v(0.1, 0.1, 0.1),
+    CollisionLayer.PROJECTILE,
+    CollisionLayer.CHARACTER | CollisionLayer.ENEMY | CollisionLayer.ENVIRONMENT
+  ));
+  return entity;
+}
+
+/**
+ * 1度ずつのセグメントを持つ横薙ぎ（activeIndexのセグメントだけが判定を持つ）
+ */
+function createFanSlash(world: World, position: THREE.Vector3, activeIndex: number): Entity {
+  const segmentAngle = Math.PI / 180;
+  const startAngle = Math.PI / 2 - Math.PI / 3;
+  const group = new THREE.Group();
+  for (let i = 0; i < 120; i++) {
+    const segment = new THREE.Mesh(new THREE.CircleGeometry(2.4, 4, startAngle + i * segmentAngle, segmentAngle));
+    segment.rotation.set(-Math.PI / 2, 0, 0);
+    segment.visible = i === activeIndex;
+    (segment as any).isActive = i === activeIndex;
+    group.add(segment);
+  }
+
+  const entity = world.createEntity();
+  entity.addComponent(Transform, new Transform(position, new THREE.Euler(), v(1, 1, 1)));
+  entity.addComponent(MeshComponent, new MeshComponent(group));
+  (entity as any).attackInfo = { damage: 100, attackerEntity: null, attackerTeam: 1, attackType: 'melee' };
+  (entity as any).fanAttackInfo = { range: 3, startAngle, visualSegmentAngle: segmentAngle, segmentCount: 120 };
+  entity.addComponent(Collider, new Collider(
+    ColliderType.BOX,
+    v(3, 1, 3),
+    CollisionLayer.TRIGGER,
+    CollisionLayer.PLAYER | CollisionLayer.ENEMY
+  ));
+  return entity;
+}
+
+/**
+ * ナローフェーズのテストクラス
+ */
+export class NarrowPhaseTest {
+  static run(): boolean {
+    console.log('📐 Narrow Phase Test Starting...');
+
+    try {
+      // 1. 形状どうしの判定
+      console.log('  🔷 Testing shape pairs...');
+      const capsule = NarrowPhase.uprightCapsule(v(0, 0, 0), 0.5, 1.8);
+      if (!NarrowPhase.intersect(capsule, NarrowPhase.uprightCapsule(v(0.9, 0, 0), 0.5, 1.8)) ||
+          NarrowPhase.intersect(capsule, NarrowPhase.uprightCapsule(v(1.1, 0, 0), 0.5, 1.8))) {
+        throw new Error('Capsules should touch only within the sum of their radii');
+      }
+      if (NarrowPhase.intersect(capsule, NarrowPhase.uprightCapsule(v(0, 1.9, 0), 0.5, 1.8))) {
+        throw new Error('A capsule standing on top of another should not overlap');
+      }
+
+      // 45度回した箱：外接箱なら届く角の近くには当たらない
+      const diamond = NarrowPhase.box(v(0, 1, 0), v(1, 1, 1), new THREE.Quaternion().setFromAxisAngle(v(0, 1, 0), Math.PI / 4));
+      if (NarrowPhase.intersect(NarrowPhase.sphere(v(1.2, 1, 1.2), 0.3), diamond)) {
+        throw new Error('Sphere near the corner of the bounding box should miss the rotated box');
+      }
+      const sideHit = NarrowPhase.intersect(NarrowPhase.sphere(v(1.6, 1, 0), 0.3), diamond);
+      if (!sideHit || sideHit.normal.x <= 0.9) {
+        throw new Error('Sphere at the rotated corner should be pushed out along +X');
+      }
+      if (!NarrowPhase.intersect(NarrowPhase.uprightCapsule(v(1.6, 0, 0), 0.3, 1.8), diamond) ||
+          NarrowPhase.intersect(NarrowPhase.uprightCapsule(v(1.2, 0, 1.2), 0.3, 1.8), diamond)) {
+        throw new Error('Capsule should collide with the actual rotated box');
+      }
+      const inside = NarrowPhase.intersect(NarrowPhase.sphere(v(0, 1.8, 0), 0.1), NarrowPhase.box(v(0, 1, 0), v(1, 1, 1)));
+      if (!inside || inside.normal.y < 0.99 || Math.abs(inside.depth - 0.3) > 1e-6) {
+        throw new Error('Sphere inside a box should exit through the nearest face');
+      }
+      if (!NarrowPhase.intersect(diamond, NarrowPhase.box(v(2.3, 1, 0), v(1, 1, 1))) ||
+          NarrowPhase.intersect(diamond, NarrowPhase.box(v(2.5, 1, 0), v(1, 1, 1)))) {
+        throw new Error('Boxes should collide by their oriented faces');
+      }
+
+      // 刃（半径0のカプセル＝線分）とカプセル
+      const blade = (to: THREE.Vector3) => NarrowPhase.capsule(v(0, 1, -3), to, 0);
+      if (!NarrowPhase.intersect(blade(v(0, 1, 0)), capsule) || NarrowPhase.intersect(blade(v(0.6, 1, 0)), capsule)) {
+        throw new Error('Segment should hit the capsule only when it reaches its surface');
+      }
+      console.log('    ✓ カプセル・球・回転した箱・線分の組み合わせを実際の形で判定できる');
+
+      // 2. 掃引判定とレイ
+      console.log('\n  ⚡ Testing sweeps...');
+      const sweep = NarrowPhase.sweepSphere(v(0, 1, -10), v(0, 1, 10), 0.1, NarrowPhase.box(v(0, 1, 0), v(2, 2, 0.05)));
+      if (!sweep || Math.abs(sweep.center.z + 0.15) > 1e-4 || sweep.normal.z > -0.99) {
+        throw new Error(`Swept sphere should stop at the thin plate, got ${sweep?.center.toArray()}`);
+      }
+      const ray = NarrowPhase.raycast(v(-5, 1, 0), v(1, 0, 0), 10, capsule);
+      if (!ray || Math.abs(ray.time * 10 - 4.5) > 1e-4) {
+        throw new Error(`Ray should hit the capsule surface at 4.5m, got ${ray ? ray.time * 10 : 'miss'}`);
+      }
+      console.log('    ✓ 球を動かした判定は薄い板の手前で止まり、レイはカプセルの表面に当たる');
+
+      // 3. 高速弾が薄い壁やキャラクターをすり抜けない
+      console.log('\n  🚀 Testing fast projectiles...');
+      const world = new World();
+      const collisionSystem = new CollisionSystem();
+      world.addSystem(collisionSystem);
+      const target = createCharacter(world, v(0, 0, 0), 2);
+      const targetCharacter = target.getComponent(Character)!;
+      const trionBefore = targetCharacter.stats.currentTrion;
+      // 1フレーム（0.016秒）で6.4m進む弾が、すでにキャラクターを通り過ぎた位置にいる
+      const passed = createBullet(world, v(0, 1, -3), v(0, 0, -400));
+      world.update(0.016);
+      if (targetCharacter.stats.currentTrion >= trionBefore || world.getEntityById(passed.id)) {
+        throw new Error('Fast bullet should hit the character it passed during the frame');
+      }
+      createWall(world, v(20, 1, 0), v(2, 2, 0.05));
+      const throughWall = createBullet(world, v(20, 1, -3), v(0, 0, -400));
+      world.update(0.016);
+      if (world.getEntityById(throughWall.id)) {
+        throw new Error('Fast bullet should stop at a thin wall');
+      }
+      const missed = createBullet(world, v(3, 1, -3), v(0, 0, -400));
+      world.update(0.016);
+      if (!world.getEntityById(missed.id)) {
+        throw new Error('Bullet passing beside the character should keep flying');
+      }
+      world.removeEntity(missed);
+      console.log('    ✓ 1フレームで6m進む弾もキャラクターと薄い壁に当たる');
+
+      // 4. 扇形攻撃は表示中のセグメントの刃で判定する
+      console.log('\n  🗡️ Testing fan slashes...');
+      const front = createCharacter(world, v(-10, 0, -2), 2);
+      const side = createCharacter(world, v(-8, 0, 0), 2);
+      const frontTrion = front.getComponent(Character)!.stats.currentTrion;
+      const sideTrion = side.getComponent(Character)!.stats.currentTrion;
+      const slash = createFanSlash(world, v(-10, 0, 0), 60);
+      world.update(0.016);
+      if (front.getComponent(Character)!.stats.currentTrion >= frontTrion) {
+        throw new Error('Blade pointing forward should hit the character in front');
+      }
+      if (side.getComponent(Character)!.stats.currentTrion !== sideTrion) {
+        throw new Error('Blade pointing forward should not hit the character at the side');
+      }
+      world.removeEntity(slash);
+      world.update(0.016);
+      console.log('    ✓ 正面を向いた刃は正面のキャラクターだけに当たる');
+
+      // 5. レイキャスト・シェイプキャストの問い合わせ
+      console.log('\n  🔦 Testing queries...');
+      const building = createWall(world, v(0, 3, 20), v(3, 3, 3));
+      const behind = createCharacter(world, v(0, 0, 30), 2);
+      const forward = v(0, 0, 1);
+      const hit = collisionSystem.raycast(v(0, 1, 10), forward, 50);
+      if (hit?.entity !== building || Math.abs(hit.distance - 7) > 1e-4 || hit.normal.z > -0.99) {
+        throw new Error(`Ray should hit the building front at 7m, got ${hit?.distance}`);
+      }
+      const ignored = collisionSystem.raycast(v(0, 1, 10), forward, 50, { ignore: [building.id] });
+      if (ignored?.entity !== behind || Math.abs(ignored.distance - 19.5) > 1e-4) {
+        throw new Error('Ignored entities should be skipped by the ray');
+      }
+      const onlyCharacters = collisionSystem.raycast(v(0, 1, 10), forward, 50, { layerMask: CollisionLayer.ENEMY });
+      if (onlyCharacters?.entity !== behind) {
+        throw new Error('Layer mask should filter the ray');
+      }
+      const cast = collisionSystem.sphereCast(v(0, 1, 10), forward, 0.5, 50);
+      if (cast?.entity !== building || Math.abs(cast.distance - 6.5) > 1e-4) {
+        throw new Error(`Sphere cast should stop one radius before the building, got ${cast?.distance}`);
+      }
+      const ground = collisionSystem.raycast(v(0, 5, 0), v(0, -1, 1).normalize(), 50, { hitGround: true, ignore: [target.id] });
+      if (ground?.entity !== null || Math.abs(ground.point.z - 5) > 1e-4) {
+        throw new Error('Ray should hit the ground plane when asked');
+      }
+      const overlapping = collisionSystem.overlap(NarrowPhase.sphere(v(0, 1, 23.5), 0.6));
+      if (overlapping.length !== 1 || overlapping[0] !== building) {
+        throw new Error('Overlap should return the building touching the sphere');
+      }
+      console.log('    ✓ レイ・球の当たり位置と、除外・レイヤー・地面・重なりの条件を扱える');
+
+      return true;
+
+    } catch (error) {
+      console.error('❌ Narrow Phase Test Failed:', error);
+      return false;
+    }
+  }
+}
+
+// エクスポート用のメイン関数
+export function runNarrowPhaseValidation(): void {
+  console.log('🔧 NARROW PHASE VALIDATION');
+  console.log('==========================\n');
+
+  if (NarrowPhaseTest.run()) {
+    console.log('\n🎉 NARROW PHASE VALIDATION PASSED');
+  } else {
+    console.log('\n⚠️  NARROW PHASE VALIDATION FAILED');
+  }
+}
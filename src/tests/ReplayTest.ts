@@ -0,0 +1,307 @@
+/**
+ * リプレイの記録・保存・再生のテスト
+ */
+
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { System } from '../ecs/System';
+import { Transform } from '../components/Transform';
+import { Input } from '../components/Input';
+import { Character, CharacterType } from '../components/Character';
+import { Destructible } from '../components/Destructible';
+import { GameMode, DEFAULT_RANK_WAR_SETTINGS } from '../config/GameModes';
+import { DEFAULT_AI_DIFFICULTY } from '../config/AIDifficulty';
+import { BattleMapId, BattleMapUtils, DEFAULT_BATTLE_MAP } from '../maps/BattleMaps';
+import { ReplaySystem, ReplayMode } from '../systems/ReplaySystem';
+import { BailoutSystem } from '../systems/BailoutSystem';
+import { EnvironmentSystem } from '../systems/EnvironmentSystem';
+import { ReplayCodec } from '../replay/ReplayCodec';
+import { ReplayData } from '../replay/ReplayData';
+import { createTestCharacter, defeatCharacter } from './TestHelpers';
+
+/**
+ * キーボードの代わりに決まった操作を入力する（InputSystemの代わり）
+ * 0.5秒ごとに移動の向きを変え、1秒ごとに射撃ボタンを押す
+ */
+class ScriptedInputSystem extends System {
+  constructor() {
+    super();
+    this.priority = 100;
+  }
+
+  requiredComponents() {
+    return [Input];
+  }
+
+  update(_deltaTime: number): void {
+    const tick = this.world!.getTick();
+    for (const entity of this.getEntities()) {
+      const input = entity.getComponent(Input)!;
+      const phase = Math.floor(tick / 30) % 4;
+      input.moveDirection.set([1, 0, -1, 0][phase], [0, 1, 0, -1][phase]);
+      input.mainRightAction = tick % 60 === 0;
+      input.isMainActionHeld = tick % 60 < 10;
+      input.triggerSlot = phase === 3 ? 2 : -1;
+    }
+  }
+}
+
+/**
+ * 入力で動き、射撃するたびに散布の乱数で横にずれる（移動とシードの両方が結果に効く）
+ */
+class InputMovementSystem extends System {
+  public history: number[] = [];
+
+  requiredComponents() {
+    return [Transform, Input];
+  }
+
+  update(deltaTime: number): void {
+    for (const entity of this.getEntities()) {
+      const transform = entity.getComponent(Transform)!;
+      const input = entity.getComponent(Input)!;
+      transform.position.x += input.moveDirection.x * 5 * deltaTime;
+      transform.position.z -= input.moveDirection.y * 5 * deltaTime;
+      if (input.mainRightAction) {
+        transform.position.x += this.world!.getRandom('aim').next() - 0.5;
+      }
+      if (input.isMainActionHeld && input.triggerSlot === -1) {
+        transform.position.y += 0.01;
+      }
+      this.history.push(transform.position.x, transform.position.y, transform.position.z);
+    }
+  }
+}
+
+/**
+ * 記録または再生のワールドを作る（再生ではScriptedInputSystemを使わない）
+ */
+function createWorld(replay: ReplayData, mode: ReplayMode): { world: World; movement: InputMovementSystem } {
+  const world = new World(replay.tickRate, replay.seed);
+  if (mode === ReplayMode.RECORD) {
+    world.addSystem(new ScriptedInputSystem());
+  }
+  world.addSystem(new ReplaySystem(replay, mode));
+  const movement = new InputMovementSystem();
+  world.addSystem(movement);
+
+  const player = world.createEntity();
+  player.addComponent(Transform, new Transform(new THREE.Vector3(0, 0, 5)));
+  player.addComponent(Input, new Input());
+  player.addTag('player');
+  return { world, movement };
+}
+
+/**
+ * 射撃ボタンを押すと、1回目は敵の隊員を撃破し、2回目からは建物を崩す（入力だけで脱出と崩壊が起きる）
+ */
+class InputStrikeSystem extends System {
+  requiredComponents() {
+    return [Input, Character];
+  }
+
+  update(_deltaTime: number): void {
+    const environment = this.world!.getSystem(EnvironmentSystem)!;
+    for (const entity of this.getEntities()) {
+      if (!entity.getComponent(Input)!.mainRightAction) continue;
+
+      const target = this.world!.getEntitiesWithTag('enemy').find(enemy => enemy.active);
+      if (target) {
+        defeatCharacter(target, entity);
+        continue;
+      }
+      const building = environment.getBuildings().find(candidate => candidate.hasComponent(Destructible));
+      if (building) {
+        environment.damageBuilding(building, Infinity);
+      }
+    }
+  }
+}
+
+/**
+ * 緊急脱出と建物の崩壊が起きる試合のワールドを作る（再生ではScriptedInputSystemを使わない）
+ */
+function createMatchWorld(replay: ReplayData, mode: ReplayMode): { world: World; enemyId: number } {
+  const world = new World(replay.tickRate, replay.seed);
+  if (mode === ReplayMode.RECORD) {
+    world.addSystem(new ScriptedInputSystem());
+  }
+  world.addSystem(new ReplaySystem(replay, mode));
+  world.addSystem(new InputStrikeSystem());
+  world.addSystem(new BailoutSystem());
+  world.addSystem(new EnvironmentSystem(BattleMapUtils.create(replay.setup.modeSettings.map, replay.setup.modeSettings.mapSeed)));
+
+  const player = createTestCharacter(world, 'プレイヤー', 0, new THREE.Vector3(0, 0, 5));
+  player.addComponent(Input, new Input());
+  player.addTag('player');
+  const enemy = createTestCharacter(world, '敵の隊員', 1, new THREE.Vector3(0, 0, -5));
+  enemy.addTag('enemy');
+  return { world, enemyId: enemy.id };
+}
+
+/**
+ * 試合の出来事（脱出の記録・得点・戦線離脱・残った建物と瓦礫）を比べられる形にする
+ */
+function describeMatch(match: { world: World; enemyId: number }): string {
+  const bailout = match.world.getSystem(BailoutSystem)!;
+  const environment = match.world.getSystem(EnvironmentSystem)!;
+  return JSON.stringify({
+    events: bailout.getEvents().map(event => [event.victimId, event.killerId, event.time, event.points]),
+    points: [bailout.getTeamPoints(0), bailout.getTeamPoints(1)],
+    bailingOut: bailout.isBailingOut(match.enemyId),
+    eliminated: bailout.isEliminated(match.enemyId),
+    buildings: environment.getBuildings().map(building => building.id),
+    debris: environment.getDebris().length
+  });
+}
+
+/**
+ * リプレイのテストクラス
+ */
+export class ReplayTest {
+  static run(): boolean {
+    console.log('🎬 Replay Test Starting...');
+
+    try {
+      // 1. 入力の記録と復元
+      console.log('  🎮 Testing input encoding...');
+      const original = new Input();
+      original.moveDirection.set(0.6, -0.8);
+      original.lookDirection.set(1.25, -0.3);
+      original.jump = true;
+      original.isLeftActionHeld = true;
+      original.leftTriggerSlot = 3;
+      original.trajectoryPresetKey = 'x';
+      original.mouseWorldPosition.set(4, 0, -7.5);
+      const restored = new Input();
+      ReplayCodec.applyInput(ReplayCodec.captureInput(original), restored);
+      if (!ReplayCodec.isSame(ReplayCodec.captureInput(original), ReplayCodec.captureInput(restored)) ||
+          !restored.jump || restored.dash || restored.leftTriggerSlot !== 3 || restored.trajectoryPresetKey !== 'x') {
+        throw new Error('Input should round-trip through the replay encoding');
+      }
+      console.log('    ✓ Inputの値を記録して元に戻せる');
+
+      // 2. 試合を記録し、入力が変わった刻みだけを保存する
+      console.log('\n  ⏺️ Testing recording...');
+      const replay = ReplayCodec.create(4321, 60, {
+        character: CharacterType.MIKUMO_OSAMU,
+        triggerSet: null,
+        modeSettings: {
+          mode: GameMode.RANK_WAR,
+          rankWar: { ...DEFAULT_RANK_WAR_SETTINGS },
+          difficulty: DEFAULT_AI_DIFFICULTY,
+          map: DEFAULT_BATTLE_MAP,
+          mapSeed: 4321
+        }
+      });
+      const recording = createWorld(replay, ReplayMode.RECORD);
+      for (let i = 0; i < 150; i++) {
+        recording.world.step(1 / 60);
+      }
+      if (replay.tickCount !== 150) {
+        throw new Error(`Replay should record every tick, got ${replay.tickCount}`);
+      }
+      if (replay.inputs.length === 0 || replay.inputs.length > 40) {
+        throw new Error(`Replay should only store ticks where the input changed, got ${replay.inputs.length}`);
+      }
+      console.log(`    ✓ ${replay.tickCount}刻みを${replay.inputs.length}件の入力の変化として記録`);
+
+      // 3. ファイルに書き出して読み込む
+      console.log('\n  💾 Testing file format...');
+      const loaded = ReplayCodec.parse(ReplayCodec.serialize(replay));
+      if (!loaded || loaded.setup.modeSettings.mode !== GameMode.RANK_WAR || loaded.seed !== 4321) {
+        throw new Error('Saved replay should load with its setup');
+      }
+      if (ReplayCodec.parse('not json') !== null || ReplayCodec.parse(JSON.stringify({ ...replay, version: 0 })) !== null) {
+        throw new Error('Invalid or outdated replay files should be rejected');
+      }
+      console.log('    ✓ 保存したリプレイを読み込め、壊れたファイルや古い形式は読み込まない');
+
+      // 4. 再生は記録と同じ結果になる（フレームレートが違っても同じ）
+      console.log('\n  ▶️ Testing playback...');
+      const playback = createWorld(loaded, ReplayMode.PLAYBACK);
+      const playbackSystem = playback.world.getSystem(ReplaySystem)!;
+      while (!playbackSystem.isFinished()) {
+        playback.world.step(1 / 144);
+      }
+      const recorded = recording.movement.history;
+      const replayed = playback.movement.history.slice(0, recorded.length);
+      if (replayed.length !== recorded.length || replayed.some((value, i) => value !== recorded[i])) {
+        throw new Error('Playback should reproduce the recorded match bit-identically');
+      }
+      console.log(`    ✓ 144FPSの再生で${replay.tickCount}刻みの結果が記録と一致`);
+
+      // 5. シーク（作り直したワールドで指定した刻みまで再シミュレーション）
+      console.log('\n  ⏩ Testing seek...');
+      const seek = createWorld(loaded, ReplayMode.PLAYBACK);
+      while (seek.world.getTick() < 90) {
+        seek.world.update(seek.world.getFixedDeltaTime());
+      }
+      const index = 90 * 3 - 3;
+      if (seek.movement.history.length !== 270 || seek.movement.history[index] !== recorded[index]) {
+        throw new Error('Seeking should re-simulate to the same state as the recording');
+      }
+      console.log('    ✓ 90刻み目へのシークで記録と同じ状態');
+
+      // 6. 緊急脱出と建物の崩壊をまたいで巻き戻すと、試合の開始から再シミュレーションして記録と同じになる
+      console.log('\n  ⏪ Testing rewind across a bailout and a collapse...');
+      const matchReplay = ReplayCodec.create(4321, 60, {
+        ...replay.setup,
+        modeSettings: { ...replay.setup.modeSettings, map: BattleMapId.RESIDENTIAL }
+      });
+      const matchRecording = createMatchWorld(matchReplay, ReplayMode.RECORD);
+      const timeline: string[] = [];
+      for (let i = 0; i < 240; i++) {
+        matchRecording.world.update(matchRecording.world.getFixedDeltaTime());
+        timeline.push(describeMatch(matchRecording));
+      }
+      const ending = JSON.parse(timeline[timeline.length - 1]);
+      if (!ending.eliminated || ending.events.length !== 1 || ending.debris === 0) {
+        throw new Error(`Recorded match should contain a bailout and a collapse, got ${timeline[timeline.length - 1]}`);
+      }
+
+      let rewind = createMatchWorld(matchReplay, ReplayMode.PLAYBACK);
+      while (rewind.world.getTick() < matchReplay.tickCount) {
+        rewind.world.update(rewind.world.getFixedDeltaTime());
+      }
+      const rewindTick = 100; // 脱出の途中で、建物はまだ崩れていない
+      const rewound = JSON.parse(timeline[rewindTick - 1]);
+      if (!rewound.bailingOut || rewound.debris !== 0) {
+        throw new Error(`Tick ${rewindTick} should be in the middle of the bailout before any collapse, got ${timeline[rewindTick - 1]}`);
+      }
+      rewind = createMatchWorld(matchReplay, ReplayMode.PLAYBACK);
+      while (rewind.world.getTick() < rewindTick) {
+        rewind.world.update(rewind.world.getFixedDeltaTime());
+      }
+      if (describeMatch(rewind) !== timeline[rewindTick - 1]) {
+        throw new Error(`Rewinding should undo the collapse and the arrival at the base, got ${describeMatch(rewind)}`);
+      }
+      while (rewind.world.getTick() < matchReplay.tickCount) {
+        rewind.world.update(rewind.world.getFixedDeltaTime());
+        const tick = rewind.world.getTick();
+        if (describeMatch(rewind) !== timeline[tick - 1]) {
+          throw new Error(`Playback after rewinding should match the recording at tick ${tick}, got ${describeMatch(rewind)}`);
+        }
+      }
+      console.log(`    ✓ 脱出と崩壊の後から${rewindTick}刻み目に戻り、${matchReplay.tickCount}刻み目まで記録と同じ出来事を再生`);
+
+      return true;
+
+    } catch (error) {
+      console.error('❌ Replay Test Failed:', error);
+      return false;
+    }
+  }
+}
+
+// エクスポート用のメイン関数
+export function runReplayValidation(): void {
+  console.log('🔧 REPLAY VALIDATION');
+  console.log('====================\n');
+
+  if (ReplayTest.run()) {
+    console.log('\n🎉 REPLAY VALIDATION PASSED');
+  } else {
+    console.log('\n⚠️  REPLAY VALIDATION FAILED');
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * シミュレーションを使うテストの共通処理（ワールドの進め方と試合のエンティティの作成）
+ */
+
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { Transform } from '../components/Transform';
+import { Character, CharacterType, CHARACTER_PRESETS } from '../components/Character';
+import { BailoutSystem } from '../systems/BailoutSystem';
+
+/**
+ * 条件を満たすまでワールドを固定刻みで進める（制限時間内に満たせばtrue）
+ */
+export function advanceUntil(world: World, condition: () => boolean, maxSeconds: number): boolean {
+  const ticks = Math.round(maxSeconds / world.getFixedDeltaTime());
+  for (let i = 0; i < ticks; i++) {
+    if (condition()) return true;
+    world.update(world.getFixedDeltaTime());
+  }
+  return condition();
+}
+
+/**
+ * 秒数分だけワールドを固定刻みで進める
+ */
+export function advance(world: World, seconds: number): void {
+  advanceUntil(world, () => false, seconds);
+}
+
+/**
+ * 緊急脱出システムを追加したワールド（試合のシステムはこの後に追加する）
+ */
+export function createBailoutWorld(seed?: number): { world: World; bailout: BailoutSystem } {
+  const world = new World(60, seed);
+  const bailout = new BailoutSystem();
+  world.addSystem(bailout);
+  return { world, bailout };
+}
+
+/**
+ * 位置とチームだけを決めた隊員（AI隊員の標準の能力値）
+ */
+export function createTestCharacter(world: World, name: string, team: number, position: THREE.Vector3): Entity {
+  const preset = CHARACTER_PRESETS[CharacterType.AI_ENEMY];
+  const entity = world.createEntity();
+  entity.addComponent(Transform, new Transform(position));
+  entity.addComponent(Character, new Character(name, CharacterType.AI_ENEMY, preset.class, preset.stats, team));
+  return entity;
+}
+
+/**
+ * attackerの攻撃でvictimのトリオン体を破壊する（attackerがnullなら撃破者なし）
+ */
+export function defeatCharacter(victim: Entity, attacker: Entity | null): void {
+  const character = victim.getComponent(Character)!;
+  character.lastAttackerId = attacker?.id ?? null;
+  character.destroyTrionBody();
+}
@@ -0,0 +1,89 @@
+/**
+ * トリオン量に基づくトリガー性能計算のテスト
+ */
+
+import { TrionCalculator } from '../config/OriginalStats';
+import { TriggerStatCalculator } from '../triggers/TriggerStatCalculator';
+import { TriggerType, TRIGGER_DEFINITIONS } from '../triggers/TriggerDefinitions';
+
+/**
+ * トリガー性能計算のテストクラス
+ */
+export class TrionStatPipelineTest {
+  static run(): boolean {
+    console.log('🎯 Trion Stat Pipeline Test Starting...');
+
+    try {
+      // 1. 基準トリオン値では定義値そのまま
+      console.log('  📐 Testing reference trion...');
+      const reference = TriggerStatCalculator.calculateForTrion(
+        TriggerType.ASTEROID,
+        TrionCalculator.REFERENCE_TRION
+      );
+      const definition = TRIGGER_DEFINITIONS[TriggerType.ASTEROID];
+      if (reference.damage !== definition.damage || reference.range !== definition.range) {
+        throw new Error(`Reference stats mismatch: damage=${reference.damage}, range=${reference.range}`);
+      }
+      if (reference.cubeSize !== 1) {
+        throw new Error(`Reference cube size should be 1, got ${reference.cubeSize}`);
+      }
+      console.log('    ✓ トリオン4（基準）で定義値と一致');
+
+      // 2. 千佳のアイビスと修のアステロイド
+      console.log('\n  🎭 Comparing Chika and Osamu...');
+      const chikaIbis = TriggerStatCalculator.calculateForTrion(TriggerType.IBIS, 12);
+      const osamuIbis = TriggerStatCalculator.calculateForTrion(TriggerType.IBIS, 2);
+      const chikaAsteroid = TriggerStatCalculator.calculateForTrion(TriggerType.ASTEROID, 12);
+      const osamuAsteroid = TriggerStatCalculator.calculateForTrion(TriggerType.ASTEROID, 2);
+
+      console.log(`    千佳 アイビス: 威力 ${chikaIbis.damage.toFixed(1)} / 射程 ${chikaIbis.range.toFixed(1)}`);
+      console.log(`    修 アイビス: 威力 ${osamuIbis.damage.toFixed(1)} / 射程 ${osamuIbis.range.toFixed(1)}`);
+      console.log(`    千佳 アステロイド: 威力 ${chikaAsteroid.damage.toFixed(1)} / キューブ ${chikaAsteroid.cubeSize.toFixed(2)}`);
+      console.log(`    修 アステロイド: 威力 ${osamuAsteroid.damage.toFixed(1)} / キューブ ${osamuAsteroid.cubeSize.toFixed(2)}`);
+
+      if (chikaIbis.damage <= osamuIbis.damage * 4) {
+        throw new Error('Ibis damage should scale strongly with trion');
+      }
+      if (chikaAsteroid.cubeSize <= osamuAsteroid.cubeSize) {
+        throw new Error('Cube size should grow with trion');
+      }
+
+      // 3. トリガー固有の反映度
+      console.log('\n  🔍 Testing trigger-specific scaling...');
+      const eagletHigh = TriggerStatCalculator.calculateForTrion(TriggerType.EAGLET, 8);
+      const lightningHigh = TriggerStatCalculator.calculateForTrion(TriggerType.LIGHTNING, 8);
+      const houndLow = TriggerStatCalculator.calculateForTrion(TriggerType.HOUND, 2);
+      const houndHigh = TriggerStatCalculator.calculateForTrion(TriggerType.HOUND, 12);
+
+      if (eagletHigh.range !== TRIGGER_DEFINITIONS[TriggerType.EAGLET].range * 2) {
+        throw new Error(`Eaglet range should double at trion 8, got ${eagletHigh.range}`);
+      }
+      if (lightningHigh.speed !== 100) {
+        throw new Error(`Lightning speed should double at trion 8, got ${lightningHigh.speed}`);
+      }
+      if (houndLow.speed !== houndHigh.speed) {
+        throw new Error('Hound speed should not depend on trion');
+      }
+      console.log('    ✓ イーグレット射程・ライトニング弾速・ハウンド弾速');
+
+      console.log('\n✅ Trion Stat Pipeline Test Passed');
+      return true;
+
+    } catch (error) {
+      console.error('❌ Trion Stat Pipeline Test Failed:', error);
+      return false;
+    }
+  }
+}
+
+// エクスポート用のメイン関数
+export function runTrionStatPipelineValidation(): void {
+  console.log('🔧 TRION STAT PIPELINE VALIDATION');
+  console.log('=================================\n');
+
+  if (TrionStatPipelineTest.run()) {
+    console.log('\n🎉 TRION STAT PIPELINE VALIDATION PASSED');
+  } else {
+    console.log('\n⚠️  TRION STAT PIPELINE VALIDATION FAILED');
+  }
+}
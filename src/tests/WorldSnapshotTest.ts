@@ -0,0 +1,252 @@
+/**
+ * ワールドのスナップショットの作成・読み書き・復元のテスト
+ */
+
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { System } from '../ecs/System';
+import { Transform } from '../components/Transform';
+import { Velocity } from '../components/Velocity';
+import { MeshComponent } from '../components/Mesh';
+import { Character, CharacterType, CHARACTER_PRESETS } from '../components/Character';
+import { Trigger } from '../components/Trigger';
+import { Shield } from '../components/Shield';
+import { AI, AI_CONFIG_PRESETS, AITactics } from '../components/AI';
+import { Hitbox, BodyPart } from '../components/Hitbox';
+import { Projectile, ProjectileType } from '../components/Projectile';
+import { SplittingTrigger } from '../components/SplittingTrigger';
+import { TriggerType, CLASS_TRIGGER_SETS } from '../triggers/TriggerDefinitions';
+import { CharacterMeshBuilder } from '../utils/CharacterMeshBuilder';
+import { WorldSnapshot } from '../snapshot/WorldSnapshot';
+import { SnapshotRegistry } from '../snapshot/SnapshotRegistry';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
+import { WorldSnapshotData } from '../snapshot/SnapshotData';
+
+/**
+ * 乱数で揺れながら動き、40刻みごとに弾を撃つ（乱数・エンティティの作成・タイマーの続きが結果に効く）
+ */
+class WanderSystem extends System {
+  public history: number[] = [];
+
+  requiredComponents() {
+    return [Transform, Velocity];
+  }
+
+  update(deltaTime: number): void {
+    const random = this.world!.getRandom('ai');
+    for (const entity of this.getEntities()) {
+      const transform = entity.getComponent(Transform)!;
+      const velocity = entity.getComponent(Velocity)!;
+      const ai = entity.getComponent(AI);
+      if (ai) {
+        velocity.linear.x += random.range(-1, 1);
+        ai.behaviorTimer += deltaTime;
+        if (this.world!.getTick() % 40 === 0) {
+          this.fire(entity.id, transform.position);
+        }
+      }
+      const projectile = entity.getComponent(Projectile);
+      if (projectile) {
+        projectile.age += deltaTime;
+        if (projectile.age > 0.5) this.world!.removeEntity(entity);
+      }
+      transform.position.addScaledVector(velocity.linear, deltaTime);
+      this.history.push(entity.id, transform.position.x, transform.position.z);
+    }
+  }
+
+  private fire(owner: number, position: THREE.Vector3): void {
+    const bullet = this.world!.createEntity();
+    bullet.addComponent(Transform, new Transform(position));
+    bullet.addComponent(Velocity, new Velocity(new THREE.Vector3(0, 0, -20), undefined, 1));
+    bullet.addComponent(Projectile, new Projectile(
+      ProjectileType.BULLET, TriggerType.ASTEROID, new THREE.Vector3(0, 0, -20), 10, 50, owner, 1
+    ));
+  }
+}
+
+/**
+ * 試合の最初の状態を作る（同じ手順で作ったワールドはエンティティのIDが揃う）
+ */
+function createWorld(populate: boolean = true): { world: World; wander: WanderSystem } {
+  const world = new World(60, 777);
+  const wander = new WanderSystem();
+  world.addSystem(wander);
+  if (!populate) return { world, wander };
+
+  const preset = CHARACTER_PRESETS[CharacterType.AI_ENEMY];
+  const enemy = world.createEntity();
+  const mesh = CharacterMeshBuilder.createEnemyMesh();
+  enemy.addComponent(Transform, new Transform(new THREE.Vector3(0, 0, -5)));
+  enemy.addComponent(MeshComponent, new MeshComponent(mesh));
+  enemy.addComponent(Character, new Character(preset.name, CharacterType.AI_ENEMY, preset.class, preset.stats, 1));
+  enemy.addComponent(Velocity, new Velocity());
+  enemy.addComponent(Hitbox, Hitbox.fromCharacterMesh(mesh));
+  enemy.addComponent(Trigger, new Trigger(CLASS_TRIGGER_SETS[preset.class]));
+  enemy.addComponent(Shield, new Shield());
+  enemy.addComponent(AI, new AI(AI_CONFIG_PRESETS[AITactics.AGGRESSIVE]));
+  enemy.addComponent(SplittingTrigger, new SplittingTrigger(TriggerType.ASTEROID));
+  enemy.addTag('enemy');
+
+  // 演出用のエンティティ（スナップショットの対象外）
+  const effect = world.createEntity();
+  effect.addComponent(Transform, new Transform());
+  return { world, wander };
+}
+
+/**
+ * ワールドのスナップショットのテストクラス
+ */
+export class WorldSnapshotTest {
+  static run(): boolean {
+    console.log('📸 World Snapshot Test Starting...');
+
+    try {
+      // 1. 状態の記録（演出用のエンティティは含めない）
+      console.log('  📝 Testing capture...');
+      const original = createWorld();
+      for (let i = 0; i < 45; i++) {
+        original.world.update(original.world.getFixedDeltaTime());
+      }
+      const enemy = original.world.getEntitiesWithTag('enemy')[0];
+      enemy.getComponent(Hitbox)!.zones.get(BodyPart.LEFT_ARM)!.severed = true;
+      enemy.getComponent(Trigger)!.leftHandLost = true;
+      const bullet = original.world.getEntities().find(entity => entity.hasComponent(Projectile))!;
+      bullet.getComponent(Projectile)!.setTrajectory(new THREE.CatmullRomCurve3([
+        new THREE.Vector3(0, 1, 0), new THREE.Vector3(2, 1, -4), new THREE.Vector3(0, 1, -8)
+      ]));
+      bullet.getComponent(Projectile)!.hitEntities.add(enemy.id);
+
+      const snapshot = WorldSnapshot.capture(original.world);
+      if (snapshot.tick !== 45 || snapshot.entities.length !== 2) {
+        throw new Error(`Snapshot should hold the enemy and the bullet at tick 45, got ${snapshot.entities.length} entities`);
+      }
+      const enemyData = snapshot.entities.find(entity => entity.id === enemy.id)!;
+      const keys = ['transform', 'velocity', 'character', 'trigger', 'shield', 'ai', 'splittingTrigger', 'hitbox'];
+      if (keys.some(key => !(key in enemyData.components)) || enemyData.components.ai.timeSinceAttack !== null) {
+        throw new Error('Every registered component should be encoded, with Infinity stored as null');
+      }
+      console.log(`    ✓ ${snapshot.entities.length}体のエンティティを記録（演出用は除外）`);
+
+      // 2. JSONとバイナリの読み書き
+      console.log('\n  💾 Testing formats...');
+      const json = WorldSnapshot.toJSON(snapshot);
+      const fromJson = WorldSnapshot.fromJSON(json);
+      const fromBinary = WorldSnapshot.fromBinary(WorldSnapshot.toBinary(snapshot));
+      if (!fromJson || !fromBinary || WorldSnapshot.toJSON(fromJson) !== json || WorldSnapshot.toJSON(fromBinary) !== json) {
+        throw new Error('Snapshot should round-trip through JSON and binary');
+      }
+      const binary = WorldSnapshot.toBinary(snapshot);
+      if (WorldSnapshot.fromJSON('not json') !== null ||
+          WorldSnapshot.fromJSON(JSON.stringify({ ...snapshot, version: 0 })) !== null ||
+          WorldSnapshot.fromBinary(binary.subarray(0, binary.length - 3)) !== null ||
+          WorldSnapshot.fromBinary(new TextEncoder().encode(json)) !== null) {
+        throw new Error('Invalid, truncated or outdated snapshots should be rejected');
+      }
+      console.log(`    ✓ JSON（${json.length}文字）とバイナリ（${binary.length}バイト）で読み書きでき、壊れたデータは読み込まない`);
+
+      // 3. 同じ設定で作ったワールドに復元すると同じ続きになる
+      console.log('\n  🔁 Testing restore into a fresh world...');
+      const expected = this.continueFrom(original, 60);
+      const restored = createWorld();
+      WorldSnapshot.restore(restored.world, fromBinary!);
+      const actual = this.continueFrom(restored, 60);
+      if (actual.history.some((value, i) => value !== expected.history[i]) || actual.history.length !== expected.history.length) {
+        throw new Error('Restored world should continue bit-identically');
+      }
+      if (WorldSnapshot.toJSON(actual.snapshot) !== WorldSnapshot.toJSON(expected.snapshot)) {
+        throw new Error('Restored world should end in the same state');
+      }
+      if (restored.world.getEntityCount() !== original.world.getEntityCount()) {
+        throw new Error('Effect entities should be left untouched by restore');
+      }
+      console.log('    ✓ 復元したワールドが60刻み先まで元のワールドと一致');
+
+      // 4. 同じワールドを巻き戻す
+      console.log('\n  ⏪ Testing rollback...');
+      WorldSnapshot.restore(original.world, snapshot);
+      const rollback = this.continueFrom(original, 60);
+      if (WorldSnapshot.toJSON(rollback.snapshot) !== WorldSnapshot.toJSON(expected.snapshot)) {
+        throw new Error('Rolling back should replay the same continuation');
+      }
+      if (original.world.getEntitiesWithTag('enemy')[0] !== enemy) {
+        throw new Error('Rollback should keep existing entity objects');
+      }
+      console.log('    ✓ 巻き戻して進め直すと同じ状態になり、エンティティはそのまま使われる');
+
+      // 5. 空のワールドに復元するとメッシュをファクトリで作り直す
+      console.log('\n  🧱 Testing mesh factories...');
+      const empty = createWorld(false);
+      WorldSnapshot.restore(empty.world, snapshot);
+      const rebuilt = empty.world.getEntityById(enemy.id)!;
+      const rebuiltMesh = rebuilt.getComponent(MeshComponent)?.mesh;
+      if (!rebuiltMesh || rebuiltMesh.getObjectByName('leftArm')?.visible !== false || rebuiltMesh.getObjectByName('rightArm')?.visible !== true) {
+        throw new Error('Character mesh should be rebuilt with severed parts hidden');
+      }
+      const rebuiltBullet = empty.world.getEntityById(bullet.id)!.getComponent(Projectile)!;
+      if (!(rebuiltBullet.trajectory instanceof THREE.CatmullRomCurve3) || !rebuiltBullet.hitEntities.has(enemy.id)) {
+        throw new Error('Projectile trajectory and hit list should be restored');
+      }
+      const next = empty.world.createEntity();
+      if (next.id !== snapshot.nextEntityId) {
+        throw new Error(`New entities should continue from the snapshot's id, got ${next.id}`);
+      }
+      console.log('    ✓ キャラクターのメッシュを欠損を反映して作り直し、弾道と新しいIDも続きから');
+
+      // 6. 独自のコンポーネントの登録
+      console.log('\n  🧩 Testing custom registration...');
+      class Marker {
+        public label: string;
+        constructor(label: string) {
+          this.label = label;
+        }
+      }
+      ComponentRegistry.register(Marker, 'testMarker');
+      SnapshotRegistry.registerComponent(Marker, {
+        encode: marker => marker.label,
+        decode: data => new Marker(data)
+      });
+      const marked = empty.world.createEntity();
+      marked.addComponent(Marker, new Marker('flag'));
+      const markedSnapshot = WorldSnapshot.capture(empty.world);
+      const markedWorld = createWorld(false);
+      WorldSnapshot.restore(markedWorld.world, markedSnapshot);
+      if (markedWorld.world.getEntityById(marked.id)?.getComponent(Marker)?.label !== 'flag') {
+        throw new Error('Registered components should be captured and restored');
+      }
+      console.log('    ✓ 登録したコンポーネントも記録・復元される');
+
+      return true;
+
+    } catch (error) {
+      console.error('❌ World Snapshot Test Failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * ワールドを進め、その間の動きと最後の状態を返す
+   */
+  private static continueFrom(
+    target: { world: World; wander: WanderSystem },
+    ticks: number
+  ): { history: number[]; snapshot: WorldSnapshotData } {
+    target.wander.history = [];
+    for (let i = 0; i < ticks; i++) {
+      target.world.update(target.world.getFixedDeltaTime());
+    }
+    return { history: target.wander.history, snapshot: WorldSnapshot.capture(target.world) };
+  }
+}
+
+// エクスポート用のメイン関数
+export function runWorldSnapshotValidation(): void {
+  console.log('🔧 WORLD SNAPSHOT VALIDATION');
+  console.log('============================\n');
+
+  if (WorldSnapshotTest.run()) {
+    console.log('\n🎉 WORLD SNAPSHOT VALIDATION PASSED');
+  } else {
+    console.log('\n⚠️  WORLD SNAPSHOT VALIDATION FAILED');
+  }
+}
@@ -0,0 +1,96 @@
+import { TriggerType, TRIGGER_DEFINITIONS } from './TriggerDefinitions';
+import { TriggerStatCalculator, TriggerStats } from './TriggerStatCalculator';
+import { ProjectileType } from '../components/Projectile';
+import { Character } from '../components/Character';
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * 合成弾のレシピ
+ */
+export interface CompoundRecipe {
+  name: string;
+  result: ProjectileType;
+  triggers: [TriggerType, TriggerType]; // 両手に構える弾トリガー（順不同）
+  damageMultiplier: number;
+  speedMultiplier: number;
+  rangeMultiplier: number;
+  color: number;
+  description: string;
+}
+
+/**
+ * 合成弾のレシピ一覧
+ */
+export const COMPOUND_RECIPES: CompoundRecipe[] = [
+  {
+    name: 'ギムレット',
+    result: ProjectileType.GIMLET,
+    triggers: [TriggerType.ASTEROID, TriggerType.ASTEROID],
+    damageMultiplier: 1.2,
+    speedMultiplier: 1.3,
+    rangeMultiplier: 1.2,
+    color: 0xffffff,
+    description: 'シールドも貫く強化貫通弾'
+  },
+  {
+    name: 'トマホーク',
+    result: ProjectileType.TOMAHAWK,
+    triggers: [TriggerType.METEORA, TriggerType.VIPER],
+    damageMultiplier: 1.3,
+    speedMultiplier: 0.9,
+    rangeMultiplier: 1.0,
+    color: 0xff44ff,
+    description: '弾道を引ける誘導炸裂弾'
+  },
+  {
+    name: 'サラマンダー',
+    result: ProjectileType.SALAMANDER,
+    triggers: [TriggerType.ASTEROID, TriggerType.METEORA],
+    damageMultiplier: 1.4,
+    speedMultiplier: 1.0,
+    rangeMultiplier: 1.0,
+    color: 0xff2200,
+    description: '敵に近づくと炸裂する近接信管弾'
+  }
+];
+
+/**
+ * 合成弾の計算ユーティリティ
+ */
+export class CompoundBulletUtils {
+  /**
+   * 両手のトリガーからレシピを検索
+   */
+  static findRecipe(right: TriggerType | null, left: TriggerType | null): CompoundRecipe | null {
+    if (!right || !left) return null;
+
+    return COMPOUND_RECIPES.find(recipe =>
+      (recipe.triggers[0] === right && recipe.triggers[1] === left) ||
+      (recipe.triggers[0] === left && recipe.triggers[1] === right)
+    ) ?? null;
+  }
+
+  /**
+   * 合成に必要なトリオンを計算
+   */
+  static calculateTrionCost(recipe: CompoundRecipe): number {
+    const [a, b] = recipe.triggers;
+    const base = TRIGGER_DEFINITIONS[a].trionCost + TRIGGER_DEFINITIONS[b].trionCost;
+    return base * GAME_CONFIG.COMPOUND.TRION_MULTIPLIER;
+  }
+
+  /**
+   * 合成弾の性能を計算（素材となる両トリガーの性能から算出）
+   */
+  static calculateStats(recipe: CompoundRecipe, character: Character): TriggerStats {
+    const a = TriggerStatCalculator.calculate(recipe.triggers[0], character);
+    const b = TriggerStatCalculator.calculate(recipe.triggers[1], character);
+
+    return {
+      damage: (a.damage + b.damage) * recipe.damageMultiplier,
+      speed: Math.max(a.speed, b.speed) * recipe.speedMultiplier,
+      range: Math.max(a.range, b.range) * recipe.rangeMultiplier,
+      cubeSize: Math.max(a.cubeSize, b.cubeSize)
+    };
+  }
+}
@@ -8,7 +8,9 @@ import { MeshComponent } from '../components/Mesh';
 import { SplittingTrigger } from '../components/SplittingTrigger';
 import { TriggerType, TRIGGER_DEFINITIONS } from '../triggers/TriggerDefinitions';
 import { ShootingSystem } from '../systems/ShootingSystem';
+import { TriggerStatCalculator } from './TriggerStatCalculator';
 import { RenderSystem } from '../systems/RenderSystem';
+import { ViperTrajectorySystem } from '../systems/ViperTrajectorySystem';
 
 /**
  * 分割トリガー（バイパー等）専用の管理システム
@@ -40,10 +42,13 @@ export class SplittingTriggerSystem {
     // 分割トリガーコンポーネントを取得または作成
     let splittingTrigger = this.splittingTriggers.get(entity.id);
     if (!splittingTrigger) {
-      splittingTrigger = new SplittingTrigger();
+      splittingTrigger = new SplittingTrigger(currentTrigger);
       this.splittingTriggers.set(entity.id, splittingTrigger);
     }
 
+    // トリオン量に基づいてキューブサイズを設定（TriggerSystemと共通の計算）
+    splittingTrigger.cubeSize = TriggerStatCalculator.calculate(currentTrigger, character).cubeSize;
+
     if (splittingTrigger.isGenerated) {
       console.log('SplittingTriggerSystem: Cubes already generated');
       return;
@@ -66,12 +71,13 @@ export class SplittingTriggerSystem {
     // グリッド状にキューブを配置
     const gridSize = Math.sqrt(splitCount);
     const spacing = 0.3; // キューブ間の間隔
+    const baseSize = splittingTrigger.cubeSize * 0.1;
 
     for (let i = 0; i < splitCount; i++) {
       const cubeEntity = this.world.createEntity();
       
       // キューブのメッシュを作成
-      const cubeGeometry = new THREE.BoxGeometry(0.1, 0.1, 0.1);
+      const cubeGeometry = new THREE.BoxGeometry(baseSize, baseSize, baseSize);
       const cubeMaterial = new THREE.MeshStandardMaterial({
         color: 0x00ff88,
         transparent: true,
@@ -170,6 +176,7 @@ export class SplittingTriggerSystem {
       right.applyAxisAngle(new THREE.Vector3(0, 1, 0), cameraRotation.y);
       
       const up = new THREE.Vector3(0, 1, 0);
+      const viperSystem = this.world.getSystem(ViperTrajectorySystem);
       
       // 各キューブの位置から平行に発射
       for (let i = 0; i < splitCount; i++) {
@@ -206,7 +213,12 @@ export class SplittingTriggerSystem {
         entity.removeComponent(Transform);
         entity.addComponent(Transform, tempTransform);
         
-        shootingSystem.fireProjectile(entity, tempTransform, character, triggerType, isLeftHand);
+        const projectileEntity = shootingSystem.fireProjectile(entity, tempTransform, character, triggerType, isLeftHand);
+        
+        // バイパーは設定された弾道に沿って飛ぶ
+        if (projectileEntity && triggerType === TriggerType.VIPER) {
+          viperSystem?.assignTrajectory(entity, projectileEntity, i, splitCount);
+        }
         
         // 元のtransformに戻す
         entity.removeComponent(Transform);
@@ -0,0 +1,83 @@
+import { TriggerType, TriggerCategory, TRIGGER_DEFINITIONS } from './TriggerDefinitions';
+import { TrionCalculator } from '../config/OriginalStats';
+import { Character } from '../components/Character';
+
+/**
+ * トリオン量から算出したトリガー性能
+ */
+export interface TriggerStats {
+  damage: number;
+  speed: number;    // 弾速
+  range: number;    // 射程
+  cubeSize: number; // キューブサイズ倍率（シューター用）
+}
+
+/**
+ * トリオン反映の強さ（倍率計算の指数）
+ */
+interface TrionScaling {
+  damage: number;
+  speed: number;
+  range: number;
+}
+
+/**
+ * カテゴリ別の基本弾速
+ */
+const BASE_SPEED: Record<string, number> = {
+  [TriggerCategory.SNIPER]: 50,
+  [TriggerCategory.GUNNER]: 40,
+  [TriggerCategory.SHOOTER]: 35
+};
+const DEFAULT_SPEED = 30;
+
+/**
+ * 標準のトリオン反映度
+ */
+const DEFAULT_SCALING: TrionScaling = { damage: 0.5, speed: 0.25, range: 0.5 };
+
+/**
+ * トリガー固有のトリオン反映度
+ */
+const TRIGGER_SCALING: Partial<Record<TriggerType, TrionScaling>> = {
+  // アイビス：威力がトリオン量に強く依存
+  [TriggerType.IBIS]: { damage: 1.0, speed: 0.25, range: 0.5 },
+  // ライトニング：弾速がトリオン量に強く依存
+  [TriggerType.LIGHTNING]: { damage: 0.25, speed: 1.0, range: 0.5 },
+  // イーグレット：射程がトリオン量に強く依存
+  [TriggerType.EAGLET]: { damage: 0.5, speed: 0.25, range: 1.0 },
+  // ハウンド：ホーミングが効くよう弾速は一定
+  [TriggerType.HOUND]: { damage: 0.5, speed: 0, range: 0.5 }
+};
+
+/**
+ * トリオン量に基づくトリガー性能の計算
+ * 全ての射撃系処理はここを経由して威力・弾速・射程・キューブサイズを決定する
+ */
+export class TriggerStatCalculator {
+  /**
+   * キャラクターのトリオン値からトリガー性能を計算
+   */
+  static calculate(triggerType: TriggerType, character: Character): TriggerStats {
+    const trion = character.stats.originalStats?.trion ?? TrionCalculator.REFERENCE_TRION;
+    return this.calculateForTrion(triggerType, trion);
+  }
+
+  /**
+   * トリオン値からトリガー性能を計算
+   */
+  static calculateForTrion(triggerType: TriggerType, trion: number): TriggerStats {
+    const definition = TRIGGER_DEFINITIONS[triggerType];
+    const scaling = TRIGGER_SCALING[triggerType] ?? DEFAULT_SCALING;
+    const baseSpeed = triggerType === TriggerType.HOUND
+      ? DEFAULT_SPEED
+      : BASE_SPEED[definition.category] ?? DEFAULT_SPEED;
+
+    return {
+      damage: definition.damage * TrionCalculator.calculateStatMultiplier(trion, scaling.damage),
+      speed: baseSpeed * TrionCalculator.calculateStatMultiplier(trion, scaling.speed),
+      range: definition.range * TrionCalculator.calculateStatMultiplier(trion, scaling.range),
+      cubeSize: TrionCalculator.calculateCubeSizeMultiplier(trion)
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+
+/**
+ * プリセット弾道の経由点
+ * x: 右方向(m)、y: 上方向(m)、z: 目標までの距離に対する割合(0-1)
+ */
+export interface ViperPresetPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * バイパーのプリセット弾道
+ * lanesの数だけ弾道を持ち、キューブは各弾道に順番に割り振られる
+ */
+export interface ViperPreset {
+  id: string;
+  name: string;
+  description: string;
+  lanes: ViperPresetPoint[][];
+}
+
+/**
+ * プリセット弾道の定義
+ */
+export const VIPER_PRESETS: ViperPreset[] = [
+  {
+    id: 'arc',
+    name: 'アーチ',
+    description: 'シールドを越える山なりの弾道',
+    lanes: [
+      [{ x: 0, y: 5, z: 0.5 }]
+    ]
+  },
+  {
+    id: 'pincer',
+    name: '挟撃',
+    description: '左右に分かれて両側から挟み込む弾道',
+    lanes: [
+      [{ x: -6, y: 0, z: 0.5 }],
+      [{ x: 6, y: 0, z: 0.5 }]
+    ]
+  },
+  {
+    id: 'dive',
+    name: '急降下',
+    description: '真上から降り注ぐ弾道',
+    lanes: [
+      [{ x: 0, y: 10, z: 0.7 }, { x: 0, y: 6, z: 0.95 }]
+    ]
+  }
+];
+
+/**
+ * プリセットキーの初期割り当て
+ */
+export const DEFAULT_VIPER_PRESET_BINDINGS: Record<string, string> = {
+  z: 'arc',
+  x: 'pincer',
+  c: 'dive'
+};
+
+/**
+ * バイパー弾道の計算ユーティリティ
+ */
+export class ViperTrajectoryUtils {
+  /**
+   * IDからプリセットを取得
+   */
+  static getPreset(id: string): ViperPreset | undefined {
+    return VIPER_PRESETS.find(preset => preset.id === id);
+  }
+
+  /**
+   * 経由点を通る滑らかな弾道を作成
+   */
+  static createPath(points: THREE.Vector3[]): THREE.CatmullRomCurve3 {
+    return new THREE.CatmullRomCurve3(points.map(point => point.clone()), false, 'centripetal');
+  }
+
+  /**
+   * プリセットの経由点をワールド座標に変換（終点は目標地点）
+   */
+  static resolvePresetLane(
+    lane: ViperPresetPoint[],
+    start: THREE.Vector3,
+    forward: THREE.Vector3,
+    distance: number
+  ): THREE.Vector3[] {
+    const flatForward = new THREE.Vector3(forward.x, 0, forward.z);
+    if (flatForward.lengthSq() === 0) {
+      flatForward.set(0, 0, -1);
+    }
+    flatForward.normalize();
+    const right = new THREE.Vector3().crossVectors(flatForward, new THREE.Vector3(0, 1, 0)).normalize();
+    const target = start.clone().add(forward.clone().normalize().multiplyScalar(distance));
+
+    const points = lane.map(point => {
+      const base = start.clone().lerp(target, point.z);
+      return base
+        .addScaledVector(right, point.x)
+        .add(new THREE.Vector3(0, point.y, 0));
+    });
+    points.push(target);
+    return points;
+  }
+}
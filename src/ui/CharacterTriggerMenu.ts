@@ -140,7 +140,7 @@ export class CharacterTriggerMenu {
       margin: 0 auto;
     `;
 
-    // プレイ可能キャラクターを表示（AI_ENEMYを除く）
+    // プレイ可能キャラクターを表示（AI_ENEMY・TRION_SOLDIERを除く）
     const playableCharacters = [
       CharacterType.MIKUMO_OSAMU,
       CharacterType.AMATORI_CHIKA,
@@ -1,6 +1,9 @@
 import { Character } from '../components/Character';
 import { Trigger } from '../components/Trigger';
 import { TRIGGER_DEFINITIONS } from '../triggers/TriggerDefinitions';
+import { RadarBlip } from '../systems/RadarSystem';
+import { RankWarStanding } from '../systems/RankWarSystem';
+import { GAME_CONFIG } from '../config/GameConfig';
 
 /**
  * HUD（Head-Up Display）システム
@@ -14,6 +17,11 @@ export class HUD {
   private leftTriggerSlots: HTMLElement[] = [];
   private fpsCounter: HTMLElement;
   private debugInfo: HTMLElement;
+  private radarCanvas: HTMLCanvasElement;
+  private radarStatus: HTMLElement;
+  private bailoutNotice: HTMLElement;
+  private matchStatus: HTMLElement;
+  private waveStatus: HTMLElement;
   private lastFpsUpdate: number = 0;
   private frameCount: number = 0;
   private fps: number = 0;
@@ -28,6 +36,11 @@ export class HUD {
     this.trionFill = this.hudElement.querySelector('.trion-fill')!;
     this.fpsCounter = this.hudElement.querySelector('.fps-counter')!;
     this.debugInfo = this.hudElement.querySelector('.debug-info')!;
+    this.radarCanvas = this.hudElement.querySelector('.radar-canvas')! as HTMLCanvasElement;
+    this.radarStatus = this.hudElement.querySelector('.radar-status')!;
+    this.bailoutNotice = this.hudElement.querySelector('.bailout-notice')!;
+    this.matchStatus = this.hudElement.querySelector('.match-status')!;
+    this.waveStatus = this.hudElement.querySelector('.wave-status')!;
     
     // 右手トリガースロットの参照を取得
     for (let i = 1; i <= 4; i++) {
@@ -130,6 +143,32 @@ export class HUD {
         FPS: <span class="fps-value">60</span>
       </div>
 
+      <!-- レーダー -->
+      <div class="hud-element radar">
+        <canvas class="radar-canvas" width="${GAME_CONFIG.RADAR.HUD_SIZE}" height="${GAME_CONFIG.RADAR.HUD_SIZE}"></canvas>
+        <div class="radar-status"></div>
+      </div>
+
+      <!-- 緊急脱出 -->
+      <div class="bailout-notice">
+        <div class="bailout-title">緊急脱出</div>
+        <div class="bailout-countdown"></div>
+      </div>
+
+      <!-- ランク戦の試合状況 -->
+      <div class="hud-element match-status">
+        <div class="match-timer">--:--</div>
+        <div class="match-scores"></div>
+      </div>
+
+      <!-- ネイバー遠征の防衛状況 -->
+      <div class="hud-element wave-status">
+        <div class="wave-title">ウェーブ -</div>
+        <div class="wave-line wave-enemies"></div>
+        <div class="wave-line wave-territory"></div>
+        <div class="wave-line wave-civilians"></div>
+      </div>
+
       <!-- デバッグ情報 -->
       <div class="hud-element debug-info">
         <div class="debug-line">座標: <span class="debug-position">0, 0, 0</span></div>
@@ -151,6 +190,11 @@ export class HUD {
         <div class="help-line">T: 左手武器生成</div>
         <div class="help-line">1-4: 右手トリガー切替</div>
         <div class="help-line">Ctrl+1-4: 左手トリガー切替</div>
+        <div class="help-line">Q (バッグワーム): レーダー隠蔽</div>
+        <div class="help-line">F / G (バイパー): 経由点 設置/クリア</div>
+        <div class="help-line">Z/X/C (バイパー): 弾道プリセット</div>
+        <div class="help-line">Shift+Z/X/C: プリセット割当変更</div>
+        <div class="help-line">中クリック: 両手の弾を合成</div>
       </div>
     `;
 
@@ -314,6 +358,106 @@ export class HUD {
     }
   }
 
+  /**
+   * レーダー表示を更新
+   */
+  updateRadar(blips: RadarBlip[], center: THREE.Vector3, team: number, bagwormActive: boolean): void {
+    const ctx = this.radarCanvas.getContext('2d');
+    if (!ctx) return;
+
+    const size = this.radarCanvas.width;
+    const half = size / 2;
+    const scale = half / GAME_CONFIG.RADAR.RANGE;
+
+    ctx.clearRect(0, 0, size, size);
+
+    // 外周と十字線
+    ctx.strokeStyle = 'rgba(0, 255, 136, 0.4)';
+    ctx.beginPath();
+    ctx.arc(half, half, half - 1, 0, Math.PI * 2);
+    ctx.moveTo(half, 0);
+    ctx.lineTo(half, size);
+    ctx.moveTo(0, half);
+    ctx.lineTo(size, half);
+    ctx.stroke();
+
+    // ブリップを描画（味方: 緑、敵: 赤）
+    for (const blip of blips) {
+      const dx = (blip.position.x - center.x) * scale;
+      const dz = (blip.position.z - center.z) * scale;
+      if (dx * dx + dz * dz > half * half) continue;
+
+      ctx.fillStyle = blip.team === team ? '#00ff88' : '#ff4444';
+      ctx.beginPath();
+      ctx.arc(half + dx, half + dz, 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    this.radarStatus.textContent = bagwormActive ? 'バッグワーム起動中' : '';
+  }
+
+  /**
+   * 緊急脱出の表示を更新
+   */
+  updateBailout(active: boolean, returnIn: number | null): void {
+    this.bailoutNotice.style.display = active ? 'block' : 'none';
+    if (!active) return;
+
+    this.bailoutNotice.querySelector('.bailout-countdown')!.textContent =
+      returnIn !== null ? `復帰まで ${Math.ceil(returnIn)}秒` : '';
+  }
+
+  /**
+   * ランク戦の残り時間と得点を更新
+   */
+  updateMatchStatus(remainingTime: number, scores: RankWarStanding[], playerTeam: number): void {
+    this.matchStatus.style.display = 'block';
+
+    const seconds = Math.ceil(remainingTime);
+    this.matchStatus.querySelector('.match-timer')!.textContent =
+      `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+    this.matchStatus.querySelector('.match-scores')!.innerHTML = [...scores]
+      .sort((a, b) => a.team - b.team)
+      .map(score => {
+        const color = this.getSquadColor(score.team);
+        const label = score.team === playerTeam ? '自部隊' : `部隊${score.team + 1}`;
+        return `<div class="match-score" style="color: ${color}">${label}: ${score.bailoutPoints}pt（残り${score.survivors}人）</div>`;
+      })
+      .join('');
+  }
+
+  /**
+   * ネイバー遠征の防衛状況を更新
+   */
+  updateWaveStatus(status: {
+    wave: number;
+    totalWaves: number;
+    prepTime: number | null;
+    remainingSoldiers: number;
+    territoryDamage: number;
+    civiliansRemaining: number;
+    civilianCount: number;
+  }): void {
+    this.waveStatus.style.display = 'block';
+
+    this.waveStatus.querySelector('.wave-title')!.textContent = status.prepTime !== null
+      ? `次のウェーブまで ${Math.ceil(status.prepTime)}秒`
+      : `ウェーブ ${status.wave}/${status.totalWaves}`;
+    this.waveStatus.querySelector('.wave-enemies')!.textContent = `トリオン兵: 残り${status.remainingSoldiers}体`;
+    this.waveStatus.querySelector('.wave-territory')!.textContent = `市街地の被害: ${Math.floor(status.territoryDamage)}%`;
+    this.waveStatus.querySelector('.wave-civilians')!.textContent =
+      `市民: ${status.civiliansRemaining}/${status.civilianCount}人`;
+  }
+
+  /**
+   * 部隊の表示色
+   */
+  private getSquadColor(team: number): string {
+    const colors = GAME_CONFIG.RANK_WAR.SQUAD_COLORS;
+    return `#${colors[team % colors.length].primary.toString(16).padStart(6, '0')}`;
+  }
+
   /**
    * FPSを更新
    */
@@ -344,7 +488,7 @@ export class HUD {
   /**
    * 勝利メッセージを表示
    */
-  showVictory(): void {
+  showVictory(messageText: string = '敵を倒しました'): void {
     // ゲームを停止し、Pointer Lockを解除
     this.stopGame();
     
@@ -394,7 +538,7 @@ export class HUD {
     
     // メッセージ
     const message = document.createElement('p');
-    message.textContent = '敵を倒しました';
+    message.textContent = messageText;
     message.style.cssText = 'color: white; font-size: 1.5rem; margin-bottom: 2rem; text-align: center;';
     
     // ボタン
@@ -460,7 +604,7 @@ export class HUD {
   /**
    * 敗北メッセージを表示
    */
-  showDefeat(): void {
+  showDefeat(messageText: string = 'トリオンが尽きました'): void {
     // ゲームを停止し、Pointer Lockを解除
     this.stopGame();
     
@@ -510,7 +654,7 @@ export class HUD {
     
     // メッセージ
     const message = document.createElement('p');
-    message.textContent = 'トリオンが尽きました';
+    message.textContent = messageText;
     message.style.cssText = 'color: white; font-size: 1.5rem; margin-bottom: 2rem; text-align: center;';
     
     // ボタン
@@ -573,6 +717,87 @@ export class HUD {
     console.warn('❌ 敗北画面が表示されました');
   }
 
+  /**
+   * ランク戦の最終順位を表示
+   */
+  showStandings(standings: RankWarStanding[], playerTeam: number): void {
+    // ゲームを停止し、Pointer Lockを解除
+    this.stopGame();
+    document.body.style.pointerEvents = 'none';
+
+    // 既存のオーバーレイを削除
+    document.getElementById('standings-overlay')?.remove();
+
+    const overlay = document.createElement('div');
+    overlay.id = 'standings-overlay';
+    overlay.style.cssText = `
+      position: fixed !important;
+      top: 0 !important;
+      left: 0 !important;
+      width: 100vw !important;
+      height: 100vh !important;
+      background-color: rgba(0, 0, 0, 0.9) !important;
+      display: flex !important;
+      flex-direction: column !important;
+      justify-content: center !important;
+      align-items: center !important;
+      z-index: ${GAME_CONFIG.UI.VICTORY_SCREEN_Z_INDEX} !important;
+      pointer-events: auto !important;
+      font-family: Arial, sans-serif !important;
+    `;
+
+    // オーバーレイのマウスイベントを停止
+    overlay.addEventListener('mousedown', (e) => e.stopPropagation());
+    overlay.addEventListener('mouseup', (e) => e.stopPropagation());
+    overlay.addEventListener('mousemove', (e) => e.stopPropagation());
+    overlay.addEventListener('click', (e) => e.stopPropagation());
+
+    // タイトル
+    const playerStanding = standings.find(standing => standing.team === playerTeam);
+    const title = document.createElement('h1');
+    title.textContent = playerStanding ? `ランク戦終了 - ${playerStanding.rank}位` : 'ランク戦終了';
+    title.style.cssText = 'color: white; font-size: 3rem; margin-bottom: 1rem; text-align: center;';
+
+    // 順位表
+    const table = document.createElement('table');
+    table.className = 'standings-table';
+    table.innerHTML = `
+      <tr><th>順位</th><th>部隊</th><th>撃破点</th><th>生存点</th><th>合計</th></tr>
+      ${standings.map(standing => `
+        <tr class="${standing.team === playerTeam ? 'own-squad' : ''}" style="color: ${this.getSquadColor(standing.team)}">
+          <td>${standing.rank}</td>
+          <td>${standing.team === playerTeam ? '自部隊' : `部隊${standing.team + 1}`}</td>
+          <td>${standing.bailoutPoints}</td>
+          <td>${standing.survivorBonus}</td>
+          <td>${standing.total}</td>
+        </tr>
+      `).join('')}
+    `;
+
+    // ボタン
+    const restartBtn = document.createElement('button');
+    restartBtn.textContent = 'もう一度';
+    restartBtn.style.cssText = `
+      padding: 20px 40px !important;
+      font-size: 1.5rem !important;
+      background-color: #007bff !important;
+      color: white !important;
+      border: none !important;
+      border-radius: 8px !important;
+      cursor: pointer !important;
+      pointer-events: auto !important;
+      margin: 20px !important;
+    `;
+    restartBtn.addEventListener('click', () => window.location.reload());
+
+    overlay.appendChild(title);
+    overlay.appendChild(table);
+    overlay.appendChild(restartBtn);
+    document.body.appendChild(overlay);
+
+    console.warn('🏁 最終順位が表示されました');
+  }
+
   /**
    * ゲームを停止
    */
@@ -689,6 +914,106 @@ hudStyle.textContent = `
   align-items: center;
 }
 
+/* レーダー */
+.radar {
+  top: 70px;
+  right: 20px;
+  padding: 8px;
+  text-align: center;
+}
+
+.radar-canvas {
+  display: block;
+}
+
+.radar-status {
+  color: #66ccff;
+  font-size: 11px;
+  font-weight: bold;
+}
+
+/* 緊急脱出 */
+.bailout-notice {
+  display: none;
+  position: absolute;
+  top: 40%;
+  left: 50%;
+  transform: translate(-50%, -50%);
+  color: #88ffff;
+  text-align: center;
+  text-shadow: 0 0 12px rgba(136, 255, 255, 0.8);
+}
+
+.bailout-title {
+  font-size: 48px;
+  font-weight: bold;
+  letter-spacing: 8px;
+}
+
+.bailout-countdown {
+  font-size: 18px;
+  margin-top: 8px;
+}
+
+/* ランク戦 */
+.match-status {
+  display: none;
+  top: 20px;
+  left: 50%;
+  transform: translateX(-50%);
+  text-align: center;
+}
+
+.match-timer {
+  font-size: 28px;
+  font-weight: bold;
+}
+
+.match-score {
+  font-size: 13px;
+  font-weight: bold;
+}
+
+.standings-table {
+  color: white;
+  font-size: 1.3rem;
+  border-collapse: collapse;
+  margin-bottom: 1rem;
+}
+
+.standings-table th,
+.standings-table td {
+  padding: 8px 20px;
+  text-align: center;
+  border-bottom: 1px solid rgba(255, 255, 255, 0.2);
+}
+
+.standings-table .own-squad {
+  background-color: rgba(255, 255, 255, 0.1);
+  font-weight: bold;
+}
+
+/* ネイバー遠征 */
+.wave-status {
+  display: none;
+  top: 20px;
+  left: 50%;
+  transform: translateX(-50%);
+  text-align: center;
+  border-color: rgba(136, 68, 255, 0.6);
+}
+
+.wave-title {
+  font-size: 20px;
+  font-weight: bold;
+  color: #cc99ff;
+  margin-bottom: 4px;
+}
+
+.wave-line {
+  font-size: 13px;
+}
+
 /* トリオンゲージ */
 .trion-gauge {
   bottom: 30px;
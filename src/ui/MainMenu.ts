@@ -1,6 +1,13 @@
 import { CharacterTriggerMenu } from './CharacterTriggerMenu';
 import { TriggerSet } from '../triggers/TriggerDefinitions';
 import { CharacterType } from '../components/Character';
+import { GameMode, GameModeSettings, DEFAULT_RANK_WAR_SETTINGS, GameModeUtils } from '../config/GameModes';
+import { GAME_CONFIG } from '../config/GameConfig';
+import { AIDifficulty, AI_DIFFICULTY_PROFILES, DEFAULT_AI_DIFFICULTY } from '../config/AIDifficulty';
+import { SelectionStateManager } from '../managers/SelectionStateManager';
+import { BattleMapId, BattleMapUtils, DEFAULT_BATTLE_MAP } from '../maps/BattleMaps';
+import { ReplayCodec } from '../replay/ReplayCodec';
+import { ReplayData } from '../replay/ReplayData';
 
 /**
  * メインメニューUI管理クラス
@@ -8,7 +15,17 @@ import { CharacterType } from '../components/Character';
 export class MainMenu {
   private menuElement: HTMLElement | null = null;
   private characterTriggerMenu: CharacterTriggerMenu | null = null;
-  private onStartGame: ((character: CharacterType, triggerSet: TriggerSet) => void) | null = null;
+  private rankWarPanel: HTMLElement | null = null;
+  private mapSeedRow: HTMLElement | null = null;
+  private modeSettings: GameModeSettings = {
+    mode: GameMode.FREE_BATTLE,
+    rankWar: { ...DEFAULT_RANK_WAR_SETTINGS },
+    difficulty: SelectionStateManager.loadDifficulty() ?? DEFAULT_AI_DIFFICULTY,
+    map: SelectionStateManager.loadMap() ?? DEFAULT_BATTLE_MAP,
+    mapSeed: SelectionStateManager.loadMapSeed() ?? Math.floor(Math.random() * 10000)
+  };
+  private onStartGame: ((character: CharacterType, triggerSet: TriggerSet, modeSettings: GameModeSettings) => void) | null = null;
+  private onStartReplay: ((replay: ReplayData) => void) | null = null;
 
   constructor() {
     this.createMenu();
@@ -76,9 +93,26 @@ export class MainMenu {
 
     // 戦闘開始ボタン
     const startButton = this.createButton('戦闘開始', '#4CAF50', () => {
+      this.modeSettings.mode = GameMode.FREE_BATTLE;
       this.showCharacterTriggerMenu();
     });
 
+    // ランク戦ボタン
+    const rankWarButton = this.createButton('ランク戦', '#9C27B0', () => {
+      this.toggleRankWarPanel();
+    });
+
+    // ネイバー遠征ボタン
+    const neighborButton = this.createButton('ネイバー遠征', '#FF9800', () => {
+      this.modeSettings.mode = GameMode.NEIGHBOR_INVASION;
+      this.showCharacterTriggerMenu();
+    });
+
+    // リプレイ再生ボタン
+    const replayButton = this.createButton('リプレイ再生', '#00897B', () => {
+      this.openReplayFile();
+    });
+
     // オプションボタン（将来的に実装）
     const optionsButton = this.createButton('オプション', '#2196F3', () => {
       alert('オプションは今後実装予定です');
@@ -91,11 +125,21 @@ export class MainMenu {
       }
     });
 
+    buttonContainer.appendChild(this.createMapSelector());
+    buttonContainer.appendChild(this.mapSeedRow = this.createMapSeedInput());
+    buttonContainer.appendChild(this.createDifficultySelector());
     buttonContainer.appendChild(startButton);
+    buttonContainer.appendChild(rankWarButton);
+    buttonContainer.appendChild(neighborButton);
+    buttonContainer.appendChild(replayButton);
     buttonContainer.appendChild(optionsButton);
     buttonContainer.appendChild(exitButton);
     this.menuElement.appendChild(buttonContainer);
 
+    // ランク戦の設定パネル
+    this.rankWarPanel = this.createRankWarPanel();
+    buttonContainer.insertBefore(this.rankWarPanel, neighborButton);
+
     // 操作説明
     const controls = this.createControlsInfo();
     this.menuElement.appendChild(controls);
@@ -139,6 +183,201 @@ export class MainMenu {
     return button;
   }
 
+  /**
+   * ランク戦の設定パネルを作成
+   */
+  private createRankWarPanel(): HTMLElement {
+    const config = GAME_CONFIG.RANK_WAR;
+    const panel = document.createElement('div');
+    panel.style.cssText = `
+      display: none;
+      flex-direction: column;
+      gap: 10px;
+      padding: 15px 25px;
+      background: rgba(156, 39, 176, 0.2);
+      border: 1px solid rgba(156, 39, 176, 0.6);
+      border-radius: 10px;
+      min-width: 250px;
+    `;
+
+    const squadCountSelect = this.createSelect(
+      Array.from({ length: config.MAX_SQUADS - config.MIN_SQUADS + 1 }, (_, i) => config.MIN_SQUADS + i),
+      this.modeSettings.rankWar.squadCount,
+      count => `${count}部隊`
+    );
+    const squadSizeSelect = this.createSelect(
+      Array.from({ length: config.MAX_SQUAD_SIZE }, (_, i) => i + 1),
+      this.modeSettings.rankWar.squadSize,
+      size => `${size}人`
+    );
+    const timeLimitSelect = this.createSelect(
+      [...config.TIME_LIMIT_OPTIONS],
+      this.modeSettings.rankWar.timeLimit,
+      seconds => `${seconds / 60}分`
+    );
+
+    panel.appendChild(this.createSettingRow('参加部隊', squadCountSelect));
+    panel.appendChild(this.createSettingRow('部隊人数', squadSizeSelect));
+    panel.appendChild(this.createSettingRow('制限時間', timeLimitSelect));
+
+    const confirmButton = this.createButton('部隊編成へ', '#9C27B0', () => {
+      this.modeSettings = {
+        ...this.modeSettings,
+        mode: GameMode.RANK_WAR,
+        rankWar: GameModeUtils.normalizeRankWarSettings({
+          squadCount: Number(squadCountSelect.value),
+          squadSize: Number(squadSizeSelect.value),
+          timeLimit: Number(timeLimitSelect.value)
+        })
+      };
+      this.showCharacterTriggerMenu();
+    });
+    panel.appendChild(confirmButton);
+
+    return panel;
+  }
+
+  /**
+   * 対戦マップの選択欄を作成（選択は次回起動時にも引き継ぐ）
+   */
+  private createMapSelector(): HTMLElement {
+    const select = document.createElement('select');
+    select.style.cssText = `
+      padding: 5px 10px;
+      font-size: 16px;
+      border-radius: 5px;
+    `;
+    for (const map of Object.values(BattleMapId)) {
+      const option = document.createElement('option');
+      option.value = map;
+      option.textContent = BattleMapUtils.getName(map);
+      option.selected = map === this.modeSettings.map;
+      select.appendChild(option);
+    }
+    select.onchange = () => {
+      this.modeSettings.map = select.value as BattleMapId;
+      SelectionStateManager.saveMap(this.modeSettings.map);
+      this.updateMapSeedVisibility();
+    };
+
+    const row = this.createSettingRow('マップ', select);
+    row.style.minWidth = '250px';
+    return row;
+  }
+
+  /**
+   * 自動生成マップのシードの入力欄を作成（同じシードを入力すれば同じ街並みで練習できる）
+   */
+  private createMapSeedInput(): HTMLElement {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = '0';
+    input.step = '1';
+    input.value = this.modeSettings.mapSeed.toString();
+    input.style.cssText = `
+      width: 110px;
+      padding: 5px 10px;
+      font-size: 16px;
+      border-radius: 5px;
+    `;
+    input.onchange = () => {
+      const seed = BattleMapUtils.parseSeed(input.value);
+      if (seed === null) {
+        input.value = this.modeSettings.mapSeed.toString();
+        return;
+      }
+      this.modeSettings.mapSeed = seed;
+      SelectionStateManager.saveMapSeed(seed);
+    };
+
+    const row = this.createSettingRow('シード', input);
+    row.style.minWidth = '250px';
+    row.style.display = this.modeSettings.map === BattleMapId.GENERATED ? 'flex' : 'none';
+    return row;
+  }
+
+  /**
+   * 自動生成マップを選んでいるときだけシードの入力欄を表示
+   */
+  private updateMapSeedVisibility(): void {
+    if (this.mapSeedRow) {
+      this.mapSeedRow.style.display = this.modeSettings.map === BattleMapId.GENERATED ? 'flex' : 'none';
+    }
+  }
+
+  /**
+   * AIの難易度の選択欄を作成（選択は次回起動時にも引き継ぐ）
+   */
+  private createDifficultySelector(): HTMLElement {
+    const select = document.createElement('select');
+    select.style.cssText = `
+      padding: 5px 10px;
+      font-size: 16px;
+      border-radius: 5px;
+    `;
+    for (const difficulty of Object.values(AIDifficulty)) {
+      const option = document.createElement('option');
+      option.value = difficulty;
+      option.textContent = AI_DIFFICULTY_PROFILES[difficulty].label;
+      option.selected = difficulty === this.modeSettings.difficulty;
+      select.appendChild(option);
+    }
+    select.onchange = () => {
+      this.modeSettings.difficulty = select.value as AIDifficulty;
+      SelectionStateManager.saveDifficulty(this.modeSettings.difficulty);
+    };
+
+    const row = this.createSettingRow('AI難易度', select);
+    row.style.minWidth = '250px';
+    return row;
+  }
+
+  /**
+   * 設定項目の行を作成
+   */
+  private createSettingRow(label: string, input: HTMLElement): HTMLElement {
+    const row = document.createElement('label');
+    row.textContent = label;
+    row.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 20px;
+      font-size: 16px;
+    `;
+    row.appendChild(input);
+    return row;
+  }
+
+  /**
+   * 数値の選択肢を作成
+   */
+  private createSelect(values: number[], selected: number, format: (value: number) => string): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.style.cssText = `
+      padding: 5px 10px;
+      font-size: 16px;
+      border-radius: 5px;
+    `;
+    for (const value of values) {
+      const option = document.createElement('option');
+      option.value = value.toString();
+      option.textContent = format(value);
+      option.selected = value === selected;
+      select.appendChild(option);
+    }
+    return select;
+  }
+
+  /**
+   * ランク戦の設定パネルを開閉
+   */
+  private toggleRankWarPanel(): void {
+    if (this.rankWarPanel) {
+      this.rankWarPanel.style.display = this.rankWarPanel.style.display === 'flex' ? 'none' : 'flex';
+    }
+  }
+
   /**
    * 操作説明を作成
    */
@@ -171,7 +410,8 @@ export class MainMenu {
       'R: 武器生成',
       '1-4: トリガー切り替え',
       'Space: ジャンプ',
-      'E: サブアクション（スコープなど）'
+      'E: サブアクション（スコープなど）',
+      `${GAME_CONFIG.REPLAY.SAVE_KEY}: リプレイを保存`
     ];
 
     const controlsGrid = document.createElement('div');
@@ -222,10 +462,32 @@ export class MainMenu {
    */
   private startGame(character: CharacterType, triggerSet: TriggerSet): void {
     if (this.onStartGame) {
-      this.onStartGame(character, triggerSet);
+      this.onStartGame(character, triggerSet, this.modeSettings);
     }
   }
 
+  /**
+   * リプレイファイルを選んで再生する
+   */
+  private openReplayFile(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      const replay = ReplayCodec.parse(await file.text());
+      if (!replay) {
+        alert('リプレイファイルを読み込めませんでした');
+        return;
+      }
+      this.hide();
+      this.onStartReplay?.(replay);
+    };
+    input.click();
+  }
+
   /**
    * 色を暗くする
    */
@@ -262,10 +524,17 @@ export class MainMenu {
   /**
    * ゲーム開始コールバックを設定
    */
-  setOnStartGame(callback: (character: CharacterType, triggerSet: TriggerSet) => void): void {
+  setOnStartGame(callback: (character: CharacterType, triggerSet: TriggerSet, modeSettings: GameModeSettings) => void): void {
     this.onStartGame = callback;
   }
 
+  /**
+   * リプレイ再生コールバックを設定
+   */
+  setOnStartReplay(callback: (replay: ReplayData) => void): void {
+    this.onStartReplay = callback;
+  }
+
   /**
    * メニューを表示
    */
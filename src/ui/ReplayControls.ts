@@ -0,0 +1,126 @@
+import { GAME_CONFIG } from '../config/GameConfig';
+
+/**
+ * リプレイ再生の操作パネル（一時停止・再生速度・シーク・フリーカメラ）
+ * 再生そのものはGameが行い、パネルは操作をコールバックで伝える
+ */
+export class ReplayControls {
+  private element: HTMLElement;
+  private playButton: HTMLButtonElement;
+  private freeCameraButton: HTMLButtonElement;
+  private seekBar: HTMLInputElement;
+  private timeLabel: HTMLElement;
+  private isSeeking: boolean = false;
+  private tickRate: number;
+
+  public onTogglePause: (() => void) | null = null;
+  public onSpeedChange: ((speed: number) => void) | null = null;
+  public onSeek: ((tick: number) => void) | null = null;
+  public onToggleFreeCamera: (() => void) | null = null;
+
+  constructor(container: HTMLElement, tickCount: number, tickRate: number) {
+    this.tickRate = tickRate;
+
+    this.element = document.createElement('div');
+    this.element.style.cssText = `
+      position: absolute;
+      bottom: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      padding: 10px 15px;
+      background: rgba(0, 0, 0, 0.7);
+      border-radius: 8px;
+      color: white;
+      font-family: 'Arial', sans-serif;
+      font-size: 14px;
+      z-index: 1100;
+    `;
+
+    this.playButton = this.createButton('⏸', () => this.onTogglePause?.());
+
+    // 再生速度
+    const speedSelect = document.createElement('select');
+    for (const speed of GAME_CONFIG.REPLAY.SPEEDS) {
+      const option = document.createElement('option');
+      option.value = speed.toString();
+      option.textContent = `×${speed}`;
+      option.selected = speed === 1;
+      speedSelect.appendChild(option);
+    }
+    speedSelect.onchange = () => this.onSpeedChange?.(Number(speedSelect.value));
+
+    // シークバー（離したときにその刻みまで再シミュレーションする）
+    this.seekBar = document.createElement('input');
+    this.seekBar.type = 'range';
+    this.seekBar.min = '0';
+    this.seekBar.max = tickCount.toString();
+    this.seekBar.value = '0';
+    this.seekBar.style.width = '320px';
+    this.seekBar.oninput = () => {
+      this.isSeeking = true;
+      this.updateTimeLabel(Number(this.seekBar.value));
+    };
+    this.seekBar.onchange = () => {
+      this.isSeeking = false;
+      this.onSeek?.(Number(this.seekBar.value));
+    };
+
+    this.timeLabel = document.createElement('span');
+    this.timeLabel.style.cssText = 'min-width: 110px; text-align: center;';
+
+    this.freeCameraButton = this.createButton('フリーカメラ', () => this.onToggleFreeCamera?.());
+
+    this.element.appendChild(this.playButton);
+    this.element.appendChild(speedSelect);
+    this.element.appendChild(this.seekBar);
+    this.element.appendChild(this.timeLabel);
+    this.element.appendChild(this.freeCameraButton);
+    container.appendChild(this.element);
+
+    this.updateTimeLabel(0);
+  }
+
+  /**
+   * 再生状態を表示に反映
+   */
+  update(tick: number, paused: boolean, freeCamera: boolean): void {
+    this.playButton.textContent = paused ? '▶' : '⏸';
+    this.freeCameraButton.style.background = freeCamera ? '#00897B' : '#444';
+    if (!this.isSeeking) {
+      this.seekBar.value = tick.toString();
+      this.updateTimeLabel(tick);
+    }
+  }
+
+  private updateTimeLabel(tick: number): void {
+    const format = (ticks: number) => (ticks / this.tickRate).toFixed(1);
+    this.timeLabel.textContent = `${format(tick)} / ${format(Number(this.seekBar.max))}秒`;
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.style.cssText = `
+      padding: 6px 12px;
+      background: #444;
+      color: white;
+      border: none;
+      border-radius: 5px;
+      cursor: pointer;
+      font-size: 14px;
+    `;
+    // クリックしたボタンにフォーカスが残るとSpaceキー（フリーカメラの上昇）で押されてしまう
+    button.onclick = () => {
+      button.blur();
+      onClick();
+    };
+    return button;
+  }
+
+  destroy(): void {
+    this.element.remove();
+  }
+}
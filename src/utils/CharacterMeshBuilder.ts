@@ -103,14 +103,12 @@ export class CharacterMeshBuilder {
   }
   
   /**
-   * 敵用の人型メッシュを作成
+   * 敵用の人型メッシュを作成（部隊ごとに隊服の色を変更可能）
    */
-  static createEnemyMesh(): THREE.Group {
+  static createEnemyMesh(primaryColor: number = 0xff0044, secondaryColor: number = 0x880022): THREE.Group {
     const character = new THREE.Group();
     
-    // 敵色（赤系）
-    const primaryColor = 0xff0044;
-    const secondaryColor = 0x880022;
+    // 敵色（デフォルトは赤系）
     const skinColor = 0xffdbac;
     
     // 頭
@@ -0,0 +1,64 @@
+/**
+ * シード付きの疑似乱数生成器（mulberry32）
+ * 同じシードからは常に同じ乱数列が得られる
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * 乱数列の現在の状態（スナップショット用）
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * 乱数列の状態を戻す（getStateで取得した値から続きを再現する）
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * 0以上1未満の乱数
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * min以上max未満の実数
+   */
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * min以上max以下の整数
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  /**
+   * 確率probabilityでtrue
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * 配列から1つ選ぶ
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+import { TrionSoldierType } from '../components/TrionSoldier';
+
+/**
+ * トリオン兵のメッシュ作成ユーティリティ
+ * 正面は-Z方向（キャラクターメッシュと同じ）
+ */
+export class TrionSoldierMeshBuilder {
+  private static readonly BODY_COLOR = 0xe8e8e0;
+  private static readonly ARMOR_COLOR = 0x555566;
+  private static readonly EYE_COLOR = 0xff2222;
+
+  /**
+   * 種類に応じたメッシュを作成
+   */
+  static createMesh(type: TrionSoldierType): THREE.Group {
+    switch (type) {
+      case TrionSoldierType.BAMSTER:
+        return this.createBamsterMesh();
+      case TrionSoldierType.MOD:
+        return this.createModMesh();
+      case TrionSoldierType.BANDO:
+        return this.createBandoMesh();
+      case TrionSoldierType.RADO:
+        return this.createRadoMesh();
+    }
+  }
+
+  /**
+   * バムスター：丸い胴体に大きな単眼、太い4本脚
+   */
+  private static createBamsterMesh(): THREE.Group {
+    const group = new THREE.Group();
+
+    // 胴体
+    const body = new THREE.Mesh(
+      new THREE.SphereGeometry(1.4, 16, 12),
+      new THREE.MeshLambertMaterial({ color: this.BODY_COLOR })
+    );
+    body.scale.set(1, 0.9, 1.3);
+    body.position.set(0, 2.4, 0);
+    body.name = 'body';
+    group.add(body);
+
+    // 口（捕獲口）
+    const mouth = new THREE.Mesh(
+      new THREE.BoxGeometry(1.2, 0.6, 0.3),
+      new THREE.MeshLambertMaterial({ color: this.ARMOR_COLOR })
+    );
+    mouth.position.set(0, 1.9, -1.7);
+    mouth.name = 'mouth';
+    group.add(mouth);
+
+    group.add(this.createEye(0.35, new THREE.Vector3(0, 2.8, -1.75)));
+
+    // 脚
+    for (const [x, z] of [[-0.9, -0.9], [0.9, -0.9], [-0.9, 0.9], [0.9, 0.9]]) {
+      const leg = new THREE.Mesh(
+        new THREE.CylinderGeometry(0.25, 0.3, 1.6, 8),
+        new THREE.MeshLambertMaterial({ color: this.ARMOR_COLOR })
+      );
+      leg.position.set(x, 0.8, z);
+      leg.name = 'leg';
+      group.add(leg);
+    }
+
+    return group;
+  }
+
+  /**
+   * モールモッド：低い胴体と鋭いブレード状の脚
+   */
+  private static createModMesh(): THREE.Group {
+    const group = new THREE.Group();
+
+    const body = new THREE.Mesh(
+      new THREE.SphereGeometry(0.6, 12, 10),
+      new THREE.MeshLambertMaterial({ color: this.BODY_COLOR })
+    );
+    body.scale.set(1, 0.7, 1.2);
+    body.position.set(0, 0.9, 0);
+    body.name = 'body';
+    group.add(body);
+
+    group.add(this.createEye(0.15, new THREE.Vector3(0, 1.0, -0.7)));
+
+    // ブレード（前方に振りかざす2本と、体を支える4本）
+    const bladeMaterial = new THREE.MeshLambertMaterial({ color: 0xccccff });
+    for (const side of [-1, 1]) {
+      const blade = new THREE.Mesh(new THREE.BoxGeometry(0.08, 0.08, 1.4), bladeMaterial);
+      blade.position.set(side * 0.5, 1.3, -0.8);
+      blade.rotation.x = -0.4;
+      blade.name = 'blade';
+      group.add(blade);
+
+      for (const z of [-0.3, 0.4]) {
+        const leg = new THREE.Mesh(new THREE.BoxGeometry(0.08, 1.0, 0.08), bladeMaterial);
+        leg.position.set(side * 0.6, 0.45, z);
+        leg.rotation.z = side * 0.5;
+        leg.name = 'leg';
+        group.add(leg);
+      }
+    }
+
+    return group;
+  }
+
+  /**
+   * バンダー：翼を持つ飛行型
+   */
+  private static createBandoMesh(): THREE.Group {
+    const group = new THREE.Group();
+
+    const body = new THREE.Mesh(
+      new THREE.CylinderGeometry(0.5, 0.3, 2.0, 10),
+      new THREE.MeshLambertMaterial({ color: this.BODY_COLOR })
+    );
+    body.rotation.x = Math.PI / 2;
+    body.position.set(0, 0.5, 0);
+    body.name = 'body';
+    group.add(body);
+
+    group.add(this.createEye(0.2, new THREE.Vector3(0, 0.5, -1.05)));
+
+    // 翼
+    const wingMaterial = new THREE.MeshLambertMaterial({ color: this.ARMOR_COLOR, side: THREE.DoubleSide });
+    for (const side of [-1, 1]) {
+      const wing = new THREE.Mesh(new THREE.BoxGeometry(1.8, 0.05, 0.9), wingMaterial);
+      wing.position.set(side * 1.2, 0.55, 0.1);
+      wing.rotation.z = side * 0.15;
+      wing.name = 'wing';
+      group.add(wing);
+    }
+
+    // 爆弾倉
+    const bay = new THREE.Mesh(
+      new THREE.BoxGeometry(0.5, 0.3, 0.8),
+      new THREE.MeshLambertMaterial({ color: 0x333333 })
+    );
+    bay.position.set(0, 0.1, 0);
+    bay.name = 'bombBay';
+    group.add(bay);
+
+    return group;
+  }
+
+  /**
+   * ラッド：小型の偵察型、アンテナ付き
+   */
+  private static createRadoMesh(): THREE.Group {
+    const group = new THREE.Group();
+
+    const body = new THREE.Mesh(
+      new THREE.SphereGeometry(0.3, 10, 8),
+      new THREE.MeshLambertMaterial({ color: this.BODY_COLOR })
+    );
+    body.position.set(0, 0.35, 0);
+    body.name = 'body';
+    group.add(body);
+
+    group.add(this.createEye(0.08, new THREE.Vector3(0, 0.4, -0.3)));
+
+    // アンテナ
+    const antenna = new THREE.Mesh(
+      new THREE.CylinderGeometry(0.02, 0.02, 0.5, 6),
+      new THREE.MeshLambertMaterial({ color: this.ARMOR_COLOR })
+    );
+    antenna.position.set(0, 0.85, 0);
+    antenna.name = 'antenna';
+    group.add(antenna);
+
+    const dish = new THREE.Mesh(
+      new THREE.SphereGeometry(0.1, 8, 6),
+      new THREE.MeshBasicMaterial({ color: 0x66ffcc })
+    );
+    dish.position.set(0, 1.1, 0);
+    dish.name = 'sensor';
+    group.add(dish);
+
+    return group;
+  }
+
+  /**
+   * 単眼（トリオン兵共通の弱点の目）
+   */
+  private static createEye(radius: number, position: THREE.Vector3): THREE.Mesh {
+    const eye = new THREE.Mesh(
+      new THREE.SphereGeometry(radius, 10, 8),
+      new THREE.MeshBasicMaterial({ color: this.EYE_COLOR })
+    );
+    eye.position.copy(position);
+    eye.name = 'eye';
+    return eye;
+  }
+}